@@ -0,0 +1,36 @@
+// /app/api/_lib/admin.ts
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Guard for operator-only routes (/api/admin/*).
+ * Expects `Authorization: Bearer <ADMIN_API_TOKEN>`; returns a 401/503 response
+ * to send back, or null when the caller is allowed through.
+ */
+export function requireAdmin(req: Request): NextResponse | null {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json({ ok: false, error: "Admin API is not configured" }, { status: 503 });
+  }
+
+  const header = req.headers.get("authorization") || "";
+  const given = header.replace(/^Bearer\s+/i, "");
+  const a = crypto.createHash("sha256").update(given).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  if (!given || !crypto.timingSafeEqual(a, b)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * Error reply for admin routes. Errors carrying an HTTP `status` (ToolVersionError)
+ * are the caller's fault and pass through with any lint `report`; anything else is a 500.
+ */
+export function adminErrorResponse(tag: string, err: any): NextResponse {
+  if (typeof err?.status === "number") {
+    return NextResponse.json({ ok: false, error: err.message, ...(err.report ? { report: err.report } : {}) }, { status: err.status });
+  }
+  console.error(`[${tag}] error:`, err?.message);
+  return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+}
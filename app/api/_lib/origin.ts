@@ -0,0 +1,22 @@
+// /app/api/_lib/origin.ts
+
+const DEV_ORIGIN = "http://localhost:4000"; // `pnpm dev` port
+
+/**
+ * This app's public origin, for descriptors with relative urlTemplates.
+ * Comes from `APP_ORIGIN` (e.g. https://vox.example.com), never from the request's
+ * Host / X-Forwarded-* headers, which the caller controls. Falls back to the dev
+ * server outside production; otherwise "" and relative templates fail to render.
+ */
+export function appOrigin(): string {
+  const configured = process.env.APP_ORIGIN?.trim();
+  if (configured) {
+    try {
+      return new URL(configured).origin;
+    } catch {
+      console.error(`[origin] APP_ORIGIN is not a valid URL: ${configured}`);
+      return "";
+    }
+  }
+  return process.env.NODE_ENV === "production" ? "" : DEV_ORIGIN;
+}
@@ -31,5 +31,6 @@ export async function getActiveOtpSession(req: Request) {
     sessionTokenHash,
     tenantId: auth.tenantId as string,
     email: auth.email as string,
+    sandbox: auth.sandbox === true,   // set through /api/tools/sandbox
   };
 }
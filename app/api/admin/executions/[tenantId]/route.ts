@@ -0,0 +1,35 @@
+// app/api/admin/executions/[tenantId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/app/api/_lib/admin";
+import { listToolExecutions, parseExecutionFilter, type ToolExecutionFilter } from "@/lib/tools/execution-log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/executions/:tenantId?tool=&since=24h|from=&to=&status=5xx&ok=false&session=&trace=&limit=&before=
+ * -> tool executions, newest first. Page with `before` = the `at` of the last entry.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ tenantId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  const sp = req.nextUrl.searchParams;
+  let filter: ToolExecutionFilter;
+  let before: Date | undefined;
+  try {
+    filter = parseExecutionFilter(tenantId, sp);
+    before = sp.get("before") ? new Date(sp.get("before")!) : undefined;
+    if (before && Number.isNaN(before.getTime())) throw new Error("before must be an ISO date");
+  } catch (err: any) {
+    return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+  }
+
+  try {
+    const entries = await listToolExecutions(filter, { limit: Number(sp.get("limit")) || undefined, before });
+    return NextResponse.json({ ok: true, tenantId, entries });
+  } catch (err: any) {
+    console.error("[admin-executions] list error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/admin/executions/[tenantId]/stats/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/app/api/_lib/admin";
+import { parseExecutionFilter, toolExecutionStats, type ToolExecutionFilter } from "@/lib/tools/execution-log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/executions/:tenantId/stats?since=24h&tool=&status=&ok=
+ * -> { overall, tools: [{ tool, count, errors, errorRate, statuses, p50Ms, p95Ms, maxMs, lastErrorAt }],
+ *      toolCount, truncated }
+ * Same filters as the list. Without since/from, the last 24 hours. Aggregated in Mongo
+ * over every matching call; `tools` lists the 200 busiest (`truncated` when there were more).
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ tenantId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  let filter: ToolExecutionFilter;
+  try {
+    filter = parseExecutionFilter(tenantId, req.nextUrl.searchParams);
+  } catch (err: any) {
+    return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+  }
+  filter.from ??= new Date(Date.now() - 86_400_000);
+
+  try {
+    const stats = await toolExecutionStats(filter);
+    return NextResponse.json({ ok: true, tenantId, from: filter.from, to: filter.to ?? null, ...stats });
+  } catch (err: any) {
+    console.error("[admin-executions] stats error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/admin/secrets/[tenantId]/audit/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/app/api/_lib/admin";
+import { listSecretAudit } from "@/lib/secrets/vault";
+
+export const runtime = "nodejs";
+
+/** GET /api/admin/secrets/:tenantId/audit?name=&limit= -> most recent reads/writes first */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ tenantId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  const sp = req.nextUrl.searchParams;
+  try {
+    const entries = await listSecretAudit(tenantId, {
+      name: sp.get("name") || undefined,
+      limit: Number(sp.get("limit")) || undefined,
+    });
+    return NextResponse.json({ ok: true, tenantId, entries });
+  } catch (err: any) {
+    console.error("[admin-secrets] audit error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/admin/secrets/[tenantId]/rewrap/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/app/api/_lib/admin";
+import { rewrapTenantSecrets } from "@/lib/secrets/vault";
+
+export const runtime = "nodejs";
+
+/** POST /api/admin/secrets/:tenantId/rewrap -> re-seal data keys under the current master key */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ tenantId: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  try {
+    const rewrapped = await rewrapTenantSecrets(tenantId);
+    return NextResponse.json({ ok: true, tenantId, rewrapped });
+  } catch (err: any) {
+    console.error("[admin-secrets] rewrap error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+// app/api/admin/secrets/[tenantId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/app/api/_lib/admin";
+import {
+  SECRET_NAME_RE,
+  deleteTenantSecret,
+  listTenantSecrets,
+  setTenantSecret,
+} from "@/lib/secrets/vault";
+
+export const runtime = "nodejs";
+
+/**
+ * Per-tenant secrets for {{secrets.*}} tokens.
+ *   GET    /api/admin/secrets/:tenantId             -> names + versions (never values)
+ *   POST   /api/admin/secrets/:tenantId             { name, value } -> create, or rotate if it exists
+ *   DELETE /api/admin/secrets/:tenantId?name=...    -> remove
+ */
+
+const SetSchema = z.object({
+  name: z.string().regex(SECRET_NAME_RE, "name must be letters, digits or _ (max 64)"),
+  value: z.string().min(1, "value is required").max(8192),
+  actor: z.string().max(120).optional(),
+});
+
+type Params = { params: Promise<{ tenantId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  try {
+    const secrets = await listTenantSecrets(tenantId);
+    return NextResponse.json({ ok: true, tenantId, secrets });
+  } catch (err: any) {
+    console.error("[admin-secrets] list error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  const parsed = SetSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: parsed.error.issues.map(i => i.message).join("; ") }, { status: 400 });
+  }
+
+  try {
+    const { name, value, actor } = parsed.data;
+    const secret = await setTenantSecret(tenantId, name, value, actor ? `admin:${actor}` : "admin");
+    return NextResponse.json({ ok: true, secret });
+  } catch (err: any) {
+    console.error("[admin-secrets] set error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  const name = req.nextUrl.searchParams.get("name") ?? "";
+  if (!SECRET_NAME_RE.test(name)) {
+    return NextResponse.json({ ok: false, error: "name query parameter is required" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteTenantSecret(tenantId, name);
+    return NextResponse.json({ ok: deleted, deleted }, { status: deleted ? 200 : 404 });
+  } catch (err: any) {
+    console.error("[admin-secrets] delete error:", err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
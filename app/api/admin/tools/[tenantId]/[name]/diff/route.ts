@@ -0,0 +1,31 @@
+// app/api/admin/tools/[tenantId]/[name]/diff/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, adminErrorResponse } from "@/app/api/_lib/admin";
+import { diffVersions, parseVersionRef } from "@/lib/registry/toolVersions";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/tools/:tenantId/:name/diff?from=published&to=draft
+ * `from` / `to` are version numbers, "draft" or "published" (the defaults).
+ * Returns [{ path, op: added | removed | changed, from?, to? }].
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ tenantId: string; name: string }> }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId, name } = await params;
+  const sp = req.nextUrl.searchParams;
+  const from = parseVersionRef(sp.get("from") ?? "published");
+  const to = parseVersionRef(sp.get("to") ?? "draft");
+  if (from === null || to === null) {
+    return NextResponse.json({ ok: false, error: "from/to must be a version number, draft or published" }, { status: 400 });
+  }
+
+  try {
+    const changes = await diffVersions(tenantId, name, from, to);
+    return NextResponse.json({ ok: true, tenantId, name, from, to, changes });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
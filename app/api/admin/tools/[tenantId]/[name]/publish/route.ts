@@ -0,0 +1,35 @@
+// app/api/admin/tools/[tenantId]/[name]/publish/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin, adminErrorResponse } from "@/app/api/_lib/admin";
+import { publishDraft } from "@/lib/registry/toolVersions";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/admin/tools/:tenantId/:name/publish { actor? }
+ * Re-lints the draft and makes it live as the next version (422 with the report on lint errors).
+ */
+
+const PublishSchema = z.object({ actor: z.string().max(120).optional() });
+
+type Params = { params: Promise<{ tenantId: string; name: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId, name } = await params;
+  const parsed = PublishSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: parsed.error.issues.map(i => i.message).join("; ") }, { status: 400 });
+  }
+
+  try {
+    const { actor } = parsed.data;
+    const { version, report } = await publishDraft(tenantId, name, { actor: actor ? `admin:${actor}` : "admin" });
+    return NextResponse.json({ ok: true, version, report });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/admin/tools/[tenantId]/[name]/rollback/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin, adminErrorResponse } from "@/app/api/_lib/admin";
+import { rollbackTool } from "@/lib/registry/toolVersions";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/admin/tools/:tenantId/:name/rollback { version, actor? }
+ * Republishes that version's descriptor as a new version. A pending draft is kept.
+ */
+
+const RollbackSchema = z.object({
+  version: z.number().int().positive(),
+  actor: z.string().max(120).optional(),
+});
+
+type Params = { params: Promise<{ tenantId: string; name: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId, name } = await params;
+  const parsed = RollbackSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: parsed.error.issues.map(i => i.message).join("; ") }, { status: 400 });
+  }
+
+  try {
+    const { version: to, actor } = parsed.data;
+    const { version, report } = await rollbackTool(tenantId, name, to, { actor: actor ? `admin:${actor}` : "admin" });
+    return NextResponse.json({ ok: true, version, report });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
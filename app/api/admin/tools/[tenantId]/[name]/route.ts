@@ -0,0 +1,50 @@
+// app/api/admin/tools/[tenantId]/[name]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, adminErrorResponse } from "@/app/api/_lib/admin";
+import { discardDraft, getTool, getVersion, parseVersionRef, removeTool } from "@/lib/registry/toolVersions";
+
+export const runtime = "nodejs";
+
+/**
+ * One tool.
+ *   GET    /api/admin/tools/:tenantId/:name              -> published, draft, version history
+ *   GET    /api/admin/tools/:tenantId/:name?version=3    -> that descriptor ("draft" / "published" too)
+ *   DELETE /api/admin/tools/:tenantId/:name?draft=1      -> discard the draft only
+ *   DELETE /api/admin/tools/:tenantId/:name              -> unpublish and drop the draft (history kept)
+ */
+
+type Params = { params: Promise<{ tenantId: string; name: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId, name } = await params;
+  const raw = req.nextUrl.searchParams.get("version");
+  try {
+    if (raw === null) return NextResponse.json({ ok: true, tenantId, ...(await getTool(tenantId, name)) });
+
+    const ref = parseVersionRef(raw);
+    if (ref === null) {
+      return NextResponse.json({ ok: false, error: "version must be a number, draft or published" }, { status: 400 });
+    }
+    return NextResponse.json({ ok: true, tenantId, name, version: ref, descriptor: await getVersion(tenantId, name, ref) });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId, name } = await params;
+  const draftOnly = req.nextUrl.searchParams.get("draft") === "1";
+  try {
+    const removed = draftOnly ? await discardDraft(tenantId, name) : await removeTool(tenantId, name);
+    if (!removed) return NextResponse.json({ ok: false, error: draftOnly ? "No draft" : "Not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
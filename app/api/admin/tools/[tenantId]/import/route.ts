@@ -0,0 +1,76 @@
+// app/api/admin/tools/[tenantId]/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin, adminErrorResponse } from "@/app/api/_lib/admin";
+import { importOpenApi, listOpenApiOperations } from "@/lib/tools/openapi-import";
+import { lintHttpToolDescriptors, LINTER_VERSION } from "@/lib/validator/lint-tools";
+import { saveDrafts } from "@/lib/registry/toolVersions";
+
+export const runtime = "nodejs";
+
+/**
+ * OpenAPI 3 (JSON) -> http_tool descriptors for a tenant.
+ *   POST /api/admin/tools/:tenantId/import { document, operations?, ... }
+ * Returns the document's operations, the generated descriptors and their lint report.
+ * With save: true, descriptors without lint errors are saved as drafts (tools that
+ * already exist are skipped unless overwrite: true). Imported tools start disabled.
+ */
+
+const ImportSchema = z.object({
+  document: z.union([z.record(z.any()), z.string().min(2)]),
+  operations: z.array(z.string().min(1)).optional(),
+  baseUrl: z.string().url().optional(),
+  namePrefix: z.string().regex(/^[a-z0-9_]{0,24}$/, "namePrefix must be lowercase letters, digits or _").optional(),
+  secretNames: z.record(z.string().regex(/^[A-Za-z0-9_]{1,64}$/)).optional(),
+  enabled: z.boolean().optional(),
+  save: z.boolean().default(false),
+  overwrite: z.boolean().default(false),
+  actor: z.string().max(120).optional(),
+});
+
+type Params = { params: Promise<{ tenantId: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  const parsed = ImportSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: parsed.error.issues.map(i => i.message).join("; ") }, { status: 400 });
+  }
+  const { document, save, overwrite, actor, ...opts } = parsed.data;
+
+  let doc: unknown;
+  let imported;
+  try {
+    doc = typeof document === "string" ? JSON.parse(document) : document;
+    imported = importOpenApi(doc, { ...opts, tenantId });
+  } catch (err: any) {
+    return NextResponse.json({ ok: false, error: `Cannot import document: ${err?.message || err}` }, { status: 400 });
+  }
+
+  const report = lintHttpToolDescriptors(imported.descriptors);
+  const clean = imported.descriptors.filter((d) =>
+    !report.find((r) => r.name === d.name)?.issues.some((i) => i.severity === "error")
+  );
+
+  try {
+    const saved = save
+      ? await saveDrafts(tenantId, clean, { overwrite, actor: actor ? `admin:${actor}` : "admin", note: "OpenAPI import" })
+      : [];
+    return NextResponse.json({
+      ok: true,
+      tenantId,
+      linterVersion: LINTER_VERSION,
+      operations: listOpenApiOperations(doc, opts.namePrefix),
+      descriptors: imported.descriptors,
+      skipped: imported.skipped,
+      warnings: imported.warnings,
+      report,
+      saved,
+    });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/admin/tools/[tenantId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin, adminErrorResponse } from "@/app/api/_lib/admin";
+import { listTools, saveDraft } from "@/lib/registry/toolVersions";
+
+export const runtime = "nodejs";
+
+/**
+ * Tool descriptors of a tenant (`actions` holds the published versions).
+ *   GET  /api/admin/tools/:tenantId   -> names, kind, published version, pending draft
+ *   POST /api/admin/tools/:tenantId   { descriptor, note?, actor? } -> create or replace the draft
+ * Drafts are linted on save (error-severity issues -> 422 with the report) and go live
+ * through POST /api/admin/tools/:tenantId/:name/publish.
+ */
+
+const DraftSchema = z.object({
+  descriptor: z.record(z.any()),
+  note: z.string().max(500).optional(),
+  actor: z.string().max(120).optional(),
+});
+
+type Params = { params: Promise<{ tenantId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  try {
+    const tools = await listTools(tenantId);
+    return NextResponse.json({ ok: true, tenantId, tools });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const { tenantId } = await params;
+  const parsed = DraftSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: parsed.error.issues.map(i => i.message).join("; ") }, { status: 400 });
+  }
+
+  try {
+    const { descriptor, note, actor } = parsed.data;
+    const { draft, report } = await saveDraft(tenantId, descriptor, { note, actor: actor ? `admin:${actor}` : "admin" });
+    return NextResponse.json({ ok: true, draft, report });
+  } catch (err: any) {
+    return adminErrorResponse("admin-tools", err);
+  }
+}
@@ -112,7 +112,9 @@ async function createSession(req: NextRequest) {
     },
   };
 
-  const upstream = await fetch("https://api.openai.com/v1/realtime/sessions", {
+  // OPENAI_REALTIME_SESSIONS_URL lets local/CI runs target xtest/mock-realtime
+  const sessionsUrl = process.env.OPENAI_REALTIME_SESSIONS_URL || "https://api.openai.com/v1/realtime/sessions";
+  const upstream = await fetch(sessionsUrl, {
     method: "POST",
     headers: { 
       Authorization: `Bearer ${process.env.OPENAI_API_KEY}`, 
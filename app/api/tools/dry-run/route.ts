@@ -0,0 +1,61 @@
+// app/api/tools/dry-run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdmin } from "@/app/api/_lib/admin";
+import { appOrigin } from "@/app/api/_lib/origin";
+import { dryRunTool } from "@/lib/tools/dry-run";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/tools/dry-run { tenantId, descriptor, args?, mode?, mock? }
+ * Lints a descriptor, checks sample args and renders the request it would send
+ * (secrets as placeholders). mode "mock" runs the response half on `mock`
+ * ({ status, body, contentType? }), or on the descriptor's own `mock` block when none is
+ * given; mode "live" calls the upstream with the tenant's
+ * secrets and therefore needs the admin token. The /validate console previews the
+ * result's UI with the same code the agent uses.
+ */
+
+const DryRunSchema = z.object({
+  tenantId: z.string().min(1, "tenantId is required"),
+  descriptor: z.record(z.any()),
+  args: z.record(z.any()).default({}),
+  mode: z.enum(["render", "mock", "live"]).default("render"),
+  mock: z
+    .object({
+      status: z.number().int().min(100).max(599).default(200),
+      body: z.any(),
+      contentType: z.string().max(200).optional(),
+    })
+    .optional(),
+});
+
+const mkTraceId = () => `dryrun_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+export async function POST(req: NextRequest) {
+  const parsed = DryRunSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: parsed.error.issues.map(i => i.message).join("; ") }, { status: 400 });
+  }
+  const { tenantId, descriptor, args, mode, mock } = parsed.data;
+
+  if (mode === "live") {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+  }
+
+  const traceId = mkTraceId();
+  try {
+    const result = await dryRunTool(descriptor, args, {
+      mode,
+      mock,
+      exec: { tenantId, sessionId: null, traceId, baseUrl: appOrigin() },
+    });
+    if (mode === "live") console.log(`[dry-run] ${traceId} live call`, { tenantId, tool: descriptor.name, status: result.response?.status });
+    return NextResponse.json({ ok: true, traceId, ...result });
+  } catch (err: any) {
+    console.error(`[dry-run] ${traceId} error:`, err?.message);
+    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 });
+  }
+}
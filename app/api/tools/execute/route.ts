@@ -1,170 +1,254 @@
 // src/app/api/tools/execute/route.ts
 import { NextRequest, NextResponse } from "next/server";
 
-import { tpl, applyTemplate, pruneEmpty } from "@/lib/utils";
+import { EgressBlockedError } from "@/lib/net/egress-guard";
+import { shapeResponse } from "@/lib/tools/shape-response";
+import { executeHttpTool, isExecutionOk, type ToolExecution, type ToolExecutionContext } from "@/lib/tools/http-executor";
+import { executeGraphqlTool, graphqlAsHttpDescriptor } from "@/lib/tools/graphql-executor";
+import { executeMongoTool } from "@/lib/tools/mongo-executor";
+import { mockHttpExecution, sandboxUnavailable } from "@/lib/tools/mock-response";
+import { withIdempotency, withWorkflowIdempotency } from "@/lib/tools/idempotency";
+import { describeFailure, recordToolExecution, type ToolExecutionEntry } from "@/lib/tools/execution-log";
+import { runWorkflow, type StepOutcome } from "@/lib/tools/workflow-runner";
+import { loadTenantToolDescriptor } from "@/lib/registry/loadToolDescriptor";
+import { invalidArgsOutput, validateToolArgs } from "@/lib/tools/validate-args";
+import { isTenantSandboxed } from "@/lib/tenants/sandbox";
+import { getActiveOtpSession } from "@/app/api/_lib/session";
+import { appOrigin } from "@/app/api/_lib/origin";
+import type { ToolRegistryItem } from "@/types/toolRegistry.schema";
+
+type SingleCallTool = Exclude<ToolRegistryItem, { kind: "workflow_tool" }>;
+
+/**
+ * sandbox: answer from descriptor mocks instead of calling out (tenant flag or session opt-in).
+ * dedupe: idempotency for non-GET http tools and graphql mutations; off for workflow steps, whose replay could
+ * hand back a write an earlier run already compensated (the workflow call is keyed instead).
+ * confirmed: the browser's confirmation gate opened for this call (the guest said yes).
+ */
+type ExecuteContext = ToolExecutionContext & { sandbox: boolean; dedupe: boolean; confirmed: boolean };
+
+/** What is known about a call so far, for its tool_executions record */
+type AuditContext = Pick<ToolExecutionEntry, "tenantId" | "sessionTokenHash" | "tool" | "traceId"> & Partial<ToolExecutionEntry>;
 
 /** Simple trace id for correlating logs across hops */
 const mkTraceId = (prefix = "exec") =>
   `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2)}`;
 
-/** Redact obvious secrets in headers */
-function redactHeaders(h: Record<string, string>) {
-  const out: Record<string, string> = {};
-  for (const [k, v] of Object.entries(h || {})) {
-    const low = k.toLowerCase();
-    out[k] =
-      low.includes("authorization") || low.includes("api-key") || low.includes("x-api-key")
-        ? "[REDACTED]"
-        : v;
+/** JSON reply to the client executor; shaped (`{ full, model }`) when the descriptor has a response block */
+function toolJsonResponse(descriptor: any, j: any, status: number, args: any, headers: Record<string, string>) {
+  if (descriptor.response) {
+    const model = shapeResponse(j, descriptor.response, { args, status });
+    return NextResponse.json({ full: j, model }, { status, headers: { ...headers, "x-tool-shaped": "1" } });
   }
-  return out;
+  return NextResponse.json(j, { status, headers });
 }
 
-/** Truncate large payloads to keep logs readable */
-function snap(v: unknown, n = 1500) {
-  try {
-    const s = typeof v === "string" ? v : JSON.stringify(v);
-    if (!s) return s;
-    return s.length > n ? s.slice(0, n) + "…(truncated)" : s;
-  } catch {
-    return String(v);
-  }
-}
-
-// Replace with your real secret store (KMS, Vault, Mongo per-tenant, etc.)
-function resolveSecret(path: string, tenantId?: string): string {
-  // path looks like "secrets.booking_api_key"
-  if (path === "secrets.booking_api_key") {
-    return process.env.BOOKING_API_KEY ?? "";
+/** The descriptor's mock after its latency; tools without one answer 503 */
+async function sandboxExecution(d: SingleCallTool, args: Record<string, any>, traceId: string) {
+  const mocked = d.kind === "http_tool" ? mockHttpExecution(d, args) : null;
+  if (!mocked) {
+    console.warn(`[EXEC] ${traceId} sandbox: ${d.name} has no mock`);
+    return { exec: sandboxUnavailable(d.name), ok: false };
   }
-  // TODO: In production, fetch from secure store based on tenantId
-  // e.g., const secretValue = await getSecretFromVault(tenantId, path);
-  return "";
+  if (mocked.latencyMs) await new Promise((r) => setTimeout(r, mocked.latencyMs));
+  console.log(`[EXEC] ${traceId} sandbox: ${d.name} mock ${mocked.matched == null ? "default" : `case ${mocked.matched}`}`);
+  return { exec: mocked.exec, ok: isExecutionOk(mocked.exec, d.kind === "http_tool" ? d.http.okField : "ok") };
 }
 
-// Enhanced URL validation to prevent SSRF
-function validateUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    const protocol = parsed.protocol.toLowerCase();
-    if (protocol !== "http:" && protocol !== "https:") {
-      throw new Error(`Invalid protocol: ${protocol}. Only http/https allowed.`);
+/** One upstream call for any non-workflow kind; `ok` is okField for http tools, `ok` in the reply otherwise */
+async function executeSingleTool(
+  d: SingleCallTool,
+  args: Record<string, any>,
+  execCtx: ExecuteContext
+): Promise<{ exec: ToolExecution; ok: boolean; replayed?: boolean }> {
+  if (execCtx.sandbox) return sandboxExecution(d, args, execCtx.traceId);
+  let exec: ToolExecution;
+  switch (d.kind) {
+    case "graphql_tool": {
+      // deduped as its http equivalent, which carries the idempotency block for mutations only
+      const http = graphqlAsHttpDescriptor(d);
+      const run = (idempotencyKey: string | null) => executeGraphqlTool(d, args, { ...execCtx, idempotencyKey });
+      const { exec, replayed } =
+        execCtx.dedupe && typeof http !== "string"
+          ? await withIdempotency(http, args, execCtx, run)
+          : { exec: await run(null), replayed: false };
+      return { exec, ok: isExecutionOk(exec, "ok"), replayed };
     }
-    // Optional: Add allowlist for hosts/domains if needed
-    // if (!allowedHosts.has(parsed.hostname)) throw new Error("Host not allowed");
-    // Prevent localhost/internal IPs (basic SSRF mitigation)
-    const hostname = parsed.hostname.toLowerCase();
-    if (hostname === "localhost" || hostname.startsWith("127.") || hostname.startsWith("192.168.") || hostname.startsWith("10.") || hostname === "[::1]") {
-      throw new Error("Access to internal/localhost URLs is prohibited.");
+    case "mongo_tool":
+      exec = await executeMongoTool(d, args, execCtx);
+      return { exec, ok: isExecutionOk(exec, "ok") };
+    default: {
+      const run = (idempotencyKey: string | null) => executeHttpTool(d, args, { ...execCtx, idempotencyKey });
+      const { exec, replayed } = execCtx.dedupe
+        ? await withIdempotency(d, args, execCtx, run)
+        : { exec: await run(null), replayed: false };
+      return { exec, ok: isExecutionOk(exec, d.http.okField), replayed };
     }
-    return parsed.toString();
-  } catch (err: any) {
-    throw new Error(`Invalid URL: ${err.message}`);
   }
 }
 
+/** 428 body for a requiresConfirmation tool called without the gate's flag */
+const confirmationRequired = (name: string) => ({
+  ok: false,
+  code: "CONFIRMATION_REQUIRED",
+  error: `${name} needs the guest's confirmation before it runs; nothing was done.`,
+});
+
+/** tenant_id in args is pinned to the session tenant, whatever the model/browser sent */
+function pinTenantArg(raw: Record<string, any> | null | undefined, parameters: unknown, tenantId: string) {
+  const args: Record<string, any> = { ...(raw ?? {}) };
+  const declared = (parameters as { properties?: Record<string, unknown> } | null)?.properties;
+  if ("tenant_id" in args || declared?.tenant_id) args.tenant_id = tenantId;
+  return args;
+}
+
 export async function POST(req: NextRequest) {
   const traceId = req.headers.get("x-trace-id") ?? mkTraceId();
+  const started = Date.now();
+
+  // Every call that gets past the session check ends up in tool_executions
+  let audit: AuditContext | null = null;
+  const logged = (res: NextResponse, ok: boolean, body?: unknown, extra: Partial<ToolExecutionEntry> = {}) => {
+    if (audit) {
+      recordToolExecution({
+        kind: null,
+        version: null,
+        ...audit,
+        status: res.status,
+        ok,
+        latencyMs: Date.now() - started,
+        ...(ok ? {} : describeFailure(body, res.status)),
+        ...extra,
+      });
+    }
+    return res;
+  };
+  const failed = (body: Record<string, any>, status: number) => logged(NextResponse.json(body, { status }), false, body);
+
   try {
-    const started = Date.now();
-    const { descriptor, args } = await req.json();
+    const { tenantId, toolName, args: rawArgs, confirmed } = (await req.json().catch(() => ({}))) ?? {};
 
-    if (!descriptor || typeof descriptor !== "object" || !descriptor.http) {
-      throw new Error("Invalid descriptor: http config required.");
+    if (typeof tenantId !== "string" || !tenantId || typeof toolName !== "string" || !toolName) {
+      return NextResponse.json({ ok: false, error: "tenantId and toolName are required" }, { status: 400 });
     }
-    if (!args || typeof args !== "object") {
-      throw new Error("Invalid args: object required.");
+    if (rawArgs != null && typeof rawArgs !== "object") {
+      return NextResponse.json({ ok: false, error: "Invalid args: object required." }, { status: 400 });
     }
 
-    const toolName: string = descriptor?.name ?? "(unknown)";
-    const tenantId: string | undefined = args?.tenant_id;
-
-    // Secrets proxy used by {{secrets.*}} tokens
-    const secretsProxy = new Proxy({}, {
-      get(_t, prop: string) {
-        return resolveSecret(`secrets.${String(prop)}`, tenantId);
-      },
-    });
+    // Caller must hold an OTP session for this tenant
+    const sess = await getActiveOtpSession(req);
+    if (!sess) return NextResponse.json({ ok: false, error: "No active session" }, { status: 401 });
+    if (sess.tenantId !== tenantId) {
+      console.warn(`[EXEC] ${traceId} tenant mismatch`, { session: sess.tenantId, requested: tenantId, tool: toolName });
+      return NextResponse.json({ ok: false, error: "Tool not available for this session" }, { status: 403 });
+    }
 
-    const ctx = { ...args, args, secrets: secretsProxy };
+    audit = { tenantId, sessionTokenHash: sess.sessionTokenHash, tool: toolName, traceId, args: rawArgs ?? null };
 
-    const method = descriptor?.http?.method?.toUpperCase() ?? "POST";
-    const rawUrl = String(descriptor.http.urlTemplate || "");
-    if (!rawUrl) {
-      throw new Error("urlTemplate is required in http config.");
+    // The descriptor comes from the registry, never from the browser
+    const lookup = await loadTenantToolDescriptor(tenantId, toolName);
+    if (!lookup.ok) {
+      const status = lookup.reason === "not_found" ? 404 : lookup.reason === "disabled" ? 403 : 422;
+      return failed({ ok: false, error: lookup.message, code: lookup.reason }, status);
     }
-    const templatedUrl = tpl(rawUrl, ctx);
-
-    // Build and validate URL
-    const proto = req.headers.get("x-forwarded-proto") ?? "http";
-    const host = req.headers.get("host") ?? "localhost";
-    let targetUrl = templatedUrl;
-    if (!/^(?:https?:)?\/\//.test(templatedUrl)) {
-      // Relative URL: prepend base
-      targetUrl = new URL(templatedUrl, `${proto}://${host}`).toString();
+    const descriptor = lookup.descriptor;
+    const args = pinTenantArg(rawArgs, descriptor.parameters, tenantId);
+    audit = { ...audit, kind: descriptor.kind, version: descriptor.version ?? null, args };
+
+    // Arguments must satisfy the descriptor's JSON Schema before anything is templated
+    const check = validateToolArgs(args, descriptor.parameters);
+    if (!check.ok) {
+      console.warn(`[EXEC] ${traceId} invalid arguments`, { tool: toolName, issues: check.issues });
+      return failed(invalidArgsOutput(toolName, descriptor.parameters, check.issues), 422);
     }
-    targetUrl = validateUrl(targetUrl);  // SSRF protection
 
-    // Headers templating
-    const headerTemplate = descriptor.http?.headers ?? {};
-    const headers: Record<string, string> = {};
-    for (const [k, v] of Object.entries(headerTemplate)) {
-      headers[k] = tpl(String(v), ctx);
-    }
-    headers["x-trace-id"] = traceId; // pass through for downstream services
-
-    // Template/prepare body
-    let body: string | undefined;
-    let bodyObj: any = undefined;
-
-    if (descriptor.http?.jsonBodyTemplate != null) {
-      bodyObj = applyTemplate(descriptor.http.jsonBodyTemplate, ctx);
-      if (descriptor.http.pruneEmpty) {
-        bodyObj = pruneEmpty(bodyObj);
-      }
-      body = JSON.stringify(bodyObj);
-      if (!headers["content-type"]) {
-        headers["content-type"] = "application/json";
-      }
+    // The prompt is the browser's; the server only runs what came through it
+    if (descriptor.requiresConfirmation && confirmed !== true) {
+      console.warn(`[EXEC] ${traceId} unconfirmed call refused`, { tool: toolName });
+      return failed(confirmationRequired(toolName), 428);
     }
 
-    // ---- OUTBOUND LOG -----------------------------------------------------
-    console.log(`[EXEC] ${traceId} → ${method} ${targetUrl}`, {
-      tool: toolName,
+    const sandbox = sess.sandbox || (await isTenantSandboxed(tenantId));
+    const execCtx = {
       tenantId,
-      okField: descriptor.http.okField ?? "(http 2xx)",
-      headers: redactHeaders(headers),
-      body: snap(bodyObj),
-    });
-
-    // Do the call
-    const timeoutMs = Number(descriptor.http.timeoutMs) || 15000;
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
-
-    const r = await fetch(targetUrl, { method, headers, body, signal: controller.signal });
-    clearTimeout(timeout);
-
-    const text = await r.text();
-
-    // ---- INBOUND LOG ------------------------------------------------------
-    console.log(`[EXEC] ${traceId} ← ${r.status} (${Date.now() - started}ms)`, {
-      tool: toolName,
-      response: snap(text),
-    });
+      sessionId: sess.sessionTokenHash,
+      traceId,
+      baseUrl: appOrigin(),
+      sandbox,
+      dedupe: true,
+      confirmed: confirmed === true,
+    };
+    if (sandbox) audit.sandbox = true;
+
+    if (descriptor.kind === "workflow_tool") {
+      const { exec, replayed } = await withWorkflowIdempotency(descriptor, args, execCtx, async () => {
+        const run = await runWorkflow(descriptor, args, {
+          traceId,
+          callStep: (name, stepArgs, { compensation }) =>
+            callWorkflowStep(name, stepArgs, { ...execCtx, dedupe: false, confirmed: execCtx.confirmed || compensation }),
+        });
+        console.log(`[EXEC] ${traceId} workflow ${toolName} ${run.ok ? "ok" : "failed"}`, { trace: run.trace });
+        return { status: run.status, body: run.body, json: true, attempts: 0 };
+      });
+      const ok = isExecutionOk(exec, "ok");
+      const headers: Record<string, string> = {};
+      if (replayed) headers["x-tool-idempotent-replay"] = "1";
+      if (sandbox) headers["x-tool-sandbox"] = "1";
+      const res = NextResponse.json(exec.body, { status: exec.status, headers });
+      return logged(res, ok, exec.body, replayed ? { replayed } : {});
+    }
 
-    // Return JSON if possible, else text
-    try {
-      const j = JSON.parse(text);
-      return NextResponse.json(j, { status: r.status });
-    } catch {
-      return new NextResponse(text, { status: r.status });
+    const { exec, ok, replayed } = await executeSingleTool(descriptor, args, execCtx);
+    const replyHeaders: Record<string, string> = { "x-tool-attempts": String(exec.attempts) };
+    if (exec.cache) replyHeaders["x-tool-cache"] = exec.cache;
+    if (replayed) replyHeaders["x-tool-idempotent-replay"] = "1";
+    if (sandbox) replyHeaders["x-tool-sandbox"] = "1";
+    const extra = { attempts: exec.attempts, ...(exec.cache ? { cache: exec.cache } : {}), ...(replayed ? { replayed } : {}) };
+    if (!exec.json) {
+      return logged(new NextResponse(String(exec.body), { status: exec.status, headers: replyHeaders }), ok, exec.body, extra);
+    }
+    // upstream failures we phrased ourselves are not shaped
+    if (exec.failure) {
+      return logged(NextResponse.json(exec.body, { status: exec.status, headers: replyHeaders }), ok, exec.body, extra);
     }
+    return logged(toolJsonResponse(descriptor, exec.body, exec.status, args, replyHeaders), ok, exec.body, extra);
   } catch (err: any) {
+    if (err instanceof EgressBlockedError) {
+      console.warn(`[EXEC] ${traceId} BLOCKED`, { reason: err.message });
+      return failed({ ok: false, error: err.message, blocked: true }, 403);
+    }
     console.error(`[EXEC] ${traceId} ERROR`, {
       error: err?.message || String(err),
       stack: err?.stack,
     });
-    return NextResponse.json({ ok: false, error: err?.message || "server_error" }, { status: 500 });
+    return failed({ ok: false, error: err?.message || "server_error" }, 500);
   }
-}
\ No newline at end of file
+}
+
+/** One workflow step: same lookup, tenant pinning and validation as a direct call */
+async function callWorkflowStep(
+  name: string,
+  rawArgs: Record<string, any>,
+  execCtx: ExecuteContext
+): Promise<StepOutcome> {
+  const lookup = await loadTenantToolDescriptor(execCtx.tenantId, name);
+  if (!lookup.ok) return { ok: false, status: 404, response: { ok: false, error: lookup.message } };
+  const d = lookup.descriptor;
+  if (d.kind === "workflow_tool") {
+    return { ok: false, status: 422, response: { ok: false, error: `${name} is a ${d.kind}; workflow steps must be single-call tools` } };
+  }
+  // a confirm-required step runs only inside a confirmed workflow call (or to undo one of its steps)
+  if (d.requiresConfirmation && !execCtx.confirmed) return { ok: false, status: 428, response: confirmationRequired(name) };
+
+  const args = pinTenantArg(rawArgs, d.parameters, execCtx.tenantId);
+  const check = validateToolArgs(args, d.parameters);
+  if (!check.ok) return { ok: false, status: 422, response: invalidArgsOutput(name, d.parameters, check.issues) };
+
+  try {
+    const { exec, ok } = await executeSingleTool(d, args, execCtx);
+    return { ok, status: exec.status, response: exec.body };
+  } catch (e: any) {
+    if (e instanceof EgressBlockedError) return { ok: false, status: 403, response: { ok: false, error: e.message, blocked: true } };
+    throw e;
+  }
+}
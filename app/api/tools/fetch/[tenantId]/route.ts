@@ -4,32 +4,20 @@ import getMongoConnection from "@/db/connections";
 import {
   ToolRegistryArraySchema,
   type ToolRegistryItem,
+  type PublicToolRegistryItem,
+  toPublicRegistryItem,
 } from "@/types/toolRegistry.schema";
 import { lintHttpToolDescriptors, LINTER_VERSION } from "@/lib/validator/lint-tools";
+import { unwrapMongoExtendedJSON } from "@/lib/datacheck/mongo-extended-json";
 
 /**
  * GET /api/tools/fetch/:tenantId
- * Returns validated, normalized tool registry items for a tenant.
- * Source collection: "actions"
+ * Returns validated, normalized tool registry items for a tenant, in their
+ * browser-safe form (no URL/header/body templates; execution is server-side).
+ * Source collection: "actions", which only holds published versions (drafts and
+ * history live in action_drafts / action_versions, see lib/registry/toolVersions).
  */
 
-function unwrapMongoExtendedJSON(v: any): any {
-  if (Array.isArray(v)) return v.map(unwrapMongoExtendedJSON);
-  if (v && typeof v === "object") {
-    // number types
-    if ("$numberInt" in v) return parseInt(v.$numberInt, 10);
-    if ("$numberLong" in v) return parseInt(v.$numberLong, 10);
-    if ("$numberDouble" in v) return parseFloat(v.$numberDouble);
-    if ("$numberDecimal" in v) return Number(v.$numberDecimal);
-
-    // recurse
-    const out: Record<string, any> = {};
-    for (const [k, val] of Object.entries(v)) out[k] = unwrapMongoExtendedJSON(val);
-    return out;
-  }
-  return v;
-}
-
 export async function GET(req: NextRequest, { params }: { params: Promise<{ tenantId: string }> }) {
   
   const { tenantId } = await params;
@@ -66,7 +54,8 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ tena
     // If no errors, validate with Zod (redundant but kept for type narrowing)
     const validated: ToolRegistryItem[] = ToolRegistryArraySchema.parse(normalized);
 
-    return NextResponse.json(validated, { status: 200 });
+    const publicItems: PublicToolRegistryItem[] = validated.map(toPublicRegistryItem);
+    return NextResponse.json(publicItems, { status: 200 });
   } catch (err: any) {
     console.error("[tools/fetch] error:", err);
     // In Next.js API routes, throwing errors results in a 500 response with { error: message }
@@ -0,0 +1,47 @@
+// app/api/tools/sandbox/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import getMongoConnection from "@/db/connections";
+import { getActiveOtpSession } from "@/app/api/_lib/session";
+import { isTenantSandboxed } from "@/lib/tenants/sandbox";
+
+export const runtime = "nodejs";
+
+/**
+ * GET  /api/tools/sandbox             -> { ok, sandbox, tenant, session }
+ * POST /api/tools/sandbox { enabled } -> same, after setting the session flag
+ * Sandbox mode makes /api/tools/execute answer from descriptor mocks. A session may
+ * opt itself in or out (it only ever takes capability away); a sandboxed tenant stays
+ * sandboxed whatever the session says.
+ */
+
+const ToggleSchema = z.object({ enabled: z.boolean() });
+
+async function state(tenantId: string, session: boolean) {
+  const tenant = await isTenantSandboxed(tenantId);
+  return { ok: true, sandbox: tenant || session, tenant, session };
+}
+
+export async function GET(req: NextRequest) {
+  const sess = await getActiveOtpSession(req);
+  if (!sess) return NextResponse.json({ ok: false, error: "No active session" }, { status: 401 });
+  return NextResponse.json(await state(sess.tenantId, sess.sandbox));
+}
+
+export async function POST(req: NextRequest) {
+  const sess = await getActiveOtpSession(req);
+  if (!sess) return NextResponse.json({ ok: false, error: "No active session" }, { status: 401 });
+
+  const parsed = ToggleSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: "enabled (boolean) is required" }, { status: 400 });
+  }
+
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  await db.collection("auth").updateOne(
+    { kind: "otp_session", sessionTokenHash: sess.sessionTokenHash, status: "active" },
+    { $set: { sandbox: parsed.data.enabled } }
+  );
+  console.log(`[SANDBOX] session sandbox ${parsed.data.enabled ? "on" : "off"}`, { tenantId: sess.tenantId });
+  return NextResponse.json(await state(sess.tenantId, parsed.data.enabled));
+}
@@ -78,6 +78,7 @@ const App: React.FC = () => {
     sendText, 
     pttDown, 
     pttUp,
+    say,
     setAgent, 
     updateSession, 
     registerFunction,    
@@ -86,7 +87,29 @@ const App: React.FC = () => {
     forceToolCall,
     setCallbacks, 
     getClient,
+    resolveConfirmation,
   } = useRealtime();
+
+  // requiresConfirmation tools: the waiting call is on the stage until it's answered
+  const confirmingRef = useRef<string | null>(null);
+  useEffect(() => {
+    setCallbacks({
+      onConfirmationRequest: (req) => {
+        confirmingRef.current = req.id;
+        showOnStage({
+          component_name: "confirm_action",
+          title: req.title,
+          size: "sm",
+          props: { ...req, onResolve: (confirmed: boolean) => resolveConfirmation(req.id, confirmed) },
+        });
+      },
+      onConfirmationSettled: (id) => {
+        if (confirmingRef.current !== id) return;
+        confirmingRef.current = null;
+        hideStage();
+      },
+    });
+  }, [setCallbacks, resolveConfirmation, showOnStage, hideStage]);
   
     // transcript conversation hook to post transcripts to mongo
     useTranscriptSink(conversation as any);
@@ -180,6 +203,7 @@ const App: React.FC = () => {
               registerFunction,
               showOnStage,
               hideStage,
+              say,     // ui.emit_say lines
               cap: 64, // budget under the model cap
               fetchDescriptors: async () => {
                 const rows = await fetchTenantHttpTools(tenantId);              
@@ -214,6 +238,7 @@ const App: React.FC = () => {
           registerFunction,
           updateSession,          
           unregisterFunctionsByPrefix,
+          say,
         ]);
 
 
@@ -232,6 +257,7 @@ const App: React.FC = () => {
 
 
   const isConnected = status === "CONNECTED";
+  const isReconnecting = status === "RECONNECTING";
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -327,7 +353,7 @@ return (
                   >
                     <Visualizer
                       volume={volume}
-                      isConnected={isConnected}
+                      isConnected={isConnected || isReconnecting} // keep "end call" reachable while resuming
                       onStart={onStartCall}
                       onEnd={onEndCall}
                     />
@@ -374,6 +400,11 @@ return (
                     Status: Open
                   </div>
                 )}
+                {isReconnecting && (
+                  <div className="text-xs text-amber-400 text-center p-2 animate-pulse">
+                    Status: Reconnecting…
+                  </div>
+                )}
               </div>
             </div>
 
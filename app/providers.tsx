@@ -54,8 +54,10 @@ export default function Providers({ children }: Props) {
       <RealtimeProvider
           options={{
             model: 'gpt-realtime',
+            apiBase: process.env.NEXT_PUBLIC_REALTIME_API_BASE, // unset = OpenAI; mock server for offline runs
             defaultVoice: 'alloy',
             appendModelVoiceToUrl: true,
+            transport: 'auto', // WebRTC first; WebSocket when corporate networks block UDP
             // turnDetection: { type: 'server_vad', threshold: 0.5, ... } // optional
           }}
         >   
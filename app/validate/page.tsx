@@ -3,6 +3,7 @@
 
 import * as React from "react";
 import { useTenant } from "@/context/tenant-context";
+import DryRunConsole from "@/components/dry-run-console";
 
 type Issue = {
   severity: "error" | "warning";
@@ -249,6 +250,8 @@ export default function LintAdminPage() {
           </div>
         </>
       )}
+
+      <DryRunConsole tenantId={tenantId} toolNames={(data?.report ?? []).map(r => r.name)} />
     </div>
   );
 }
\ No newline at end of file
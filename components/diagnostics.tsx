@@ -9,6 +9,7 @@ type MaybeRTCClient = {
   getPeerConnection?: () => RTCPeerConnection | null;
   getDataChannel?: () => RTCDataChannel | null;
   getLocalStream?: () => MediaStream | null; // optional helper your client may expose
+  getTransportKind?: () => string | null;     // "webrtc" | "websocket"
 };
 
 type Props = {
@@ -21,6 +22,7 @@ type Props = {
 export function Diagnostics({ status, volume, events, getClient }: Props) {
   const [dcState, setDcState] = useState<string>("unknown");
   const [ice, setIce] = useState<string>("unknown");
+  const [transport, setTransport] = useState<string>("n/a");
   const [open, setOpen] = useState(false);
   const [micRms, setMicRms] = useState<number>(0);
 
@@ -43,6 +45,7 @@ export function Diagnostics({ status, volume, events, getClient }: Props) {
 
     updateDC();
     updateICE();
+    setTransport(client?.getTransportKind?.() ?? "n/a");
 
     dc?.addEventListener("open", updateDC);
     dc?.addEventListener("close", updateDC);
@@ -137,6 +140,7 @@ export function Diagnostics({ status, volume, events, getClient }: Props) {
             <div className="px-3 py-1.5 text-[11px] text-neutral-300 flex items-center justify-between">
               <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
                 <span>status: <span className="font-mono">{status}</span></span>
+                <span>transport: <span className="font-mono">{transport}</span></span>
                 <span>dc: <span className="font-mono">{dcState}</span></span>
                 <span>ice: <span className="font-mono">{ice}</span></span>
                 <span>rms(in): <span className="font-mono">{micRms.toFixed(3)}</span></span>
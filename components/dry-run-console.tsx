@@ -0,0 +1,299 @@
+// components/dry-run-console.tsx
+"use client";
+
+import * as React from "react";
+import VisualStage, { type VisualPayload } from "@/components/visual-stage";
+import { resolveToolUi } from "@/lib/agent/registerTenantHttpTools";
+
+type Mode = "render" | "mock" | "live";
+
+type Issue = { severity: "error" | "warning"; code: string; path: string; message: string };
+
+type DryRunResponse = {
+  ok: boolean;
+  error?: string;
+  traceId?: string;
+  lint?: { name: string; issues: Issue[] }[];
+  argIssues?: { path: string; message: string }[];
+  request?: { method: string; url: string; headers: Record<string, string>; bodyFormat: string; body?: unknown } | null;
+  response?: { status: number; body: unknown; ok: boolean; model?: unknown; attempts: number; failure?: string } | null;
+  notes?: string[];
+};
+
+const TOKEN_KEY = "validate.adminToken";
+
+const pretty = (v: unknown) => (typeof v === "string" ? v : JSON.stringify(v, null, 2));
+
+function parseJson(label: string, text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`${label} is not valid JSON: ${e?.message}`);
+  }
+}
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-neutral-200 p-3">
+      <div className="text-xs font-medium text-neutral-500 mb-2">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+function Code({ value }: { value: unknown }) {
+  return (
+    <pre className="max-h-80 overflow-auto rounded-md bg-neutral-900 p-2 text-[11px] leading-snug text-neutral-200">
+      {pretty(value)}
+    </pre>
+  );
+}
+
+const inputCls = "w-full rounded-md border border-neutral-300 bg-neutral-900 px-2 py-1 text-xs font-mono";
+
+/**
+ * Descriptor dry run for /validate: render the request for sample args, optionally run
+ * it against a mock response (or live, with the admin token), then preview the
+ * resulting emit_show_component payload on the real VisualStage.
+ */
+export default function DryRunConsole({ tenantId, toolNames }: { tenantId: string; toolNames: string[] }) {
+  const [adminToken, setAdminToken] = React.useState("");
+  const [toolName, setToolName] = React.useState("");
+  const [descriptorText, setDescriptorText] = React.useState("");
+  const [argsText, setArgsText] = React.useState("{}");
+  const [mode, setMode] = React.useState<Mode>("render");
+  const [mockStatus, setMockStatus] = React.useState(200);
+  const [mockType, setMockType] = React.useState("application/json");
+  const [mockBody, setMockBody] = React.useState('{ "ok": true }');
+  const [ownMock, setOwnMock] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<DryRunResponse | null>(null);
+  const [ran, setRan] = React.useState<{ descriptor: any; args: any } | null>(null);
+  const [stage, setStage] = React.useState<VisualPayload | null>(null);
+
+  React.useEffect(() => {
+    setAdminToken(sessionStorage.getItem(TOKEN_KEY) ?? "");
+  }, []);
+  const saveToken = (v: string) => {
+    setAdminToken(v);
+    sessionStorage.setItem(TOKEN_KEY, v);
+  };
+  const authHeaders = (): Record<string, string> => (adminToken ? { authorization: `Bearer ${adminToken}` } : {});
+
+  const load = async (version: "published" | "draft") => {
+    if (!toolName) return;
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/tools/${encodeURIComponent(tenantId)}/${encodeURIComponent(toolName)}?version=${version}`,
+        { headers: authHeaders() }
+      );
+      const json = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setDescriptorText(JSON.stringify(json.descriptor, null, 2));
+    } catch (e: any) {
+      setError(`Cannot load ${toolName}: ${e?.message}`);
+    }
+  };
+
+  const run = async () => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const descriptor = parseJson("Descriptor", descriptorText);
+      const args = parseJson("Args", argsText || "{}");
+      let mock: { status: number; body: unknown; contentType?: string } | undefined;
+      if (mode === "mock" && !ownMock) {
+        // JSON bodies go as values; anything else (XML, CSV) as text for the response parser
+        let body: unknown = mockBody;
+        try { body = JSON.parse(mockBody); } catch { /* keep text */ }
+        mock = { status: mockStatus, body, contentType: mockType || undefined };
+      }
+
+      const res = await fetch("/api/tools/dry-run", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...(mode === "live" ? authHeaders() : {}) },
+        body: JSON.stringify({ tenantId, descriptor, args, mode, mock }),
+      });
+      const json: DryRunResponse = await res.json();
+      if (!res.ok || !json.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setResult(json);
+      setRan({ descriptor, args });
+    } catch (e: any) {
+      setError(e?.message || "Dry run failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Same resolution as the live client executor
+  const preview = React.useMemo(() => {
+    if (!result?.response || !ran) return null;
+    return resolveToolUi(ran.descriptor.ui, result.response.ok, {
+      args: ran.args,
+      response: result.response.body,
+      status: result.response.status,
+    });
+  }, [result, ran]);
+
+  const issues = result?.lint?.flatMap((r) => r.issues) ?? [];
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-lg font-semibold mb-1">Dry run</h2>
+      <p className="text-sm text-neutral-500 mb-3">
+        Render a descriptor&apos;s request for sample args, run it on a mock response, and preview what the guest would see.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={toolName} onChange={(e) => setToolName(e.target.value)} className={`${inputCls} w-auto`}>
+              <option value="">Load a tool…</option>
+              {toolNames.map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <button onClick={() => load("published")} disabled={!toolName} className="rounded-md border border-neutral-300 px-2 py-1 text-xs disabled:opacity-50">Published</button>
+            <button onClick={() => load("draft")} disabled={!toolName} className="rounded-md border border-neutral-300 px-2 py-1 text-xs disabled:opacity-50">Draft</button>
+            <input
+              type="password"
+              placeholder="Admin token (load / live)"
+              value={adminToken}
+              onChange={(e) => saveToken(e.target.value)}
+              className={`${inputCls} w-56`}
+            />
+          </div>
+          <label className="block text-xs text-neutral-500">Descriptor (JSON)</label>
+          <textarea value={descriptorText} onChange={(e) => setDescriptorText(e.target.value)} rows={16} className={inputCls} spellCheck={false} />
+          <label className="block text-xs text-neutral-500">Sample args (JSON)</label>
+          <textarea value={argsText} onChange={(e) => setArgsText(e.target.value)} rows={4} className={inputCls} spellCheck={false} />
+
+          <div className="flex items-center gap-4 text-sm">
+            {(["render", "mock", "live"] as Mode[]).map((m) => (
+              <label key={m} className="flex items-center gap-1">
+                <input type="radio" name="dry-run-mode" checked={mode === m} onChange={() => setMode(m)} />
+                {m === "render" ? "Render only" : m === "mock" ? "Mock response" : "Execute live (admin)"}
+              </label>
+            ))}
+          </div>
+
+          {mode === "mock" && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-1 text-xs">
+                <input type="checkbox" checked={ownMock} onChange={(e) => setOwnMock(e.target.checked)} />
+                Use the descriptor&apos;s own <code>mock</code> block
+              </label>
+              {!ownMock && (
+                <>
+                  <div className="flex gap-2">
+                    <input type="number" value={mockStatus} onChange={(e) => setMockStatus(Number(e.target.value) || 200)} className={`${inputCls} w-24`} />
+                    <input value={mockType} onChange={(e) => setMockType(e.target.value)} placeholder="content-type" className={inputCls} />
+                  </div>
+                  <textarea value={mockBody} onChange={(e) => setMockBody(e.target.value)} rows={8} className={inputCls} spellCheck={false} />
+                </>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={run}
+            disabled={busy || !descriptorText.trim()}
+            className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm hover:bg-neutral-100 active:bg-neutral-200 disabled:opacity-50"
+          >
+            {busy ? "Running…" : "Run dry run"}
+          </button>
+          {error && <div className="rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+        </div>
+
+        <div className="space-y-3">
+          {result && (
+            <>
+              {(result.notes?.length ?? 0) > 0 && (
+                <Panel title="Notes">
+                  <ul className="list-disc ms-5 text-xs">{result.notes!.map((n, i) => <li key={i}>{n}</li>)}</ul>
+                </Panel>
+              )}
+              <Panel title={`Lint (${issues.length} issue${issues.length === 1 ? "" : "s"})`}>
+                {issues.length === 0 ? (
+                  <span className="text-xs text-neutral-400">No issues</span>
+                ) : (
+                  <ul className="space-y-1 text-xs">
+                    {issues.map((i, k) => (
+                      <li key={k}>
+                        <span className={i.severity === "error" ? "text-red-500" : "text-amber-500"}>{i.severity}</span>{" "}
+                        <span className="font-mono text-neutral-500">{i.path}</span> {i.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Panel>
+              {(result.argIssues?.length ?? 0) > 0 && (
+                <Panel title="Sample args rejected by the parameters schema">
+                  <ul className="list-disc ms-5 text-xs">
+                    {result.argIssues!.map((i, k) => <li key={k}><span className="font-mono">{i.path}</span> {i.message}</li>)}
+                  </ul>
+                </Panel>
+              )}
+              {result.request && (
+                <Panel title="Request">
+                  <div className="font-mono text-xs mb-2 break-all">{result.request.method} {result.request.url}</div>
+                  <Code value={result.request.headers} />
+                  {result.request.body !== undefined && (
+                    <div className="mt-2">
+                      <div className="text-[11px] text-neutral-500 mb-1">body ({result.request.bodyFormat})</div>
+                      <Code value={result.request.body} />
+                    </div>
+                  )}
+                </Panel>
+              )}
+              {result.response && (
+                <Panel title={`Response: HTTP ${result.response.status}, ${result.response.ok ? "ok" : "not ok"}${result.response.failure ? ` (${result.response.failure})` : ""}`}>
+                  <Code value={result.response.body} />
+                  {result.response.model !== undefined && (
+                    <div className="mt-2">
+                      <div className="text-[11px] text-neutral-500 mb-1">shaped for the model</div>
+                      <Code value={result.response.model} />
+                    </div>
+                  )}
+                </Panel>
+              )}
+              {preview && (
+                <Panel title={`UI (${result.response?.ok ? "onSuccess" : "onError"}${preview.fromResponse ? ", from the response" : ""})`}>
+                  {!preview.ui ? (
+                    <span className="text-xs text-neutral-400">No UI block for this outcome.</span>
+                  ) : (
+                    <>
+                      {preview.say && <div className="text-xs mb-2">Says: “{preview.say.text}”</div>}
+                      {preview.ui.emit_say && !preview.say && (
+                        <div className="text-xs text-amber-500 mb-2">emit_say is skipped: some of its values are missing.</div>
+                      )}
+                      {preview.show !== undefined ? (
+                        <>
+                          {preview.unresolved && (
+                            <div className="text-xs text-amber-500 mb-2">The visual payload still has unresolved {"{{tokens}}"}.</div>
+                          )}
+                          <Code value={preview.show} />
+                          <button
+                            onClick={() => setStage(preview.show as VisualPayload)}
+                            className="mt-2 rounded-md border border-neutral-300 px-2 py-1 text-xs"
+                          >
+                            Show on stage
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-xs text-neutral-400">No emit_show_component.</span>
+                      )}
+                    </>
+                  )}
+                </Panel>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <VisualStage open={!!stage} onOpenChange={(v) => { if (!v) setStage(null); }} payload={stage} onReplace={setStage} />
+    </section>
+  );
+}
@@ -5,7 +5,49 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import TriggerIconButton from "./TriggerIconButton";
 import { Captions, Download } from "lucide-react";
 
-type ConvItem = { id: string; role: string; text?: string; timestamp: number };
+type ToolRecord = {
+  name: string;
+  arguments: any;
+  output?: any;
+  ok?: boolean;
+  error?: string;
+  durationMs?: number;
+};
+
+type ConvItem = { id: string; role: string; text?: string; timestamp: number; tool?: ToolRecord };
+
+const pretty = (v: any) => {
+  try { return JSON.stringify(v, null, 2); } catch { return String(v); }
+};
+
+function ToolCallRow({ tool }: { tool: ToolRecord }) {
+  const running = tool.ok === undefined;
+  return (
+    <details className="inline-block align-top w-[calc(100%-5rem)]">
+      <summary className="cursor-pointer list-none">
+        <span className="font-mono text-neutral-200">{tool.name}</span>{" "}
+        {running ? (
+          <span className="text-neutral-500">running…</span>
+        ) : (
+          <span className={tool.ok ? "text-emerald-400" : "text-red-400"}>
+            {tool.ok ? "ok" : tool.error || "error"}
+          </span>
+        )}
+        {tool.durationMs != null && <span className="text-neutral-500"> · {tool.durationMs} ms</span>}
+      </summary>
+      <div className="mt-1 space-y-1">
+        <div className="text-neutral-500">args</div>
+        <pre className="whitespace-pre-wrap break-all bg-neutral-800 rounded p-1.5 max-h-32 overflow-y-auto">{pretty(tool.arguments)}</pre>
+        {!running && (
+          <>
+            <div className="text-neutral-500">output</div>
+            <pre className="whitespace-pre-wrap break-all bg-neutral-800 rounded p-1.5 max-h-40 overflow-y-auto">{pretty(tool.output)}</pre>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
 
 type Props = {
   conversation: ConvItem[];
@@ -23,7 +65,8 @@ export default function TranscriptDialogTrigger({ conversation, onDownload }: Pr
       .filter((m) => {
         const text = (m.text || "").toLowerCase();
         const role = (m.role || "").toLowerCase();
-        return text.includes(query) || role.includes(query);
+        const tool = (m.tool?.name || "").toLowerCase();
+        return text.includes(query) || role.includes(query) || tool.includes(query);
       })
       .slice(-200);
   }, [conversation, q]);
@@ -74,12 +117,18 @@ export default function TranscriptDialogTrigger({ conversation, onDownload }: Pr
                       ? "text-emerald-400"
                       : m.role === "assistant"
                       ? "text-cyan-300"
+                      : m.role === "tool"
+                      ? "text-amber-300"
                       : "text-neutral-400"
                   }
                 >
                   {m.role}:
                 </span>{" "}
-                <span className="text-neutral-200">{m.text || "…"}</span>
+                {m.tool ? (
+                  <ToolCallRow tool={m.tool} />
+                ) : (
+                  <span className="text-neutral-200">{m.text || "…"}</span>
+                )}
               </div>
             ))
           ) : (
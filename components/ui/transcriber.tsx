@@ -60,7 +60,10 @@ AvatarFallback.displayName = AvatarPrimitive.Fallback.displayName;
 function shouldDisplayMessage(msg: Conversation): boolean {
  const { role, text, status, isFinal } = msg;
 
- if (role === "assistant") {
+ if (role === "tool") {
+   // Tool calls live in the transcript dialog, not the chat bubbles
+   return false;
+ } else if (role === "assistant") {
    // Always display assistant messages (even if they're empty, though that’s rare).
    return true;
  } else {
@@ -47,6 +47,7 @@ const HAS_OWN_CHROME = new Set([
   "quote_summary",
   "catalog_results",
   "reservation_checkout", // ← unified checkout visual
+  "confirm_action",
   "room",
   "media_gallery",
   "image_viewer",
@@ -0,0 +1,78 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+
+// Shown while a requiresConfirmation tool waits for the guest (WebRTCClient.onConfirmationRequest).
+// Clicking answers through onResolve; a spoken yes/no is handled by the client and closes the stage.
+export default function ConfirmAction({
+  id,
+  title = "Please confirm",
+  summary,
+  confirmLabel = "Confirm",
+  declineLabel = "Cancel",
+  expiresAt,
+  onResolve,
+  compact,
+}: {
+  id?: string;
+  title?: string;
+  summary?: string;
+  confirmLabel?: string;
+  declineLabel?: string;
+  expiresAt?: number;
+  onResolve?: (confirmed: boolean) => void;
+  compact?: boolean;
+}) {
+  // keyed by call id: the stage reuses this instance when the next confirmation replaces it
+  const [answeredId, setAnsweredId] = React.useState<string | null>(null);
+  const answered = answeredId !== null && answeredId === (id ?? "");
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  const secondsLeft = expiresAt ? Math.max(0, Math.ceil((expiresAt - now) / 1000)) : null;
+  const expired = secondsLeft === 0;
+
+  const answer = (confirmed: boolean) => {
+    if (answered || expired) return;
+    setAnsweredId(id ?? "");
+    onResolve?.(confirmed);
+  };
+
+  return (
+    <Card className="bg-neutral-900 border-neutral-800 w-full mx-auto sm:max-w-[480px]">
+      <CardHeader className={compact ? "px-4 py-3" : undefined}>
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <ShieldAlert className="h-5 w-5 text-amber-400 shrink-0" />
+          {title}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm text-neutral-400">
+          {expired ? "No answer received." : `Say "yes" or "no", or choose below${secondsLeft != null ? ` (${secondsLeft}s)` : ""}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className={compact ? "px-4 pt-0 pb-4" : undefined}>
+        <p className="whitespace-pre-wrap text-sm sm:text-base text-neutral-200 break-words">{summary || "—"}</p>
+        <div className="mt-4 flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+          <Button
+            variant="secondary"
+            className="bg-neutral-800 text-neutral-100"
+            disabled={answered || expired}
+            onClick={() => answer(false)}
+          >
+            {declineLabel}
+          </Button>
+          <Button disabled={answered || expired} onClick={() => answer(true)}>
+            {confirmLabel}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
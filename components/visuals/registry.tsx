@@ -18,6 +18,7 @@ const loaders: Record<string, VisualLoader> = {
   quote_summary: () => import("./QuoteSummary"),
   catalog_results: () => import("./CatalogResults"),
   reservation_checkout: () => import("./ReservationCheckout"),
+  confirm_action: () => import("./ConfirmAction"),
 };
 
 // Allow dynamic plugins/extensions at runtime (client-side)
@@ -0,0 +1,41 @@
+// /config/tools.ts
+// Limits for tenant tool execution (/api/tools/execute).
+// Values come from env with safe defaults.
+
+function num(v: string | undefined, dflt: number) {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : dflt;
+}
+
+export const toolHttpCfg = {
+  // Circuit breaker, per tenant + upstream host
+  breakerFailureThreshold: num(process.env.TOOL_BREAKER_FAILURES, 5), // consecutive failed attempts before opening
+  breakerCooldownMs: num(process.env.TOOL_BREAKER_COOLDOWN_MS, 30_000), // open -> half-open (one probe)
+  // OAuth2 client-credentials tokens kept in process (per tenant + client + scopes)
+  oauthTokenCacheEntries: num(process.env.TOOL_OAUTH_TOKEN_CACHE, 500),
+  oauthTokenTimeoutMs: num(process.env.TOOL_OAUTH_TOKEN_TIMEOUT_MS, 10_000),
+  // Largest upstream body read into memory (after decompression); http.maxResponseBytes overrides per tool
+  maxResponseBytes: num(process.env.TOOL_MAX_RESPONSE_BYTES, 5 * 1024 * 1024),
+};
+
+export const toolCacheCfg = {
+  // In-process LRU size; with TOOL_CACHE_BACKEND=redis the Upstash Redis from middleware is used instead
+  maxEntries: num(process.env.TOOL_CACHE_MAX_ENTRIES, 2000),
+  backend: process.env.TOOL_CACHE_BACKEND === "redis" ? "redis" as const : "memory" as const,
+};
+
+export const toolIdempotencyCfg = {
+  // Longest a duplicate waits for the first call's reply before getting "still in progress"
+  maxWaitMs: num(process.env.TOOL_IDEMPOTENCY_WAIT_MS, 20_000),
+};
+
+export const toolExecLogCfg = {
+  // How long tool_executions records are kept (TTL on expiresAt)
+  retentionDays: num(process.env.TOOL_EXEC_LOG_RETENTION_DAYS, 30),
+};
+
+export const toolMongoCfg = {
+  // Tenants without tenants.mongo.dbName keep /api/mongo/gateway's old target (platform cluster,
+  // request dbName or MAINDBNAME) until their record is migrated; MONGO_GATEWAY_LEGACY_FALLBACK=0 refuses them
+  gatewayLegacyFallback: process.env.MONGO_GATEWAY_LEGACY_FALLBACK !== "0",
+};
@@ -12,8 +12,9 @@ import React, {
 import { WebRTCClient } from '@/lib/realtime';
 import { toast } from "sonner";
 import { getToastParams, getToastParamsFromUnknownError } from "@/lib/toast-errors";
+import { extractUsage } from "@/lib/realtime/usage";
 
-import type { ConversationItem, AgentConfigInput as ClientAgentConfig } from '@/lib/realtime';
+import type { ConversationItem, AgentConfigInput as ClientAgentConfig, ReconnectOptions, RealtimeOptions, ToolConfirmation, ToolFunction } from '@/lib/realtime';
 
 /** Align with AgentConfigInput */
 export type AgentConfigInput = {
@@ -27,9 +28,17 @@ export type TurnDetection = any;
 
 export type RealtimeProviderOptions = {
   model?: string;
+  /** Realtime endpoint (default OpenAI); point at xtest/mock-realtime for offline runs */
+  apiBase?: string;
   defaultVoice?: string;
   appendModelVoiceToUrl?: boolean;
   turnDetection?: TurnDetection;
+  /** Auto-reconnect + session resume on dropped calls (enabled by default) */
+  reconnect?: ReconnectOptions;
+  /** "webrtc" (default) | "websocket" | "auto" (fall back to WebSocket when WebRTC/UDP is blocked) */
+  transport?: RealtimeOptions['transport'];
+  /** Default per-tool-call timeout (ms) */
+  toolTimeoutMs?: number;
   /** Initial agent snapshot (optional) */
   initialAgent?: AgentConfigInput;
   /** Max buffered server events */
@@ -40,7 +49,7 @@ export type RealtimeProviderOptions = {
 
 export type RealtimeContextValue = {
   // state
-  status: string;
+  status: string;               // DISCONNECTED | CONNECTING | CONNECTED | RECONNECTING | ERROR
   conversation: ConversationItem[];
   volume: number;
   events: any[];
@@ -50,6 +59,7 @@ export type RealtimeContextValue = {
   disconnect: () => void;
   sendText: (t: string) => void;
   cancelAssistantSpeech: () => void;
+  say: (text: string, opts?: { barge?: boolean; voice?: string }) => void;
   pttDown: () => void;
   pttUp: () => void;
 
@@ -58,7 +68,9 @@ export type RealtimeContextValue = {
   updateSession: (p: Partial<AgentConfigInput>) => void;
 
   // tools
-  registerFunction: (name: string, fn: (args: any) => Promise<any> | any) => void;
+  registerFunction: (name: string, fn: ToolFunction, opts?: { timeoutMs?: number; confirm?: boolean | ToolConfirmation }) => void;
+  /** Answer a tool waiting for the guest (stage confirm/decline buttons) */
+  resolveConfirmation: (id: string, confirmed: boolean) => boolean;
 
   // unregister tools when tenant switch
   hasFunction: (name: string) => boolean;
@@ -77,27 +89,13 @@ export type RealtimeContextValue = {
   // allow pages to update callbacks later (e.g., bind stageRef.current)
   setCallbacks: (partial: {   
     onServerEvent?: (ev: any) => void;
+    onConfirmationRequest?: RealtimeOptions['onConfirmationRequest'];
+    onConfirmationSettled?: RealtimeOptions['onConfirmationSettled'];
   }) => void;
 };
 
 const RealtimeCtx = createContext<RealtimeContextValue | null>(null);
 
-function extractUsage(ev: any): { text_in: number; text_out: number; audio_in: number; audio_out: number } | null {
-  // Common final event names from different releases
-  const doneType = new Set(['response.completed', 'response.done', 'response.finish']);
-  if (!ev || !doneType.has(ev.type)) return null;
-
-  const u = ev.usage || ev.response?.usage || {};
-  const text_in   = Number(u.text_in  ?? u.input_text_tokens   ?? u.input_tokens   ?? u.textIn   ?? 0);
-  const text_out  = Number(u.text_out ?? u.output_text_tokens  ?? u.output_tokens  ?? u.textOut  ?? 0);
-  const audio_in  = Number(u.audio_in ?? u.input_audio_tokens  ?? u.audioIn        ?? 0);
-  const audio_out = Number(u.audio_out?? u.output_audio_tokens ?? u.audioOut       ?? 0);
-
-  const total = text_in + text_out + audio_in + audio_out;
-  return total > 0 ? { text_in, text_out, audio_in, audio_out } : null;
-}
-
-
 export function RealtimeProvider({
   children,
   options,
@@ -110,6 +108,7 @@ export function RealtimeProvider({
   const appendModelVoiceToUrl = options?.appendModelVoiceToUrl ?? true;
   const turnDetection = options?.turnDetection;
   const maxEvents = options?.maxEventBuffer ?? 500;
+  const reconnect = options?.reconnect ?? { enabled: true };
 
   const clientRef = useRef<WebRTCClient | null>(null);
   
@@ -226,10 +225,14 @@ export function RealtimeProvider({
   if (!clientRef.current) {
     clientRef.current = new WebRTCClient({
       model,
+      ...(options?.apiBase ? { apiBase: options.apiBase } : {}),
       voice: agentRef.current.voice ?? defaultVoice,
       tokenProvider,
       appendModelVoiceToUrl,
       turnDetection,
+      reconnect,
+      transport: options?.transport,
+      toolTimeoutMs: options?.toolTimeoutMs,
       onStatus: setStatus,
       onConversation: setConversation,
       onVolume: setVolume,      
@@ -267,6 +270,10 @@ export function RealtimeProvider({
   const disconnect            = useCallback(() => getClient().disconnect(), [getClient]);
   const sendText              = useCallback((t: string) => getClient().sendText(t), [getClient]);
   const cancelAssistantSpeech = useCallback(() => getClient().cancelAssistantSpeech(), [getClient]);
+  const say                   = useCallback(
+    (text: string, opts?: { barge?: boolean; voice?: string }) => { getClient().say(text, opts); },
+    [getClient]
+  );
   const pttDown               = useCallback(() => getClient().pttDown(), [getClient]);
   const pttUp                 = useCallback(() => getClient().pttUp(), [getClient]);
 
@@ -282,9 +289,13 @@ export function RealtimeProvider({
     getClient().updateSession(p as Partial<ClientAgentConfig>);
   }, [getClient]);
 
-  const registerFunctionCb = useCallback((name: string, fn: (args: any) => Promise<any> | any) => {
-    getClient().registerFunction(name, fn);
+  const registerFunctionCb = useCallback((name: string, fn: ToolFunction, opts?: { timeoutMs?: number; confirm?: boolean | ToolConfirmation }) => {
+    getClient().registerFunction(name, fn, opts);
   }, [getClient]);
+  const resolveConfirmationCb = useCallback(
+    (id: string, confirmed: boolean) => getClient().resolveConfirmation(id, confirmed),
+    [getClient]
+  );
 
   // unregister helpers
   const hasFunctionCb = useCallback((name: string) => getClient().hasFunction(name), [getClient]);
@@ -306,6 +317,8 @@ export function RealtimeProvider({
   const setCallbacksCb = useCallback((partial: {
     onShowComponent?: (name: string) => void;
     onServerEvent?: (ev: any) => void;
+    onConfirmationRequest?: RealtimeOptions['onConfirmationRequest'];
+    onConfirmationSettled?: RealtimeOptions['onConfirmationSettled'];
   }) => {
     getClient().setCallbacks(partial);
   }, [getClient]);
@@ -371,6 +384,7 @@ export function RealtimeProvider({
     disconnect,
     sendText,
     cancelAssistantSpeech,
+    say,
     pttDown,
     pttUp,
 
@@ -378,6 +392,7 @@ export function RealtimeProvider({
     updateSession: updateSessionCb,
 
     registerFunction: registerFunctionCb,
+    resolveConfirmation: resolveConfirmationCb,
 
     hasFunction: hasFunctionCb,
     listFunctionNames: listFunctionNamesCb,
@@ -397,8 +412,8 @@ export function RealtimeProvider({
     status, conversation, volume, events,
 
     // include the stable callbacks themselves 
-    connect, disconnect, sendText, cancelAssistantSpeech, pttDown, pttUp,
-    setAgentCb, updateSessionCb, registerFunctionCb,
+    connect, disconnect, sendText, cancelAssistantSpeech, say, pttDown, pttUp,
+    setAgentCb, updateSessionCb, registerFunctionCb, resolveConfirmationCb,
     hasFunctionCb, listFunctionNamesCb, unregisterFunctionCb, unregisterByPrefixCb,
     setMicEnabledCb, isMicEnabledCb, getClient, forceToolCallCb, setCallbacksCb,
   ]);
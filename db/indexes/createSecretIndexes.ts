@@ -0,0 +1,21 @@
+// /db/indexes/createSecretIndexes.ts
+import getMongoConnection from "@/db/connections";
+
+export async function ensureSecretIndexes() {
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+
+  await db.collection("tenant_secrets").createIndex(
+    { tenantId: 1, name: 1 },
+    { unique: true, name: "tenant_secret_unique" }
+  );
+
+  await db.collection("tenant_secret_audit").createIndex(
+    { tenantId: 1, at: -1 },
+    { name: "secret_audit_by_tenant_recent" }
+  );
+
+  await db.collection("tenant_secret_audit").createIndex(
+    { tenantId: 1, name: 1, at: -1 },
+    { name: "secret_audit_by_name_recent" }
+  );
+}
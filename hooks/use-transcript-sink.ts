@@ -3,10 +3,49 @@
 
 import { useEffect, useRef } from "react";
 
-type ConvItem = { id: string; role: "user" | "assistant" | "tool" | "system"; text?: string; timestamp: number };
+type ToolRecord = {
+  name: string;
+  callId: string;
+  arguments: any;
+  output?: any;
+  ok?: boolean;
+  error?: string;
+  durationMs?: number;
+};
+
+type ConvItem = {
+  id: string;
+  role: "user" | "assistant" | "tool" | "system";
+  text?: string;
+  timestamp: number;
+  isFinal?: boolean;
+  tool?: ToolRecord;
+};
 
 const USER_PLACEHOLDER_RE = /^processing speech/i;
 const STABILIZE_MS = 400; // small wait so text can settle
+const MAX_TOOL_OUTPUT_CHARS = 8000; // keep big API payloads from bloating transcript chunks
+
+function toolMeta(t: ToolRecord) {
+  let output = t.output;
+  try {
+    const json = JSON.stringify(t.output);
+    if (json && json.length > MAX_TOOL_OUTPUT_CHARS) {
+      output = { truncated: true, preview: json.slice(0, MAX_TOOL_OUTPUT_CHARS) };
+    }
+  } catch {}
+  return {
+    tool: {
+      name: t.name,
+      call_id: t.callId,
+      arguments: t.arguments,
+      output,
+      ok: t.ok,
+      error: t.error,
+      duration_ms: t.durationMs,
+    },
+  };
+}
 
 function postJSON(url: string, body: any) {
   return fetch(url, {
@@ -42,6 +81,7 @@ export function useTranscriptSink(conversation: ConvItem[]) {
         role: m.role,
         text: m.text,
         ts: m.timestamp,
+        ...(m.tool ? { meta: toolMeta(m.tool) } : {}),
       })),
     };
 
@@ -80,6 +120,8 @@ export function useTranscriptSink(conversation: ConvItem[]) {
 
       // Skip obvious placeholder
       if (m.role === "user" && USER_PLACEHOLDER_RE.test(text)) continue;
+      // Tool calls are persisted once, with their output
+      if (m.role === "tool" && !m.isFinal) continue;
 
       // stabilization logic: if text changed, reset the clock
       const prev = lastText.current.get(m.id);
@@ -1,9 +1,12 @@
 
 import type { ToolDef } from "@/types/tools";
-import { applyTemplate, hasUnresolvedTokens } from "@/lib/utils";
+import { applyTemplate, hasUnresolvedTokens, tpl } from "@/lib/utils";
 import { reviveJsonStringsDeep } from "@/lib/datacheck/json-revive";
 import { toast } from "sonner";
-import type { HttpToolDescriptor, UIAction } from "@/types/httpTool.schema";
+import type { UIAction } from "@/types/httpTool.schema";
+import type { PublicToolRegistryItem } from "@/types/toolRegistry.schema";
+import type { ToolCallContext, ToolConfirmation } from "@/lib/realtime";
+import { retryBudgetMs } from "@/lib/net/retry";
 
 
 /** Local helper: safe nested path read */
@@ -28,29 +31,88 @@ function computeOk(
   return resStatus >= 200 && resStatus < 300;
 }
 
+/** Server-side time budget of one call: the http retry budget, or the whole workflow chain */
+function serverBudgetMs(descr: PublicToolRegistryItem) {
+  if (descr.kind === "workflow_tool") return descr.timeoutMs;
+  if (descr.kind === "mongo_tool") return descr.mongo.timeoutMs;
+  // graphql: the operation type isn't public, so assume a retried query (upper bound)
+  if (descr.kind === "graphql_tool") {
+    const { retry } = descr.graphql;
+    return retryBudgetMs({ ...descr.graphql, method: "POST", retry: retry && { ...retry, idempotentOnly: false } });
+  }
+  return retryBudgetMs(descr.http);
+}
+
+/** Workflow, graphql and mongo tools always answer { ok, ... } */
+const okFieldOf = (descr: PublicToolRegistryItem) => (descr.kind === "http_tool" ? descr.http.okField : "ok");
+
+type SayFn = (text: string, opts?: { barge?: boolean; voice?: string }) => void;
+
+/** Template an emit_say (string or { text, barge, voice }) into a speakable line, or null. */
+function resolveSay(say: UIAction["emit_say"], ctx: Record<string, any>) {
+  if (!say) return null;
+  const spec = typeof say === "string" ? { text: say } : say;
+  if (typeof say === "object" && say.ssml) console.warn("[http tool] emit_say.ssml is not supported by realtime voice; using text");
+  // a half-filled line ("Your number is {{response.ref}}" with no ref) is worse than letting the model phrase it
+  const tokens = spec.text.match(/\{\{\s*[^{}]+?\s*\}\}/g) ?? [];
+  if (tokens.some((t) => { const v = tpl(t, ctx); return v == null || v === ""; })) return null;
+  const text = String(tpl(spec.text, ctx) ?? "").trim();
+  if (!text) return null;
+  return { text, barge: spec.barge, voice: spec.voice };
+}
+
+/**
+ * What a tool result does on the stage: the UI block in effect (the response's own `ui`
+ * wins over the descriptor's onSuccess/onError), its templated visual and spoken line.
+ * Shared with the /validate dry-run console so its preview matches a live call.
+ */
+export function resolveToolUi(
+  ui: { onSuccess?: UIAction; onError?: UIAction } | undefined,
+  ok: boolean,
+  ctx: { args: Record<string, any>; response: any; status: number }
+) {
+  const responseUi: UIAction | undefined =
+    ctx.response && typeof ctx.response === "object" ? (ctx.response.ui as any) : undefined;
+  const effective = responseUi ?? (ok ? ui?.onSuccess : ui?.onError);
+
+  // revive JSON-looking strings (templated arrays/objects) before showing
+  const show = effective?.emit_show_component
+    ? reviveJsonStringsDeep(applyTemplate(effective.emit_show_component, ctx))
+    : undefined;
+
+  return {
+    ui: effective,
+    fromResponse: !!responseUi,
+    show,
+    unresolved: show !== undefined && hasUnresolvedTokens(show),
+    say: resolveSay(effective?.emit_say, ctx),
+  };
+}
+
 /** Build a client-side executor that calls our server proxy, then optionally shows/hides UI. */
 function buildHttpExecutorViaProxy(
-  descr: HttpToolDescriptor,
+  tenantId: string,
+  descr: PublicToolRegistryItem,
   opts?: {
     showOnStage?: (args: any) => void;
     hideStage?: () => void;
+    say?: SayFn;
   }
 ) {
-  const { showOnStage, hideStage } = opts ?? {};
+  const { showOnStage, hideStage, say } = opts ?? {};
 
-  return async (args: Record<string, any>) => {
-    // Hit the server route so secrets stay server-side.
+  return async (args: Record<string, any>, callCtx?: ToolCallContext) => {
+    // Hit the server route: it loads the descriptor itself, so URLs and secrets stay server-side.
     const clientTraceId = `client_${Date.now()}_${Math.random().toString(36).slice(2)}`;
     const toastId = `tool_${clientTraceId}`;
     let outcomeShown = false
 
-    // client-side timeout (respects descr.http.timeoutMs if present)
+    // client-side timeout: the server's whole budget (retries + backoffs, or all workflow steps)
     const controller = new AbortController();
-    const timeoutMs = (descr.http as any)?.timeoutMs && Number((descr.http as any).timeoutMs);
-    const timeout =
-      Number.isFinite(timeoutMs) && timeoutMs! > 0
-        ? setTimeout(() => controller.abort(), timeoutMs!)
-        : undefined;
+    const timeoutMs = serverBudgetMs(descr) + 1_000;
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    // the realtime tool scheduler aborts on its own timeout or on barge-in
+    callCtx?.signal.addEventListener("abort", () => controller.abort());
 
     const loadingText = (descr as any).ui?.loadingMessage || `Running ${descr.name}…`;
     toast.loading(loadingText, { id: toastId });
@@ -68,7 +130,8 @@ function buildHttpExecutorViaProxy(
           "content-type": "application/json",
           "x-trace-id": clientTraceId, // correlate with server logs if needed
         },
-        body: JSON.stringify({ descriptor: descr, args }),
+        // the server refuses a requiresConfirmation tool unless its gate opened
+        body: JSON.stringify({ tenantId, toolName: descr.name, args, ...(callCtx?.confirmed ? { confirmed: true } : {}) }),
         signal: controller.signal,
       });
 
@@ -83,43 +146,53 @@ function buildHttpExecutorViaProxy(
         /* leave as text */
       }
 
+      // descriptor.response shaping: full payload for okField/UI, trimmed one for the model
+      let modelOutput: any = undefined;
+      if (r.headers.get("x-tool-shaped") === "1" && payload && typeof payload === "object") {
+        modelOutput = payload.model;
+        payload = payload.full;
+      }
+
       // Decide success
-      ok = computeOk(status, payload, descr.http.okField);
+      ok = computeOk(status, payload, okFieldOf(descr));
 
       // Build a templating context for UI
         const ctx = { args, response: payload, status };
 
         // Prefer UI instructions from the API; fallback to descriptor-defined
-        const responseUi: UIAction | undefined =
-          payload && typeof payload === "object" ? (payload.ui as any) : undefined;
-
-        const fallbackUi = ok ? descr.ui?.onSuccess : descr.ui?.onError;
-        const ui = responseUi ?? fallbackUi;
+        const { ui, fromResponse, show, unresolved, say: line } = resolveToolUi(descr.ui, ok, ctx);
 
-        console.log('[tool]', descr.name, { ok, uiFromResponse: !!responseUi, uiEffective: ui });
+        console.log('[tool]', descr.name, { ok, uiFromResponse: fromResponse, uiEffective: ui });
         if (!showOnStage) console.warn('[tool]', descr.name, 'showOnStage is undefined');
         if (!ui?.emit_show_component) console.warn('[tool]', descr.name, 'no emit_show_component in UI block', ui);
 
 
-        // Execute UI instructions (revive JSON-like strings before showing)
-        if (ui?.emit_show_component && showOnStage) {
-          let openPayload = applyTemplate(ui.emit_show_component, ctx);
-
-          // ⬇️ First gate revive: convert any JSON-looking strings into objects/arrays
-          openPayload = reviveJsonStringsDeep(openPayload);
-
-          if (hasUnresolvedTokens(openPayload)) {
-            console.warn(`[http tool UI:${descr.name}] unresolved tokens in UI payload`, openPayload);
+        // Execute UI instructions
+        if (show !== undefined && showOnStage) {
+          if (unresolved) {
+            console.warn(`[http tool UI:${descr.name}] unresolved tokens in UI payload`, show);
           } 
 
           try {
-            showOnStage(openPayload);
+            showOnStage(show);
           } catch (e) {
             console.warn(`[http tool:${descr.name}] showOnStage failed:`, (e as any)?.message || e);
           }
           
         }
 
+        // Deterministic speech (confirmation numbers etc.): spoken verbatim, the model is told so
+        let spoken: string | undefined;
+        if (ui?.emit_say && !line) console.warn(`[http tool UI:${descr.name}] emit_say skipped (missing values)`, ui.emit_say);
+        if (line && say && !callCtx?.signal.aborted) {
+          try {
+            say(line.text, { barge: line.barge, voice: line.voice });
+            spoken = line.text;
+          } catch (e) {
+            console.warn(`[http tool:${descr.name}] say failed:`, (e as any)?.message || e);
+          }
+        }
+
      
      // Toast outcome
       if (ok) {
@@ -136,13 +209,16 @@ function buildHttpExecutorViaProxy(
         outcomeShown = true;
       }
 
-      // Return original tool result to the model (JSON if possible, else text)
+      // Return the shaped result if the descriptor asked for one, else the original payload
+      const alreadySaid = spoken ? { spoken_to_guest: spoken } : {};
+      if (modelOutput !== undefined) return { ok, ...modelOutput, ...alreadySaid };
+      if (spoken && payload && typeof payload === "object" && !Array.isArray(payload)) return { ...payload, ...alreadySaid };
       return payload;
     } catch (err: any) {
       // AbortError or network failure
       const aborted = err?.name === "AbortError";
       const msg = aborted
-        ? `${descr.name} timed out`
+        ? callCtx?.signal.aborted ? `${descr.name} was cancelled` : `${descr.name} timed out`
         : `Error running ${descr.name}: ${err?.message || String(err)}`;
 
       // keep UI consistent on fatal error
@@ -154,7 +230,8 @@ function buildHttpExecutorViaProxy(
       return { ok: false, error: msg, status, };
 
     } finally {
-      
+      clearTimeout(timeout);
+
        if (!outcomeShown) {
         toast.dismiss(toastId);
        }
@@ -165,13 +242,19 @@ function buildHttpExecutorViaProxy(
 /** Convert descriptors => ToolDefs + register handlers */
 export async function registerHttpToolsForTenant(opts: {
   tenantId: string;
-  fetchDescriptors: () => Promise<HttpToolDescriptor[]>;
-  registerFunction: (name: string, fn: (args: any) => Promise<any>) => void;
+  fetchDescriptors: () => Promise<PublicToolRegistryItem[]>;
+  registerFunction: (
+    name: string,
+    fn: (args: any, ctx?: ToolCallContext) => Promise<any>,
+    opts?: { timeoutMs?: number; confirm?: boolean | ToolConfirmation }
+  ) => void;
   cap?: number; // keep under model tool limits (e.g., 128)
   showOnStage?: (args: any) => void;
   hideStage?: () => void;
+  /** Speaks ui.emit_say lines through the realtime client (WebRTCClient.say) */
+  say?: SayFn;
 }) {
-  const { fetchDescriptors, registerFunction, cap = 96, showOnStage, hideStage } = opts;
+  const { tenantId, fetchDescriptors, registerFunction, cap = 96, showOnStage, hideStage, say } = opts;
   const all = (await fetchDescriptors()).filter((d) => d.enabled !== false);
 
   // sort by priority desc, name asc (stable)
@@ -187,9 +270,15 @@ export async function registerHttpToolsForTenant(opts: {
     // ✅ Ensure name collision safety and a stable prefix
     const safeName = d.name.startsWith("http_") ? d.name : `http_${d.name}`;
 
+    // scheduler timeout sits just above the fetch timeout so the tool reports its own;
+    // requiresConfirmation tools wait for the guest's yes before either starts
     registerFunction(
       safeName,
-      buildHttpExecutorViaProxy(d, { showOnStage, hideStage })
+      buildHttpExecutorViaProxy(tenantId, d, { showOnStage, hideStage, say }),
+      {
+        timeoutMs: serverBudgetMs(d) + 2_000,
+        confirm: d.requiresConfirmation,
+      }
     );
 
     toolDefs.push({
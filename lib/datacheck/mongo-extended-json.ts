@@ -0,0 +1,19 @@
+// lib/datacheck/mongo-extended-json.ts
+// Descriptors are often pasted into Atlas as Extended JSON; turn number wrappers back into numbers.
+
+export function unwrapMongoExtendedJSON(v: any): any {
+  if (Array.isArray(v)) return v.map(unwrapMongoExtendedJSON);
+  if (v && typeof v === "object") {
+    // number types
+    if ("$numberInt" in v) return parseInt(v.$numberInt, 10);
+    if ("$numberLong" in v) return parseInt(v.$numberLong, 10);
+    if ("$numberDouble" in v) return parseFloat(v.$numberDouble);
+    if ("$numberDecimal" in v) return Number(v.$numberDecimal);
+
+    // recurse
+    const out: Record<string, any> = {};
+    for (const [k, val] of Object.entries(v)) out[k] = unwrapMongoExtendedJSON(val);
+    return out;
+  }
+  return v;
+}
@@ -0,0 +1,58 @@
+// lib/net/circuit-breaker.ts
+// Consecutive-failure circuit breaker keyed by tenant + upstream host (server only).
+// closed -> (N failures) -> open -> (cooldown) -> half-open: one probe decides.
+// State is per server instance; that's enough to stop hammering a host that is down.
+
+import { toolHttpCfg } from "@/config/tools";
+
+type Circuit = {
+  failures: number;
+  openedAt: number | null;
+  probeStartedAt: number | null;  // half-open probe in flight
+};
+
+export type CircuitCheck = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(
+    private readonly failureThreshold = toolHttpCfg.breakerFailureThreshold,
+    private readonly cooldownMs = toolHttpCfg.breakerCooldownMs
+  ) {}
+
+  static key(tenantId: string | undefined, host: string) {
+    return `${tenantId ?? "-"}|${host.toLowerCase()}`;
+  }
+
+  check(key: string): CircuitCheck {
+    const c = this.circuits.get(key);
+    if (!c || c.openedAt == null) return { allowed: true };
+
+    const waited = Date.now() - c.openedAt;
+    if (waited < this.cooldownMs) return { allowed: false, retryAfterMs: this.cooldownMs - waited };
+
+    // half-open: let exactly one request through (a probe that never reported back expires)
+    if (c.probeStartedAt != null && Date.now() - c.probeStartedAt < this.cooldownMs) {
+      return { allowed: false, retryAfterMs: 1_000 };
+    }
+    c.probeStartedAt = Date.now();
+    return { allowed: true };
+  }
+
+  success(key: string) {
+    this.circuits.delete(key);
+  }
+
+  failure(key: string) {
+    const c = this.circuits.get(key) ?? { failures: 0, openedAt: null, probeStartedAt: null };
+    c.failures += 1;
+    if (c.probeStartedAt != null || c.failures >= this.failureThreshold) {
+      c.openedAt = Date.now();
+      c.probeStartedAt = null;
+    }
+    this.circuits.set(key, c);
+  }
+}
+
+export const toolCircuitBreaker = new CircuitBreaker();
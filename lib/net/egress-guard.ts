@@ -0,0 +1,279 @@
+// lib/net/egress-guard.ts
+// Outbound HTTP for tenant-authored descriptors (server only). Descriptors are
+// untrusted input, so every hop is checked before a socket is opened:
+//   - http/https only, no credentials in the URL
+//   - optional per-tenant host allowlist ("api.example.com", "*.example.com")
+//   - hostname resolved once; ALL addresses must be public (no private, loopback,
+//     link-local/metadata, CGNAT, ULA, multicast, reserved, ...)
+//   - the connection is pinned to the address we checked (no DNS rebinding)
+//   - redirects are followed manually and every target goes through the same checks
+//   - the body is read up to maxResponseBytes (decompressed), then the read is aborted
+// The WHATWG URL parser already canonicalizes decimal/hex/octal IPv4 forms
+// ("http://2130706433/", "http://0x7f.1/") to dotted quads, so they are caught too.
+
+import dns from "node:dns/promises";
+import net from "node:net";
+import http from "node:http";
+import https from "node:https";
+import zlib from "node:zlib";
+import { toolHttpCfg } from "@/config/tools";
+
+export class EgressBlockedError extends Error {
+  constructor(message: string, readonly url: string) {
+    super(message);
+    this.name = "EgressBlockedError";
+  }
+}
+
+/** The upstream body went over the byte cap; the connection was dropped mid-read. */
+export class ResponseTooLargeError extends Error {
+  constructor(readonly limit: number, readonly url: string) {
+    super(`Response body exceeds ${limit} bytes`);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+export interface EgressPolicy {
+  /** When non-empty, only these hosts (exact, or "*.suffix") may be called. */
+  allowedHosts?: string[];
+  maxRedirects?: number; // default 5
+  maxResponseBytes?: number; // default toolHttpCfg.maxResponseBytes (TOOL_MAX_RESPONSE_BYTES)
+}
+
+const BLOCKED = new net.BlockList();
+[
+  ["0.0.0.0", 8],        // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],    // CGNAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],   // link-local incl. cloud metadata (169.254.169.254)
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],     // TEST-NET-1
+  ["192.88.99.0", 24],   // 6to4 relay
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],    // benchmarking
+  ["198.51.100.0", 24],  // TEST-NET-2
+  ["203.0.113.0", 24],   // TEST-NET-3
+  ["224.0.0.0", 4],      // multicast
+  ["240.0.0.0", 4],      // reserved + broadcast
+].forEach(([a, p]) => BLOCKED.addSubnet(a as string, p as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],     // NAT64 (embeds an IPv4 we can't vet here)
+  ["100::", 64],         // discard
+  ["2001::", 32],        // Teredo
+  ["2001:db8::", 32],    // documentation
+  ["2002::", 16],        // 6to4
+  ["fc00::", 7],         // unique local
+  ["fe80::", 10],        // link-local
+  ["ff00::", 8],         // multicast
+].forEach(([a, p]) => BLOCKED.addSubnet(a as string, p as number, "ipv6"));
+
+/** True when an IP literal is not publicly routable. */
+export function isBlockedAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 4) return BLOCKED.check(ip, "ipv4");
+  if (family === 6) {
+    // IPv4-mapped (::ffff:10.0.0.1 / ::ffff:a00:1) -> judge the IPv4 inside
+    const mapped = /^::ffff:(?:0:)?(.+)$/i.exec(ip)?.[1];
+    if (mapped) {
+      if (net.isIPv4(mapped)) return BLOCKED.check(mapped, "ipv4");
+      const hex = mapped.split(":");
+      if (hex.length === 2) {
+        const n = (parseInt(hex[0], 16) << 16) | parseInt(hex[1], 16);
+        return BLOCKED.check([n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join("."), "ipv4");
+      }
+    }
+    return BLOCKED.check(ip, "ipv6");
+  }
+  return true; // not an IP at all: refuse rather than guess
+}
+
+function hostAllowed(host: string, allowedHosts?: string[]) {
+  if (!allowedHosts?.length) return true;
+  const h = host.toLowerCase();
+  return allowedHosts.some((raw) => {
+    const a = raw.trim().toLowerCase();
+    if (a.startsWith("*.")) return h.endsWith(a.slice(1)) && h.length > a.length - 1;
+    return h === a;
+  });
+}
+
+export type CheckedTarget = { url: URL; address: string; family: 4 | 6 };
+
+/** Validate a URL against the policy and resolve it to a single vetted address. */
+export async function checkEgressTarget(raw: string, policy: EgressPolicy = {}): Promise<CheckedTarget> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new EgressBlockedError("Invalid URL", raw);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new EgressBlockedError(`Invalid protocol: ${url.protocol}. Only http/https allowed.`, raw);
+  }
+  if (url.username || url.password) {
+    throw new EgressBlockedError("Credentials in URLs are not allowed.", raw);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!hostAllowed(host, policy.allowedHosts)) {
+    throw new EgressBlockedError(`Host ${host} is not in the tenant allowlist.`, raw);
+  }
+
+  let addrs: { address: string; family: number }[];
+  if (net.isIP(host)) {
+    addrs = [{ address: host, family: net.isIP(host) }];
+  } else {
+    try {
+      addrs = await dns.lookup(host, { all: true, verbatim: true });
+    } catch (e: any) {
+      throw new EgressBlockedError(`Cannot resolve ${host}: ${e?.code || e?.message}`, raw);
+    }
+  }
+  if (!addrs.length) throw new EgressBlockedError(`Cannot resolve ${host}`, raw);
+
+  // Every answer must be public; otherwise a round-robin record could slip a private one in
+  const bad = addrs.find((a) => isBlockedAddress(a.address));
+  if (bad) {
+    throw new EgressBlockedError(`Access to internal address ${bad.address} (${host}) is prohibited.`, raw);
+  }
+
+  const first = addrs[0];
+  return { url, address: first.address, family: first.family === 6 ? 6 : 4 };
+}
+
+export interface GuardedRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+  signal?: AbortSignal;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * fetch()-alike that connects only to vetted addresses and re-checks every redirect.
+ * Returns a standard Response.
+ */
+export async function guardedFetch(
+  rawUrl: string,
+  init: GuardedRequestInit = {},
+  policy: EgressPolicy = {}
+): Promise<Response> {
+  let method = (init.method ?? "GET").toUpperCase();
+  let headers = { ...(init.headers ?? {}) };
+  let body = init.body;
+  let current = rawUrl;
+  const maxRedirects = policy.maxRedirects ?? 5;
+
+  for (let hop = 0; ; hop++) {
+    const target = await checkEgressTarget(current, policy);
+    const res = await requestPinned(target, { method, headers, body, signal: init.signal });
+
+    const location = res.headers.location;
+    if (!REDIRECT_STATUSES.has(res.status) || !location) {
+      return toResponse(res, policy.maxResponseBytes ?? toolHttpCfg.maxResponseBytes, current);
+    }
+
+    res.stream.resume(); // discard redirect body
+    if (hop >= maxRedirects) {
+      throw new EgressBlockedError(`Too many redirects (>${maxRedirects})`, current);
+    }
+
+    const next = new URL(String(location), target.url);
+    if (next.origin !== target.url.origin) {
+      // never forward credentials to another origin
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([k]) => !/^(authorization|cookie|proxy-authorization)$/i.test(k))
+      );
+    }
+    if (res.status === 303 || ((res.status === 301 || res.status === 302) && method === "POST")) {
+      method = "GET";
+      body = undefined;
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([k]) => !/^content-(type|length)$/i.test(k))
+      );
+    }
+    current = next.toString();
+  }
+}
+
+type PinnedResponse = {
+  status: number;
+  statusText: string;
+  headers: http.IncomingHttpHeaders;
+  stream: http.IncomingMessage;
+};
+
+function requestPinned(target: CheckedTarget, init: GuardedRequestInit): Promise<PinnedResponse> {
+  const { url, address, family } = target;
+  const mod = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = mod.request(
+      url,
+      {
+        method: init.method,
+        headers: { "accept-encoding": "gzip, deflate, br", ...init.headers },
+        // Pin: connect to the address we vetted; TLS SNI/cert checks still use url.hostname
+        lookup: (_host: string, opts: any, cb: any) => {
+          if (opts?.all) cb(null, [{ address, family }]);
+          else cb(null, address, family);
+        },
+        signal: init.signal,
+      },
+      (res) =>
+        resolve({
+          status: res.statusCode ?? 0,
+          statusText: res.statusMessage ?? "",
+          headers: res.headers,
+          stream: res,
+        })
+    );
+    req.on("error", reject);
+    if (init.body != null) req.write(init.body);
+    req.end();
+  });
+}
+
+/** Buffers the body, at most `maxBytes` of it after decompression (a small gzip can inflate a lot) */
+async function toResponse(res: PinnedResponse, maxBytes: number, url: string): Promise<Response> {
+  const tooLarge = () => {
+    res.stream.destroy();
+    return new ResponseTooLargeError(maxBytes, url);
+  };
+  if (Number(res.headers["content-length"]) > maxBytes) throw tooLarge();
+
+  const encoding = String(res.headers["content-encoding"] ?? "").toLowerCase();
+  let stream: NodeJS.ReadableStream = res.stream;
+  if (encoding === "gzip" || encoding === "x-gzip") stream = res.stream.pipe(zlib.createGunzip());
+  else if (encoding === "deflate") stream = res.stream.pipe(zlib.createInflate());
+  else if (encoding === "br") stream = res.stream.pipe(zlib.createBrotliDecompress());
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const c of stream) {
+    const chunk = Buffer.isBuffer(c) ? c : Buffer.from(c);
+    size += chunk.length;
+    if (size > maxBytes) throw tooLarge();
+    chunks.push(chunk);
+  }
+  const buf = Buffer.concat(chunks);
+
+  const headers = new Headers();
+  for (const [k, v] of Object.entries(res.headers)) {
+    if (v == null || k === "content-encoding" || k === "content-length") continue;
+    (Array.isArray(v) ? v : [v]).forEach((x) => headers.append(k, String(x)));
+  }
+
+  const status = res.status >= 200 && res.status <= 599 ? res.status : 502;
+  return new Response(NULL_BODY_STATUSES.has(status) ? null : buf, {
+    status,
+    statusText: res.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,53 @@
+// lib/net/retry.ts
+// Retry math for http tool descriptors. Pure (no Node APIs) so the browser-side
+// executor can size its own timeout to the server's retry budget.
+
+import { HttpRetrySchema, type HttpRetryPolicy } from "@/types/httpTool.schema";
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export const isIdempotentMethod = (method: string) => IDEMPOTENT_METHODS.has(method.toUpperCase());
+
+/**
+ * The effective policy for a (raw, unparsed) http config, or null when the
+ * descriptor has no retry block or may not be retried.
+ */
+export function resolveRetryPolicy(http: any): HttpRetryPolicy | null {
+  if (!http?.retry) return null;
+  const parsed = HttpRetrySchema.safeParse(http.retry);
+  if (!parsed.success) return null;
+  const policy = parsed.data;
+  const method = String(http.method || "POST");
+  if (policy.maxAttempts <= 1) return null;
+  if (policy.idempotentOnly && !isIdempotentMethod(method)) return null;
+  return policy;
+}
+
+/** Delay before attempt `attempt + 1` (attempt is 1-based). Retry-After wins when present. */
+export function backoffDelayMs(policy: HttpRetryPolicy, attempt: number, retryAfter?: string | null): number {
+  const fromHeader = parseRetryAfterMs(retryAfter);
+  if (fromHeader != null) return Math.min(fromHeader, policy.maxBackoffMs);
+
+  const raw =
+    policy.backoff === "fixed"
+      ? policy.baseDelayMs
+      : policy.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = 0.8 + Math.random() * 0.4; // ±20% so tenants' retries don't line up
+  return Math.min(Math.round(raw * jitter), policy.maxBackoffMs);
+}
+
+function parseRetryAfterMs(v?: string | null): number | null {
+  if (!v) return null;
+  const secs = Number(v);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(v);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+/** Worst-case wall time for one tool call: every attempt times out, every backoff maxed. */
+export function retryBudgetMs(http: any): number {
+  const timeoutMs = Number(http?.timeoutMs) || 15_000;
+  const policy = resolveRetryPolicy(http);
+  if (!policy) return timeoutMs;
+  return policy.maxAttempts * timeoutMs + (policy.maxAttempts - 1) * policy.maxBackoffMs;
+}
@@ -1,9 +1,50 @@
 // lib/realtime
 // A tiny, focused wrapper for OpenAI Realtime.
-// Pure browser APIs + typed callbacks.
+// Pure browser APIs + typed callbacks. The wire (WebRTC or WebSocket) is a pluggable transport.
+
+import { WebRTCTransport } from "./webrtc-transport";
+import { WebSocketTransport } from "./websocket-transport";
+import { ToolCallScheduler } from "./tool-scheduler";
+import type { RealtimeTransport, TransportEvents, TransportFactory, TransportKind } from "./transport";
+import type { ToolCallContext } from "./tool-scheduler";
+import { invalidArgsOutput, validateToolArgs } from "@/lib/tools/validate-args";
+import { tpl } from "@/lib/utils";
+
+export type { RealtimeTransport, TransportFactory, TransportKind } from "./transport";
+export type { ToolCallContext } from "./tool-scheduler";
+export { WebRTCTransport, WebSocketTransport };
+
+/** A locally registered tool. `ctx.signal` aborts on timeout or barge-in. */
+export type ToolFunction = (args: any, ctx?: ToolCallContext) => Promise<any> | any;
+
+/**
+ * Ask the guest before a tool runs (cancel, charge, submit). `summary`/`title` may use
+ * {{args.*}}; a function gets the parsed args. Unanswered after timeoutSec (default 60) = declined.
+ */
+export interface ToolConfirmation {
+  summary?: string | ((args: any) => string);
+  title?: string;
+  confirmLabel?: string;
+  declineLabel?: string;
+  timeoutSec?: number;
+}
+
+/** A call held for the guest's answer (what the stage shows). `id` is the call id. */
+export interface ToolConfirmationRequest {
+  id: string;
+  name: string;
+  args: any;
+  title: string;
+  summary: string;
+  confirmLabel: string;
+  declineLabel: string;
+  expiresAt: number;       // Date.now() based
+}
 
-export type Role = "user" | "assistant" | "system";
-export type SessionStatus = "DISCONNECTED" | "CONNECTING" | "CONNECTED" | "ERROR";
+export type ToolConfirmationOutcome = "confirmed" | "declined" | "timeout" | "cancelled";
+
+export type Role = "user" | "assistant" | "system" | "tool";
+export type SessionStatus = "DISCONNECTED" | "CONNECTING" | "CONNECTED" | "RECONNECTING" | "ERROR";
 
 export interface ConversationItem {
   id: string;
@@ -12,6 +53,18 @@ export interface ConversationItem {
   isFinal?: boolean;
   status?: "speaking" | "processing" | "final";
   timestamp: number; // Date.now()
+  tool?: ToolCallRecord; // set when role === "tool"
+}
+
+/** A function call the agent made and what it got back (role "tool" items). */
+export interface ToolCallRecord {
+  name: string;
+  callId: string;
+  arguments: any;          // parsed call arguments
+  output?: any;            // what was sent back as function_call_output
+  ok?: boolean;            // undefined while running
+  error?: string;
+  durationMs?: number;
 }
 
 export interface ToolDef {
@@ -27,6 +80,14 @@ export interface AgentConfigInput {
   voice?: string;
 }
 
+export interface ReconnectOptions {
+  enabled?: boolean;                 // default false on the raw client
+  maxAttempts?: number;              // default 5
+  baseDelayMs?: number;              // default 500 (doubles per attempt)
+  maxDelayMs?: number;               // default 8000
+  replayTurns?: number;              // prior final turns summarized on resume (default 12)
+}
+
 export interface RealtimeOptions {
   model?: string;                    // default: keep flexible
   voice?: string;                    // can be overridden per-agent
@@ -41,6 +102,13 @@ export interface RealtimeOptions {
   };
    // control whether to append model/voice to URL
   appendModelVoiceToUrl?: boolean; // default true (safe)
+  // auto-reconnect when the data channel closes or ICE fails mid-call
+  reconnect?: ReconnectOptions;
+  // "webrtc" (default), "websocket", "auto" (WebRTC, fall back to WebSocket when it
+  // cannot connect, e.g. UDP blocked), or a factory for a custom/headless transport
+  transport?: TransportKind | "auto" | TransportFactory;
+  // tool calls: per-call timeout (registerFunction's timeoutMs wins), default 20s
+  toolTimeoutMs?: number;
   // Callbacks (all optional)
   onStatus?: (s: SessionStatus) => void;
   onConversation?: (items: ConversationItem[]) => void;
@@ -53,13 +121,14 @@ export interface RealtimeOptions {
     arguments: string;
     respond: (output: any) => void;                // send function output back
   }) => void; 
+  // a tool registered with `confirm` is waiting for the guest (one at a time, oldest first)
+  onConfirmationRequest?: (req: ToolConfirmationRequest) => void;
+  onConfirmationSettled?: (id: string, outcome: ToolConfirmationOutcome) => void;
 }
 
 export class WebRTCClient {
-  private pc: RTCPeerConnection | null = null;
-  private dc: RTCDataChannel | null = null;
-  private micStream: MediaStream | null = null;
-  private audioEl: HTMLAudioElement | null = null;
+  private transport: RealtimeTransport | null = null;
+  private useWebSocketFallback = false;   // sticky once "auto" had to fall back
 
   private analyser: AnalyserNode | null = null; // assistant audio RMS
   private volumeInterval: number | null = null;
@@ -69,12 +138,45 @@ export class WebRTCClient {
   private opts: RealtimeOptions;
   private agent: AgentConfigInput = {};
 
-  private functionRegistry: Record<string, (args: any) => Promise<any> | any> = {};
+  private functionRegistry: Record<string, ToolFunction> = {};
+  private functionTimeouts: Record<string, number> = {};
+  private functionConfirmations: Record<string, ToolConfirmation> = {};
+  // calls waiting for the guest's yes/no; only the first is on screen
+  private confirmations: Array<{
+    req: ToolConfirmationRequest;
+    timeoutSec: number;
+    resolve: (outcome: ToolConfirmationOutcome) => void;
+    timer?: ReturnType<typeof setTimeout>;
+  }> = [];
+  private toolScheduler = new ToolCallScheduler(
+    {
+      sendOutput: (callId, output) => {
+        this.completeToolItem(callId, output);
+        this.send({
+          type: "conversation.item.create",
+          item: { type: "function_call_output", call_id: callId, output: JSON.stringify(output) },
+        });
+      },
+      requestResponse: () => this.createResponse(),
+    },
+    { timeoutFor: (name) => this.functionTimeouts[name] ?? this.opts.toolTimeoutMs }
+  );
   private ephemeralUserMessageId: string | null = null;
 
+  // one response at a time: tool follow-ups and say() wait for response.done
+  private responseInFlight = false;        // between response.created and response.done
+  private responseRequested = false;       // response.create sent, response.created not seen yet
+  private deferredResponses: Array<() => void> = [];
+
   // session id tracked for usage accounting and heart beat
   private smSessionId: string | null = null;
 
+  // reconnect bookkeeping
+  private requestMic = true;               // remembered from the last connect()
+  private resuming = false;                // true while a reconnect attempt is in flight
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
   private normalizeTools(tools?: ToolDef[]) {
     const arr = Array.isArray(tools) ? tools : [];
     return arr.map(t => ({
@@ -134,7 +236,7 @@ public exposeRegistryToWindow(key: string = "getToolRegistrySnapshot") {
   setAgent(agent: AgentConfigInput) {
     this.agent = { ...this.agent, ...agent };
     // if connected, immediately push session.update
-    if (this.dc?.readyState === "open") this.updateSession({});
+    if (this.transport?.isOpen()) this.updateSession({});
   }
 
  updateSession(
@@ -176,9 +278,14 @@ public exposeRegistryToWindow(key: string = "getToolRegistrySnapshot") {
 }
 
   // ---------- Register a local function (tool) ----------
-registerFunction(name: string, fn: (args: any) => Promise<any> | any) {
+registerFunction(name: string, fn: ToolFunction, opts?: { timeoutMs?: number; confirm?: boolean | ToolConfirmation }) {
   const existed = !!this.functionRegistry[name];
   this.functionRegistry[name] = fn;
+  if (opts?.timeoutMs) this.functionTimeouts[name] = opts.timeoutMs;
+  else delete this.functionTimeouts[name];
+  // the scheduler timeout starts after the guest confirms, so it needs no extra room
+  if (opts?.confirm) this.functionConfirmations[name] = opts.confirm === true ? {} : opts.confirm;
+  else delete this.functionConfirmations[name];
 
     // DEBUG
     console.log("[WebRTCClient] registerFunction:", name,
@@ -212,6 +319,8 @@ registerFunction(name: string, fn: (args: any) => Promise<any> | any) {
     if (!existed) return false;
 
     delete this.functionRegistry[name];
+    delete this.functionTimeouts[name];
+    delete this.functionConfirmations[name];
 
     if (typeof window !== "undefined") {
       const w = window as any;
@@ -278,149 +387,272 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
 }
   /** Toggle the local microphone track on/off without renegotiation. */
   public setMicEnabled(enabled: boolean): void {
-    this.micStream?.getAudioTracks().forEach(t => (t.enabled = enabled));
+    this.transport?.setMicEnabled(enabled);
   }
 
   /** True if any local audio track is currently enabled. */
   public isMicEnabled(): boolean {
-    return this.micStream?.getAudioTracks().some(t => t.enabled) ?? false;
+    return this.transport?.isMicEnabled() ?? false;
+  }
+
+  /** Which wire is in use ("webrtc" | "websocket"), null when idle. */
+  public getTransportKind(): TransportKind | null { return this.transport?.kind ?? null; }
+
+  public getLocalStream(): MediaStream | null { return this.transport?.getLocalStream() ?? null; }
+  // WebRTC-only internals (diagnostics); null over WebSocket
+  public getDataChannel(): RTCDataChannel | null {
+    return this.transport instanceof WebRTCTransport ? this.transport.getDataChannel() : null;
+  }
+  public getPeerConnection(): RTCPeerConnection | null {
+    return this.transport instanceof WebRTCTransport ? this.transport.getPeerConnection() : null;
   }
-  
-  public getDataChannel(): RTCDataChannel | null { return this.dc; }
-  public getPeerConnection(): RTCPeerConnection | null { return this.pc; }  
 
   // ---------- Connect / Disconnect ----------
  public async connect({ requestMic = true }: { requestMic?: boolean } = {}) {
-  // Prevent double-connect
-  if (this.status !== "DISCONNECTED") return;
-  this.setStatus("CONNECTING");
+  // Prevent double-connect (a reconnect attempt re-enters while RECONNECTING)
+  if (this.status !== "DISCONNECTED" && !(this.resuming && this.status === "RECONNECTING")) return;
+  this.requestMic = requestMic;
+  if (!this.resuming) this.setStatus("CONNECTING");
 
   try {
+    await this.startSession(requestMic);
+    // If we got here, the transport's "open" will flip status to CONNECTED soon.
+  } catch (err) {
+    console.error("connect error", err);
+    if (this.resuming) {
+      // keep the conversation; the reconnect loop decides what happens next
+      this.teardownTransport();
+      throw err;
+    }
+    this.setStatus("ERROR");
+    // ensure resources are cleaned up on failure
+    this.disconnect();
+    throw err;
+  }
+}
+
+  /** Token + transport handshake; "auto" retries once over WebSocket if WebRTC fails. */
+  private async startSession(requestMic: boolean): Promise<void> {
     // 1) Get ephemeral token (your /api/session may pass agent config through)
     const token = await (this.opts.tokenProvider?.() ?? this.defaultTokenProvider());
 
-    // 2) (Optional) get mic
-    if (requestMic) {
-      this.micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-    }
+    // 2) Create the transport for this connection
+    const transport = this.createTransport();
+    this.transport = transport;
 
-    // 3) Create PC + DC
-    this.pc = new RTCPeerConnection();
-    this.dc = this.pc.createDataChannel("response");
-
-    // DataChannel events
-    this.dc.onopen = () => {
-      // Mark connected
-      this.setStatus("CONNECTED");
-      // Push current session config immediately (safe no-op if server already set it)
-      this.updateSession({});
-       // Trigger initial response to make the agent speak the greeting
-      this.send({ type: "response.create" });
-    };
-    this.dc.onclose = () => this.setStatus("DISCONNECTED");
-    this.dc.onerror = () => this.setStatus("ERROR");
-    this.dc.onmessage = (ev) => this.handleDataChannelMessage(ev);
-
-    // 4) Add local mic track (if any)
-    if (this.micStream) {
-      const [track] = this.micStream.getTracks();
-      if (track) this.pc.addTrack(track, this.micStream);
+    // 3) Handshake
+    const model = this.opts.model ?? process.env.OPENAI_API_REALTIME ?? "gpt_realtime_mini"
+    try {
+      await transport.connect({
+        token,
+        apiBase: this.opts.apiBase ?? "https://api.openai.com/v1/realtime",
+        model,
+        voice: this.agent.voice ?? this.opts.voice ?? "alloy",
+        appendModelVoiceToUrl: this.opts.appendModelVoiceToUrl ?? true,
+        requestMic,
+      }, this.bindTransportEvents(transport));
+    } catch (err) {
+      if (!this.canFallBack(transport)) throw err;
+      console.warn("[WebRTCClient] WebRTC failed, falling back to WebSocket:", err);
+      this.useWebSocketFallback = true;
+      this.teardownTransport();
+      // fresh token: the first one may already be bound to the failed session
+      return this.startSession(requestMic);
     }
+  }
 
-    // 5) Inbound assistant audio -> play + start RMS meter
-    this.pc.ontrack = (evt) => {
-      if (!this.audioEl) {
-        this.audioEl = document.createElement("audio");
-        this.audioEl.autoplay = true;
-        // Keep it simple: attach to body; you can style/hide as needed
-        document.body.appendChild(this.audioEl);
-      }
-      this.audioEl.srcObject = evt.streams[0];
-      this.setupOutboundVolumeMeter(evt.streams[0]);
-      // Autoplay safety
-      this.audioEl.play().catch(() => {
-        // Some browsers gate autoplay; UI will typically unlock after a user gesture.
-      });
-    };
+  private createTransport(): RealtimeTransport {
+    const t = this.opts.transport ?? "webrtc";
+    if (typeof t === "function") return t();
+    if (t === "websocket" || (t === "auto" && this.useWebSocketFallback)) return new WebSocketTransport();
+    return new WebRTCTransport();
+  }
 
-    // 6) Create offer & set local description
-    const offer = await this.pc.createOffer();
-    await this.pc.setLocalDescription(offer);
+  private canFallBack(transport: RealtimeTransport) {
+    return this.opts.transport === "auto" && transport.kind === "webrtc" && transport === this.transport;
+  }
 
-    // 7) Build Realtime URL (two styles)
-    const base = this.opts.apiBase ?? "https://api.openai.com/v1/realtime";
-    //const model = this.opts.model ?? "gpt-4o-realtime-preview-2024-12-17";
-    const model = this.opts.model ?? process.env.OPENAI_API_REALTIME ?? "gpt_realtime_mini"
-    const voice = this.agent.voice ?? this.opts.voice ?? "alloy";
-
-    // A) Keep params (redundant but crystal-clear)
-    const urlA = `${base}?model=${encodeURIComponent(model)}&voice=${encodeURIComponent(voice)}`;
-    // B) Server is source of truth (passthrough config) – no params
-    const urlB = base;
-
-    const useParams = (this.opts.appendModelVoiceToUrl ?? true);
-    const url = useParams ? urlA : urlB;
-
-    // 8) Send SDP offer to OpenAI Realtime & set remote answer
-    const resp = await fetch(url, {
-      method: "POST",
-      body: offer.sdp!,
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/sdp",
+  /** Route transport callbacks to the client; events from a replaced transport are dropped. */
+  private bindTransportEvents(transport: RealtimeTransport): TransportEvents {
+    const live = () => transport === this.transport;
+    return {
+      onOpen: () => { if (live()) this.handleTransportOpen(); },
+      onClose: (reason) => { if (live()) this.handleTransportLost(reason); },
+      onError: () => {
+        if (live() && !this.opts.reconnect?.enabled) this.setStatus("ERROR");
       },
-    });
+      onMessage: (data) => { if (live()) this.handleDataChannelMessage(data); },
+      onAudioOutput: (ctx, node) => { if (live()) this.setupOutboundVolumeMeter(ctx, node); },
+    };
+  }
 
-    if (!resp.ok) {
-      const t = await resp.text();
-      throw new Error(`Realtime answer failed: ${resp.status} ${t}`);
+  private handleTransportOpen() {
+    const resumed = this.resuming;
+    this.resuming = false;
+    this.reconnectAttempts = 0;
+    // Mark connected
+    this.setStatus("CONNECTED");
+    // Push current session config immediately (safe no-op if server already set it)
+    this.updateSession({});
+    if (resumed) {
+      // Pick up where the guest left off instead of greeting again
+      this.replayConversationSummary();
+      return;
     }
-
-    const answerSdp = await resp.text();
-    await this.pc.setRemoteDescription({ type: "answer", sdp: answerSdp });
-
-    // If we got here, DC "open" will flip status to CONNECTED soon (above).
-  } catch (err) {
-    console.error("connect error", err);
-    this.setStatus("ERROR");
-    // ensure resources are cleaned up on failure
-    this.disconnect();
-    throw err;
+     // Trigger initial response to make the agent speak the greeting
+    this.send({ type: "response.create" });
   }
-}
+
   /////////////////////////////////////////////////////////
   ////////////////////////////////////////////////////////
 
   disconnect() {
+    this.cancelReconnect();
+    this.teardownTransport();
+
+    this.setStatus("DISCONNECTED");
+    this.ephemeralUserMessageId = null;
+    this.conv = [];
+    this.emitConversation();
+  }
+
+  // ---------- Reconnect ----------
+  /** Stop any pending reconnect attempt (user hung up or gave up). */
+  private cancelReconnect() {
+    if (this.reconnectTimer != null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.resuming = false;
+    this.reconnectAttempts = 0;
+  }
+
+  /** Close the transport (sockets/mic/audio) but keep the conversation and agent config. */
+  private teardownTransport() {
     this.clearOutboundVolumeMeter();
+    // outputs for calls of the old session can't be delivered anymore
+    this.toolScheduler.reset();
+    this.dropConfirmations();
+    this.responseInFlight = false;
+    this.responseRequested = false;
+    this.deferredResponses = [];
+
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close();
+  }
 
-    if (this.dc) try { this.dc.close(); } catch {}
-    if (this.pc) try { this.pc.close(); } catch {}
+  /** Transport closed or failed (DC close, ICE failure, socket close) while we did not ask for it. */
+  private handleTransportLost(reason: string) {
+    // "auto": WebRTC never came up (e.g. UDP blocked) -> retry the handshake over WebSocket
+    if (this.status === "CONNECTING" && this.transport && this.canFallBack(this.transport)) {
+      console.warn("[WebRTCClient] WebRTC lost before open (", reason, "), falling back to WebSocket");
+      this.useWebSocketFallback = true;
+      this.teardownTransport();
+      this.startSession(this.requestMic).catch(err => {
+        console.error("connect error", err);
+        this.setStatus("ERROR");
+        this.disconnect();
+      });
+      return;
+    }
+    if (!this.opts.reconnect?.enabled) {
+      this.setStatus("DISCONNECTED");
+      return;
+    }
+    // a reconnect attempt died before opening: back off and try again
+    if (this.status === "RECONNECTING") {
+      this.resuming = false;
+      this.teardownTransport();
+      this.scheduleReconnect();
+      return;
+    }
+    // only mid-call drops are resumed; a failed first connect stays a failure
+    if (this.status !== "CONNECTED") {
+      this.setStatus("DISCONNECTED");
+      return;
+    }
 
-    this.dc = null;
-    this.pc = null;
+    console.warn("[WebRTCClient] transport lost:", reason, "- reconnecting");
+    this.teardownTransport();
+    // a half-spoken user turn will never be completed by the old session
+    if (this.ephemeralUserMessageId) {
+      this.conv = this.conv.filter(x => x.id !== this.ephemeralUserMessageId);
+      this.clearEphemeralUserItem();
+      this.emitConversation();
+    }
+    this.setStatus("RECONNECTING");
+    this.scheduleReconnect();
+  }
 
-    if (this.micStream) {
-      this.micStream.getTracks().forEach(t => t.stop());
-      this.micStream = null;
+  private scheduleReconnect() {
+    if (this.reconnectTimer != null) return; // already scheduled
+    const r = this.opts.reconnect ?? {};
+    const maxAttempts = r.maxAttempts ?? 5;
+    if (this.reconnectAttempts >= maxAttempts) {
+      console.warn("[WebRTCClient] reconnect gave up after", this.reconnectAttempts, "attempts");
+      this.disconnect();
+      return;
     }
 
-    if (this.audioEl) {
-      this.audioEl.pause();
-      this.audioEl.srcObject = null;
-      this.audioEl.remove();
-      this.audioEl = null;
+    const base = r.baseDelayMs ?? 500;
+    const cap = r.maxDelayMs ?? 8000;
+    const delay = Math.min(cap, base * 2 ** this.reconnectAttempts) * (0.8 + Math.random() * 0.4);
+    this.reconnectAttempts += 1;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.status !== "RECONNECTING") return; // user disconnected meanwhile
+      this.resuming = true;
+      try {
+        await this.connect({ requestMic: this.requestMic });
+      } catch {
+        if (this.status === "RECONNECTING") this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Replay a compact summary of the prior conversation into the fresh session
+   * so the agent can continue (e.g. a half-finished booking) without starting over.
+   */
+  private replayConversationSummary() {
+    const maxTurns = this.opts.reconnect?.replayTurns ?? 12;
+    const turns = this.conv
+      .filter(x => x.isFinal && x.text.trim() && (x.role === "user" || x.role === "assistant"))
+      .slice(-maxTurns)
+      .map(x => `${x.role === "user" ? "Guest" : "Agent"}: ${clip(x.text.trim(), 300)}`);
+
+    if (turns.length) {
+      this.send({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "system",
+          content: [{
+            type: "input_text",
+            text: [
+              "The call dropped and was reconnected. Summary of the conversation so far (most recent last):",
+              ...turns,
+            ].join("\n"),
+          }],
+        },
+      });
     }
 
-    this.setStatus("DISCONNECTED");
-    this.ephemeralUserMessageId = null;
-    this.conv = [];
-    this.emitConversation();
+    this.send({
+      type: "response.create",
+      response: {
+        instructions: turns.length
+          ? "Briefly tell the guest the connection is back and continue exactly where the conversation left off. Do not greet again or repeat questions already answered."
+          : undefined,
+      },
+    });
   }
 
   // ---------- Messaging ----------
   sendText(text: string) {
-    if (!this.dc || this.dc.readyState !== "open") return;
+    if (!this.transport?.isOpen()) return;
 
     const itemId = crypto.randomUUID();
     this.appendMessage({
@@ -441,10 +673,126 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
       },
     });
 
+    this.answerConfirmation(text);
     this.send({ type: "response.create" });
   }
 
+  /**
+   * Speak a fixed line (tool emit_say): a response.create whose instructions pin the wording.
+   * Queued behind an active response unless `barge`, which cuts the current speech first.
+   */
+  say(text: string, opts: { barge?: boolean; voice?: string } = {}): boolean {
+    if (!this.transport?.isOpen() || !text.trim()) return false;
+    if (opts.barge) this.interruptSpeech();
+
+    this.createResponse({
+      instructions: `Say exactly the following to the guest, word for word, and nothing else:\n${text}`,
+      tool_choice: "none",
+      ...(opts.voice ? { voice: opts.voice } : {}),
+      metadata: { say: true },
+    });
+    return true;
+  }
+
+  // ---------- Tool confirmation ----------
+  /** The guest clicked confirm/decline on the stage. False if the call is no longer waiting. */
+  resolveConfirmation(id: string, confirmed: boolean): boolean {
+    return this.settleConfirmation(id, confirmed ? "confirmed" : "declined");
+  }
+
+  /** Calls currently waiting for the guest, oldest (the one on screen) first. */
+  getPendingConfirmations(): ToolConfirmationRequest[] {
+    return this.confirmations.map(c => ({ ...c.req }));
+  }
+
+  /**
+   * Scheduler gate of a `confirm` tool: undefined once the guest says yes, otherwise the
+   * output the model gets instead of the call running.
+   */
+  private confirmCall(name: string, callId: string, args: any, schema: Record<string, any> | undefined, spec: ToolConfirmation) {
+    // don't ask the guest about a call that can't run anyway
+    const check = validateToolArgs(args, schema);
+    if (!check.ok) return Promise.resolve(invalidArgsOutput(name, schema, check.issues));
+
+    const label = name.replace(/^http_/, "").replace(/[_.-]+/g, " ").trim();
+    const render = (t?: string) => (t ? String(tpl(t, { args }) ?? "").trim() : "");
+    const summary = typeof spec.summary === "function" ? String(spec.summary(args) ?? "").trim() : render(spec.summary);
+    const req: ToolConfirmationRequest = {
+      id: callId,
+      name,
+      args,
+      title: render(spec.title) || "Please confirm",
+      summary: summary || label.charAt(0).toUpperCase() + label.slice(1),
+      confirmLabel: spec.confirmLabel ?? "Confirm",
+      declineLabel: spec.declineLabel ?? "Cancel",
+      expiresAt: 0,
+    };
+
+    return new Promise<ToolConfirmationOutcome>((resolve) => {
+      this.confirmations.push({ req, timeoutSec: spec.timeoutSec ?? 60, resolve });
+      if (this.confirmations.length === 1) this.showNextConfirmation();
+    }).then((outcome) => {
+      console.log("[WebRTCClient] confirmation:", name, outcome);
+      if (outcome === "confirmed") return undefined;
+      return {
+        ok: false,
+        error: "user_declined",
+        reason: outcome,
+        message:
+          outcome === "timeout"
+            ? `The guest did not confirm ${label} in time; nothing was done. Ask again only if they still want it.`
+            : `The guest did not confirm ${label}; nothing was done. Do not retry unless they ask again.`,
+      };
+    });
+  }
+
+  private showNextConfirmation() {
+    const next = this.confirmations[0];
+    if (!next) return;
+    next.req.expiresAt = Date.now() + next.timeoutSec * 1000;
+    next.timer = setTimeout(() => this.settleConfirmation(next.req.id, "timeout"), next.timeoutSec * 1000);
+    this.opts.onConfirmationRequest?.({ ...next.req });
+    this.say(`${next.req.summary.replace(/[\s.!?]+$/, "")}. Shall I go ahead?`);
+  }
+
+  private settleConfirmation(id: string, outcome: ToolConfirmationOutcome): boolean {
+    const i = this.confirmations.findIndex(c => c.req.id === id);
+    if (i < 0) return false;
+    const [entry] = this.confirmations.splice(i, 1);
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.resolve(outcome);
+    this.opts.onConfirmationSettled?.(id, outcome);
+    if (i === 0) this.showNextConfirmation();
+    return true;
+  }
+
+  /** Transport gone: every waiting call is answered "cancelled" (the scheduler already dropped them). */
+  private dropConfirmations() {
+    const waiting = this.confirmations;
+    this.confirmations = [];
+    waiting.forEach(c => {
+      if (c.timer) clearTimeout(c.timer);
+      c.resolve("cancelled");
+      this.opts.onConfirmationSettled?.(c.req.id, "cancelled");
+    });
+  }
+
+  /** A spoken or typed yes/no answers the confirmation on screen; anything else (questions, hedges) is left to the model. */
+  private answerConfirmation(text: string) {
+    const current = this.confirmations[0];
+    const answer = current ? matchYesNo(text) : null;
+    if (current && answer !== null) this.settleConfirmation(current.req.id, answer ? "confirmed" : "declined");
+  }
+
   cancelAssistantSpeech() {
+    // barge-in also abandons tool calls still running for the interrupted response
+    this.toolScheduler.cancelAll();
+    this.deferredResponses = [];
+    this.interruptSpeech();
+  }
+
+  /** Truncate + cancel whatever the assistant is saying right now. */
+  private interruptSpeech() {
     const lastAssistant = [...this.conv].reverse()
       .find(x => x.role === "assistant" && x.status !== "final");
     if (!lastAssistant) return;
@@ -460,12 +808,12 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
 
   // ---------- Push-to-talk ----------
   pttDown() {
-    if (this.getStatus() !== "CONNECTED" || !this.dc || this.dc.readyState !== "open") return;
+    if (this.getStatus() !== "CONNECTED" || !this.transport?.isOpen()) return;
     this.cancelAssistantSpeech();
     this.send({ type: "input_audio_buffer.clear" });
   }
   pttUp() {
-    if (this.getStatus() !== "CONNECTED" || !this.dc || this.dc.readyState !== "open") return;
+    if (this.getStatus() !== "CONNECTED" || !this.transport?.isOpen()) return;
     this.send({ type: "input_audio_buffer.commit" });
     this.send({ type: "response.create" });
   }
@@ -485,8 +833,17 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
   }
 
   private send(obj: any) {
-    if (!this.dc || this.dc.readyState !== "open") return;
-    this.dc.send(JSON.stringify(obj));
+    this.transport?.send(obj);
+  }
+
+  /** response.create now, or after response.done if one is still in flight. */
+  private createResponse(response?: Record<string, any>) {
+    if (this.responseInFlight || this.responseRequested) {
+      this.deferredResponses.push(() => this.createResponse(response));
+      return;
+    }
+    this.responseRequested = true;
+    this.send(response ? { type: "response.create", response } : { type: "response.create" });
   }
 
   private appendMessage(item: ConversationItem) {
@@ -518,6 +875,36 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
     this.appendMessage(fresh);
   }
 
+  private appendToolItem(name: string, callId: string, args: any) {
+    this.appendMessage({
+      id: `tool_${callId}`,
+      role: "tool",
+      text: `${name} …`,
+      isFinal: false,
+      status: "processing",
+      timestamp: Date.now(),
+      tool: { name, callId, arguments: args },
+    });
+  }
+
+  private completeToolItem(callId: string, output: any) {
+    const id = `tool_${callId}`;
+    this.conv = this.conv.map(x => {
+      if (x.id !== id || !x.tool) return x;
+      const error = output?.error != null ? String(output.error) : undefined;
+      const ok = error == null && output?.ok !== false;
+      const durationMs = Date.now() - x.timestamp;
+      return {
+        ...x,
+        text: `${x.tool.name} → ${ok ? "ok" : `error: ${error ?? "failed"}`} (${durationMs} ms)`,
+        isFinal: true,
+        status: "final",
+        tool: { ...x.tool, output, ok, error, durationMs },
+      };
+    });
+    this.emitConversation();
+  }
+
   private emitConversation() {
     this.opts.onConversation?.([...this.conv]);
   }
@@ -540,9 +927,10 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
     this.ephemeralUserMessageId = null;
   }
 
-  private handleDataChannelMessage = async (event: MessageEvent) => {
+  // Server events from whichever transport is live (name kept from the WebRTC-only days)
+  private handleDataChannelMessage = async (data: string) => {
     let msg: any;
-    try { msg = JSON.parse(event.data); } catch { return; }
+    try { msg = JSON.parse(data); } catch { return; }
 
     this.opts.onServerEvent?.(msg);
 
@@ -580,6 +968,7 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
           this.emitConversation();
           this.clearEphemeralUserItem();
         }
+        this.answerConfirmation(msg.transcript || "");
         break;
       }
 
@@ -604,30 +993,50 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
       }
 
       // Tool calls
+      // Tool calls: batched per response, run concurrently, answered once (see tool-scheduler)
       case "response.function_call_arguments.done": {
         const fn = this.functionRegistry[msg.name];
         const argsObj = safeParseJSON(msg.arguments);
-        const respond = (output: any) => {
-          this.send({
-            type: "conversation.item.create",
-            item: { type: "function_call_output", call_id: msg.call_id, output: JSON.stringify(output) },
-          });
-          this.send({ type: "response.create" });
-        };
-
-        // First give the app a chance (onFunctionCall)
-        this.opts.onFunctionCall?.({ name: msg.name, call_id: msg.call_id, arguments: msg.arguments, respond });
-
-        // If locally registered, run it
-        if (fn) {
-          try {
-            const result = await fn(argsObj);
-            respond(result);
-          } catch (e: any) {
-            respond({ error: e?.message || String(e) });
-          }
-        }
-        
+        this.appendToolItem(msg.name, msg.call_id, argsObj);
+
+        // First give the app a chance (onFunctionCall); a local function wins if both answer
+        let appRespond: (output: any) => void = () => {};
+        const appAnswer = new Promise<any>((resolve) => { appRespond = resolve; });
+        this.opts.onFunctionCall?.({ name: msg.name, call_id: msg.call_id, arguments: msg.arguments, respond: appRespond });
+
+        // the declared parameters are a contract: bad arguments never reach the function
+        const schema = this.agent.tools?.find(t => t.name === msg.name)?.parameters;
+        const confirm: ToolConfirmation | undefined = this.functionConfirmations[msg.name];
+        this.toolScheduler.enqueue(
+          msg.response_id,
+          { name: msg.name, callId: msg.call_id },
+          (ctx) => {
+            if (fn) {
+              const check = validateToolArgs(argsObj, schema);
+              if (!check.ok) return invalidArgsOutput(msg.name, schema, check.issues);
+              return fn(argsObj, ctx);
+            }
+            if (this.opts.onFunctionCall) return appAnswer;
+            return { error: `Unknown tool: ${msg.name}` };
+          },
+          confirm && (() => this.confirmCall(msg.name, msg.call_id, argsObj, schema, confirm))
+        );
+        break;
+      }
+      case "response.created": {
+        this.responseRequested = false;
+        this.responseInFlight = true;
+        break;
+      }
+      case "response.done": {
+        this.responseInFlight = false;
+        this.toolScheduler.markResponseDone(msg.response?.id);
+        this.deferredResponses.shift()?.();
+        break;
+      }
+      case "error": {
+        // a rejected response.create never gets response.created; don't wait for it forever
+        this.responseRequested = false;
         break;
       }
 
@@ -638,15 +1047,13 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
   };
 
   // Assistant outbound volume meter
-  private setupOutboundVolumeMeter(stream: MediaStream) {
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const src = ctx.createMediaStreamSource(stream);
+  private setupOutboundVolumeMeter(ctx: AudioContext, src: AudioNode) {
     const analyser = ctx.createAnalyser();
     analyser.fftSize = 256;
     src.connect(analyser);
-    this.analyser = analyser;
 
     this.clearOutboundVolumeMeter();
+    this.analyser = analyser;
     this.volumeInterval = window.setInterval(() => {
       const rms = this.getRMS(analyser);
       this.opts.onVolume?.(rms);
@@ -673,6 +1080,26 @@ public forceToolCall(name: string, args?: any, sayAfter?: string) {
   }
 }
 
+function clip(s: string, max: number) {
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+// Leading yes/no of a guest's answer to "Shall I go ahead?"
+// The whole utterance must be an answer ("yes", "okay, go ahead please", "no thanks"):
+// "Okay, what's the fee?" or "Sure... actually wait" stay pending and go to the model.
+const YES_WORDS = "yes|yeah|yep|yup|sure|ok|okay|confirm|confirmed|correct|right|that's right|go ahead|do it|please do|absolutely|of course|sounds good";
+const NO_WORDS = "no|nope|nah|cancel|don't|do not|don't do it|stop|wait|hold on|never ?mind|not now";
+const POLITE_WORDS = "please|thanks|thank you";
+const YES_RE = new RegExp(`^(?:${YES_WORDS})(?: (?:${YES_WORDS}|${POLITE_WORDS}))*$`);
+const NO_RE = new RegExp(`^(?:${NO_WORDS})(?: (?:${NO_WORDS}|${POLITE_WORDS}))*$`);
+
+function matchYesNo(text: string): boolean | null {
+  const t = text.toLowerCase().replace(/[’]/g, "'").replace(/[^a-z' ]+/g, " ").replace(/\s+/g, " ").trim();
+  if (NO_RE.test(t)) return false;
+  if (YES_RE.test(t)) return true;
+  return null;
+}
+
 function safeParseJSON(s: string) {
   try { return JSON.parse(s); } catch { return {}; }
 }
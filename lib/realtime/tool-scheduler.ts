@@ -0,0 +1,158 @@
+// lib/realtime/tool-scheduler.ts
+// Runs the function calls of one model response together: concurrently, each with
+// a timeout, cancellable on barge-in, and answered with ONE response.create once
+// every output is in (one response.create per call made the agent talk over itself).
+// A call may wait on a gate first (the guest confirming a destructive tool): its timeout
+// starts once the gate opens, and barge-in doesn't abort it (the guest talking IS the answer).
+
+export interface ToolCallContext {
+  signal: AbortSignal;   // aborted on timeout or barge-in
+  callId: string;
+  confirmed: boolean;    // the call passed its gate (the guest said yes)
+}
+
+type PendingCall = {
+  name: string;
+  callId: string;
+  controller: AbortController;
+  gated: boolean;          // still waiting on its gate
+  confirmed: boolean;      // its gate opened
+  settled: boolean;
+  output?: unknown;
+};
+
+type Batch = {
+  calls: PendingCall[];
+  responseDone: boolean;   // the model finished emitting calls for this response
+  cancelled: boolean;      // barge-in: send outputs, but don't ask for a new response
+};
+
+export interface ToolSchedulerIO {
+  sendOutput: (callId: string, output: unknown) => void;
+  requestResponse: () => void;
+}
+
+export interface ToolSchedulerOptions {
+  defaultTimeoutMs?: number;                     // default 20000
+  timeoutFor?: (name: string) => number | undefined;
+}
+
+const NO_RESPONSE_ID = "__none__";
+
+export class ToolCallScheduler {
+  private batches = new Map<string, Batch>();
+
+  constructor(private io: ToolSchedulerIO, private opts: ToolSchedulerOptions = {}) {}
+
+  /**
+   * Start a call now (or once `gate` resolves to undefined; anything else is sent as its
+   * output instead of running). The output is held until the whole response's batch is settled.
+   */
+  enqueue(
+    responseId: string | undefined,
+    call: { name: string; callId: string },
+    run: (ctx: ToolCallContext) => Promise<unknown> | unknown,
+    gate?: () => Promise<unknown>
+  ) {
+    const key = responseId ?? NO_RESPONSE_ID;
+    let batch = this.batches.get(key);
+    if (!batch) {
+      batch = { calls: [], responseDone: false, cancelled: false };
+      this.batches.set(key, batch);
+    }
+
+    const pending: PendingCall = { ...call, controller: new AbortController(), gated: !!gate, confirmed: false, settled: false };
+    batch.calls.push(pending);
+
+    const settle = (output: unknown) => {
+      pending.settled = true;
+      pending.output = output;
+      // calls without a response id can't be correlated with response.done
+      if (key === NO_RESPONSE_ID) batch!.responseDone = true;
+      this.maybeFlush(key);
+    };
+
+    if (!gate) return this.start(pending, run, settle);
+    gate()
+      .catch((e: any) => ({ error: e?.message || String(e) }))
+      .then((blocked) => {
+        pending.gated = false;
+        if (pending.controller.signal.aborted) return settle({ error: `${call.name} was cancelled`, cancelled: true });
+        if (blocked !== undefined) return settle(blocked);
+        pending.confirmed = true;
+        this.start(pending, run, settle);
+      });
+  }
+
+  private start(
+    pending: PendingCall,
+    run: (ctx: ToolCallContext) => Promise<unknown> | unknown,
+    settle: (output: unknown) => void
+  ) {
+    const call = { name: pending.name, callId: pending.callId };
+    const timeoutMs = this.opts.timeoutFor?.(call.name) ?? this.opts.defaultTimeoutMs ?? 20_000;
+    const timer = setTimeout(() => pending.controller.abort("timeout"), timeoutMs);
+
+    const aborted = new Promise<unknown>((resolve) => {
+      pending.controller.signal.addEventListener("abort", () => {
+        const reason = pending.controller.signal.reason;
+        resolve(
+          reason === "timeout"
+            ? { error: `${call.name} timed out after ${Math.round(timeoutMs / 1000)}s`, timeout: true }
+            : { error: `${call.name} was cancelled`, cancelled: true }
+        );
+      });
+    });
+
+    const work = Promise.resolve()
+      .then(() => run({ signal: pending.controller.signal, callId: call.callId, confirmed: pending.confirmed }))
+      .catch((e: any) => ({ error: e?.message || String(e) }));
+
+    Promise.race([work, aborted]).then((output) => {
+      clearTimeout(timer);
+      settle(output);
+    });
+  }
+
+  /** `response.done` for this id: no more calls will join the batch. */
+  markResponseDone(responseId: string | undefined) {
+    const key = responseId ?? NO_RESPONSE_ID;
+    const batch = this.batches.get(key);
+    if (!batch) return;
+    batch.responseDone = true;
+    this.maybeFlush(key);
+  }
+
+  /**
+   * Barge-in: abort everything in flight; outputs still go back so the model sees them.
+   * Calls waiting on a gate are left alone, and their batch still gets its response.create.
+   */
+  cancelAll() {
+    for (const [key, batch] of this.batches) {
+      const gated = batch.calls.some(c => c.gated);
+      batch.cancelled = !gated;
+      batch.responseDone = true;
+      batch.calls.forEach(c => { if (!c.settled && !c.gated) c.controller.abort("cancelled"); });
+      this.maybeFlush(key);
+    }
+  }
+
+  /** Drop everything without sending (transport is gone). */
+  reset() {
+    this.batches.forEach(b => b.calls.forEach(c => c.controller.abort("cancelled")));
+    this.batches.clear();
+  }
+
+  hasPending() {
+    return this.batches.size > 0;
+  }
+
+  private maybeFlush(key: string) {
+    const batch = this.batches.get(key);
+    if (!batch || !batch.responseDone || batch.calls.some(c => !c.settled)) return;
+    this.batches.delete(key);
+
+    batch.calls.forEach(c => this.io.sendOutput(c.callId, c.output));
+    if (!batch.cancelled) this.io.requestResponse();
+  }
+}
@@ -0,0 +1,46 @@
+// lib/realtime/transport.ts
+// Transport seam for WebRTCClient: the client owns conversation/tool state,
+// a transport only moves JSON events (and audio) to and from the Realtime API.
+
+export type TransportKind = "webrtc" | "websocket";
+
+export interface TransportConnectParams {
+  token: string;                 // ephemeral client secret
+  apiBase: string;               // e.g. https://api.openai.com/v1/realtime
+  model: string;
+  voice: string;
+  appendModelVoiceToUrl: boolean;
+  requestMic: boolean;
+}
+
+export interface TransportEvents {
+  onOpen: () => void;
+  onClose: (reason: string) => void;   // closed/failed while we did not ask for it
+  onError: (err: unknown) => void;
+  onMessage: (data: string) => void;   // raw server event (JSON text)
+  /** Assistant audio is flowing through `node`; used for the RMS meter. */
+  onAudioOutput?: (ctx: AudioContext, node: AudioNode) => void;
+}
+
+export interface RealtimeTransport {
+  readonly kind: TransportKind;
+  /** Resolves once the handshake is done; `events.onOpen` fires when events can flow. */
+  connect(params: TransportConnectParams, events: TransportEvents): Promise<void>;
+  /** Returns false if the channel is not open (event dropped). */
+  send(obj: unknown): boolean;
+  isOpen(): boolean;
+  /** Release sockets, mic and playback. Never fires `onClose`. */
+  close(): void;
+
+  setMicEnabled(enabled: boolean): void;
+  isMicEnabled(): boolean;
+  getLocalStream(): MediaStream | null;
+}
+
+export type TransportFactory = () => RealtimeTransport;
+
+/** `${base}?model=..&voice=..` or the bare base when the server is source of truth. */
+export function buildRealtimeUrl(p: TransportConnectParams, base = p.apiBase): string {
+  if (!p.appendModelVoiceToUrl) return base;
+  return `${base}?model=${encodeURIComponent(p.model)}&voice=${encodeURIComponent(p.voice)}`;
+}
@@ -0,0 +1,19 @@
+// lib/realtime/usage.ts
+// Token usage from Realtime "response done" events (shape differs across releases).
+
+export type RealtimeUsage = { text_in: number; text_out: number; audio_in: number; audio_out: number };
+
+export function extractUsage(ev: any): RealtimeUsage | null {
+  // Common final event names from different releases
+  const doneType = new Set(['response.completed', 'response.done', 'response.finish']);
+  if (!ev || !doneType.has(ev.type)) return null;
+
+  const u = ev.usage || ev.response?.usage || {};
+  const text_in   = Number(u.text_in  ?? u.input_text_tokens   ?? u.input_tokens   ?? u.textIn   ?? 0);
+  const text_out  = Number(u.text_out ?? u.output_text_tokens  ?? u.output_tokens  ?? u.textOut  ?? 0);
+  const audio_in  = Number(u.audio_in ?? u.input_audio_tokens  ?? u.audioIn        ?? 0);
+  const audio_out = Number(u.audio_out?? u.output_audio_tokens ?? u.audioOut       ?? 0);
+
+  const total = text_in + text_out + audio_in + audio_out;
+  return total > 0 ? { text_in, text_out, audio_in, audio_out } : null;
+}
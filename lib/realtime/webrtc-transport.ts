@@ -0,0 +1,138 @@
+// lib/realtime/webrtc-transport.ts
+// RTCPeerConnection + "response" data channel; audio rides the media tracks.
+
+import { buildRealtimeUrl } from "./transport";
+import type { RealtimeTransport, TransportConnectParams, TransportEvents } from "./transport";
+
+export class WebRTCTransport implements RealtimeTransport {
+  readonly kind = "webrtc" as const;
+
+  private pc: RTCPeerConnection | null = null;
+  private dc: RTCDataChannel | null = null;
+  private micStream: MediaStream | null = null;
+  private audioEl: HTMLAudioElement | null = null;
+  private meterCtx: AudioContext | null = null;
+
+  async connect(params: TransportConnectParams, events: TransportEvents) {
+    // 1) (Optional) get mic
+    if (params.requestMic) {
+      this.micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    }
+
+    // 2) Create PC + DC
+    const pc = new RTCPeerConnection();
+    const dc = pc.createDataChannel("response");
+    this.pc = pc;
+    this.dc = dc;
+
+    // Handlers are bound to this pc/dc pair; stale ones are ignored after close()
+    dc.onopen = () => events.onOpen();
+    dc.onclose = () => {
+      if (dc === this.dc) events.onClose("datachannel closed");
+    };
+    dc.onerror = (e) => {
+      if (dc === this.dc) events.onError(e);
+    };
+    dc.onmessage = (ev) => events.onMessage(ev.data);
+    pc.oniceconnectionstatechange = () => {
+      if (pc === this.pc && pc.iceConnectionState === "failed") events.onClose("ice failed");
+    };
+
+    // 3) Add local mic track (if any)
+    if (this.micStream) {
+      const [track] = this.micStream.getTracks();
+      if (track) pc.addTrack(track, this.micStream);
+    }
+
+    // 4) Inbound assistant audio -> play + report for RMS meter
+    pc.ontrack = (evt) => {
+      if (!this.audioEl) {
+        this.audioEl = document.createElement("audio");
+        this.audioEl.autoplay = true;
+        // Keep it simple: attach to body; you can style/hide as needed
+        document.body.appendChild(this.audioEl);
+      }
+      this.audioEl.srcObject = evt.streams[0];
+      if (events.onAudioOutput) {
+        try { this.meterCtx?.close(); } catch {}
+        const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+        this.meterCtx = ctx;
+        events.onAudioOutput(ctx, ctx.createMediaStreamSource(evt.streams[0]));
+      }
+      // Autoplay safety
+      this.audioEl.play().catch(() => {
+        // Some browsers gate autoplay; UI will typically unlock after a user gesture.
+      });
+    };
+
+    // 5) Create offer & set local description
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+
+    // 6) Send SDP offer to OpenAI Realtime & set remote answer
+    const resp = await fetch(buildRealtimeUrl(params), {
+      method: "POST",
+      body: offer.sdp!,
+      headers: {
+        Authorization: `Bearer ${params.token}`,
+        "Content-Type": "application/sdp",
+      },
+    });
+
+    if (!resp.ok) {
+      const t = await resp.text();
+      throw new Error(`Realtime answer failed: ${resp.status} ${t}`);
+    }
+
+    const answerSdp = await resp.text();
+    await pc.setRemoteDescription({ type: "answer", sdp: answerSdp });
+    // If we got here, DC "open" will fire soon.
+  }
+
+  send(obj: unknown) {
+    if (!this.dc || this.dc.readyState !== "open") return false;
+    this.dc.send(JSON.stringify(obj));
+    return true;
+  }
+
+  isOpen() {
+    return this.dc?.readyState === "open";
+  }
+
+  close() {
+    const dc = this.dc;
+    const pc = this.pc;
+    this.dc = null;
+    this.pc = null;
+
+    if (dc) try { dc.close(); } catch {}
+    if (pc) try { pc.close(); } catch {}
+
+    if (this.micStream) {
+      this.micStream.getTracks().forEach(t => t.stop());
+      this.micStream = null;
+    }
+
+    if (this.audioEl) {
+      this.audioEl.pause();
+      this.audioEl.srcObject = null;
+      this.audioEl.remove();
+      this.audioEl = null;
+    }
+
+    try { this.meterCtx?.close(); } catch {}
+    this.meterCtx = null;
+  }
+
+  setMicEnabled(enabled: boolean) {
+    this.micStream?.getAudioTracks().forEach(t => (t.enabled = enabled));
+  }
+
+  isMicEnabled() {
+    return this.micStream?.getAudioTracks().some(t => t.enabled) ?? false;
+  }
+
+  getLocalStream() { return this.micStream; }
+  getDataChannel() { return this.dc; }
+  getPeerConnection() { return this.pc; }
+}
@@ -0,0 +1,235 @@
+// lib/realtime/websocket-transport.ts
+// Realtime over a single WebSocket: JSON events both ways, mic audio captured
+// by an AudioWorklet as PCM16 and appended via `input_audio_buffer.append`,
+// assistant audio (`response.audio.delta`) decoded and scheduled locally.
+// Works headless (Node, tests): pass `WebSocketImpl`, connect with requestMic=false,
+// and playback is skipped when there is no AudioContext.
+
+import { buildRealtimeUrl } from "./transport";
+import type { RealtimeTransport, TransportConnectParams, TransportEvents } from "./transport";
+
+const SAMPLE_RATE = 24000; // Realtime pcm16 is 24kHz mono
+
+type WebSocketCtor = new (url: string, protocols?: string | string[]) => WebSocket;
+
+export interface WebSocketTransportOptions {
+  /** Override the socket URL base (default: apiBase with http(s) -> ws(s)). */
+  wsBase?: string;
+  /** Custom WebSocket implementation (e.g. `ws` in Node). Default: global WebSocket. */
+  WebSocketImpl?: WebSocketCtor;
+}
+
+// Float32 -> PCM16 inside the audio thread; posts ArrayBuffers to the main thread.
+const CAPTURE_WORKLET = `
+class Pcm16Capture extends AudioWorkletProcessor {
+  process(inputs) {
+    const ch = inputs[0] && inputs[0][0];
+    if (ch && ch.length) {
+      const out = new Int16Array(ch.length);
+      for (let i = 0; i < ch.length; i++) {
+        const s = Math.max(-1, Math.min(1, ch[i]));
+        out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+      }
+      this.port.postMessage(out.buffer, [out.buffer]);
+    }
+    return true;
+  }
+}
+registerProcessor("pcm16-capture", Pcm16Capture);
+`;
+
+export class WebSocketTransport implements RealtimeTransport {
+  readonly kind = "websocket" as const;
+
+  private ws: WebSocket | null = null;
+  private micStream: MediaStream | null = null;
+  private micEnabled = true;
+
+  private captureCtx: AudioContext | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+
+  private playCtx: AudioContext | null = null;
+  private playGain: GainNode | null = null;
+  private playCursor = 0;                            // ctx time where the next chunk starts
+  private playing = new Set<AudioBufferSourceNode>();
+
+  constructor(private readonly wsOpts: WebSocketTransportOptions = {}) {}
+
+  async connect(params: TransportConnectParams, events: TransportEvents) {
+    const Impl = this.wsOpts.WebSocketImpl ?? (globalThis as any).WebSocket;
+    if (!Impl) throw new Error("WebSocket is not available in this environment");
+
+    const base = this.wsOpts.wsBase ?? params.apiBase.replace(/^http/, "ws");
+    // Browsers cannot set Authorization on a socket; the API accepts the key as a subprotocol
+    const ws: WebSocket = new Impl(buildRealtimeUrl(params, base), [
+      "realtime",
+      `openai-insecure-api-key.${params.token}`,
+      "openai-beta.realtime-v1",
+    ]);
+    this.ws = ws;
+
+    await new Promise<void>((resolve, reject) => {
+      ws.onopen = () => resolve();
+      ws.onerror = () => reject(new Error("Realtime websocket failed to open"));
+      ws.onclose = (ev) => reject(new Error(`Realtime websocket closed: ${ev.code} ${ev.reason}`));
+    });
+
+    // Steady-state handlers (bound to this socket; stale ones are ignored after close())
+    ws.onclose = (ev) => {
+      if (ws === this.ws) events.onClose(`websocket closed (${ev.code})`);
+    };
+    ws.onerror = (e) => {
+      if (ws === this.ws) events.onError(e);
+    };
+    ws.onmessage = (ev) => {
+      if (typeof ev.data === "string") this.handleMessage(ev.data, events);
+    };
+
+    if (params.requestMic) await this.startCapture();
+    this.startPlayback(events);
+
+    events.onOpen();
+  }
+
+  send(obj: unknown) {
+    if (!this.isOpen()) return false;
+    this.ws!.send(JSON.stringify(obj));
+    return true;
+  }
+
+  isOpen() {
+    return !!this.ws && this.ws.readyState === 1; // WebSocket.OPEN
+  }
+
+  close() {
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) try { ws.close(); } catch {}
+
+    this.stopPlaybackQueue();
+    try { this.captureNode?.disconnect(); } catch {}
+    try { this.captureCtx?.close(); } catch {}
+    try { this.playCtx?.close(); } catch {}
+    this.captureNode = null;
+    this.captureCtx = null;
+    this.playCtx = null;
+    this.playGain = null;
+
+    if (this.micStream) {
+      this.micStream.getTracks().forEach(t => t.stop());
+      this.micStream = null;
+    }
+  }
+
+  setMicEnabled(enabled: boolean) {
+    this.micEnabled = enabled;
+    this.micStream?.getAudioTracks().forEach(t => (t.enabled = enabled));
+  }
+
+  isMicEnabled() {
+    return !!this.micStream && this.micEnabled;
+  }
+
+  getLocalStream() { return this.micStream; }
+
+  // ---------- Internals ----------
+  private handleMessage(data: string, events: TransportEvents) {
+    // Peek at audio events; everything else goes to the client untouched
+    let type: string | undefined;
+    let msg: any;
+    try { msg = JSON.parse(data); type = msg?.type; } catch { /* client ignores junk too */ }
+
+    if (type === "response.audio.delta") {
+      // Large base64 payloads: play them here, don't flood the event log
+      this.enqueuePcm16(msg.delta);
+      return;
+    }
+    if (type === "input_audio_buffer.speech_started") {
+      // WebRTC stops playback server-side on barge-in; over WS we must do it
+      this.stopPlaybackQueue();
+    }
+    events.onMessage(data);
+  }
+
+  private async startCapture() {
+    this.micStream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+    });
+    this.micEnabled = true;
+
+    const ctx = new AudioContext({ sampleRate: SAMPLE_RATE });
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: "application/javascript" }));
+    try {
+      await ctx.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const src = ctx.createMediaStreamSource(this.micStream);
+    const node = new AudioWorkletNode(ctx, "pcm16-capture");
+    node.port.onmessage = (ev: MessageEvent<ArrayBuffer>) => {
+      if (!this.micEnabled) return;
+      this.send({ type: "input_audio_buffer.append", audio: arrayBufferToBase64(ev.data) });
+    };
+    src.connect(node);
+    // Worklets only run when pulled by the graph; the node outputs nothing audible
+    node.connect(ctx.destination);
+
+    this.captureCtx = ctx;
+    this.captureNode = node;
+  }
+
+  private startPlayback(events: TransportEvents) {
+    if (typeof AudioContext === "undefined") return; // headless
+    const ctx = new AudioContext({ sampleRate: SAMPLE_RATE });
+    const gain = ctx.createGain();
+    gain.connect(ctx.destination);
+    this.playCtx = ctx;
+    this.playGain = gain;
+    this.playCursor = 0;
+    events.onAudioOutput?.(ctx, gain);
+  }
+
+  private enqueuePcm16(b64: string | undefined) {
+    const ctx = this.playCtx;
+    if (!ctx || !this.playGain || !b64) return;
+
+    const pcm = new Int16Array(base64ToArrayBuffer(b64));
+    if (!pcm.length) return;
+    const buf = ctx.createBuffer(1, pcm.length, SAMPLE_RATE);
+    const ch = buf.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) ch[i] = pcm[i] / 0x8000;
+
+    const src = ctx.createBufferSource();
+    src.buffer = buf;
+    src.connect(this.playGain);
+    src.onended = () => this.playing.delete(src);
+
+    const startAt = Math.max(ctx.currentTime, this.playCursor);
+    src.start(startAt);
+    this.playCursor = startAt + buf.duration;
+    this.playing.add(src);
+  }
+
+  private stopPlaybackQueue() {
+    this.playing.forEach(src => { try { src.stop(); } catch {} });
+    this.playing.clear();
+    this.playCursor = 0;
+  }
+}
+
+function arrayBufferToBase64(buf: ArrayBuffer): string {
+  const bytes = new Uint8Array(buf);
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+function base64ToArrayBuffer(b64: string): ArrayBuffer {
+  const bin = atob(b64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes.buffer;
+}
@@ -1,17 +1,16 @@
 import {
-  ToolRegistryArraySchema,
-  type ToolRegistryItem,
+  PublicToolRegistryArraySchema,
+  type PublicToolRegistryItem,
 } from "@/types/toolRegistry.schema";
-import { lintHttpToolDescriptors } from "@/lib/validator/lint-tools"; 
-import type { HttpToolDescriptor } from "@/types/httpTool.schema";
 
 /**
  * Fetch enabled registry items for a tenant via your Next.js API.
- * Validates the payload with Zod and returns strongly-typed items.
+ * The route lints and validates the full descriptors server-side and returns
+ * their browser-safe form; we validate that shape with Zod here.
  */
 export async function fetchTenantRegistryItems(
   tenantId: string
-): Promise<ToolRegistryItem[]> {
+): Promise<PublicToolRegistryItem[]> {
   const res = await fetch(`/api/tools/fetch/${encodeURIComponent(tenantId)}`, {
     // keep it cache-busting; these can change often
     cache: "no-store",
@@ -25,28 +24,21 @@ export async function fetchTenantRegistryItems(
   }
 
   const data = await res.json();
-  
-  // Lint BEFORE registering
-  const results = lintHttpToolDescriptors(data); // returns structured issues 
-  const hasErrors = results.some(r => r.issues.some(i => i.severity === "error"));
 
-  // Surface problems in logs; choose whether to hard-fail or just warn
-  if (hasErrors) {
-    console.error("[tools] Lint errors:", results);
-    throw new Error("Tool descriptors failed lint");
-    // Option B (soft): continue but DO NOT send tools with errors
-    // rows = rows.filter(r => !results.find(x => x.name === r.name)?.issues.some(i => i.severity === "error"));
-  } else {
-    console.log("[tools] Lint OK for", tenantId);
-  }
-
-  
   // Validate & coerce with Zod
-  return ToolRegistryArraySchema.parse(data);
+  const parsed = PublicToolRegistryArraySchema.safeParse(data);
+  if (!parsed.success) {
+    console.error("[tools] Invalid registry payload:", parsed.error.issues);
+    throw new Error("Tool descriptors failed validation");
+  }
+  console.log("[tools] Registry OK for", tenantId);
+  return parsed.data;
 }
 
-/** Convenience: only http_tool items */
+const EXECUTABLE_KINDS = new Set(["http_tool", "workflow_tool", "graphql_tool", "mongo_tool"]);
+
+/** Convenience: items executed through /api/tools/execute (http, workflow, graphql and mongo tools) */
 export async function fetchTenantHttpTools(tenantId: string) {
   const items = await fetchTenantRegistryItems(tenantId);
-  return items.filter((it) => it.kind === "http_tool");
+  return items.filter((it) => EXECUTABLE_KINDS.has(it.kind));
 }
@@ -0,0 +1,45 @@
+// lib/registry/loadToolDescriptor.ts
+// Server-side descriptor lookup for /api/tools/execute. The browser only names the
+// tool; URL, headers and body templates always come from the `actions` collection.
+
+import { LRUCache } from "lru-cache";
+import getMongoConnection from "@/db/connections";
+import { unwrapMongoExtendedJSON } from "@/lib/datacheck/mongo-extended-json";
+import { ToolRegistryItemSchema, type ToolRegistryItem } from "@/types/toolRegistry.schema";
+
+export type DescriptorLookup =
+  | { ok: true; descriptor: ToolRegistryItem }
+  | { ok: false; reason: "not_found" | "disabled" | "invalid"; message: string };
+
+// Short TTL: edits in the admin tooling show up within seconds, hot paths skip Mongo
+const cache = new LRUCache<string, DescriptorLookup>({ max: 2000, ttl: 30_000 });
+
+export async function loadTenantToolDescriptor(tenantId: string, toolName: string): Promise<DescriptorLookup> {
+  const key = `${tenantId}|${toolName}`;
+  const hit = cache.get(key);
+  if (hit) return hit;
+
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  const row = await db.collection("actions").findOne({ tenantId, name: toolName }, { projection: { _id: 0 } });
+
+  let result: DescriptorLookup;
+  if (!row) {
+    result = { ok: false, reason: "not_found", message: `Unknown tool ${toolName}` };
+  } else if (row.enabled === false) {
+    result = { ok: false, reason: "disabled", message: `Tool ${toolName} is disabled` };
+  } else {
+    // rows written before `kind` existed are http tools
+    const parsed = ToolRegistryItemSchema.safeParse({ kind: "http_tool", ...unwrapMongoExtendedJSON(row) });
+    result = parsed.success
+      ? { ok: true, descriptor: parsed.data }
+      : { ok: false, reason: "invalid", message: `Tool ${toolName} has an invalid descriptor` };
+  }
+
+  cache.set(key, result);
+  return result;
+}
+
+/** Forget a cached lookup after the admin tooling writes that descriptor */
+export function invalidateToolDescriptor(tenantId: string, toolName: string) {
+  cache.delete(`${tenantId}|${toolName}`);
+}
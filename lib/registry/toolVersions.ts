@@ -0,0 +1,375 @@
+// lib/registry/toolVersions.ts
+// Draft / publish store for tool descriptors (server only, admin tooling).
+//
+// `actions` stays the published set: one row per tenant + name, the only thing
+// /api/tools/fetch and /api/tools/execute read. Edits go to a draft; publishing
+// lints it, gives it the next version number and copies it into `actions`.
+// Every published version is kept so it can be diffed against or rolled back to
+// (a rollback republishes the old descriptor under a new version number).
+//
+// Collections:
+//   actions          { ...descriptor, tenantId, name, version, publishedAt, publishedBy }
+//   action_drafts    { tenantId, name, descriptor, note?, updatedAt, updatedBy }
+//   action_versions  { tenantId, name, version, descriptor, note?, publishedAt, publishedBy, rollbackOf? }
+
+import type { Db } from "mongodb";
+import getMongoConnection from "@/db/connections";
+import { unwrapMongoExtendedJSON } from "@/lib/datacheck/mongo-extended-json";
+import { lintHttpToolDescriptors, type LintResult } from "@/lib/validator/lint-tools";
+import { invalidateToolDescriptor } from "@/lib/registry/loadToolDescriptor";
+
+const ACTIONS = "actions";
+const DRAFTS = "action_drafts";
+const VERSIONS = "action_versions";
+
+export interface ToolDraftDoc {
+  tenantId: string;
+  name: string;
+  descriptor: Record<string, any>;
+  note?: string | null;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+export interface ToolVersionDoc {
+  tenantId: string;
+  name: string;
+  version: number;
+  descriptor: Record<string, any>;
+  note?: string | null;
+  publishedAt: Date;
+  publishedBy: string;
+  rollbackOf?: number;
+}
+
+export type ToolVersionInfo = Omit<ToolVersionDoc, "descriptor">;
+
+export type ToolSummary = {
+  name: string;
+  kind: string;
+  enabled: boolean;
+  version: number | null;        // published version; null when only a draft exists
+  publishedAt: Date | null;
+  draft: { updatedAt: Date; updatedBy: string } | null;
+};
+
+/** Rejected store operation; `status` is what the admin route answers with */
+export class ToolVersionError extends Error {
+  constructor(public status: number, message: string, public report?: LintResult[]) {
+    super(message);
+    this.name = "ToolVersionError";
+  }
+}
+
+/** "draft", "published" or a version number */
+export type VersionRef = "draft" | "published" | number;
+
+/** Query-string form of a VersionRef; null when it isn't one */
+export function parseVersionRef(v: string | null): VersionRef | null {
+  if (v === "draft" || v === "published") return v;
+  return v && /^[1-9]\d{0,8}$/.test(v) ? Number(v) : null;
+}
+
+async function getDb(): Promise<Db> {
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  return db;
+}
+
+/** Copy of `obj` without `keys` */
+function omit<T extends Record<string, any>, K extends keyof T>(obj: T, ...keys: K[]): Omit<T, K> {
+  const out = { ...obj };
+  for (const k of keys) delete out[k];
+  return out;
+}
+
+/** Published row without the bookkeeping fields, as stored in history */
+function descriptorOf(row: Record<string, any>) {
+  return unwrapMongoExtendedJSON(omit(row, "_id", "publishedAt", "publishedBy"));
+}
+
+/** Enabled published tools of the tenant other than `name`: what a workflow's steps resolve against */
+async function publishedRegistry(db: Db, tenantId: string, name: string) {
+  const rows = await db.collection(ACTIONS).find({ tenantId, name: { $ne: name }, enabled: { $ne: false } }).toArray();
+  return rows.map(descriptorOf);
+}
+
+/** Lint one descriptor in the context of the tenant's published tools */
+export async function lintInRegistry(tenantId: string, descriptor: Record<string, any>): Promise<LintResult[]> {
+  const db = await getDb();
+  return lintHttpToolDescriptors([descriptor], { registry: await publishedRegistry(db, tenantId, descriptor.name) });
+}
+
+/** Lint one descriptor; error-severity issues reject the save */
+async function lintOrReject(tenantId: string, descriptor: Record<string, any>, action: string) {
+  const report = await lintInRegistry(tenantId, descriptor);
+  const errors = report.flatMap((r) => r.issues.filter((i) => i.severity === "error"));
+  if (errors.length) {
+    const summary = errors.map((i) => `${i.code} at ${i.path}: ${i.message}`).join("; ");
+    throw new ToolVersionError(422, `Cannot ${action} ${descriptor.name}: ${summary}`, report);
+  }
+  return report;
+}
+
+/**
+ * Rows published before versioning have no history; record them as their current
+ * version (or 1) the first time the tool is touched so they can be rolled back to.
+ */
+async function ensureHistory(db: Db, tenantId: string, name: string) {
+  const versions = db.collection<ToolVersionDoc>(VERSIONS);
+  if (await versions.findOne({ tenantId, name }, { projection: { _id: 1 } })) return;
+  const row = await db.collection(ACTIONS).findOne({ tenantId, name });
+  if (!row) return;
+  const descriptor = descriptorOf(row);
+  const version = Number.isInteger(descriptor.version) && descriptor.version > 0 ? descriptor.version : 1;
+  await versions.updateOne(
+    { tenantId, name, version },
+    {
+      $setOnInsert: {
+        tenantId, name, version,
+        descriptor: { ...descriptor, version },
+        note: "published before versioning",
+        publishedAt: row.publishedAt ?? row.updatedAt ?? new Date(0),
+        publishedBy: row.publishedBy ?? "unknown",
+      },
+    },
+    { upsert: true }
+  );
+}
+
+// ---------- Public API ----------
+
+export async function listTools(tenantId: string): Promise<ToolSummary[]> {
+  const db = await getDb();
+  const [rows, drafts] = await Promise.all([
+    db.collection(ACTIONS).find({ tenantId }, { projection: { _id: 0, name: 1, kind: 1, enabled: 1, version: 1, publishedAt: 1 } }).toArray(),
+    db.collection<ToolDraftDoc>(DRAFTS).find({ tenantId }, { projection: { _id: 0, descriptor: 1, name: 1, updatedAt: 1, updatedBy: 1 } }).toArray(),
+  ]);
+
+  const out = new Map<string, ToolSummary>();
+  for (const r of rows) {
+    out.set(r.name, {
+      name: r.name,
+      kind: r.kind ?? "http_tool",
+      enabled: r.enabled !== false,
+      version: r.version ?? null,
+      publishedAt: r.publishedAt ?? null,
+      draft: null,
+    });
+  }
+  for (const d of drafts) {
+    const draft = { updatedAt: d.updatedAt, updatedBy: d.updatedBy };
+    const existing = out.get(d.name);
+    if (existing) existing.draft = draft;
+    else out.set(d.name, { name: d.name, kind: d.descriptor.kind ?? "http_tool", enabled: false, version: null, publishedAt: null, draft });
+  }
+  return [...out.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Published descriptor, current draft and version history (without descriptors) */
+export async function getTool(tenantId: string, name: string) {
+  const db = await getDb();
+  const [row, draft, versions] = await Promise.all([
+    db.collection(ACTIONS).findOne({ tenantId, name }),
+    db.collection<ToolDraftDoc>(DRAFTS).findOne({ tenantId, name }, { projection: { _id: 0 } }),
+    listVersions(tenantId, name),
+  ]);
+  if (!row && !draft) throw new ToolVersionError(404, `Unknown tool ${name}`);
+  return { name, published: row ? descriptorOf(row) : null, draft, versions };
+}
+
+export async function listVersions(tenantId: string, name: string): Promise<ToolVersionInfo[]> {
+  const db = await getDb();
+  return db
+    .collection<ToolVersionDoc>(VERSIONS)
+    .find({ tenantId, name }, { projection: { _id: 0, descriptor: 0 } })
+    .sort({ version: -1 })
+    .toArray();
+}
+
+/** Descriptor at a ref: the draft, the live version, or a historical one */
+export async function getVersion(tenantId: string, name: string, ref: VersionRef): Promise<Record<string, any>> {
+  const db = await getDb();
+  if (ref === "draft") {
+    const draft = await db.collection<ToolDraftDoc>(DRAFTS).findOne({ tenantId, name });
+    if (!draft) throw new ToolVersionError(404, `${name} has no draft`);
+    return draft.descriptor;
+  }
+  if (ref === "published") {
+    const row = await db.collection(ACTIONS).findOne({ tenantId, name });
+    if (!row) throw new ToolVersionError(404, `${name} is not published`);
+    return descriptorOf(row);
+  }
+  await ensureHistory(db, tenantId, name);
+  const v = await db.collection<ToolVersionDoc>(VERSIONS).findOne({ tenantId, name, version: ref });
+  if (!v) throw new ToolVersionError(404, `${name} has no version ${ref}`);
+  return v.descriptor;
+}
+
+/**
+ * Create or replace the tool's draft. Lint errors reject it; warnings come back
+ * in the report. The live version is untouched until publishDraft().
+ */
+export async function saveDraft(
+  tenantId: string,
+  descriptor: Record<string, any>,
+  opts: { actor?: string; note?: string } = {}
+): Promise<{ draft: ToolDraftDoc; report: LintResult[] }> {
+  // tenant and version are owned by the store, not the caller
+  const d: Record<string, any> = { kind: "http_tool", ...omit(descriptor, "version"), tenantId };
+  if (typeof d.name !== "string" || !d.name) throw new ToolVersionError(400, "descriptor.name is required");
+  const report = await lintOrReject(tenantId, d, "save");
+
+  const draft: ToolDraftDoc = {
+    tenantId,
+    name: d.name,
+    descriptor: d,
+    note: opts.note ?? null,
+    updatedAt: new Date(),
+    updatedBy: opts.actor ?? "admin",
+  };
+  const db = await getDb();
+  await db.collection<ToolDraftDoc>(DRAFTS).replaceOne({ tenantId, name: d.name }, draft, { upsert: true });
+  return { draft, report };
+}
+
+export type DraftOutcome = { name: string; status: "drafted" | "exists" };
+
+/** Drafts for many tools at once (OpenAPI import); existing tools are skipped unless overwrite */
+export async function saveDrafts(
+  tenantId: string,
+  descriptors: Record<string, any>[],
+  opts: { actor?: string; note?: string; overwrite?: boolean } = {}
+): Promise<DraftOutcome[]> {
+  const existing = new Set(opts.overwrite ? [] : (await listTools(tenantId)).map((t) => t.name));
+  const out: DraftOutcome[] = [];
+  for (const d of descriptors) {
+    if (existing.has(d.name)) {
+      out.push({ name: d.name, status: "exists" });
+      continue;
+    }
+    await saveDraft(tenantId, d, opts);
+    out.push({ name: d.name, status: "drafted" });
+  }
+  return out;
+}
+
+export async function discardDraft(tenantId: string, name: string): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.collection(DRAFTS).deleteOne({ tenantId, name });
+  return r.deletedCount > 0;
+}
+
+/** Publish a descriptor as the next version of `name` and make it live */
+async function publish(
+  db: Db,
+  tenantId: string,
+  name: string,
+  descriptor: Record<string, any>,
+  meta: { actor: string; note?: string | null; rollbackOf?: number }
+): Promise<ToolVersionInfo> {
+  await ensureHistory(db, tenantId, name);
+  const versions = db.collection<ToolVersionDoc>(VERSIONS);
+  const [last] = await versions.find({ tenantId, name }).sort({ version: -1 }).limit(1).toArray();
+  const version = (last?.version ?? 0) + 1;
+  const publishedAt = new Date();
+
+  const doc: ToolVersionDoc = {
+    tenantId,
+    name,
+    version,
+    descriptor: { ...descriptor, tenantId, name, version },
+    note: meta.note ?? null,
+    publishedAt,
+    publishedBy: meta.actor,
+    ...(meta.rollbackOf ? { rollbackOf: meta.rollbackOf } : {}),
+  };
+  // unique (tenantId, name, version): a concurrent publish of the same tool fails here
+  await versions.insertOne(doc);
+  await db
+    .collection(ACTIONS)
+    .replaceOne({ tenantId, name }, { ...doc.descriptor, publishedAt, publishedBy: meta.actor }, { upsert: true });
+  invalidateToolDescriptor(tenantId, name);
+
+  return omit(doc, "descriptor");
+}
+
+/** Lint the draft again (the linter may have changed since it was saved) and make it live */
+export async function publishDraft(
+  tenantId: string,
+  name: string,
+  opts: { actor?: string } = {}
+): Promise<{ version: ToolVersionInfo; report: LintResult[] }> {
+  const db = await getDb();
+  const draft = await db.collection<ToolDraftDoc>(DRAFTS).findOne({ tenantId, name });
+  if (!draft) throw new ToolVersionError(404, `${name} has no draft to publish`);
+  const report = await lintOrReject(tenantId, draft.descriptor, "publish");
+
+  const version = await publish(db, tenantId, name, draft.descriptor, {
+    actor: opts.actor ?? "admin",
+    note: draft.note,
+  });
+  await db.collection(DRAFTS).deleteOne({ tenantId, name, updatedAt: draft.updatedAt });
+  return { version, report };
+}
+
+/** Republish an earlier version under a new number; any draft is left alone */
+export async function rollbackTool(
+  tenantId: string,
+  name: string,
+  toVersion: number,
+  opts: { actor?: string } = {}
+): Promise<{ version: ToolVersionInfo; report: LintResult[] }> {
+  const db = await getDb();
+  const descriptor = await getVersion(tenantId, name, toVersion);
+  const report = await lintOrReject(tenantId, descriptor, `roll back to version ${toVersion} of`);
+  const version = await publish(db, tenantId, name, descriptor, {
+    actor: opts.actor ?? "admin",
+    note: `rollback to v${toVersion}`,
+    rollbackOf: toVersion,
+  });
+  return { version, report };
+}
+
+/** Take the tool offline: remove the live row and any draft. History is kept. */
+export async function removeTool(tenantId: string, name: string): Promise<boolean> {
+  const db = await getDb();
+  await ensureHistory(db, tenantId, name);
+  const [live, draft] = await Promise.all([
+    db.collection(ACTIONS).deleteOne({ tenantId, name }),
+    db.collection(DRAFTS).deleteOne({ tenantId, name }),
+  ]);
+  invalidateToolDescriptor(tenantId, name);
+  return live.deletedCount + draft.deletedCount > 0;
+}
+
+// ---------- Diff ----------
+
+export type DescriptorChange = {
+  path: string;
+  op: "added" | "removed" | "changed";
+  from?: unknown;
+  to?: unknown;
+};
+
+/** Structural diff of two descriptors; arrays are compared by index */
+export function diffDescriptors(a: unknown, b: unknown, path: string[] = []): DescriptorChange[] {
+  const at = path.join(".");
+  const isObj = (v: unknown) => v !== null && typeof v === "object";
+  if (isObj(a) && isObj(b) && Array.isArray(a) === Array.isArray(b)) {
+    const keys = new Set([...Object.keys(a as object), ...Object.keys(b as object)]);
+    return [...keys].flatMap((k) => {
+      const from = (a as any)[k];
+      const to = (b as any)[k];
+      if (from === undefined) return [{ path: [...path, k].join("."), op: "added" as const, to }];
+      if (to === undefined) return [{ path: [...path, k].join("."), op: "removed" as const, from }];
+      return diffDescriptors(from, to, [...path, k]);
+    });
+  }
+  return JSON.stringify(a) === JSON.stringify(b) ? [] : [{ path: at, op: "changed", from: a, to: b }];
+}
+
+export async function diffVersions(tenantId: string, name: string, from: VersionRef, to: VersionRef) {
+  const [a, b] = await Promise.all([getVersion(tenantId, name, from), getVersion(tenantId, name, to)]);
+  // bookkeeping that differs between every pair of versions
+  return diffDescriptors(omit(a, "version"), omit(b, "version"));
+}
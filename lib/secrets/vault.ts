@@ -0,0 +1,244 @@
+// lib/secrets/vault.ts
+// Per-tenant secret store for {{secrets.*}} tokens (server only).
+//
+// Envelope encryption: every secret value is sealed with its own random data key
+// (AES-256-GCM); the data key is sealed with the master key from SECRETS_MASTER_KEY.
+// Mongo only ever holds ciphertext. To rotate the master key, move the old one to
+// SECRETS_MASTER_KEY_PREVIOUS (comma-separated) and call rewrapTenantSecrets().
+//
+// Collections:
+//   tenant_secrets       { tenantId, name, version, value: Sealed, dataKey: Sealed, kekId, ... }
+//   tenant_secret_audit  { tenantId, name, action, actor, found, toolName?, traceId?, at }
+
+import crypto from "crypto";
+import type { Db } from "mongodb";
+import getMongoConnection from "@/db/connections";
+
+const SECRETS = "tenant_secrets";
+const AUDIT = "tenant_secret_audit";
+
+export const SECRET_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+type Sealed = { iv: string; tag: string; ct: string }; // base64
+
+export interface TenantSecretDoc {
+  tenantId: string;
+  name: string;
+  version: number;
+  value: Sealed;      // secret sealed with the data key
+  dataKey: Sealed;    // data key sealed with the master key
+  kekId: string;      // which master key sealed dataKey
+  createdAt: Date;
+  updatedAt: Date;
+  rotatedAt?: Date | null;
+  updatedBy?: string | null;
+}
+
+/** What admin APIs may see: never the value. */
+export type TenantSecretInfo = Pick<
+  TenantSecretDoc,
+  "tenantId" | "name" | "version" | "kekId" | "createdAt" | "updatedAt" | "rotatedAt" | "updatedBy"
+>;
+
+export type SecretAuditAction = "read" | "set" | "rotate" | "delete" | "rewrap";
+
+export interface SecretAuditEntry {
+  tenantId: string;
+  name: string;
+  action: SecretAuditAction;
+  actor: string;           // "tools/execute", "admin", ...
+  found?: boolean;         // reads: was there a value
+  toolName?: string;
+  traceId?: string;
+  at: Date;
+}
+
+export type SecretReadContext = { actor: string; toolName?: string; traceId?: string };
+
+// ---------- Master keys ----------
+type MasterKey = { id: string; key: Buffer };
+
+function parseMasterKey(raw: string): MasterKey {
+  const key = Buffer.from(raw.trim(), "base64");
+  if (key.length !== 32) throw new Error("Secrets master key must be 32 bytes, base64-encoded");
+  return { id: crypto.createHash("sha256").update(key).digest("hex").slice(0, 12), key };
+}
+
+function masterKeys(): { current: MasterKey; all: Map<string, MasterKey> } {
+  const raw = process.env.SECRETS_MASTER_KEY;
+  if (!raw) throw new Error("SECRETS_MASTER_KEY is not configured");
+  const current = parseMasterKey(raw);
+  const all = new Map([[current.id, current]]);
+  for (const prev of (process.env.SECRETS_MASTER_KEY_PREVIOUS ?? "").split(",")) {
+    if (!prev.trim()) continue;
+    const k = parseMasterKey(prev);
+    all.set(k.id, k);
+  }
+  return { current, all };
+}
+
+// ---------- AES-256-GCM ----------
+function seal(key: Buffer, plain: Buffer, aad: string): Sealed {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ct = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), ct: ct.toString("base64") };
+}
+
+function open(key: Buffer, s: Sealed, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(s.iv, "base64"));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(s.tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(s.ct, "base64")), decipher.final()]);
+}
+
+// AAD binds ciphertext to its row, so a sealed value can't be copied to another tenant/name
+const aadFor = (tenantId: string, name: string) => `${tenantId}:${name}`;
+
+function unwrapDataKey(doc: TenantSecretDoc, keys: Map<string, MasterKey>): Buffer {
+  const kek = keys.get(doc.kekId);
+  if (!kek) throw new Error(`No master key ${doc.kekId} for secret ${doc.name}`);
+  return open(kek.key, doc.dataKey, aadFor(doc.tenantId, doc.name));
+}
+
+async function getDb(): Promise<Db> {
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  return db;
+}
+
+function toInfo(d: TenantSecretDoc): TenantSecretInfo {
+  const { tenantId, name, version, kekId, createdAt, updatedAt, rotatedAt, updatedBy } = d;
+  return { tenantId, name, version, kekId, createdAt, updatedAt, rotatedAt: rotatedAt ?? null, updatedBy: updatedBy ?? null };
+}
+
+async function audit(db: Db, entry: Omit<SecretAuditEntry, "at">) {
+  try {
+    await db.collection<SecretAuditEntry>(AUDIT).insertOne({ ...entry, at: new Date() });
+  } catch (e: any) {
+    // Never fail a tool call because the audit write failed; do make it loud
+    console.error("[secrets] audit write failed", { ...entry, error: e?.message });
+  }
+}
+
+// ---------- Public API ----------
+
+/**
+ * Decrypt the named secrets for a tenant. Every requested name is audited as a read
+ * (found or not). Missing names are simply absent from the result.
+ */
+export async function readTenantSecrets(
+  tenantId: string,
+  names: string[],
+  ctx: SecretReadContext
+): Promise<Record<string, string>> {
+  const wanted = Array.from(new Set(names)).filter(n => SECRET_NAME_RE.test(n));
+  if (!tenantId || !wanted.length) return {};
+
+  const db = await getDb();
+  const docs = await db
+    .collection<TenantSecretDoc>(SECRETS)
+    .find({ tenantId, name: { $in: wanted } })
+    .toArray();
+
+  const { all } = masterKeys();
+  const out: Record<string, string> = {};
+  for (const d of docs) {
+    const dek = unwrapDataKey(d, all);
+    out[d.name] = open(dek, d.value, aadFor(tenantId, d.name)).toString("utf8");
+  }
+
+  await Promise.all(
+    wanted.map(name => audit(db, { tenantId, name, action: "read", found: name in out, ...ctx }))
+  );
+  return out;
+}
+
+/** Create or rotate a secret (new data key every time). */
+export async function setTenantSecret(
+  tenantId: string,
+  name: string,
+  value: string,
+  actor = "admin"
+): Promise<TenantSecretInfo> {
+  if (!SECRET_NAME_RE.test(name)) throw new Error(`Invalid secret name: ${name}`);
+
+  const { current } = masterKeys();
+  const aad = aadFor(tenantId, name);
+  const dek = crypto.randomBytes(32);
+  const now = new Date();
+
+  const db = await getDb();
+  const coll = db.collection<TenantSecretDoc>(SECRETS);
+  const prev = await coll.findOne({ tenantId, name }, { projection: { version: 1 } });
+
+  const doc = await coll.findOneAndUpdate(
+    { tenantId, name },
+    {
+      $set: {
+        value: seal(dek, Buffer.from(value, "utf8"), aad),
+        dataKey: seal(current.key, dek, aad),
+        kekId: current.id,
+        updatedAt: now,
+        updatedBy: actor,
+        ...(prev ? { rotatedAt: now } : {}),
+      },
+      $inc: { version: 1 },
+      $setOnInsert: { tenantId, name, createdAt: now },
+    },
+    { upsert: true, returnDocument: "after" }
+  );
+
+  await audit(db, { tenantId, name, action: prev ? "rotate" : "set", actor });
+  return toInfo(doc!);
+}
+
+export async function deleteTenantSecret(tenantId: string, name: string, actor = "admin"): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.collection<TenantSecretDoc>(SECRETS).deleteOne({ tenantId, name });
+  if (r.deletedCount) await audit(db, { tenantId, name, action: "delete", actor });
+  return r.deletedCount > 0;
+}
+
+export async function listTenantSecrets(tenantId: string): Promise<TenantSecretInfo[]> {
+  const db = await getDb();
+  const docs = await db
+    .collection<TenantSecretDoc>(SECRETS)
+    .find({ tenantId }, { projection: { value: 0, dataKey: 0 } })
+    .sort({ name: 1 })
+    .toArray();
+  return docs.map(toInfo);
+}
+
+/** Re-seal data keys that were wrapped by a previous master key. Values are untouched. */
+export async function rewrapTenantSecrets(tenantId: string, actor = "admin"): Promise<number> {
+  const { current, all } = masterKeys();
+  const db = await getDb();
+  const coll = db.collection<TenantSecretDoc>(SECRETS);
+  const stale = await coll.find({ tenantId, kekId: { $ne: current.id } }).toArray();
+
+  for (const d of stale) {
+    const dek = unwrapDataKey(d, all);
+    await coll.updateOne(
+      { tenantId, name: d.name, kekId: d.kekId },
+      { $set: { dataKey: seal(current.key, dek, aadFor(tenantId, d.name)), kekId: current.id } }
+    );
+    await audit(db, { tenantId, name: d.name, action: "rewrap", actor });
+  }
+  return stale.length;
+}
+
+export async function listSecretAudit(
+  tenantId: string,
+  opts: { name?: string; limit?: number } = {}
+): Promise<SecretAuditEntry[]> {
+  const db = await getDb();
+  const q: Record<string, any> = { tenantId };
+  if (opts.name) q.name = opts.name;
+  return db
+    .collection<SecretAuditEntry>(AUDIT)
+    .find(q, { projection: { _id: 0 } })
+    .sort({ at: -1 })
+    .limit(Math.min(Math.max(opts.limit ?? 100, 1), 500))
+    .toArray();
+}
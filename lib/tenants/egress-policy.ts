@@ -0,0 +1,31 @@
+// lib/tenants/egress-policy.ts
+// Per-tenant outbound policy, read from the tenant record:
+//   tenants { tenantId, egress?: { allowedHosts?: string[] } }
+// No record / no list means "any public host" (the private-range guard always applies).
+
+import { LRUCache } from "lru-cache";
+import getMongoConnection from "@/db/connections";
+import type { EgressPolicy } from "@/lib/net/egress-guard";
+
+type TenantRecord = { tenantId: string; egress?: { allowedHosts?: string[] } };
+
+// Short TTL so an allowlist edit takes effect within a minute without a redeploy
+const cache = new LRUCache<string, EgressPolicy>({ max: 1000, ttl: 60_000 });
+
+export async function getTenantEgressPolicy(tenantId: string | undefined): Promise<EgressPolicy> {
+  if (!tenantId) return {};
+  const hit = cache.get(tenantId);
+  if (hit) return hit;
+
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  const rec = await db
+    .collection<TenantRecord>("tenants")
+    .findOne({ tenantId }, { projection: { egress: 1 } });
+
+  const allowedHosts = Array.isArray(rec?.egress?.allowedHosts)
+    ? rec!.egress!.allowedHosts!.filter((h) => typeof h === "string" && h.trim())
+    : [];
+  const policy: EgressPolicy = allowedHosts.length ? { allowedHosts } : {};
+  cache.set(tenantId, policy);
+  return policy;
+}
@@ -0,0 +1,65 @@
+// lib/tenants/mongo-database.ts
+// Where a tenant's own data lives, read from the tenant record:
+//   tenants { tenantId, mongo?: { dbName: string, uriSecret?: string } }
+// `uriSecret` names a vault secret holding the connection string; without it the
+// database is on the platform cluster (DB). The platform database itself (MAINDBNAME)
+// is never handed out: mongo tools and /api/mongo/gateway would otherwise read auth,
+// secrets and every tenant's transcripts.
+// Tenants created before the record carried `mongo` resolve to a `legacy` target (the
+// platform cluster and MAINDBNAME, as the gateway always used). Only callers passing
+// `legacyFallback` accept it; the platform-collection fence still applies to them.
+
+import { LRUCache } from "lru-cache";
+import getMongoConnection from "@/db/connections";
+import { readTenantSecrets } from "@/lib/secrets/vault";
+
+type TenantRecord = { tenantId: string; mongo?: { dbName?: string; uriSecret?: string } };
+
+export type TenantMongoTarget = { uri: string; dbName: string; legacy?: true };
+
+// Same TTL as the egress policy: a record edit or secret rotation applies within a minute
+const cache = new LRUCache<string, TenantMongoTarget>({ max: 1000, ttl: 60_000 });
+
+export async function getTenantMongoSecrets(
+  tenantId: string,
+  opts: { legacyFallback?: boolean } = {}
+): Promise<TenantMongoTarget> {
+  let target = cache.get(tenantId);
+  if (!target) {
+    target = await resolveTarget(tenantId);
+    cache.set(tenantId, target);
+  }
+  if (target.legacy && !opts.legacyFallback) {
+    throw new Error(`Tenant ${tenantId} has no Mongo database configured (tenants.mongo.dbName)`);
+  }
+  return target;
+}
+
+async function resolveTarget(tenantId: string): Promise<TenantMongoTarget> {
+  const platformUri = process.env.DB || "";
+  const platformDb = process.env.MAINDBNAME || "";
+  if (!platformUri || !platformDb) {
+    throw new Error("Missing Mongo credentials in environment variables");
+  }
+
+  const { db } = await getMongoConnection(platformUri, platformDb);
+  const rec = await db
+    .collection<TenantRecord>("tenants")
+    .findOne({ tenantId }, { projection: { mongo: 1 } });
+
+  const dbName = rec?.mongo?.dbName?.trim();
+  if (!dbName) return { uri: platformUri, dbName: platformDb, legacy: true };
+
+  let uri = platformUri;
+  const uriSecret = rec?.mongo?.uriSecret;
+  if (uriSecret) {
+    const secrets = await readTenantSecrets(tenantId, [uriSecret], { actor: "mongo" });
+    uri = secrets[uriSecret] ?? "";
+    if (!uri) throw new Error(`Tenant ${tenantId} Mongo secret ${uriSecret} is not set`);
+  }
+  if (uri === platformUri && dbName === platformDb) {
+    throw new Error(`Tenant ${tenantId} Mongo database cannot be the platform database`);
+  }
+
+  return { uri, dbName };
+}
@@ -0,0 +1,28 @@
+// lib/tenants/sandbox.ts
+// Per-tenant sandbox flag, read from the tenant record:
+//   tenants { tenantId, sandbox?: boolean }
+// In sandbox mode /api/tools/execute answers from descriptor mocks and never calls out.
+// A single session can opt in on its own (auth.sandbox, see /api/tools/sandbox).
+
+import { LRUCache } from "lru-cache";
+import getMongoConnection from "@/db/connections";
+
+type TenantRecord = { tenantId: string; sandbox?: boolean };
+
+// Same TTL as the egress policy: a flag flip takes effect within a minute
+const cache = new LRUCache<string, { sandbox: boolean }>({ max: 1000, ttl: 60_000 });
+
+export async function isTenantSandboxed(tenantId: string | undefined): Promise<boolean> {
+  if (!tenantId) return false;
+  const hit = cache.get(tenantId);
+  if (hit) return hit.sandbox;
+
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  const rec = await db
+    .collection<TenantRecord>("tenants")
+    .findOne({ tenantId }, { projection: { sandbox: 1 } });
+
+  const sandbox = rec?.sandbox === true;
+  cache.set(tenantId, { sandbox });
+  return sandbox;
+}
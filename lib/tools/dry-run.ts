@@ -0,0 +1,190 @@
+// lib/tools/dry-run.ts
+// Dry run of a descriptor for the /validate console: lint it, check sample args, render
+// the request it would send, and optionally produce a response, either from a mock (pasted,
+// or the descriptor's own `mock` block; no network) or by executing it for real (admin
+// only; the route enforces that).
+// Rendering never reads the vault: {{secrets.x}} shows as "[secret:x]".
+
+import type { LintResult } from "@/lib/validator/lint-tools";
+import { lintInRegistry } from "@/lib/registry/toolVersions";
+import { validateToolArgs, type ArgIssue } from "@/lib/tools/validate-args";
+import { shapeResponse } from "@/lib/tools/shape-response";
+import { parseResponseBody } from "@/lib/tools/response-formats";
+import { EgressBlockedError } from "@/lib/net/egress-guard";
+import {
+  executeHttpTool,
+  isExecutionOk,
+  renderHttpRequest,
+  type ToolExecution,
+  type ToolExecutionContext,
+} from "@/lib/tools/http-executor";
+import { executeGraphqlTool, graphqlAsHttpDescriptor, interpretGraphqlResult } from "@/lib/tools/graphql-executor";
+import { executeMongoTool } from "@/lib/tools/mongo-executor";
+import { mockHttpExecution } from "@/lib/tools/mock-response";
+import { ToolRegistryItemSchema, type ToolRegistryItem } from "@/types/toolRegistry.schema";
+import type { HttpToolDescriptor } from "@/types/httpTool.schema";
+
+export type DryRunMode = "render" | "mock" | "live";
+
+/** A response to pretend the upstream sent; string bodies are parsed per http.responseFormat */
+export type DryRunMock = { status: number; body?: unknown; contentType?: string };
+
+export type DryRunRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  bodyFormat: string;
+  body?: unknown;     // JSON body as an object, form/xml as sent, multipart as its fields
+};
+
+export type DryRunResponse = {
+  status: number;
+  body: unknown;
+  ok: boolean;        // okField (http) or `ok` in the reply, as the client executor decides
+  model?: unknown;    // what the model gets when the descriptor has a response block
+  attempts: number;
+  failure?: string;
+};
+
+export type DryRunResult = {
+  lint: LintResult[];
+  argIssues: ArgIssue[];
+  request: DryRunRequest | null;
+  response: DryRunResponse | null;
+  notes: string[];
+};
+
+// Header names whose literal values must not be echoed back
+const SENSITIVE_HEADER = /authorization|api[-_]?key|token|secret|cookie|signature/i;
+
+/** {{secrets.name}} renders as a visible placeholder instead of a vault read */
+const secretPlaceholders = new Proxy({} as Record<string, string>, {
+  get: (_t, name) => (typeof name === "string" ? `[secret:${name}]` : undefined),
+});
+
+function renderRequest(http: HttpToolDescriptor["http"], args: Record<string, any>, baseUrl: string): DryRunRequest {
+  const rendered = renderHttpRequest(http, { ...args, args, secrets: secretPlaceholders }, baseUrl);
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(rendered.headers)) {
+    headers[k] = SENSITIVE_HEADER.test(k) && !v.includes("[secret:") ? "[REDACTED]" : v;
+  }
+
+  const auth = http.auth;
+  if (auth?.type === "oauth2_client_credentials") {
+    headers.authorization = `Bearer [token from ${auth.tokenUrl}]`;
+  } else if (auth?.type === "hmac") {
+    headers[auth.timestampHeader] = `[${auth.timestampFormat} timestamp]`;
+    headers[auth.signatureHeader] = `${auth.signaturePrefix ?? ""}[hmac-${auth.algorithm} signature]`;
+    if (auth.keyId) headers["x-key-id"] = "[key id]";
+  }
+
+  const bodyFormat = http.bodyFormat ?? (http.xmlBodyTemplate != null ? "xml" : "json");
+  const body = bodyFormat === "form" ? rendered.body : rendered.bodyObj;
+  return { method: rendered.method, url: rendered.url, headers, bodyFormat, ...(body !== undefined ? { body } : {}) };
+}
+
+/** The mock as the executor would have returned it */
+function mockExecution(d: ToolRegistryItem, mock: DryRunMock, args: Record<string, any>): ToolExecution {
+  let body = mock.body;
+  let json = typeof body !== "string";
+  if (typeof body === "string" && d.kind === "http_tool") {
+    const parsed = parseResponseBody(body, mock.contentType ?? null, d.http);
+    if (parsed) {
+      body = parsed.value;
+      json = true;
+    }
+  } else if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+      json = true;
+    } catch {
+      /* leave as text */
+    }
+  }
+  const exec: ToolExecution = { status: mock.status, body, json, attempts: 0 };
+  return d.kind === "graphql_tool" ? interpretGraphqlResult(d, exec, args) : exec;
+}
+
+/** Real call with the tenant's secrets; the response cache is neither read nor filled */
+async function liveExecution(d: ToolRegistryItem, args: Record<string, any>, ctx: ToolExecutionContext) {
+  try {
+    switch (d.kind) {
+      case "graphql_tool":
+        return await executeGraphqlTool({ ...d, cache: undefined }, args, ctx);
+      case "mongo_tool":
+        return await executeMongoTool(d, args, ctx);
+      case "workflow_tool":
+        return null;
+      default:
+        return await executeHttpTool({ ...d, cache: undefined }, args, ctx);
+    }
+  } catch (e: any) {
+    if (!(e instanceof EgressBlockedError)) throw e;
+    return { status: 403, json: true, attempts: 0, body: { ok: false, error: e.message, blocked: true } } as ToolExecution;
+  }
+}
+
+export async function dryRunTool(
+  raw: Record<string, any>,
+  args: Record<string, any>,
+  opts: { mode: DryRunMode; mock?: DryRunMock; exec: ToolExecutionContext }
+): Promise<DryRunResult> {
+  const candidate = { kind: "http_tool", ...raw, tenantId: opts.exec.tenantId };
+  // against the tenant's published tools, so a workflow's steps resolve
+  const lint = await lintInRegistry(opts.exec.tenantId, candidate);
+  const result: DryRunResult = { lint, argIssues: [], request: null, response: null, notes: [] };
+
+  const parsed = ToolRegistryItemSchema.safeParse(candidate);
+  if (!parsed.success) {
+    result.notes.push("The descriptor does not match its schema; see the lint report.");
+    return result;
+  }
+  const d = parsed.data;
+
+  const check = validateToolArgs(args, d.parameters);
+  if (!check.ok) result.argIssues = check.issues;
+
+  const http = d.kind === "http_tool" ? d : d.kind === "graphql_tool" ? graphqlAsHttpDescriptor(d) : null;
+  if (!http) result.notes.push(`${d.kind} has no single HTTP request to render.`);
+  else if (typeof http === "string") result.notes.push(http);
+  else {
+    try {
+      result.request = renderRequest(http.http, args, opts.exec.baseUrl);
+    } catch (e: any) {
+      result.notes.push(`Cannot render the request: ${e?.message || e}`);
+    }
+  }
+
+  let exec: ToolExecution | null = null;
+  if (opts.mode === "mock") {
+    const own = !opts.mock && d.kind === "http_tool" ? mockHttpExecution(d, args) : null;
+    if (opts.mock) exec = mockExecution(d, opts.mock, args);
+    else if (own) {
+      exec = own.exec;
+      result.notes.push(`Response from the descriptor's mock (${own.matched == null ? "default reply" : `case ${own.matched}`}).`);
+    } else result.notes.push("Mock mode needs a mock response: paste one or add a `mock` block to the descriptor.");
+  } else if (opts.mode === "live") {
+    if (result.argIssues.length) result.notes.push("Not executed: the sample args are invalid.");
+    else {
+      exec = await liveExecution(d, args, opts.exec);
+      if (!exec) result.notes.push("Workflows call their saved step tools; dry-run them with a mock response.");
+    }
+  }
+
+  if (exec) {
+    const ok = isExecutionOk(exec, d.kind === "http_tool" ? d.http.okField : "ok");
+    const shape = d.kind === "workflow_tool" ? undefined : d.response;
+    const shaped = shape && exec.json && !exec.failure
+      ? shapeResponse(exec.body, shape, { args, status: exec.status })
+      : undefined;
+    result.response = {
+      status: exec.status,
+      body: exec.body,
+      ok,
+      ...(shaped ? { model: shaped } : {}),
+      attempts: exec.attempts,
+      ...(exec.failure ? { failure: exec.failure } : {}),
+    };
+  }
+  return result;
+}
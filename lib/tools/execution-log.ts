@@ -0,0 +1,264 @@
+// lib/tools/execution-log.ts
+// One record per /api/tools/execute call, for "the agent couldn't book" investigations
+// (server only):
+//   tool_executions { tenantId, sessionTokenHash, tool, kind, version, traceId, args,
+//                     status, ok, latencyMs, error?, code?, attempts?, cache?, replayed?,
+//                     sandbox?, at, expiresAt }
+// Args are redacted before they are stored. expiresAt carries a TTL index
+// (pnpm db:indexes); retention is TOOL_EXEC_LOG_RETENTION_DAYS.
+
+import getMongoConnection from "@/db/connections";
+import { toolExecLogCfg } from "@/config/tools";
+
+const COLLECTION = "tool_executions";
+
+export interface ToolExecutionRecord {
+  tenantId: string;
+  sessionTokenHash: string | null;
+  tool: string;
+  kind: string | null;        // null when the tool was not found
+  version: number | null;     // published version that ran
+  traceId: string;
+  args: unknown;              // redacted
+  status: number;             // HTTP status returned to the browser
+  ok: boolean;                // okField for http tools, `ok` in the reply otherwise
+  latencyMs: number;
+  error?: string;
+  code?: string;
+  attempts?: number;
+  cache?: "hit" | "miss";
+  replayed?: boolean;
+  sandbox?: boolean;
+  at: Date;
+  expiresAt: Date;
+}
+
+export type ToolExecutionEntry = Omit<ToolExecutionRecord, "args" | "at" | "expiresAt"> & {
+  args?: Record<string, any> | null;
+};
+
+// Arg names whose values never reach the log
+const SENSITIVE_ARG = /pass(word)?|secret|token|card|cvc|cvv|pan$|ssn|iban|account_?number|pin$/i;
+const MAX_STRING = 200;
+
+/** Sensitive keys masked, long strings (base64 file parts, free text) cut, depth bounded */
+export function redactArgs(value: unknown, depth = 0): unknown {
+  if (depth > 6) return "[…]";
+  if (typeof value === "string") return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…(${value.length} chars)` : value;
+  if (Array.isArray(value)) return value.slice(0, 50).map((v) => redactArgs(v, depth + 1));
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = SENSITIVE_ARG.test(k) && v != null && v !== "" ? "[REDACTED]" : redactArgs(v, depth + 1);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** `error` / `code` of a failed reply, or an HTTP status line when it has none */
+export function describeFailure(body: unknown, status: number): { error?: string; code?: string } {
+  const b = body && typeof body === "object" ? (body as Record<string, any>) : null;
+  const error = typeof b?.error === "string" ? b.error : typeof b?.message === "string" ? b.message : `HTTP ${status}`;
+  return { error: error.slice(0, 500), ...(typeof b?.code === "string" ? { code: b.code } : {}) };
+}
+
+async function collection() {
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  return db.collection<ToolExecutionRecord>(COLLECTION);
+}
+
+/** Fire and forget: a log write never delays or fails the tool call */
+export function recordToolExecution(entry: ToolExecutionEntry): void {
+  const at = new Date();
+  const rec: ToolExecutionRecord = {
+    ...entry,
+    args: redactArgs(entry.args ?? null),
+    at,
+    expiresAt: new Date(at.getTime() + toolExecLogCfg.retentionDays * 86_400_000),
+  };
+  collection()
+    .then((col) => col.insertOne(rec))
+    .catch((e: any) => console.error("[EXEC] execution log write failed", { traceId: entry.traceId, error: e?.message }));
+}
+
+/* ---------------- Queries ---------------- */
+
+export type ToolExecutionFilter = {
+  tenantId: string;
+  tool?: string;
+  from?: Date;
+  to?: Date;
+  /** exact HTTP status, or a class: "2xx", "4xx", "5xx" */
+  status?: string;
+  ok?: boolean;
+  sessionTokenHash?: string;
+  traceId?: string;
+};
+
+function toQuery(f: ToolExecutionFilter): Record<string, any> {
+  const q: Record<string, any> = { tenantId: f.tenantId };
+  if (f.tool) q.tool = f.tool;
+  if (f.from || f.to) q.at = { ...(f.from ? { $gte: f.from } : {}), ...(f.to ? { $lt: f.to } : {}) };
+  if (f.status) {
+    const cls = /^([1-5])xx$/i.exec(f.status);
+    q.status = cls ? { $gte: Number(cls[1]) * 100, $lt: Number(cls[1]) * 100 + 100 } : Number(f.status);
+  }
+  if (f.ok !== undefined) q.ok = f.ok;
+  if (f.sessionTokenHash) q.sessionTokenHash = f.sessionTokenHash;
+  if (f.traceId) q.traceId = f.traceId;
+  return q;
+}
+
+/** Newest first; page with `before` (the `at` of the last entry seen) */
+export async function listToolExecutions(
+  f: ToolExecutionFilter,
+  opts: { limit?: number; before?: Date } = {}
+): Promise<Omit<ToolExecutionRecord, "expiresAt">[]> {
+  const q = toQuery(f);
+  if (opts.before) q.at = { ...(q.at ?? {}), $lt: opts.before };
+  const col = await collection();
+  return col
+    .find(q, { projection: { _id: 0, expiresAt: 0 } })
+    .sort({ at: -1 })
+    .limit(Math.min(Math.max(opts.limit ?? 100, 1), 500))
+    .toArray();
+}
+
+export type ToolExecutionStats = {
+  tool: string;
+  count: number;
+  errors: number;
+  errorRate: number;          // share of calls that were not ok
+  statuses: Record<string, number>;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  maxMs: number | null;
+  lastErrorAt: Date | null;
+};
+
+// Tools listed per stats reply (busiest first); `truncated` says when there were more
+const MAX_STATS_TOOLS = 200;
+
+type StatsGroup = {
+  _id: string | null;
+  count: number;
+  errors: number;
+  latency: (number | null)[] | null;   // [p50, p95]
+  maxMs: number | null;
+  lastErrorAt: Date | null;
+};
+
+type StatsFacets = {
+  overall: StatsGroup[];
+  tools: StatsGroup[];
+  toolCount: { n: number }[];
+  statuses: { _id: { tool: string; status: number }; n: number }[];
+};
+
+// Computed in Mongo: percentiles need MongoDB 7.0+ ($percentile, approximate)
+const STATS_ACCUMULATORS = {
+  count: { $sum: 1 },
+  errors: { $sum: { $cond: ["$ok", 0, 1] } },
+  latency: { $percentile: { input: "$latencyMs", p: [0.5, 0.95], method: "approximate" } },
+  maxMs: { $max: "$latencyMs" },
+  lastErrorAt: { $max: { $cond: ["$ok", null, "$at"] } },
+};
+
+const ms = (v: number | null | undefined) => (typeof v === "number" ? Math.round(v) : null);
+
+function summarize(g: StatsGroup, statuses: Record<string, number>): ToolExecutionStats {
+  return {
+    tool: g._id ?? "*",
+    count: g.count,
+    errors: g.errors,
+    errorRate: g.count ? Math.round((g.errors / g.count) * 10_000) / 10_000 : 0,
+    statuses,
+    p50Ms: ms(g.latency?.[0]),
+    p95Ms: ms(g.latency?.[1]),
+    maxMs: g.maxMs ?? null,
+    lastErrorAt: g.lastErrorAt ?? null,
+  };
+}
+
+/** Per-tool and overall call counts, error rate and p50/p95 latency for a filter */
+export async function toolExecutionStats(f: ToolExecutionFilter) {
+  const col = await collection();
+  const [facets] = await col
+    .aggregate<StatsFacets>(
+      [
+        { $match: toQuery(f) },
+        {
+          $facet: {
+            overall: [{ $group: { _id: null, ...STATS_ACCUMULATORS } }],
+            tools: [{ $group: { _id: "$tool", ...STATS_ACCUMULATORS } }, { $sort: { count: -1, _id: 1 } }, { $limit: MAX_STATS_TOOLS }],
+            toolCount: [{ $group: { _id: "$tool" } }, { $count: "n" }],
+            statuses: [{ $group: { _id: { tool: "$tool", status: "$status" }, n: { $sum: 1 } } }],
+          },
+        },
+      ],
+      { maxTimeMS: 30_000 }
+    )
+    .toArray();
+
+  const overallStatuses: Record<string, number> = {};
+  const toolStatuses = new Map<string, Record<string, number>>();
+  for (const { _id, n } of facets?.statuses ?? []) {
+    overallStatuses[_id.status] = (overallStatuses[_id.status] ?? 0) + n;
+    const per = toolStatuses.get(_id.tool) ?? {};
+    per[_id.status] = n;
+    toolStatuses.set(_id.tool, per);
+  }
+
+  const overall = facets?.overall[0];
+  const tools = facets?.tools ?? [];
+  const toolCount = facets?.toolCount[0]?.n ?? 0;
+  return {
+    overall: overall
+      ? summarize(overall, overallStatuses)
+      : summarize({ _id: null, count: 0, errors: 0, latency: null, maxMs: null, lastErrorAt: null }, {}),
+    tools: tools.map((g) => summarize(g, toolStatuses.get(g._id ?? "") ?? {})),
+    toolCount,
+    truncated: toolCount > tools.length, // only the MAX_STATS_TOOLS busiest tools are listed
+  };
+}
+
+/* ---------------- Query string ---------------- */
+
+const DURATION_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+function parseDate(v: string | null, name: string): Date | undefined {
+  if (!v) return undefined;
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) throw new Error(`${name} must be an ISO date`);
+  return d;
+}
+
+/**
+ * Filter from admin query params: tool, from, to (ISO), since ("15m", "24h", "7d";
+ * instead of from), status ("422" or "5xx"), ok, session, trace. Throws on bad values.
+ */
+export function parseExecutionFilter(tenantId: string, sp: URLSearchParams): ToolExecutionFilter {
+  const since = sp.get("since");
+  let from = parseDate(sp.get("from"), "from");
+  if (since) {
+    const m = /^(\d+)([mhd])$/.exec(since);
+    if (!m) throw new Error('since must look like "15m", "24h" or "7d"');
+    from = new Date(Date.now() - Number(m[1]) * DURATION_MS[m[2]]);
+  }
+  const status = sp.get("status") || undefined;
+  if (status && !/^(\d{3}|[1-5]xx)$/i.test(status)) throw new Error('status must be a code like 422 or a class like 5xx');
+  const ok = sp.get("ok");
+  if (ok && ok !== "true" && ok !== "false") throw new Error("ok must be true or false");
+
+  return {
+    tenantId,
+    tool: sp.get("tool") || undefined,
+    from,
+    to: parseDate(sp.get("to"), "to"),
+    status,
+    ok: ok ? ok === "true" : undefined,
+    sessionTokenHash: sp.get("session") || undefined,
+    traceId: sp.get("trace") || undefined,
+  };
+}
@@ -0,0 +1,271 @@
+// lib/tools/graphql-document.ts
+// Minimal GraphQL executable-document parser for graphql_tool descriptors: enough to
+// reject a malformed query at lint time, find the operation type (query vs mutation
+// decides retry/cache safety) and compare declared $variables with the variables
+// template. No schema awareness; the upstream still validates fields and types.
+
+export type GraphqlVariableDef = { name: string; type: string; required: boolean };
+
+export type GraphqlOperation = {
+  type: "query" | "mutation" | "subscription";
+  name?: string;
+  variables: GraphqlVariableDef[];
+  usedVariables: string[];   // $refs inside the operation body (fragments not followed)
+};
+
+export type GraphqlDocumentInfo =
+  | { ok: true; operations: GraphqlOperation[]; fragments: string[] }
+  | { ok: false; error: string };
+
+type Tok = { kind: "punct" | "name" | "number" | "string" | "spread" | "eof"; value: string; pos: number };
+
+const PUNCT = new Set(["!", "$", "&", "(", ")", ":", "=", "@", "[", "]", "{", "|", "}"]);
+
+function lex(src: string): Tok[] {
+  const toks: Tok[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (c === "#") { while (i < src.length && src[i] !== "\n") i++; continue; }
+    if (/[\s,\uFEFF]/.test(c)) { i++; continue; }
+    if (c === "." && src.startsWith("...", i)) { toks.push({ kind: "spread", value: "...", pos: i }); i += 3; continue; }
+    if (PUNCT.has(c)) { toks.push({ kind: "punct", value: c, pos: i }); i++; continue; }
+    if (/[_A-Za-z]/.test(c)) {
+      const m = /^[_A-Za-z][_0-9A-Za-z]*/.exec(src.slice(i))!;
+      toks.push({ kind: "name", value: m[0], pos: i });
+      i += m[0].length;
+      continue;
+    }
+    if (/[-0-9]/.test(c)) {
+      const m = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(src.slice(i));
+      if (!m) throw new Error(`Invalid number at ${i}`);
+      toks.push({ kind: "number", value: m[0], pos: i });
+      i += m[0].length;
+      continue;
+    }
+    if (c === '"') {
+      const block = src.startsWith('"""', i);
+      const end = block ? src.indexOf('"""', i + 3) : findStringEnd(src, i + 1);
+      if (end < 0) throw new Error(`Unterminated string at ${i}`);
+      const stop = block ? end + 3 : end + 1;
+      toks.push({ kind: "string", value: src.slice(i, stop), pos: i });
+      i = stop;
+      continue;
+    }
+    throw new Error(`Unexpected character "${c}" at ${i}`);
+  }
+  toks.push({ kind: "eof", value: "", pos: src.length });
+  return toks;
+}
+
+function findStringEnd(src: string, from: number) {
+  for (let i = from; i < src.length; i++) {
+    if (src[i] === "\\") { i++; continue; }
+    if (src[i] === "\n") return -1;
+    if (src[i] === '"') return i;
+  }
+  return -1;
+}
+
+class Parser {
+  private i = 0;
+  private used: Set<string> | null = null;
+
+  constructor(private toks: Tok[]) {}
+
+  private peek() { return this.toks[this.i]; }
+  private at(value: string) {
+    const t = this.toks[this.i];
+    return t.value === value && t.kind !== "string";
+  }
+  private next() { return this.toks[this.i++]; }
+  private expect(value: string) {
+    const t = this.next();
+    if (t.value !== value || t.kind === "string") throw new Error(`Expected "${value}" at ${t.pos}, found "${t.value || "end"}"`);
+    return t;
+  }
+  private name() {
+    const t = this.next();
+    if (t.kind !== "name") throw new Error(`Expected a name at ${t.pos}, found "${t.value || "end"}"`);
+    return t.value;
+  }
+
+  document(): { operations: GraphqlOperation[]; fragments: string[] } {
+    const operations: GraphqlOperation[] = [];
+    const fragments: string[] = [];
+    if (this.peek().kind === "eof") throw new Error("Empty document");
+    while (this.peek().kind !== "eof") {
+      const t = this.peek();
+      if (t.value === "fragment" && t.kind === "name") fragments.push(this.fragment());
+      else operations.push(this.operation());
+    }
+    return { operations, fragments };
+  }
+
+  private operation(): GraphqlOperation {
+    this.used = new Set();
+    if (this.at("{")) {
+      this.selectionSet();
+      return { type: "query", variables: [], usedVariables: [...this.used] };
+    }
+    const type = this.name();
+    if (type !== "query" && type !== "mutation" && type !== "subscription") {
+      throw new Error(`Unknown operation type "${type}"`);
+    }
+    const name = this.peek().kind === "name" ? this.name() : undefined;
+    const variables: GraphqlVariableDef[] = [];
+    if (this.at("(")) {
+      this.next();
+      do variables.push(this.variableDef());
+      while (!this.at(")"));
+      this.next();
+    }
+    this.directives();
+    this.selectionSet();
+    return { type, name, variables, usedVariables: [...this.used] };
+  }
+
+  private variableDef(): GraphqlVariableDef {
+    this.expect("$");
+    const name = this.name();
+    this.expect(":");
+    const type = this.type();
+    let hasDefault = false;
+    if (this.at("=")) {
+      this.next();
+      const used = this.used;
+      this.used = null; // defaults are constants
+      this.value();
+      this.used = used;
+      hasDefault = true;
+    }
+    this.directives();
+    return { name, type, required: type.endsWith("!") && !hasDefault };
+  }
+
+  private type(): string {
+    let t: string;
+    if (this.at("[")) {
+      this.next();
+      t = `[${this.type()}]`;
+      this.expect("]");
+    } else {
+      t = this.name();
+    }
+    if (this.at("!")) { this.next(); t += "!"; }
+    return t;
+  }
+
+  private fragment(): string {
+    this.next(); // "fragment"
+    this.used = new Set();
+    const name = this.name();
+    if (this.name() !== "on") throw new Error(`Expected "on" in fragment ${name}`);
+    this.name();
+    this.directives();
+    this.selectionSet();
+    return name;
+  }
+
+  private selectionSet() {
+    this.expect("{");
+    if (this.at("}")) throw new Error(`Empty selection set at ${this.peek().pos}`);
+    while (!this.at("}")) {
+      if (this.peek().kind === "eof") throw new Error("Unclosed selection set");
+      this.selection();
+    }
+    this.next();
+  }
+
+  private selection() {
+    if (this.peek().kind === "spread") {
+      this.next();
+      const t = this.peek();
+      if (t.kind === "name" && t.value !== "on") {
+        this.next(); // fragment spread
+        this.directives();
+        return;
+      }
+      if (t.kind === "name" && t.value === "on") { this.next(); this.name(); }
+      this.directives();
+      this.selectionSet();
+      return;
+    }
+    this.name();
+    if (this.at(":")) { this.next(); this.name(); } // alias: field
+    if (this.at("(")) this.args();
+    this.directives();
+    if (this.at("{")) this.selectionSet();
+  }
+
+  private args() {
+    this.expect("(");
+    do {
+      this.name();
+      this.expect(":");
+      this.value();
+    } while (!this.at(")"));
+    this.next();
+  }
+
+  private directives() {
+    while (this.at("@")) {
+      this.next();
+      this.name();
+      if (this.at("(")) this.args();
+    }
+  }
+
+  private value(): void {
+    const t = this.peek();
+    if (t.kind === "punct" && t.value === "$") {
+      this.next();
+      const name = this.name();
+      if (!this.used) throw new Error(`Variable $${name} not allowed in a default value`);
+      this.used.add(name);
+      return;
+    }
+    if (t.kind === "number" || t.kind === "string" || t.kind === "name") { this.next(); return; }
+    if (t.value === "[") {
+      this.next();
+      while (!this.at("]")) {
+        if (this.peek().kind === "eof") throw new Error("Unclosed list");
+        this.value();
+      }
+      this.next();
+      return;
+    }
+    if (t.value === "{") {
+      this.next();
+      while (!this.at("}")) {
+        if (this.peek().kind === "eof") throw new Error("Unclosed object");
+        this.name();
+        this.expect(":");
+        this.value();
+      }
+      this.next();
+      return;
+    }
+    throw new Error(`Unexpected "${t.value || "end"}" at ${t.pos}`);
+  }
+}
+
+export function parseGraphqlDocument(source: string): GraphqlDocumentInfo {
+  try {
+    const { operations, fragments } = new Parser(lex(source)).document();
+    if (!operations.length) return { ok: false, error: "Document has no operation" };
+    return { ok: true, operations, fragments };
+  } catch (e: any) {
+    return { ok: false, error: e?.message || String(e) };
+  }
+}
+
+/** The operation a request runs: by operationName, else the only one in the document. */
+export function selectOperation(info: GraphqlDocumentInfo, operationName?: string): GraphqlOperation | string {
+  if (!info.ok) return info.error;
+  if (operationName) {
+    return info.operations.find((o) => o.name === operationName) ?? `No operation named "${operationName}"`;
+  }
+  if (info.operations.length > 1) return "Document has several operations; set operationName";
+  return info.operations[0];
+}
@@ -0,0 +1,119 @@
+// lib/tools/graphql-executor.ts
+// Runs a graphql_tool through the http executor (same secrets, egress guard, retries,
+// breaker and cache) as a POST { query, variables, operationName }, then reads the
+// GraphQL envelope: `errors` become a speakable { ok: false } (errorMap), `data`
+// (or graphql.dataPath inside it) becomes { ok: true, ... }.
+
+import { tpl } from "@/lib/utils";
+import { parsePath, selectPath } from "@/lib/tools/shape-response";
+import { parseGraphqlDocument, selectOperation } from "@/lib/tools/graphql-document";
+import {
+  executeHttpTool,
+  type HttpRequestConfig,
+  type ToolExecution,
+  type ToolExecutionContext,
+} from "@/lib/tools/http-executor";
+import type { HttpToolDescriptor } from "@/types/httpTool.schema";
+import type { GraphqlToolDescriptor } from "@/types/graphqlTool.schema";
+
+/**
+ * The http_tool equivalent of a graphql_tool, or an error message when the document is unusable.
+ * Only the endpoint, headers and variables are templated; the document goes out as written.
+ */
+export function graphqlAsHttpDescriptor(d: GraphqlToolDescriptor): (HttpToolDescriptor & { http: HttpRequestConfig }) | string {
+  const g = d.graphql;
+  const op = selectOperation(parseGraphqlDocument(g.query), g.operationName);
+  if (typeof op === "string") return `GraphQL document of ${d.name} is invalid: ${op}`;
+  if (op.type === "subscription") return `${d.name}: subscriptions are not supported`;
+
+  return {
+    kind: "http_tool",
+    tenantId: d.tenantId,
+    name: d.name,
+    description: d.description,
+    parameters: d.parameters,
+    http: {
+      method: "POST",
+      urlTemplate: g.endpoint,
+      headers: { accept: "application/graphql-response+json, application/json", ...g.headers },
+      literalBody: { query: g.query, ...(g.operationName ? { operationName: g.operationName } : {}) },
+      jsonBodyTemplate: { variables: g.variables },
+      timeoutMs: g.timeoutMs,
+      maxResponseBytes: g.maxResponseBytes,
+      pruneEmpty: g.pruneEmpty,
+      // a query is safe to repeat even over POST; a mutation never is
+      retry: g.retry && op.type === "query" ? { ...g.retry, idempotentOnly: false } : undefined,
+      auth: g.auth,
+    },
+    cache: op.type === "query" ? d.cache : undefined,
+    idempotency: op.type === "mutation" ? d.idempotency : undefined,
+    enabled: d.enabled,
+  };
+}
+
+type GqlError = { message?: string; path?: unknown[]; extensions?: { code?: string } };
+
+/** Map the GraphQL envelope of an execution to the tool reply. */
+export function interpretGraphqlResult(
+  d: GraphqlToolDescriptor,
+  exec: ToolExecution,
+  args: Record<string, any>
+): ToolExecution {
+  if (exec.failure || !exec.json || !exec.body || typeof exec.body !== "object") return exec;
+
+  const { data, errors } = exec.body as { data?: any; errors?: GqlError[] };
+  const errs = Array.isArray(errors) ? errors : [];
+  const summary = errs.map((e) => ({ message: e?.message, code: e?.extensions?.code, path: e?.path }));
+
+  if (errs.length && (!d.graphql.allowPartialData || data == null)) {
+    const first = errs[0] ?? {};
+    const code = first.extensions?.code;
+    const message = String(first.message ?? "");
+    const mapped = d.graphql.errorMap?.find((m) => {
+      if (m.code != null && m.code !== code) return false;
+      if (m.match != null) {
+        try {
+          if (!new RegExp(m.match, "i").test(message)) return false;
+        } catch {
+          return false;
+        }
+      }
+      return true;
+    });
+    const label = d.name.replace(/[_.-]+/g, " ");
+    return {
+      ...exec,
+      body: {
+        ok: false,
+        code: code ?? "GRAPHQL_ERROR",
+        retryable: mapped?.retryable ?? false,
+        error: mapped
+          ? String(tpl(mapped.error, { args, error: { message, code } }) ?? "")
+          : `The ${label} request failed: ${message || "unknown error"}`,
+        errors: summary,
+      },
+    };
+  }
+
+  if (exec.status >= 400 || data === undefined) {
+    return { ...exec, body: { ok: false, code: "GRAPHQL_HTTP_ERROR", error: `GraphQL endpoint answered HTTP ${exec.status}`, response: exec.body } };
+  }
+
+  const picked = d.graphql.dataPath ? selectPath(data, parsePath(d.graphql.dataPath)) : data;
+  const body: Record<string, unknown> =
+    picked && typeof picked === "object" && !Array.isArray(picked) ? { ok: true, ...picked } : { ok: true, data: picked ?? null };
+  if (errs.length) body.warnings = summary;
+  return { ...exec, body };
+}
+
+export async function executeGraphqlTool(
+  d: GraphqlToolDescriptor,
+  args: Record<string, any>,
+  ctx: ToolExecutionContext
+): Promise<ToolExecution> {
+  const http = graphqlAsHttpDescriptor(d);
+  if (typeof http === "string") {
+    return { status: 422, json: true, attempts: 0, body: { ok: false, error: http } };
+  }
+  return interpretGraphqlResult(d, await executeHttpTool(http, args, ctx), args);
+}
@@ -0,0 +1,180 @@
+// lib/tools/http-auth.ts
+// Upstream auth for http tools (descriptor `http.auth`), server only:
+//   - oauth2_client_credentials: token fetched from the tenant's token endpoint (through
+//     the egress guard), cached per tenant + client + scopes, refreshed before expiry
+//   - hmac: per-attempt request signature over method, path, timestamp, headers and body
+// Client ids and keys are tenant vault secrets; the executor resolves them and passes
+// them in, nothing here reads the vault.
+
+import crypto from "crypto";
+import { LRUCache } from "lru-cache";
+import { tpl } from "@/lib/utils";
+import { guardedFetch, EgressBlockedError, type EgressPolicy } from "@/lib/net/egress-guard";
+import { toolHttpCfg } from "@/config/tools";
+import type { HttpAuth, HmacAuth, OAuth2ClientCredentials } from "@/types/httpTool.schema";
+
+/** The upstream's auth step failed (token endpoint down or refusing, missing secret) */
+export class UpstreamAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UpstreamAuthError";
+  }
+}
+
+/** Vault secrets an auth block needs besides {{secrets.*}} tokens (already collected from http) */
+export function authSecretNames(auth?: HttpAuth): string[] {
+  if (!auth) return [];
+  return auth.type === "hmac" ? [auth.secret] : [auth.clientIdSecret, auth.clientSecretSecret];
+}
+
+/* ---------------- OAuth2 client credentials ---------------- */
+
+export type AccessToken = { accessToken: string; tokenType: string; expiresAt: number };
+
+const tokens = new LRUCache<string, AccessToken>({ max: toolHttpCfg.oauthTokenCacheEntries });
+const inflight = new Map<string, Promise<AccessToken>>();
+
+function tokenKey(tenantId: string, auth: OAuth2ClientCredentials, clientId: string) {
+  const scopes = [...(auth.scopes ?? [])].sort().join(" ");
+  return crypto
+    .createHash("sha256")
+    .update([tenantId, auth.tokenUrl, clientId, scopes, auth.audience ?? ""].join("|"))
+    .digest("hex");
+}
+
+function clientCredentials(auth: OAuth2ClientCredentials, secrets: Record<string, string>) {
+  const clientId = secrets[auth.clientIdSecret];
+  const clientSecret = secrets[auth.clientSecretSecret];
+  if (!clientId || !clientSecret) {
+    throw new UpstreamAuthError(`Vault secrets ${auth.clientIdSecret} / ${auth.clientSecretSecret} are not set`);
+  }
+  return { clientId, clientSecret };
+}
+
+async function requestToken(
+  auth: OAuth2ClientCredentials,
+  clientId: string,
+  clientSecret: string,
+  egressPolicy: EgressPolicy
+): Promise<AccessToken> {
+  const form = new URLSearchParams({ grant_type: "client_credentials" });
+  if (auth.scopes?.length) form.set("scope", auth.scopes.join(" "));
+  if (auth.audience) form.set("audience", auth.audience);
+
+  const headers: Record<string, string> = {
+    "content-type": "application/x-www-form-urlencoded",
+    accept: "application/json",
+  };
+  if (auth.clientAuth === "basic") {
+    // RFC 6749 §2.3.1: form-encode both parts before base64
+    const basic = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers.authorization = `Basic ${Buffer.from(basic).toString("base64")}`;
+  } else {
+    form.set("client_id", clientId);
+    form.set("client_secret", clientSecret);
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), toolHttpCfg.oauthTokenTimeoutMs);
+  let r: Response;
+  try {
+    r = await guardedFetch(auth.tokenUrl, { method: "POST", headers, body: form.toString(), signal: controller.signal }, egressPolicy);
+  } catch (e: any) {
+    if (e instanceof EgressBlockedError) throw e;
+    throw new UpstreamAuthError(`Token endpoint unreachable: ${e?.name === "AbortError" ? "timeout" : e?.message}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const j: any = await r.json().catch(() => null);
+  if (!r.ok || typeof j?.access_token !== "string" || !j.access_token) {
+    throw new UpstreamAuthError(`Token endpoint answered ${r.status}${j?.error ? ` (${j.error})` : ""}`);
+  }
+  const expiresIn = Number(j.expires_in) > 0 ? Number(j.expires_in) : 3600;
+  const tokenType = String(j.token_type || "Bearer");
+  return {
+    accessToken: j.access_token,
+    tokenType: tokenType.toLowerCase() === "bearer" ? "Bearer" : tokenType,
+    expiresAt: Date.now() + expiresIn * 1000,
+  };
+}
+
+/**
+ * A valid token for this tenant's client, from cache unless it expires within
+ * refreshSkewSec. Concurrent calls share one token request.
+ */
+export async function getClientCredentialsToken(
+  auth: OAuth2ClientCredentials,
+  secrets: Record<string, string>,
+  opts: { tenantId: string; egressPolicy: EgressPolicy }
+): Promise<AccessToken> {
+  const { clientId, clientSecret } = clientCredentials(auth, secrets);
+  const key = tokenKey(opts.tenantId, auth, clientId);
+
+  const cached = tokens.get(key);
+  if (cached && cached.expiresAt - auth.refreshSkewSec * 1000 > Date.now()) return cached;
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = requestToken(auth, clientId, clientSecret, opts.egressPolicy).finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  const token = await pending;
+  tokens.set(key, token, { ttl: Math.max(1, token.expiresAt - Date.now()) });
+  return token;
+}
+
+/** Drop a cached token the upstream rejected (401), so the next call fetches a new one */
+export function invalidateClientCredentialsToken(
+  auth: OAuth2ClientCredentials,
+  secrets: Record<string, string>,
+  tenantId: string
+) {
+  const clientId = secrets[auth.clientIdSecret];
+  if (clientId) tokens.delete(tokenKey(tenantId, auth, clientId));
+}
+
+/* ---------------- HMAC signing ---------------- */
+
+function timestamp(format: HmacAuth["timestampFormat"], now: Date) {
+  if (format === "iso") return now.toISOString();
+  if (format === "unix_ms") return String(now.getTime());
+  return String(Math.floor(now.getTime() / 1000));
+}
+
+/**
+ * Headers to add to one attempt: timestamp, signature and optional x-key-id.
+ * String to sign: METHOD \n path?query \n timestamp \n name:value (per signedHeaders) \n body
+ */
+export function hmacHeaders(
+  auth: HmacAuth,
+  req: { method: string; url: string; headers: Record<string, string>; body?: string | Uint8Array },
+  secrets: Record<string, string>,
+  now = new Date()
+): Record<string, string> {
+  const key = secrets[auth.secret];
+  if (!key) throw new UpstreamAuthError(`Vault secret ${auth.secret} is not set`);
+
+  const url = new URL(req.url);
+  const ts = timestamp(auth.timestampFormat, now);
+  const lower: Record<string, string> = { host: url.host };
+  for (const [k, v] of Object.entries(req.headers)) lower[k.toLowerCase()] = v;
+  lower[auth.timestampHeader.toLowerCase()] = ts;
+
+  const lines = [
+    req.method.toUpperCase(),
+    url.pathname + url.search,
+    ts,
+    ...auth.signedHeaders.map((h) => `${h.toLowerCase()}:${(lower[h.toLowerCase()] ?? "").trim()}`),
+  ];
+  const mac = crypto.createHmac(auth.algorithm, key).update(lines.join("\n") + "\n");
+  if (req.body) mac.update(req.body); // bytes as sent (multipart bodies are binary)
+  const signature = mac.digest(auth.encoding);
+
+  const out: Record<string, string> = {
+    [auth.timestampHeader]: ts,
+    [auth.signatureHeader]: `${auth.signaturePrefix ?? ""}${signature}`,
+  };
+  if (auth.keyId) out["x-key-id"] = String(tpl(auth.keyId, { secrets }) ?? "");
+  return out;
+}
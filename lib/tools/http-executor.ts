@@ -0,0 +1,439 @@
+// lib/tools/http-executor.ts
+// Runs one http_tool descriptor server-side: secrets, templating, upstream auth (OAuth2 /
+// HMAC), egress guard, retries, circuit breaker and response cache. Used by /api/tools/execute directly and by the
+// workflow runner for each step. Returns a plain result; the route turns it into a reply.
+
+import { tpl, applyTemplate, pruneEmpty, collectTokens, getByPath } from "@/lib/utils";
+import { readTenantSecrets } from "@/lib/secrets/vault";
+import { guardedFetch, EgressBlockedError, ResponseTooLargeError } from "@/lib/net/egress-guard";
+import { getTenantEgressPolicy } from "@/lib/tenants/egress-policy";
+import { resolveRetryPolicy, backoffDelayMs } from "@/lib/net/retry";
+import { CircuitBreaker, toolCircuitBreaker } from "@/lib/net/circuit-breaker";
+import { toolResponseCache, toolCacheKey } from "@/lib/tools/response-cache";
+import { resolveIdempotencyPolicy } from "@/lib/tools/idempotency";
+import {
+  authSecretNames,
+  getClientCredentialsToken,
+  hmacHeaders,
+  invalidateClientCredentialsToken,
+  UpstreamAuthError,
+} from "@/lib/tools/http-auth";
+import { encodeForm, encodeMultipart, renderXmlTemplate } from "@/lib/tools/request-body";
+import { parseResponseBody } from "@/lib/tools/response-formats";
+import type { HttpToolDescriptor } from "@/types/httpTool.schema";
+
+export type ToolExecution = {
+  status: number;
+  body: unknown;          // parsed JSON, or the raw text when the upstream didn't send JSON
+  json: boolean;
+  attempts: number;
+  cache?: "hit" | "miss";
+  failure?: ToolFailureCode;  // set when body is our own speakable error, not the upstream's
+};
+
+export type ToolExecutionContext = {
+  tenantId: string;
+  sessionId?: string | null;   // session-scoped cache entries
+  traceId: string;
+  baseUrl: string;             // for relative urlTemplates (this app's own API)
+  idempotencyKey?: string | null;  // sent upstream in the descriptor's idempotency header
+};
+
+/** Redact obvious secrets in headers, plus any header carrying a vault value */
+function redactHeaders(h: Record<string, string>, secretValues: string[] = []) {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(h || {})) {
+    const low = k.toLowerCase();
+    out[k] =
+      low.includes("authorization") || low.includes("api-key") || low.includes("x-api-key") ||
+      secretValues.some((sv) => v.includes(sv))
+        ? "[REDACTED]"
+        : v;
+  }
+  return out;
+}
+
+/** Blank out vault values inside a log line */
+function scrub(s: string | undefined, secretValues: string[]) {
+  if (!s) return s;
+  return secretValues.reduce((acc, sv) => acc.split(sv).join("[REDACTED]"), s);
+}
+
+/** Truncate large payloads to keep logs readable */
+function snap(v: unknown, n = 1500) {
+  try {
+    const s = typeof v === "string" ? v : JSON.stringify(v);
+    if (!s) return s;
+    return s.length > n ? s.slice(0, n) + "…(truncated)" : s;
+  } catch {
+    return String(v);
+  }
+}
+
+/** Drop `?a=&b=1` style params left empty by missing optional args (http.pruneEmpty) */
+function pruneEmptyQuery(url: string) {
+  const u = new URL(url);
+  const empty = [...u.searchParams].filter(([, v]) => v === "").map(([k]) => k);
+  if (!empty.length) return url; // leave the query as templated
+  for (const k of empty) u.searchParams.delete(k);
+  return u.toString();
+}
+
+/** Secret names referenced as {{secrets.<name>}} anywhere in the http config */
+function referencedSecrets(http: any): string[] {
+  return collectTokens(http)
+    .filter((t) => t.startsWith("secrets."))
+    .map((t) => t.slice("secrets.".length).split(".")[0]);
+}
+
+// Legacy env-backed secrets, used when the tenant has no vault entry of that name
+const ENV_SECRETS: Record<string, string | undefined> = {
+  booking_api_key: process.env.BOOKING_API_KEY,
+};
+
+/** Per-tenant vault lookup (audited); falls back to ENV_SECRETS. Unknown names resolve to "". */
+async function resolveSecrets(
+  names: string[],
+  tenantId: string | undefined,
+  audit: { toolName: string; traceId: string }
+): Promise<Record<string, string>> {
+  if (!names.length) return {};
+  const fromVault = tenantId
+    ? await readTenantSecrets(tenantId, names, { actor: "tools/execute", ...audit })
+    : {};
+  const out: Record<string, string> = {};
+  for (const n of names) out[n] = fromVault[n] ?? ENV_SECRETS[n] ?? "";
+  return out;
+}
+
+export type UpstreamErrorCode =
+  | "CIRCUIT_OPEN"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNREACHABLE"
+  | "UPSTREAM_UNAVAILABLE"
+  | "UPSTREAM_AUTH_FAILED"
+  | "UPSTREAM_RESPONSE_TOO_LARGE";
+
+export type ToolFailureCode = UpstreamErrorCode | "SANDBOX_NO_MOCK" | "REQUEST_IN_PROGRESS";
+
+const UPSTREAM_PHRASES: Record<UpstreamErrorCode, string> = {
+  CIRCUIT_OPEN: "is temporarily unavailable",
+  UPSTREAM_TIMEOUT: "is not responding right now",
+  UPSTREAM_UNREACHABLE: "cannot be reached right now",
+  UPSTREAM_UNAVAILABLE: "is having trouble right now",
+  UPSTREAM_AUTH_FAILED: "is not accepting our sign-in right now",
+  UPSTREAM_RESPONSE_TOO_LARGE: "sent back more data than we can handle",
+};
+
+/** Structured failure phrased so the agent can say it (instead of "HTTP 502") */
+function upstreamError(
+  toolName: string,
+  code: UpstreamErrorCode,
+  status: number,
+  attempts: number,
+  extra: Record<string, unknown> = {}
+): ToolExecution {
+  const label = toolName.replace(/^http_/, "").replace(/[_.-]+/g, " ");
+  return {
+    status,
+    json: true,
+    attempts,
+    failure: code,
+    body: {
+      ok: false,
+      code,
+      retryable: true,
+      error: `The ${label} service ${UPSTREAM_PHRASES[code]}.${extra.retryable === false ? "" : " Please try again in a moment."}`,
+      attempts,
+      ...extra,
+    },
+  };
+}
+
+/** okField when the body is an object, otherwise HTTP 2xx (same rule as the browser executor) */
+export function isExecutionOk(exec: Pick<ToolExecution, "status" | "body">, okField?: string) {
+  if (okField && exec.body && typeof exec.body === "object") return Boolean(getByPath(exec.body, okField));
+  return exec.status >= 200 && exec.status < 300;
+}
+
+export type RenderedHttpRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | Uint8Array;   // bytes as sent
+  bodyObj?: unknown;            // templated body before encoding (for logs and dry runs)
+};
+
+/**
+ * An http config as the executor takes it. `literalBody` is never authored (the schema
+ * drops unknown keys, so a stored one never reaches here): its fields join the JSON body
+ * as they are, without templating, for content like a GraphQL document whose braces tpl
+ * would eat.
+ */
+export type HttpRequestConfig = HttpToolDescriptor["http"] & { literalBody?: Record<string, unknown> };
+
+/**
+ * Template an http config into the request it sends, before upstream auth adds or
+ * signs anything. `ctx` is `{ ...args, args, secrets }`.
+ */
+export function renderHttpRequest(
+  http: HttpRequestConfig,
+  ctx: Record<string, any>,
+  baseUrl: string
+): RenderedHttpRequest {
+  const method = http?.method?.toUpperCase() ?? "POST";
+  const rawUrl = String(http.urlTemplate || "");
+  if (!rawUrl) {
+    throw new Error("urlTemplate is required in http config.");
+  }
+  const templatedUrl = tpl(rawUrl, ctx);
+
+  // Build URL (validated per hop by guardedFetch: DNS-resolved, private ranges blocked, IP pinned)
+  let url = templatedUrl;
+  if (!/^(?:https?:)?\/\//.test(templatedUrl)) {
+    // Relative URL: prepend base
+    if (!baseUrl) throw new Error("urlTemplate is relative but no base URL is configured (APP_ORIGIN).");
+    url = new URL(templatedUrl, baseUrl).toString();
+  }
+  if (http.pruneEmpty) url = pruneEmptyQuery(url);
+
+  // Headers templating
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(http?.headers ?? {})) {
+    headers[k] = tpl(String(v), ctx);
+  }
+
+  // Template/prepare body (http.bodyFormat; JSON unless told otherwise)
+  let body: string | Uint8Array | undefined;
+  let bodyObj: any = undefined;
+  const hasContentType = () => Object.keys(headers).some((k) => k.toLowerCase() === "content-type");
+  const bodyFormat = http.bodyFormat ?? (http.xmlBodyTemplate != null ? "xml" : "json");
+
+  if (bodyFormat === "xml") {
+    if (http.xmlBodyTemplate != null) {
+      body = bodyObj = renderXmlTemplate(http.xmlBodyTemplate, ctx);
+      if (!hasContentType()) headers["content-type"] = "application/xml; charset=utf-8";
+    }
+  } else if (http?.jsonBodyTemplate != null || http?.literalBody) {
+    bodyObj = applyTemplate(http.jsonBodyTemplate, ctx);
+    if (http.pruneEmpty) {
+      bodyObj = pruneEmpty(bodyObj);
+    }
+    if (http.literalBody) bodyObj = { ...http.literalBody, ...bodyObj };
+    if (bodyFormat === "form") {
+      body = encodeForm(bodyObj);
+      if (!hasContentType()) headers["content-type"] = "application/x-www-form-urlencoded";
+    } else if (bodyFormat === "multipart") {
+      // the boundary lives in the content type, so ours always wins
+      const encoded = encodeMultipart(bodyObj);
+      for (const k of Object.keys(headers)) if (k.toLowerCase() === "content-type") delete headers[k];
+      headers["content-type"] = encoded.contentType;
+      body = encoded.body;
+    } else {
+      body = JSON.stringify(bodyObj);
+      if (!hasContentType()) {
+        headers["content-type"] = "application/json";
+      }
+    }
+  }
+
+  return { method, url, headers, body, bodyObj };
+}
+
+/**
+ * Call the upstream described by an http_tool. `args` must already be validated.
+ * Throws EgressBlockedError for policy violations; upstream failures come back as
+ * a ToolExecution with a speakable error body.
+ */
+export async function executeHttpTool(
+  descriptor: HttpToolDescriptor,
+  args: Record<string, any>,
+  exec: ToolExecutionContext
+): Promise<ToolExecution> {
+  const { tenantId, traceId } = exec;
+  const toolName = descriptor.name;
+  const started = Date.now();
+
+  // Opt-in response cache: checked before any secret is read or the upstream is touched
+  const cacheKey = descriptor.cache
+    ? toolCacheKey({ policy: descriptor.cache, descriptor, args, tenantId, sessionId: exec.sessionId })
+    : null;
+  if (cacheKey) {
+    const hit = await toolResponseCache.get(cacheKey);
+    if (hit) {
+      console.log(`[EXEC] ${traceId} cache hit (${Math.round((Date.now() - hit.storedAt) / 1000)}s old)`, { tool: toolName });
+      return { status: hit.status, body: hit.body, json: true, attempts: 0, cache: "hit" };
+    }
+  }
+
+  // Values for {{secrets.*}} tokens, resolved up front (templating is synchronous)
+  const auth = descriptor.http.auth;
+  const secretNames = [...new Set([...referencedSecrets(descriptor.http), ...authSecretNames(auth)])];
+  const secrets = await resolveSecrets(secretNames, tenantId, { toolName, traceId });
+
+  const secretValues = Object.values(secrets).filter((v) => v.length >= 4);
+
+  const ctx = { ...args, args, secrets };
+
+  const { method, url: targetUrl, headers, body, bodyObj } = renderHttpRequest(descriptor.http, ctx, exec.baseUrl);
+  headers["x-trace-id"] = traceId; // pass through for downstream services
+  const idemHeader = exec.idempotencyKey ? resolveIdempotencyPolicy(descriptor)?.header : null;
+  if (idemHeader) headers[idemHeader] = exec.idempotencyKey!;
+  const egressPolicy = await getTenantEgressPolicy(tenantId);
+
+  // OAuth2: bearer token from the tenant's token endpoint (cached until shortly before expiry)
+  const authorize = async () => {
+    if (auth?.type !== "oauth2_client_credentials") return;
+    const token = await getClientCredentialsToken(auth, secrets, { tenantId, egressPolicy });
+    headers["authorization"] = `${token.tokenType} ${token.accessToken}`;
+    secretValues.push(token.accessToken);
+  };
+  try {
+    await authorize();
+    if (auth?.type === "hmac" && !secrets[auth.secret]) throw new UpstreamAuthError(`Vault secret ${auth.secret} is not set`);
+  } catch (e: any) {
+    if (!(e instanceof UpstreamAuthError)) throw e;
+    console.error(`[EXEC] ${traceId} AUTH FAILED`, { tool: toolName, error: e.message });
+    return upstreamError(toolName, "UPSTREAM_AUTH_FAILED", 502, 0, { retryable: false });
+  }
+
+  // ---- OUTBOUND LOG -----------------------------------------------------
+  console.log(`[EXEC] ${traceId} → ${method} ${scrub(targetUrl, secretValues)}`, {
+    tool: toolName,
+    tenantId,
+    okField: descriptor.http.okField ?? "(http 2xx)",
+    auth: auth?.type ?? "none",
+    headers: redactHeaders(headers, secretValues),
+    body: scrub(snap(bodyObj), secretValues),
+  });
+
+  // Do the call: descriptor retry policy, short-circuited per tenant + host
+  const timeoutMs = Number(descriptor.http.timeoutMs) || 15000;
+  const retry = resolveRetryPolicy(descriptor.http);
+  let maxAttempts = retry?.maxAttempts ?? 1;
+  const circuitKey = CircuitBreaker.key(tenantId, new URL(targetUrl).hostname);
+  const fetchPolicy = descriptor.http.maxResponseBytes
+    ? { ...egressPolicy, maxResponseBytes: descriptor.http.maxResponseBytes }
+    : egressPolicy;
+
+  let r: Response | null = null;
+  let lastError: any = null;
+  let attempt = 0;
+  let reauthorized = false;
+  // per attempt; runs until that attempt's body has been read (or discarded for a retry)
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const discard = (res: Response | null) => {
+    clearTimeout(timeout);
+    res?.body?.cancel().catch(() => {});
+  };
+  while (attempt < maxAttempts) {
+    attempt++;
+    const gate = toolCircuitBreaker.check(circuitKey);
+    if (!gate.allowed) {
+      console.warn(`[EXEC] ${traceId} circuit open`, { tool: toolName, tenantId, retryAfterMs: gate.retryAfterMs });
+      return upstreamError(toolName, "CIRCUIT_OPEN", 503, attempt - 1, { retryAfterMs: gate.retryAfterMs });
+    }
+
+    r = null;
+    lastError = null;
+    const controller = new AbortController();
+    timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      // HMAC: signed per attempt so the timestamp stays fresh across retries
+      const signed =
+        auth?.type === "hmac"
+          ? { ...headers, ...hmacHeaders(auth, { method, url: targetUrl, headers, body }, secrets) }
+          : headers;
+      r = await guardedFetch(targetUrl, { method, headers: signed, body, signal: controller.signal }, fetchPolicy);
+    } catch (e: any) {
+      clearTimeout(timeout);
+      if (e instanceof EgressBlockedError) throw e; // policy, not an outage
+      if (e instanceof ResponseTooLargeError) {
+        // the same call would only send the same body again
+        console.error(`[EXEC] ${traceId} RESPONSE TOO LARGE`, { tool: toolName, limit: e.limit });
+        return upstreamError(toolName, "UPSTREAM_RESPONSE_TOO_LARGE", 502, attempt, { retryable: false });
+      }
+      lastError = e;
+    }
+
+    if (lastError || r!.status >= 500) toolCircuitBreaker.failure(circuitKey);
+    else toolCircuitBreaker.success(circuitKey);
+
+    // A cached token the upstream no longer accepts (revoked, clock skew): fetch a new one, one extra attempt
+    if (r?.status === 401 && auth?.type === "oauth2_client_credentials" && !reauthorized) {
+      reauthorized = true;
+      invalidateClientCredentialsToken(auth, secrets, tenantId);
+      discard(r);
+      try {
+        await authorize();
+        maxAttempts++;
+        console.warn(`[EXEC] ${traceId} 401 with cached token; retrying with a new one`, { tool: toolName });
+        continue;
+      } catch (e: any) {
+        if (!(e instanceof UpstreamAuthError)) throw e;
+        return upstreamError(toolName, "UPSTREAM_AUTH_FAILED", 502, attempt, { retryable: false });
+      }
+    }
+
+    const retryable = lastError ? true : retry?.retryOn.includes(r!.status) ?? false;
+    if (!retryable || attempt >= maxAttempts) break;
+    discard(r); // free the connection before the next attempt
+
+    const delay = backoffDelayMs(retry!, attempt, r?.headers.get("retry-after"));
+    console.warn(`[EXEC] ${traceId} retry ${attempt}/${maxAttempts - 1} in ${delay}ms`, {
+      tool: toolName,
+      status: r?.status,
+      error: lastError?.message,
+    });
+    await new Promise((res) => setTimeout(res, delay));
+  }
+
+  if (!r) {
+    const timedOut = lastError?.name === "AbortError";
+    console.error(`[EXEC] ${traceId} ${timedOut ? "TIMEOUT" : "UNREACHABLE"} after ${attempt} attempt(s)`, {
+      tool: toolName,
+      error: lastError?.message,
+    });
+    return upstreamError(toolName, timedOut ? "UPSTREAM_TIMEOUT" : "UPSTREAM_UNREACHABLE", timedOut ? 504 : 502, attempt);
+  }
+
+  let text: string;
+  try {
+    text = await r.text();
+  } catch (e: any) {
+    const timedOut = e?.name === "AbortError";
+    console.error(`[EXEC] ${traceId} ${timedOut ? "TIMEOUT" : "ERROR"} reading the response body`, { tool: toolName, error: e?.message });
+    return upstreamError(toolName, timedOut ? "UPSTREAM_TIMEOUT" : "UPSTREAM_UNREACHABLE", timedOut ? 504 : 502, attempt);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  // ---- INBOUND LOG ------------------------------------------------------
+  console.log(`[EXEC] ${traceId} ← ${r.status} (${Date.now() - started}ms, ${attempt} attempt(s))`, {
+    tool: toolName,
+    // scrubbed before truncating, so a secret cut at the limit is not half-logged
+    response: snap(scrub(text, secretValues)),
+  });
+
+  // JSON (or XML / CSV converted to JSON) if possible, else text
+  const parsed = parseResponseBody(text, r.headers.get("content-type"), descriptor.http);
+  if (!parsed) {
+    // Gateway error pages (HTML/plain) from a struggling upstream: say something useful instead
+    if (r.status >= 500) return upstreamError(toolName, "UPSTREAM_UNAVAILABLE", r.status, attempt);
+    return { status: r.status, body: text, json: false, attempts: attempt };
+  }
+  const j: any = parsed.value;
+
+  const result: ToolExecution = { status: r.status, body: j, json: true, attempts: attempt };
+  if (cacheKey && descriptor.cache) {
+    result.cache = "miss";
+    if (r.ok) {
+      await toolResponseCache.set(
+        cacheKey,
+        { status: r.status, body: j, storedAt: Date.now() },
+        descriptor.cache.ttlSec * 1000
+      );
+    }
+  }
+  return result;
+}
@@ -0,0 +1,242 @@
+// lib/tools/idempotency.ts
+// Duplicate protection for non-GET http tools, graphql mutations and whole workflows in
+// /api/tools/execute, for descriptors with an `idempotency` block. A model retry or a
+// double-fired browser call with the same session, tool and args (or descriptor key
+// template) gets the first call's reply instead of a second upstream write.
+//   tool_idempotency { _id: key, tenantId, tool, state: "pending" | "done",
+//                      status?, body?, json?, createdAt, expiresAt }
+// expiresAt carries a TTL index (pnpm db:indexes). Server only.
+
+import crypto from "crypto";
+import getMongoConnection from "@/db/connections";
+import { tpl } from "@/lib/utils";
+import { retryBudgetMs } from "@/lib/net/retry";
+import { stableStringify } from "@/lib/tools/response-cache";
+import { toolIdempotencyCfg } from "@/config/tools";
+import type { ToolExecution, ToolExecutionContext } from "@/lib/tools/http-executor";
+import type { HttpIdempotencyPolicy, HttpToolDescriptor } from "@/types/httpTool.schema";
+import type { WorkflowToolDescriptor } from "@/types/workflowTool.schema";
+
+const COLLECTION = "tool_idempotency";
+
+type IdempotencyRecord = {
+  _id: string;
+  tenantId: string;
+  tool: string;
+  state: "pending" | "done";
+  status?: number;
+  body?: unknown;
+  json?: boolean;
+  createdAt: Date;
+  expiresAt: Date;
+};
+
+const sha = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+
+/** What deduping needs from either policy (the http one also names the upstream header) */
+type DedupePolicy = Pick<HttpIdempotencyPolicy, "key" | "ttlSec">;
+
+/** Effective policy: only when the descriptor declares one, never for GET/HEAD/OPTIONS */
+export function resolveIdempotencyPolicy(d: HttpToolDescriptor): HttpIdempotencyPolicy | null {
+  const method = String(d.http?.method || "POST").toUpperCase();
+  if (method === "GET" || method === "HEAD" || method === "OPTIONS") return null;
+  return d.idempotency?.enabled ? d.idempotency : null;
+}
+
+/** Per tenant + session + tool; null without a session (nothing to scope duplicates to) */
+export function idempotencyKey(opts: {
+  policy: DedupePolicy;
+  toolName: string;
+  args: Record<string, any>;
+  tenantId: string;
+  sessionId?: string | null;
+}): string | null {
+  const { policy, toolName, args, tenantId, sessionId } = opts;
+  if (!sessionId) return null;
+  const material = policy.key ? String(tpl(policy.key, { args }) ?? "") : stableStringify(args);
+  return sha([tenantId, sessionId, toolName, material].join("\n"));
+}
+
+async function collection() {
+  const { db } = await getMongoConnection(process.env.DB!, process.env.MAINDBNAME!);
+  return db.collection<IdempotencyRecord>(COLLECTION);
+}
+
+/** Take the key, or return the record that holds it (an expired one the TTL monitor hasn't removed yet is taken over) */
+async function claim(key: string, rec: Omit<IdempotencyRecord, "_id">): Promise<IdempotencyRecord | null> {
+  const col = await collection();
+  try {
+    await col.insertOne({ _id: key, ...rec });
+    return null;
+  } catch (e: any) {
+    if (e?.code !== 11000) throw e;
+  }
+  const now = new Date();
+  const takenOver = await col.findOneAndReplace({ _id: key, expiresAt: { $lt: now } }, rec);
+  if (takenOver) return null;
+  return col.findOne({ _id: key });
+}
+
+/**
+ * Poll a pending record until it is done, its key is released (the first call failed,
+ * so the caller may claim it and run) or `waitMs` passes (null)
+ */
+async function waitForResult(key: string, waitMs: number): Promise<IdempotencyRecord | "released" | null> {
+  const col = await collection();
+  const until = Date.now() + waitMs;
+  while (Date.now() < until) {
+    await new Promise((r) => setTimeout(r, 250));
+    const rec = await col.findOne({ _id: key });
+    if (!rec) return "released";
+    if (rec.state === "done") return rec;
+  }
+  return null;
+}
+
+const replay = (rec: IdempotencyRecord): ToolExecution => ({
+  status: rec.status ?? 200,
+  body: rec.body,
+  json: rec.json ?? true,
+  attempts: 0,
+});
+
+function inProgress(toolName: string): ToolExecution {
+  const label = toolName.replace(/^http_/, "").replace(/[_.-]+/g, " ");
+  return {
+    status: 409,
+    json: true,
+    attempts: 0,
+    failure: "REQUEST_IN_PROGRESS",
+    body: {
+      ok: false,
+      code: "REQUEST_IN_PROGRESS",
+      retryable: true,
+      error: `The same ${label} request is still being processed. Please wait a moment before trying again.`,
+    },
+  };
+}
+
+type OnceOptions = {
+  toolName: string;
+  policy: DedupePolicy | null;
+  budgetMs: number;             // how long the first call may take
+  keep: (exec: ToolExecution) => boolean;  // store this reply for duplicates?
+};
+
+/** Run `run` at most once per key; a store outage never fails the call */
+async function runOnce(
+  opts: OnceOptions,
+  args: Record<string, any>,
+  ctx: ToolExecutionContext,
+  run: (key: string | null) => Promise<ToolExecution>
+): Promise<{ exec: ToolExecution; replayed: boolean }> {
+  const { toolName, policy, budgetMs } = opts;
+  const key = policy
+    ? idempotencyKey({ policy, toolName, args, tenantId: ctx.tenantId, sessionId: ctx.sessionId })
+    : null;
+  if (!policy || !key) return { exec: await run(null), replayed: false };
+
+  const claimKey = () => {
+    const now = Date.now();
+    return claim(key, {
+      tenantId: ctx.tenantId,
+      tool: toolName,
+      state: "pending",
+      createdAt: new Date(now),
+      expiresAt: new Date(now + budgetMs + 30_000), // a crashed call frees the key after its budget
+    });
+  };
+
+  let existing: IdempotencyRecord | null;
+  try {
+    existing = await claimKey();
+    // a duplicate waits for the first call, and takes over the key if that call fails and releases it
+    const waitUntil = Date.now() + Math.min(budgetMs, toolIdempotencyCfg.maxWaitMs);
+    while (existing && existing.state !== "done") {
+      const outcome = await waitForResult(key, waitUntil - Date.now()).catch(() => null);
+      if (outcome !== "released") {
+        console.log(`[EXEC] ${ctx.traceId} duplicate call ${outcome ? "replayed" : "still in progress"}`, { tool: toolName });
+        return outcome ? { exec: replay(outcome), replayed: true } : { exec: inProgress(toolName), replayed: false };
+      }
+      existing = await claimKey();
+    }
+  } catch (e: any) {
+    console.warn(`[EXEC] ${ctx.traceId} idempotency store unavailable`, { tool: toolName, error: e?.message });
+    return { exec: await run(key), replayed: false };
+  }
+
+  if (existing) {
+    console.log(`[EXEC] ${ctx.traceId} duplicate call replayed`, { tool: toolName });
+    return { exec: replay(existing), replayed: true };
+  }
+
+  const col = await collection();
+  let exec: ToolExecution;
+  try {
+    exec = await run(key);
+  } catch (e) {
+    await col.deleteOne({ _id: key, state: "pending" }).catch(() => {});
+    throw e;
+  }
+
+  try {
+    if (!opts.keep(exec)) {
+      await col.deleteOne({ _id: key, state: "pending" });
+    } else {
+      await col.updateOne(
+        { _id: key },
+        {
+          $set: {
+            state: "done",
+            status: exec.status,
+            body: exec.body,
+            json: exec.json,
+            expiresAt: new Date(Date.now() + policy.ttlSec * 1000),
+          },
+        }
+      );
+    }
+  } catch (e: any) {
+    console.warn(`[EXEC] ${ctx.traceId} idempotency store write failed`, { tool: toolName, error: e?.message });
+  }
+  return { exec, replayed: false };
+}
+
+/**
+ * Run one http tool call (or a graphql mutation, as its http equivalent) at most once per key. `run` receives the key to send upstream.
+ * Replies we phrased ourselves and 5xx are not stored, so a later retry really retries
+ * (with the same key upstream).
+ */
+export function withIdempotency(
+  d: HttpToolDescriptor,
+  args: Record<string, any>,
+  ctx: ToolExecutionContext,
+  run: (key: string | null) => Promise<ToolExecution>
+): Promise<{ exec: ToolExecution; replayed: boolean }> {
+  const opts = {
+    toolName: d.name,
+    policy: resolveIdempotencyPolicy(d),
+    budgetMs: retryBudgetMs(d.http),
+    keep: (exec: ToolExecution) => !exec.failure && exec.status < 500,
+  };
+  return runOnce(opts, args, ctx, run);
+}
+
+/**
+ * Run a whole workflow at most once per key (its steps are not deduped one by one).
+ * Only a completed run is stored: a failed one was compensated, so a retry starts over.
+ */
+export function withWorkflowIdempotency(
+  wf: WorkflowToolDescriptor,
+  args: Record<string, any>,
+  ctx: ToolExecutionContext,
+  run: () => Promise<ToolExecution>
+): Promise<{ exec: ToolExecution; replayed: boolean }> {
+  const opts = {
+    toolName: wf.name,
+    policy: wf.idempotency?.enabled ? wf.idempotency : null,
+    budgetMs: wf.timeoutMs,
+    keep: (exec: ToolExecution) => exec.status < 400,
+  };
+  return runOnce(opts, args, ctx, () => run());
+}
@@ -0,0 +1,62 @@
+// lib/tools/mock-response.ts
+// Canned replies for sandbox mode: picks the descriptor's `mock` case matching the args,
+// templates it and returns it shaped like an executor result, so okField, response
+// shaping and the UI run exactly as they would on a real upstream reply.
+
+import { applyTemplate, getByPath } from "@/lib/utils";
+import { parseResponseBody } from "@/lib/tools/response-formats";
+import type { ToolExecution } from "@/lib/tools/http-executor";
+import type { HttpToolDescriptor } from "@/types/httpTool.schema";
+
+export type MockedExecution = { exec: ToolExecution; latencyMs: number; matched: number | null };
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Index of the first case whose `when` paths all equal the args, or null */
+function matchCase(mock: NonNullable<HttpToolDescriptor["mock"]>, args: Record<string, any>) {
+  const i = (mock.cases ?? []).findIndex((c) =>
+    Object.entries(c.when).every(([path, expected]) => sameValue(getByPath(args, path), expected))
+  );
+  return i < 0 ? null : i;
+}
+
+/** The descriptor's mock for these args, or null when it has none */
+export function mockHttpExecution(d: HttpToolDescriptor, args: Record<string, any>): MockedExecution | null {
+  const mock = d.mock;
+  if (!mock) return null;
+
+  const matched = matchCase(mock, args);
+  const c = matched == null ? undefined : mock.cases![matched];
+  let body: unknown = applyTemplate(c?.body !== undefined ? c.body : mock.body ?? null, { args });
+  let json = typeof body !== "string";
+  if (typeof body === "string") {
+    const parsed = parseResponseBody(body, mock.contentType ?? null, d.http);
+    if (parsed) {
+      body = parsed.value;
+      json = true;
+    }
+  }
+
+  return {
+    exec: { status: c?.status ?? mock.status, body, json, attempts: 0 },
+    latencyMs: c?.latencyMs ?? mock.latencyMs,
+    matched,
+  };
+}
+
+/** Sandbox reply for a tool that has no mock: nothing is called, and the agent can say why */
+export function sandboxUnavailable(toolName: string): ToolExecution {
+  const label = toolName.replace(/^http_/, "").replace(/[_.-]+/g, " ");
+  return {
+    status: 503,
+    json: true,
+    attempts: 0,
+    failure: "SANDBOX_NO_MOCK",
+    body: {
+      ok: false,
+      code: "SANDBOX_NO_MOCK",
+      retryable: false,
+      error: `The ${label} service is not available in sandbox mode.`,
+    },
+  };
+}
@@ -0,0 +1,116 @@
+// lib/tools/mongo-executor.ts
+// Runs a mongo_tool in-process (no HTTP hop to /api/mongo/gateway, same guards):
+// templates filter/pipeline/projection/sort/limit from the model args, pins the
+// query to the caller's tenant, rejects platform collections, unscoped reads outside
+// MONGO_SHARED_COLLECTIONS, denylisted operators and write stages, clamps every $limit,
+// and answers { ok: true, count, items }.
+
+import getMongoConnection from "@/db/connections";
+import { applyTemplate } from "@/lib/utils";
+import {
+  blockedMongoKeys,
+  clampPipelineLimit,
+  coerceLimit,
+  findDisallowedKeys,
+  isPlatformCollection,
+  sanitizeFilter,
+  sharedMongoCollections,
+} from "@/lib/tools/mongo-query";
+import { getTenantMongoSecrets } from "@/lib/tenants/mongo-database";
+import type { ToolExecution, ToolExecutionContext } from "@/lib/tools/http-executor";
+import type { MongoToolDescriptor } from "@/types/mongoTool.schema";
+
+/** Template, then drop undefined leaves (missing optional args) the way JSON would */
+function render(value: unknown, ctx: Record<string, any>) {
+  if (value == null) return value;
+  const out = applyTemplate(value, ctx);
+  return out === undefined ? undefined : JSON.parse(JSON.stringify(out));
+}
+
+const rejected = (status: number, error: string): ToolExecution => ({
+  status,
+  json: true,
+  attempts: 0,
+  body: { ok: false, error },
+});
+
+export async function executeMongoTool(
+  d: MongoToolDescriptor,
+  args: Record<string, any>,
+  exec: ToolExecutionContext
+): Promise<ToolExecution> {
+  const { tenantId, traceId } = exec;
+  const q = d.mongo;
+  const ctx = { ...args, args };
+  const tf = q.tenantField;
+  const limit = coerceLimit(q.limit == null ? undefined : Number(render(q.limit, ctx)) || undefined);
+  const blocked = blockedMongoKeys(tf != null);
+
+  // the descriptor schema and linter check these too; re-checked here for rows stored before them
+  if (isPlatformCollection(q.collection)) {
+    console.warn(`[EXEC] ${traceId} mongo platform collection blocked`, { tool: d.name, collection: q.collection });
+    return rejected(400, `${d.name} cannot read ${q.collection}.`);
+  }
+  if (!tf && !sharedMongoCollections().has(q.collection)) {
+    console.warn(`[EXEC] ${traceId} mongo unscoped read blocked`, { tool: d.name, collection: q.collection });
+    return rejected(400, `${d.name} must be tenant-scoped: ${q.collection} is not a shared collection.`);
+  }
+
+  let filter: any;
+  let pipeline: any[] | undefined;
+  let options: { projection?: any; sort?: any } = {};
+  if (q.op === "find") {
+    filter = sanitizeFilter(render(q.filter, ctx) ?? {});
+    if (tf) filter = Object.keys(filter).length ? { $and: [filter, { [tf]: tenantId }] } : { [tf]: tenantId };
+    options = { projection: render(q.projection, ctx) ?? undefined, sort: render(q.sort, ctx) ?? undefined };
+  } else {
+    pipeline = render(q.pipeline, ctx) as any[];
+    if (tf) pipeline = [{ $match: { [tf]: tenantId } }, ...pipeline];
+    pipeline = clampPipelineLimit(pipeline, limit);
+  }
+
+  // checked after templating: whole-token args keep their type and could carry operators
+  const [bad] = findDisallowedKeys({ filter, pipeline, ...options }, [], blocked);
+  if (bad) {
+    console.warn(`[EXEC] ${traceId} mongo operator blocked`, { tool: d.name, key: bad.key, path: bad.path });
+    return rejected(400, `Operator ${bad.key} is not allowed in ${d.name}.`);
+  }
+
+  const label = d.name.replace(/[_.-]+/g, " ");
+  const started = Date.now();
+  console.log(`[EXEC] ${traceId} → mongo ${q.op} ${q.collection}`, { tool: d.name, tenantId, limit });
+
+  try {
+    const { uri, dbName } = await getTenantMongoSecrets(tenantId);
+    const { db } = await getMongoConnection(uri, dbName);
+    const coll = db.collection(q.collection);
+
+    const docs =
+      q.op === "find"
+        ? await coll
+            .find(filter, { ...options, maxTimeMS: q.timeoutMs })
+            .limit(limit)
+            .toArray()
+        : await coll.aggregate(pipeline!, { allowDiskUse: false, maxTimeMS: q.timeoutMs }).toArray();
+
+    console.log(`[EXEC] ${traceId} ← mongo ${docs.length} doc(s) (${Date.now() - started}ms)`, { tool: d.name });
+    // ObjectId / Date become strings, as in the gateway's JSON reply
+    const items = JSON.parse(JSON.stringify(docs));
+    return { status: 200, json: true, attempts: 1, body: { ok: true, count: items.length, items } };
+  } catch (e: any) {
+    const timedOut = e?.code === 50 || e?.codeName === "MaxTimeMSExpired";
+    console.error(`[EXEC] ${traceId} mongo ${timedOut ? "TIMEOUT" : "ERROR"}`, { tool: d.name, error: e?.message });
+    return {
+      status: timedOut ? 504 : 502,
+      json: true,
+      attempts: 1,
+      failure: timedOut ? "UPSTREAM_TIMEOUT" : "UPSTREAM_UNAVAILABLE",
+      body: {
+        ok: false,
+        code: timedOut ? "UPSTREAM_TIMEOUT" : "UPSTREAM_UNAVAILABLE",
+        retryable: true,
+        error: `The ${label} lookup ${timedOut ? "took too long" : "is having trouble right now"}. Please try again in a moment.`,
+      },
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// lib/tools/mongo-query.ts
+// Guards and helpers shared by the Mongo gateway (/api/mongo/gateway) and mongo_tool
+// descriptors executed in-process: the operator denylist, collection rules, filter
+// sanitizing and limit clamping. Tenant connection settings: lib/tenants/mongo-database.ts.
+
+// --- Collections ---------------------------------------------------------
+
+// Platform collections no tenant query may name, even when a tenant database shares
+// the platform cluster. Keep in sync with the collections lib/ and app/api write to.
+export const PLATFORM_COLLECTIONS = new Set<string>([
+  "actions",
+  "action_drafts",
+  "action_versions",
+  "auth",
+  "ratelimits",
+  "realtime_sessions",
+  "tenants",
+  "tenant_secrets",
+  "tenant_secret_audit",
+  "tool_executions",
+  "tool_idempotency",
+  "usage_daily",
+  "user_transcripts",
+]);
+
+export function isPlatformCollection(name: string) {
+  return PLATFORM_COLLECTIONS.has(name) || name.startsWith("system.");
+}
+
+/**
+ * Collections a mongo_tool may read without a tenant filter (tenantField: null),
+ * from MONGO_SHARED_COLLECTIONS (comma-separated). Empty unless configured.
+ */
+export function sharedMongoCollections(): Set<string> {
+  return new Set((process.env.MONGO_SHARED_COLLECTIONS || "").split(",").map((c) => c.trim()).filter(Boolean));
+}
+
+// --- Safety: deny dangerous operators in filters/pipelines -----------------
+export const DISALLOWED_KEYS = new Set<string>([
+  "$where",
+  "$accumulator",
+  "$function",
+  "$regexFindAll",
+  "$regexFind",
+  // Add more if needed
+]);
+
+export function scanForDisallowedKeys(v: any, path: string[] = []): void {
+  const [first] = findDisallowedKeys(v, path);
+  if (first) throw new Error(`Disallowed operator ${first.key} at ${first.path}`);
+}
+
+/** Every disallowed operator in a filter/pipeline (the linter reports all of them) */
+export function findDisallowedKeys(
+  v: any,
+  path: string[] = [],
+  disallowed: Set<string> = DISALLOWED_KEYS
+): { key: string; path: string }[] {
+  if (!v || typeof v !== "object") return [];
+  const out: { key: string; path: string }[] = [];
+  for (const [k, val] of Object.entries(v)) {
+    if (k.startsWith("$") && disallowed.has(k)) out.push({ key: k, path: path.concat(k).join(".") });
+    out.push(...findDisallowedKeys(val, path.concat(k), disallowed));
+  }
+  return out;
+}
+
+// Pipeline stages that write; never allowed from a mongo_tool (tools are reads)
+export const WRITE_STAGES = new Set<string>(["$out", "$merge"]);
+
+// Stages that read another collection and so would escape a tenant filter
+export const CROSS_COLLECTION_STAGES = new Set<string>(["$lookup", "$unionWith", "$graphLookup"]);
+
+/** Operators a mongo_tool may not run: the gateway denylist plus writes (plus joins when tenant-scoped) */
+export function blockedMongoKeys(tenantScoped: boolean) {
+  return new Set([...DISALLOWED_KEYS, ...WRITE_STAGES, ...(tenantScoped ? CROSS_COLLECTION_STAGES : [])]);
+}
+
+// --- Helpers ---------------------------------------------------------------
+
+// drop empty regexes, remove orphan $options, clean empty $or clauses and empty-string leaves
+export function sanitizeFilter(filter: unknown) {
+  if (!filter || typeof filter !== "object") return filter;
+
+  // Remove $options when there is no sibling $regex (handles order-insensitive cases)
+  const cleanRegexContainer = (o: Record<string, unknown>) => {
+    // If $regex is a blank string, delete it
+    if ("$regex" in o) {
+      const rv = (o as any)["$regex"];
+      if (typeof rv === "string" && rv.trim() === "") {
+        delete (o as any)["$regex"];
+      }
+    }
+    // If there’s no $regex at all, $options is meaningless → delete it
+    if (!("$regex" in o) && "$options" in o) {
+      delete (o as any)["$options"];
+    }
+  };
+
+  const walk = (obj: Record<string, unknown>) => {
+    // Clean current container first so order of keys never matters
+    cleanRegexContainer(obj);
+
+    for (const [k, v] of Object.entries(obj)) {
+      // Atlas-style $regularExpression: { pattern, options }
+      if (k === "$regularExpression" && v && typeof v === "object") {
+        const pat = (v as any).pattern;
+        if (typeof pat === "string" && pat.trim() === "") {
+          delete (obj as any)[k];
+          continue;
+        }
+        walk(v as Record<string, unknown>);
+        cleanRegexContainer(v as Record<string, unknown>);
+        if (Object.keys(v as Record<string, unknown>).length === 0) {
+          delete (obj as any)[k];
+        }
+        continue;
+      }
+
+      // $in: ["", ...] -> remove empty strings; drop $in if empty after cleanup
+      if (k === "$in" && Array.isArray(v)) {
+        const cleaned = v.filter((x) => !(typeof x === "string" && x.trim() === ""));
+        if (cleaned.length) (obj as any).$in = cleaned;
+        else delete (obj as any).$in;
+        continue;
+      }
+
+      // Generic leaf cleanup: drop empty strings (keep 0/false)
+      if (typeof v === "string" && v.trim() === "") {
+        delete (obj as any)[k];
+        continue;
+      }
+
+      // Recurse
+      if (v && typeof v === "object") {
+        walk(v as Record<string, unknown>);
+        cleanRegexContainer(v as Record<string, unknown>);
+
+        // If child became empty after cleanup, remove it
+        if (Object.keys(v as Record<string, unknown>).length === 0) {
+          delete (obj as any)[k];
+        }
+      }
+    }
+
+    // Prune empty $or ([], [{}], objects that ended up empty or only had orphan $options)
+    if (Array.isArray((obj as any).$or)) {
+      (obj as any).$or = (obj as any).$or
+        .map((clause: unknown) => {
+          if (clause && typeof clause === "object") {
+            walk(clause as Record<string, unknown>);
+            cleanRegexContainer(clause as Record<string, unknown>);
+            return Object.keys(clause as Record<string, unknown>).length > 0 ? clause : null;
+          }
+          return clause;
+        })
+        .filter(Boolean);
+      if ((obj as any).$or.length === 0) delete (obj as any).$or;
+    }
+  };
+
+  walk(filter as Record<string, unknown>);
+  return filter;
+}
+
+
+export function coerceLimit(requested: number | undefined, fallback = 100, max = 500) {
+  const n = typeof requested === "number" ? requested : fallback;
+  return Math.min(Math.max(1, n), max);
+}
+
+/** Clamp every top-level $limit stage to 1..max; append `{ $limit: fallback }` when there is none */
+export function clampPipelineLimit(pipeline: any[], fallback = 100, max = 500) {
+  let found = false;
+  const out = pipeline.map((stage) => {
+    if (!stage || typeof stage !== "object" || !("$limit" in stage)) return stage;
+    found = true;
+    return { ...stage, $limit: coerceLimit(Number(stage.$limit) || undefined, fallback, max) };
+  });
+  return found ? out : [...out, { $limit: fallback }];
+}
@@ -0,0 +1,338 @@
+// lib/tools/openapi-import.ts
+// OpenAPI 3 (JSON) -> http_tool descriptors. Pure: no I/O, so the admin route and the
+// xscripts CLI share it. Per picked operation:
+//   - parameters: path + query (+ non-auth header) params and the JSON/form body's
+//     top-level properties, as one JSON Schema object (local $refs inlined)
+//   - urlTemplate: server URL + path with {{args.*}} tokens, query params appended
+//     (pruneEmpty drops the ones the model leaves out)
+//   - security: apiKey / bearer / basic -> {{secrets.*}} headers or query params,
+//     oauth2 clientCredentials -> http.auth
+// Callers lint the result (lintHttpToolDescriptors) before saving anything.
+
+import { HttpMethodSchema, type HttpToolDescriptor } from "@/types/httpTool.schema";
+
+type Obj = Record<string, any>;
+
+export type OpenApiOperationInfo = {
+  id: string;               // operationId, or "METHOD /path"
+  method: string;
+  path: string;
+  summary?: string;
+  toolName: string;
+  supported: boolean;       // false: method the tool runtime can't send (HEAD, OPTIONS, TRACE)
+};
+
+export type OpenApiImportOptions = {
+  tenantId: string;
+  /** operationIds or "METHOD /path"; default: every supported operation */
+  operations?: string[];
+  /** Overrides servers[0].url */
+  baseUrl?: string;
+  /** Prepended to generated tool names, e.g. "pms_" */
+  namePrefix?: string;
+  /** securityScheme name -> vault secret name (default: scheme name in snake_case) */
+  secretNames?: Record<string, string>;
+  /** Imported tools start disabled unless set */
+  enabled?: boolean;
+};
+
+export type OpenApiImportResult = {
+  descriptors: HttpToolDescriptor[];
+  skipped: { id: string; reason: string }[];
+  warnings: { id: string; message: string }[];
+};
+
+const METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+// Schema keywords dropped from generated parameters (documentation / OpenAPI-only)
+const DROP_KEYWORDS = new Set(["example", "examples", "xml", "externalDocs", "discriminator", "deprecated", "readOnly", "writeOnly"]);
+
+// multipart binary fields take the executor's file-part shape
+const FILE_PART_SCHEMA = {
+  type: "object",
+  properties: {
+    filename: { type: "string" },
+    data: { type: "string", description: "base64 file content" },
+    contentType: { type: "string" },
+    encoding: { type: "string", enum: ["base64"] },
+  },
+  required: ["filename", "data", "encoding"],
+};
+
+const snake = (s: string) =>
+  s
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+
+const argName = (s: string) => {
+  const n = snake(s) || "arg";
+  return /^[0-9]/.test(n) ? `_${n}` : n;
+};
+
+export const secretNameFor = (scheme: string) => (argName(scheme) || "api_key").slice(0, 64);
+
+/** Follow a local "#/a/b" JSON pointer */
+function deref(doc: Obj, ref: string): any {
+  if (!ref.startsWith("#/")) throw new Error(`Only local $refs are supported (${ref})`);
+  return ref
+    .slice(2)
+    .split("/")
+    .map((p) => p.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((node: any, key) => (node == null ? undefined : node[key]), doc);
+}
+
+/** Inline $refs (cycles become {}), drop doc-only keywords, map nullable to a type union */
+function resolveSchema(doc: Obj, schema: any, seen: string[] = []): any {
+  if (Array.isArray(schema)) return schema.map((s) => resolveSchema(doc, s, seen));
+  if (!schema || typeof schema !== "object") return schema;
+  if (typeof schema.$ref === "string") {
+    if (seen.includes(schema.$ref) || seen.length > 20) return {};
+    return resolveSchema(doc, deref(doc, schema.$ref), [...seen, schema.$ref]);
+  }
+  const out: Obj = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (DROP_KEYWORDS.has(k) || k === "nullable") continue;
+    out[k] = k === "properties" && v && typeof v === "object"
+      ? Object.fromEntries(
+          Object.entries(v as Obj)
+            .filter(([, p]) => !(p as Obj)?.readOnly)
+            .map(([pk, pv]) => [pk, resolveSchema(doc, pv, seen)])
+        )
+      : resolveSchema(doc, v, seen);
+  }
+  if (schema.nullable === true && typeof out.type === "string") out.type = [out.type, "null"];
+  return out;
+}
+
+const operationId = (method: string, path: string, op: Obj) =>
+  typeof op.operationId === "string" && op.operationId ? op.operationId : `${method.toUpperCase()} ${path}`;
+
+function toolNameOf(method: string, path: string, op: Obj, prefix = "") {
+  const base = typeof op.operationId === "string" && op.operationId ? op.operationId : `${method}_${path}`;
+  return `${prefix}${snake(base)}`.slice(0, 64) || `${prefix}${method}`;
+}
+
+function assertOpenApi3(doc: unknown): asserts doc is Obj {
+  if (!doc || typeof doc !== "object") throw new Error("OpenAPI document must be a JSON object");
+  const v = (doc as Obj).openapi;
+  if (typeof v !== "string" || !v.startsWith("3.")) throw new Error("Only OpenAPI 3.x documents are supported");
+  if (!(doc as Obj).paths || typeof (doc as Obj).paths !== "object") throw new Error("Document has no paths");
+}
+
+/** Every operation in the document, for picking */
+export function listOpenApiOperations(doc: unknown, namePrefix = ""): OpenApiOperationInfo[] {
+  assertOpenApi3(doc);
+  const out: OpenApiOperationInfo[] = [];
+  for (const [path, item] of Object.entries(doc.paths as Obj)) {
+    for (const method of METHODS) {
+      const op = (item as Obj)?.[method];
+      if (!op || typeof op !== "object") continue;
+      out.push({
+        id: operationId(method, path, op),
+        method: method.toUpperCase(),
+        path,
+        summary: op.summary,
+        toolName: toolNameOf(method, path, op, namePrefix),
+        supported: HttpMethodSchema.safeParse(method.toUpperCase()).success,
+      });
+    }
+  }
+  return out;
+}
+
+/** servers[0].url with variable defaults filled in */
+function serverUrl(doc: Obj, pathItem: Obj, op: Obj): string | undefined {
+  const server = op.servers?.[0] ?? pathItem.servers?.[0] ?? doc.servers?.[0];
+  if (!server?.url) return undefined;
+  return String(server.url).replace(/\{([^}]+)\}/g, (_m, v) => String(server.variables?.[v]?.default ?? ""));
+}
+
+export function importOpenApi(doc: unknown, opts: OpenApiImportOptions): OpenApiImportResult {
+  assertOpenApi3(doc);
+  const result: OpenApiImportResult = { descriptors: [], skipped: [], warnings: [] };
+  const wanted = opts.operations?.length ? new Set(opts.operations) : null;
+  const schemes: Obj = doc.components?.securitySchemes ?? {};
+
+  for (const info of listOpenApiOperations(doc, opts.namePrefix)) {
+    if (wanted && !wanted.has(info.id) && !wanted.has(`${info.method} ${info.path}`)) continue;
+    const warn = (message: string) => result.warnings.push({ id: info.id, message });
+    if (!info.supported) {
+      result.skipped.push({ id: info.id, reason: `${info.method} is not supported by http tools` });
+      continue;
+    }
+
+    const pathItem: Obj = (doc.paths as Obj)[info.path];
+    const op: Obj = pathItem[info.method.toLowerCase()];
+    if (result.descriptors.some((d) => d.name === info.toolName)) {
+      result.skipped.push({ id: info.id, reason: `Tool name ${info.toolName} is already used by another operation` });
+      continue;
+    }
+    try {
+      result.descriptors.push(buildDescriptor(doc, pathItem, op, info, opts, schemes, warn));
+    } catch (e: any) {
+      result.skipped.push({ id: info.id, reason: e?.message || String(e) });
+    }
+  }
+
+  if (wanted) {
+    const found = new Set([...result.descriptors.map((d) => d.name), ...result.skipped.map((s) => s.id)]);
+    const known = listOpenApiOperations(doc, opts.namePrefix);
+    for (const w of wanted) {
+      const hit = known.find((k) => k.id === w || `${k.method} ${k.path}` === w);
+      if (!hit) result.skipped.push({ id: w, reason: "No such operation in the document" });
+      else if (!found.has(hit.toolName) && !found.has(hit.id)) result.skipped.push({ id: w, reason: "Not imported" });
+    }
+  }
+  return result;
+}
+
+function buildDescriptor(
+  doc: Obj,
+  pathItem: Obj,
+  op: Obj,
+  info: OpenApiOperationInfo,
+  opts: OpenApiImportOptions,
+  schemes: Obj,
+  warn: (m: string) => void
+): HttpToolDescriptor {
+  const properties: Obj = {};
+  const required: string[] = [];
+  const headers: Record<string, string> = {};
+  const query: string[] = [];
+  let urlPath = info.path;
+
+  const addArg = (name: string, schema: Obj, description: string | undefined, isRequired: boolean) => {
+    let arg = argName(name);
+    while (arg in properties) arg = `${arg}_`;
+    properties[arg] = { ...resolveSchema(doc, schema ?? { type: "string" }), ...(description ? { description } : {}) };
+    if (isRequired) required.push(arg);
+    return arg;
+  };
+
+  // path-level params, overridden by operation-level ones with the same name + in
+  const params = new Map<string, Obj>();
+  for (const raw of [...(pathItem.parameters ?? []), ...(op.parameters ?? [])]) {
+    const p = raw?.$ref ? deref(doc, raw.$ref) : raw;
+    if (p?.name && p?.in) params.set(`${p.in}:${p.name}`, p);
+  }
+
+  for (const p of params.values()) {
+    if (p.in === "cookie") {
+      warn(`Cookie parameter ${p.name} skipped`);
+      continue;
+    }
+    const arg = addArg(p.name, p.schema, p.description, p.in === "path" || p.required === true);
+    const token = `{{args.${arg}}}`;
+    if (p.in === "path") urlPath = urlPath.split(`{${p.name}}`).join(token);
+    else if (p.in === "query") query.push(`${encodeURIComponent(p.name)}=${token}`);
+    else if (p.in === "header") headers[p.name] = token;
+  }
+  if (/\{[^}]+\}/.test(urlPath.replace(/\{\{[^}]+\}\}/g, ""))) {
+    throw new Error(`Path ${info.path} has a parameter without a definition`);
+  }
+
+  // Request body: top-level properties become args
+  let jsonBodyTemplate: Obj | string | undefined;
+  let bodyFormat: HttpToolDescriptor["http"]["bodyFormat"];
+  const body = op.requestBody?.$ref ? deref(doc, op.requestBody.$ref) : op.requestBody;
+  if (body?.content) {
+    const types = Object.keys(body.content);
+    const type =
+      types.find((t) => t.includes("json")) ??
+      types.find((t) => t === "application/x-www-form-urlencoded") ??
+      types.find((t) => t === "multipart/form-data");
+    if (!type) {
+      warn(`Request body ${types.join(", ")} is not importable; add xmlBodyTemplate by hand`);
+    } else {
+      if (type === "application/x-www-form-urlencoded") bodyFormat = "form";
+      if (type === "multipart/form-data") bodyFormat = "multipart";
+      const schema = resolveSchema(doc, body.content[type]?.schema ?? {});
+      if (schema.type === "object" || schema.properties) {
+        const bodyRequired = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+        jsonBodyTemplate = {};
+        for (const [prop, raw] of Object.entries((schema.properties ?? {}) as Obj)) {
+          const propSchema = bodyFormat === "multipart" && raw?.format === "binary" ? FILE_PART_SCHEMA : raw;
+          const arg = addArg(properties[argName(prop)] ? `body_${prop}` : prop, propSchema, undefined, body.required === true && bodyRequired.has(prop));
+          jsonBodyTemplate[prop] = `{{args.${arg}}}`;
+        }
+      } else {
+        const arg = addArg("body", schema, body.description, body.required === true);
+        jsonBodyTemplate = `{{args.${arg}}}`;
+      }
+    }
+  }
+
+  // Security: first requirement whose schemes we can all express
+  let auth: HttpToolDescriptor["http"]["auth"];
+  const requirements: Obj[] = op.security ?? doc.security ?? [];
+  if (requirements.length && !requirements.some((r) => Object.keys(r).length === 0)) {
+    const usable = requirements.find((r) => Object.keys(r).every((n) => securitySupported(schemes[n])));
+    if (!usable) {
+      warn(`None of the security requirements (${requirements.map((r) => Object.keys(r).join("+")).join(", ")}) can be mapped`);
+    } else {
+      for (const [name, scopes] of Object.entries(usable)) {
+        const s = schemes[name];
+        const secret = `{{secrets.${opts.secretNames?.[name] ?? secretNameFor(name)}}}`;
+        if (s.type === "apiKey" && s.in === "header") headers[s.name] = secret;
+        else if (s.type === "apiKey" && s.in === "query") query.push(`${encodeURIComponent(s.name)}=${secret}`);
+        else if (s.type === "http" && String(s.scheme).toLowerCase() === "bearer") headers.authorization = `Bearer ${secret}`;
+        else if (s.type === "http" && String(s.scheme).toLowerCase() === "basic") {
+          headers.authorization = `Basic ${secret}`;
+          warn(`Basic auth: store base64("user:password") in the secret ${secret}`);
+        } else if (s.type === "oauth2") {
+          const flow = s.flows.clientCredentials;
+          const prefix = opts.secretNames?.[name] ?? secretNameFor(name);
+          auth = {
+            type: "oauth2_client_credentials",
+            tokenUrl: flow.tokenUrl,
+            clientIdSecret: `${prefix}_client_id`.slice(0, 64),
+            clientSecretSecret: `${prefix}_client_secret`.slice(0, 64),
+            scopes: Array.isArray(scopes) && scopes.length ? scopes : undefined,
+            clientAuth: "basic",
+            refreshSkewSec: 60,
+          };
+        }
+      }
+    }
+  }
+
+  const base = (opts.baseUrl ?? serverUrl(doc, pathItem, op) ?? "").replace(/\/+$/, "");
+  if (!base) warn("No server URL; urlTemplate is relative to this app");
+  else if (!/^https?:\/\//.test(base)) warn(`Server URL ${base} is relative; pass baseUrl`);
+  const urlTemplate = `${base}${urlPath}${query.length ? `?${query.join("&")}` : ""}`;
+  const optionalQuery = [...params.values()].some((p) => p.in === "query" && !p.required);
+
+  return {
+    kind: "http_tool",
+    tenantId: opts.tenantId,
+    name: info.toolName,
+    description: String(op.summary ?? op.description ?? `${info.method} ${info.path}`).slice(0, 1024),
+    parameters: {
+      type: "object",
+      properties,
+      ...(required.length ? { required } : {}),
+      additionalProperties: false,
+    },
+    http: {
+      method: info.method as HttpToolDescriptor["http"]["method"],
+      urlTemplate,
+      ...(Object.keys(headers).length ? { headers } : {}),
+      ...(jsonBodyTemplate !== undefined ? { jsonBodyTemplate } : {}),
+      ...(bodyFormat ? { bodyFormat } : {}),
+      ...(optionalQuery ? { pruneEmpty: true } : {}),
+      ...(auth ? { auth } : {}),
+      timeoutMs: 15_000,
+    },
+    enabled: opts.enabled ?? false,
+  };
+}
+
+function securitySupported(s: Obj | undefined) {
+  if (!s) return false;
+  if (s.type === "apiKey") return s.in === "header" || s.in === "query";
+  if (s.type === "http") return ["bearer", "basic"].includes(String(s.scheme).toLowerCase());
+  if (s.type === "oauth2") return typeof s.flows?.clientCredentials?.tokenUrl === "string";
+  return false;
+}
@@ -0,0 +1,82 @@
+// lib/tools/request-body.ts
+// Encoders for http.bodyFormat other than JSON: url-encoded forms, multipart/form-data
+// and XML templates (SOAP and friends). Input is the already-templated jsonBodyTemplate.
+
+import crypto from "crypto";
+import { tpl } from "@/lib/utils";
+
+export type EncodedBody = { body: string | Uint8Array; contentType: string };
+
+/** Nested objects use bracket keys (a[b]=1), arrays repeat the key (a=1&a=2) */
+export function encodeForm(value: unknown): string {
+  const out = new URLSearchParams();
+  const walk = (key: string, v: unknown) => {
+    if (v == null) return;
+    if (Array.isArray(v)) return v.forEach((x) => walk(key, x));
+    if (typeof v === "object") {
+      for (const [k, x] of Object.entries(v as Record<string, unknown>)) walk(key ? `${key}[${k}]` : k, x);
+      return;
+    }
+    out.append(key, String(v));
+  };
+  if (value && typeof value === "object" && !Array.isArray(value)) walk("", value);
+  return out.toString();
+}
+
+/** A multipart field value that is sent as a file part */
+type FilePart = { filename: string; data: string; contentType?: string; encoding?: "utf8" | "base64" };
+
+const isFilePart = (v: unknown): v is FilePart =>
+  !!v &&
+  typeof v === "object" &&
+  typeof (v as Partial<FilePart>).filename === "string" &&
+  typeof (v as Partial<FilePart>).data === "string";
+
+const headerSafe = (s: string) => s.replace(/[\r\n]/g, " ").replace(/"/g, "%22");
+
+/**
+ * Top-level keys become parts: strings/numbers as text, { filename, data, contentType?,
+ * encoding? } as a file, other objects as application/json, arrays as repeated parts.
+ */
+export function encodeMultipart(value: unknown): EncodedBody {
+  const boundary = `----tool${crypto.randomBytes(12).toString("hex")}`;
+  const chunks: Buffer[] = [];
+  const part = (name: string, v: unknown) => {
+    if (v == null) return;
+    if (Array.isArray(v)) return v.forEach((x) => part(name, x));
+    let head = `--${boundary}\r\nContent-Disposition: form-data; name="${headerSafe(name)}"`;
+    let data: Buffer;
+    if (isFilePart(v)) {
+      head += `; filename="${headerSafe(v.filename)}"\r\nContent-Type: ${headerSafe(v.contentType ?? "application/octet-stream")}`;
+      data = Buffer.from(v.data, v.encoding === "base64" ? "base64" : "utf8");
+    } else if (typeof v === "object") {
+      head += "\r\nContent-Type: application/json";
+      data = Buffer.from(JSON.stringify(v));
+    } else {
+      data = Buffer.from(String(v));
+    }
+    chunks.push(Buffer.from(`${head}\r\n\r\n`), data, Buffer.from("\r\n"));
+  };
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) part(k, v);
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+  return { body: new Uint8Array(Buffer.concat(chunks)), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+const XML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" };
+
+export const escapeXml = (s: string) => s.replace(/[&<>"']/g, (c) => XML_ESCAPES[c]);
+
+/**
+ * Render an XML template: each {{expr}} (filters allowed) is resolved like a
+ * whole-token template and XML-escaped; missing values render empty. Single
+ * braces are left alone (unlike tpl), so literal { } in the document are safe.
+ */
+export function renderXmlTemplate(template: string, ctx: Record<string, any>): string {
+  return template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_m, expr: string) => {
+    const v = tpl(`{{${expr}}}`, ctx);
+    if (v == null) return "";
+    return escapeXml(typeof v === "object" ? JSON.stringify(v) : String(v));
+  });
+}
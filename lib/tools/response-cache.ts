@@ -0,0 +1,108 @@
+// lib/tools/response-cache.ts
+// Opt-in cache for http tool responses (descriptor `cache` block), server only.
+// Default backend is an in-process LRU; TOOL_CACHE_BACKEND=redis switches to the
+// Upstash Redis already configured for rate limiting, so entries survive across instances.
+
+import crypto from "crypto";
+import { LRUCache } from "lru-cache";
+import { Redis } from "@upstash/redis";
+import { tpl } from "@/lib/utils";
+import { toolCacheCfg } from "@/config/tools";
+import type { HttpCachePolicy } from "@/types/httpTool.schema";
+
+export type CachedToolResponse = {
+  status: number;
+  body: unknown;      // upstream JSON, before response shaping
+  storedAt: number;
+};
+
+export interface ToolResponseCache {
+  get(key: string): Promise<CachedToolResponse | null>;
+  set(key: string, value: CachedToolResponse, ttlMs: number): Promise<void>;
+}
+
+class MemoryToolCache implements ToolResponseCache {
+  private lru = new LRUCache<string, CachedToolResponse>({ max: toolCacheCfg.maxEntries });
+
+  async get(key: string) {
+    return this.lru.get(key) ?? null;
+  }
+
+  async set(key: string, value: CachedToolResponse, ttlMs: number) {
+    this.lru.set(key, value, { ttl: ttlMs });
+  }
+}
+
+class RedisToolCache implements ToolResponseCache {
+  constructor(private readonly redis: Redis) {}
+
+  async get(key: string) {
+    try {
+      return (await this.redis.get<CachedToolResponse>(key)) ?? null;
+    } catch (e: any) {
+      console.warn("[tool-cache] redis get failed", e?.message);
+      return null; // a cache outage must not fail the tool call
+    }
+  }
+
+  async set(key: string, value: CachedToolResponse, ttlMs: number) {
+    try {
+      await this.redis.set(key, value, { px: ttlMs });
+    } catch (e: any) {
+      console.warn("[tool-cache] redis set failed", e?.message);
+    }
+  }
+}
+
+function createToolCache(): ToolResponseCache {
+  if (toolCacheCfg.backend === "redis") {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+    if (url && token) return new RedisToolCache(new Redis({ url, token }));
+    console.warn("[tool-cache] TOOL_CACHE_BACKEND=redis but Upstash env is missing; using memory");
+  }
+  return new MemoryToolCache();
+}
+
+export const toolResponseCache: ToolResponseCache = createToolCache();
+
+const sha = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+
+/** JSON with sorted keys so {a,b} and {b,a} hash the same */
+export function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (v && typeof v === "object") {
+    return `{${Object.keys(v as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((v as Record<string, unknown>)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "null";
+}
+
+/**
+ * Cache key for one call, or null when it can't be cached (session scope without a session).
+ * The request half of the descriptor is part of the key, so editing a descriptor never
+ * serves answers produced by its previous version.
+ */
+export function toolCacheKey(opts: {
+  policy: HttpCachePolicy;
+  descriptor: { name?: string; http?: unknown };
+  args: Record<string, any>;
+  tenantId?: string;
+  sessionId?: string | null;
+}): string | null {
+  const { policy, descriptor, args, tenantId, sessionId } = opts;
+  if (policy.scope === "session" && !sessionId) return null;
+
+  const material = policy.key ? String(tpl(policy.key, { args }) ?? "") : stableStringify(args);
+  const scope = policy.scope === "session" ? `s:${sha(sessionId!)}` : "t";
+  return [
+    "toolcache",
+    tenantId ?? "-",
+    scope,
+    descriptor.name ?? "-",
+    sha(stableStringify(descriptor.http)).slice(0, 16),
+    sha(material),
+  ].join(":");
+}
@@ -0,0 +1,234 @@
+// lib/tools/response-formats.ts
+// Turns non-JSON upstream bodies into JSON so okField, response shaping and UI
+// templates work the same for every tool. Small dependency-free parsers:
+//   - XML: elements -> keys (repeats -> arrays), attributes -> "@name", mixed text -> "#text",
+//     optional namespace stripping and SOAP Envelope/Body unwrapping. No DTDs/entities
+//     beyond the predefined ones (a DOCTYPE with ENTITY declarations is rejected).
+//   - CSV: RFC 4180 (quoted fields, "" escapes, CRLF), optional header row.
+
+import type { HttpCsvOptions, HttpXmlOptions, HttpResponseFormat } from "@/types/httpTool.schema";
+
+/* ---------------- scalars ---------------- */
+
+/** "true"/"false" and plain decimals become JSON values; "007", "1e3" or 20-digit ids stay strings */
+function typedScalar(s: string, typed: boolean): unknown {
+  if (!typed) return s;
+  if (s === "true") return true;
+  if (s === "false") return false;
+  if (/^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(s)) return Number(s);
+  return s;
+}
+
+/* ---------------- XML ---------------- */
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e] ?? m;
+  });
+}
+
+type XmlNode = { name: string; attrs: [string, string][]; children: [string, unknown][]; text: string };
+
+export function parseXml(src: string, options: Partial<HttpXmlOptions> = {}): Record<string, unknown> {
+  const opts = {
+    stripNamespaces: options.stripNamespaces ?? true,
+    unwrapSoap: options.unwrapSoap ?? true,
+    arrays: new Set(options.arrays ?? []),
+    typed: options.typed ?? true,
+  };
+  const local = (n: string) => (opts.stripNamespaces && n.includes(":") ? n.slice(n.indexOf(":") + 1) : n);
+
+  const finish = (node: XmlNode): unknown => {
+    const text = node.text.trim();
+    if (!node.children.length && !node.attrs.length) return typedScalar(text, opts.typed);
+    const obj: Record<string, unknown> = {};
+    for (const [k, v] of node.attrs) obj[`@${k}`] = typedScalar(v, opts.typed);
+    const grouped = new Map<string, unknown[]>();
+    for (const [k, v] of node.children) grouped.set(k, [...(grouped.get(k) ?? []), v]);
+    for (const [k, vs] of grouped) obj[k] = vs.length > 1 || opts.arrays.has(k) ? vs : vs[0];
+    if (text) obj["#text"] = typedScalar(text, opts.typed);
+    return obj;
+  };
+
+  const root: XmlNode = { name: "#document", attrs: [], children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const s = src.replace(/^\uFEFF/, "");
+  let i = 0;
+
+  while (i < s.length) {
+    const lt = s.indexOf("<", i);
+    const top = stack[stack.length - 1];
+    if (lt < 0 || lt > i) {
+      const chunk = s.slice(i, lt < 0 ? s.length : lt);
+      if (top === root) {
+        if (chunk.trim()) throw new Error("Text outside the root element");
+      } else {
+        top.text += decodeEntities(chunk);
+      }
+      if (lt < 0) break;
+      i = lt;
+    }
+
+    if (s.startsWith("<!--", i)) {
+      const end = s.indexOf("-->", i + 4);
+      if (end < 0) throw new Error("Unterminated comment");
+      i = end + 3;
+    } else if (s.startsWith("<![CDATA[", i)) {
+      const end = s.indexOf("]]>", i + 9);
+      if (end < 0) throw new Error("Unterminated CDATA section");
+      if (top === root) throw new Error("CDATA outside the root element");
+      top.text += s.slice(i + 9, end);
+      i = end + 3;
+    } else if (s.startsWith("<?", i)) {
+      const end = s.indexOf("?>", i + 2);
+      if (end < 0) throw new Error("Unterminated processing instruction");
+      i = end + 2;
+    } else if (s.startsWith("<!", i)) {
+      const bracket = s.indexOf("[", i);
+      const close = s.indexOf(">", i);
+      const end = bracket >= 0 && bracket < close ? s.indexOf("]>", bracket) + 1 : close;
+      if (end <= 0) throw new Error("Unterminated DOCTYPE");
+      if (/<!ENTITY/i.test(s.slice(i, end))) throw new Error("DTD entity declarations are not supported");
+      i = end + 1;
+    } else if (s.startsWith("</", i)) {
+      const end = s.indexOf(">", i);
+      if (end < 0) throw new Error("Unterminated end tag");
+      const name = s.slice(i + 2, end).trim();
+      const node = stack.pop()!;
+      if (node === root || node.name !== name) throw new Error(`Unexpected </${name}>`);
+      stack[stack.length - 1].children.push([local(name), finish(node)]);
+      i = end + 1;
+    } else {
+      // start tag: find its end outside quoted attribute values
+      let j = i + 1;
+      let quote = "";
+      for (; j < s.length; j++) {
+        const c = s[j];
+        if (quote) { if (c === quote) quote = ""; }
+        else if (c === '"' || c === "'") quote = c;
+        else if (c === ">") break;
+      }
+      if (j >= s.length) throw new Error("Unterminated start tag");
+      const selfClosing = s[j - 1] === "/";
+      const inner = s.slice(i + 1, selfClosing ? j - 1 : j);
+      const m = /^([A-Za-z_][\w.:-]*)/.exec(inner);
+      if (!m) throw new Error(`Invalid tag at ${i}`);
+      if (top === root && root.children.length) throw new Error("Multiple root elements");
+
+      const node: XmlNode = { name: m[1], attrs: [], children: [], text: "" };
+      const attrRe = /([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let a: RegExpExecArray | null;
+      while ((a = attrRe.exec(inner.slice(m[1].length)))) {
+        const name = a[1];
+        if (opts.stripNamespaces && (name === "xmlns" || name.startsWith("xmlns:"))) continue;
+        node.attrs.push([local(name), decodeEntities(a[3] ?? a[4] ?? "")]);
+      }
+      if (selfClosing) top.children.push([local(node.name), finish(node)]);
+      else stack.push(node);
+      i = j + 1;
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Unclosed <${stack[stack.length - 1].name}>`);
+  if (!root.children.length) throw new Error("No root element");
+
+  const [rootName, rootValue] = root.children[0];
+  if (opts.unwrapSoap && rootName === "Envelope" && rootValue && typeof rootValue === "object") {
+    const body = (rootValue as Record<string, unknown>).Body;
+    if (body && typeof body === "object" && !Array.isArray(body)) return body as Record<string, unknown>;
+  }
+  return { [rootName]: rootValue };
+}
+
+/* ---------------- CSV ---------------- */
+
+export function parseCsv(src: string, options: Partial<HttpCsvOptions> = {}): { rows: unknown[]; count: number } {
+  const delimiter = options.delimiter ?? ",";
+  const header = options.header ?? true;
+  const typed = options.typed ?? true;
+
+  const records: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const s = src.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quoted) {
+      if (c === '"' && s[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && s[i + 1] === "\n") i++;
+      row.push(field);
+      records.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error("Unterminated quoted field");
+  if (field !== "" || row.length) { row.push(field); records.push(row); }
+
+  const nonEmpty = records.filter((r) => !(r.length === 1 && r[0] === ""));
+  if (!header) {
+    const rows = nonEmpty.map((r) => r.map((v) => typedScalar(v, typed)));
+    return { rows, count: rows.length };
+  }
+  const [cols = [], ...data] = nonEmpty;
+  const names = cols.map((c, i) => c.trim() || `column_${i + 1}`);
+  const rows = data.map((r) => Object.fromEntries(names.map((n, i) => [n, typedScalar(r[i] ?? "", typed)])));
+  return { rows, count: rows.length };
+}
+
+/* ---------------- dispatch ---------------- */
+
+/**
+ * Parse an upstream body per http.responseFormat. "auto" goes by Content-Type
+ * (json / xml / csv), otherwise tries JSON and then XML when the body has an XML prolog.
+ * Returns null when the body should be passed through as text.
+ */
+export function parseResponseBody(
+  text: string,
+  contentType: string | null,
+  cfg: { responseFormat?: HttpResponseFormat; xml?: Partial<HttpXmlOptions>; csv?: Partial<HttpCsvOptions> }
+): { value: unknown } | null {
+  const ct = (contentType ?? "").toLowerCase();
+  let format = cfg.responseFormat ?? "auto";
+  if (format === "text") return null;
+  if (format === "auto") {
+    format = ct.includes("json") ? "json" : ct.includes("xml") ? "xml" : ct.includes("csv") ? "csv" : "auto";
+  }
+
+  try {
+    switch (format) {
+      case "json":
+        return { value: JSON.parse(text) };
+      case "xml":
+        return { value: parseXml(text, cfg.xml) };
+      case "csv":
+        return { value: parseCsv(text, cfg.csv) };
+      default:
+        try {
+          return { value: JSON.parse(text) };
+        } catch {
+          return /^\s*<\?xml/.test(text) ? { value: parseXml(text, cfg.xml) } : null;
+        }
+    }
+  } catch {
+    return null;
+  }
+}
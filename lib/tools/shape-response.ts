@@ -0,0 +1,142 @@
+// lib/tools/shape-response.ts
+// Trims an upstream JSON payload down to what the model needs (see HttpResponseShapeSchema).
+// Unit documents and availability grids can be tens of KB; every byte returned as a
+// function_call_output is paid for again in audio-session tokens.
+
+import { tpl } from "@/lib/utils";
+import type { HttpResponseShape } from "@/types/httpTool.schema";
+
+export type ShapedResult = {
+  summary?: string;
+  data: unknown;
+  truncated?: true;
+};
+
+type Seg =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wild" }
+  | { kind: "fields"; fields: string[] };
+
+const SEG_RE = /([^.[\]{}]+)|\[(\*|\d+)\]|\{([^}]*)\}/g;
+
+/** "$.units[*].{unit_id,name}" -> segments */
+export function parsePath(path: string): Seg[] {
+  const p = path.trim().replace(/^\$\.?/, "");
+  const segs: Seg[] = [];
+  let m: RegExpExecArray | null;
+  SEG_RE.lastIndex = 0;
+  while ((m = SEG_RE.exec(p))) {
+    if (m[1] != null) segs.push({ kind: "key", key: m[1] });
+    else if (m[2] === "*") segs.push({ kind: "wild" });
+    else if (m[2] != null) segs.push({ kind: "index", index: Number(m[2]) });
+    else segs.push({ kind: "fields", fields: m[3].split(",").map((f) => f.trim()).filter(Boolean) });
+  }
+  return segs;
+}
+
+function pickFields(v: any, fields: string[]) {
+  if (!v || typeof v !== "object") return undefined;
+  const out: Record<string, any> = {};
+  for (const f of fields) if (v[f] !== undefined) out[f] = v[f];
+  return out;
+}
+
+export function selectPath(value: any, segs: Seg[]): any {
+  if (!segs.length || value == null) return value;
+  const [seg, ...rest] = segs;
+  switch (seg.kind) {
+    case "key":
+      return typeof value === "object" ? selectPath(value[seg.key], rest) : undefined;
+    case "index":
+      return Array.isArray(value) ? selectPath(value[seg.index], rest) : undefined;
+    case "wild": {
+      const items = Array.isArray(value) ? value : typeof value === "object" ? Object.values(value) : [];
+      return items.map((v) => selectPath(v, rest)).filter((v) => v !== undefined);
+    }
+    case "fields":
+      return Array.isArray(value)
+        ? value.map((v) => pickFields(v, seg.fields))
+        : pickFields(value, seg.fields);
+  }
+}
+
+/** Output key for an array-style pick: the last named segment ("units[*].{a,b}" -> "units"). */
+function keyForPath(path: string) {
+  const keys = parsePath(path).filter((s): s is { kind: "key"; key: string } => s.kind === "key");
+  return keys.length ? keys[keys.length - 1].key : path;
+}
+
+function renameDeep(v: any, map: Record<string, string>): any {
+  if (Array.isArray(v)) return v.map((x) => renameDeep(x, map));
+  if (v && typeof v === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, x] of Object.entries(v)) out[map[k] ?? k] = renameDeep(x, map);
+    return out;
+  }
+  return v;
+}
+
+function truncateArrays(v: any, max: number, hit: { truncated: boolean }): any {
+  if (Array.isArray(v)) {
+    if (v.length > max) hit.truncated = true;
+    return v.slice(0, max).map((x) => truncateArrays(x, max, hit));
+  }
+  if (v && typeof v === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, x] of Object.entries(v)) out[k] = truncateArrays(x, max, hit);
+    return out;
+  }
+  return v;
+}
+
+function longestArray(v: any): number {
+  if (Array.isArray(v)) return Math.max(v.length, ...v.map(longestArray));
+  if (v && typeof v === "object") return Math.max(0, ...Object.values(v).map(longestArray));
+  return 0;
+}
+
+const byteLength = (v: unknown) => new TextEncoder().encode(JSON.stringify(v) ?? "").length;
+
+export function shapeResponse(
+  payload: unknown,
+  shape: HttpResponseShape,
+  ctx: { args?: Record<string, any>; status?: number } = {}
+): ShapedResult {
+  // 1) pick
+  let data: any = payload;
+  if (Array.isArray(shape.pick)) {
+    data = Object.fromEntries(shape.pick.map((p) => [keyForPath(p), selectPath(payload, parsePath(p))]));
+  } else if (shape.pick) {
+    data = Object.fromEntries(Object.entries(shape.pick).map(([k, p]) => [k, selectPath(payload, parsePath(p))]));
+  }
+
+  // 2) rename
+  if (shape.rename) data = renameDeep(data, shape.rename);
+
+  // 3) arrays, then bytes (halving array length until it fits)
+  const hit = { truncated: false };
+  const picked = data;
+  if (shape.maxArrayItems) data = truncateArrays(picked, shape.maxArrayItems, hit);
+
+  if (shape.maxBytes && byteLength(data) > shape.maxBytes) {
+    let limit = shape.maxArrayItems ?? longestArray(picked);
+    while (limit > 1 && byteLength(data) > shape.maxBytes) {
+      limit = Math.floor(limit / 2);
+      data = truncateArrays(picked, limit, hit);
+    }
+    if (byteLength(data) > shape.maxBytes) {
+      data = { preview: JSON.stringify(data).slice(0, shape.maxBytes) };
+    }
+    hit.truncated = true;
+  }
+
+  // 4) summary (full payload + shaped data available)
+  const out: ShapedResult = { data };
+  if (shape.summary) {
+    const s = tpl(shape.summary, { response: payload, data, args: ctx.args ?? {}, status: ctx.status });
+    out.summary = s == null ? "" : String(s);
+  }
+  if (hit.truncated) out.truncated = true;
+  return out;
+}
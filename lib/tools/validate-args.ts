@@ -0,0 +1,185 @@
+// lib/tools/validate-args.ts
+// Validates model-produced tool arguments against the tool's JSON Schema `parameters`
+// before anything is templated or called. Runs in the browser (WebRTCClient, local
+// functions) and on the server (/api/tools/execute), so no Node-only imports here.
+//
+// Covers the subset descriptors actually use: type (incl. unions), enum/const, required,
+// properties/additionalProperties, items, string length/pattern/format, numeric bounds,
+// array sizes. Unknown keywords are ignored rather than rejected.
+
+export type ArgIssue = {
+  path: string;        // "check_in", "guests.adults", "rooms[1]"
+  keyword: string;     // "required", "type", "format", "enum", "minimum", ...
+  message: string;
+};
+
+export type ArgValidation = { ok: true } | { ok: false; issues: ArgIssue[] };
+
+type Schema = Record<string, any>;
+
+const FORMATS: Record<string, (s: string) => boolean> = {
+  date: (s) => /^\d{4}-\d{2}-\d{2}$/.test(s) && isRealDate(s),
+  "date-time": (s) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(s) && isRealDate(s.slice(0, 10)),
+  time: (s) => /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(s),
+  email: (s) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s),
+  uri: (s) => { try { return Boolean(new URL(s).protocol); } catch { return false; } },
+  uuid: (s) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s),
+};
+
+const FORMAT_HINT: Record<string, string> = {
+  date: "a date like 2025-11-05",
+  "date-time": "a date and time like 2025-11-05T15:00:00Z",
+  time: "a time like 15:00",
+  email: "an email address",
+  uri: "a full URL",
+  uuid: "a UUID",
+};
+
+function isRealDate(ymd: string) {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number") return Number.isInteger(v) ? "integer" : "number";
+  return typeof v;
+}
+
+function matchesType(v: unknown, t: string) {
+  const actual = typeOf(v);
+  return actual === t || (t === "number" && actual === "integer");
+}
+
+const join = (base: string, key: string) => (base ? `${base}.${key}` : key);
+
+function walk(v: unknown, s: Schema, path: string, out: ArgIssue[]) {
+  if (!s || typeof s !== "object") return;
+  const at = path || "arguments";
+
+  if (s.type != null) {
+    const types: string[] = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some((t) => matchesType(v, t))) {
+      out.push({ path: at, keyword: "type", message: `must be ${types.join(" or ")}, got ${typeOf(v)}` });
+      return; // further checks would only repeat the same problem
+    }
+  }
+
+  if ("const" in s && JSON.stringify(v) !== JSON.stringify(s.const)) {
+    out.push({ path: at, keyword: "const", message: `must be ${JSON.stringify(s.const)}` });
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(v))) {
+    out.push({ path: at, keyword: "enum", message: `must be one of ${s.enum.map((e: unknown) => JSON.stringify(e)).join(", ")}` });
+  }
+
+  if (typeof v === "string") {
+    if (s.minLength != null && v.length < s.minLength) {
+      out.push({ path: at, keyword: "minLength", message: v.length ? `must be at least ${s.minLength} characters` : "must not be empty" });
+    }
+    if (s.maxLength != null && v.length > s.maxLength) {
+      out.push({ path: at, keyword: "maxLength", message: `must be at most ${s.maxLength} characters` });
+    }
+    if (typeof s.pattern === "string") {
+      let re: RegExp | null = null;
+      try { re = new RegExp(s.pattern, "u"); } catch { /* bad pattern in descriptor: the linter's job */ }
+      if (re && !re.test(v)) out.push({ path: at, keyword: "pattern", message: `must match ${s.pattern}` });
+    }
+    const check = typeof s.format === "string" ? FORMATS[s.format] : undefined;
+    if (check && !check(v)) {
+      out.push({ path: at, keyword: "format", message: `must be ${FORMAT_HINT[s.format]}` });
+    }
+  }
+
+  if (typeof v === "number") {
+    if (s.minimum != null && v < s.minimum) out.push({ path: at, keyword: "minimum", message: `must be >= ${s.minimum}` });
+    if (s.maximum != null && v > s.maximum) out.push({ path: at, keyword: "maximum", message: `must be <= ${s.maximum}` });
+    if (typeof s.exclusiveMinimum === "number" && v <= s.exclusiveMinimum) {
+      out.push({ path: at, keyword: "exclusiveMinimum", message: `must be > ${s.exclusiveMinimum}` });
+    }
+    if (typeof s.exclusiveMaximum === "number" && v >= s.exclusiveMaximum) {
+      out.push({ path: at, keyword: "exclusiveMaximum", message: `must be < ${s.exclusiveMaximum}` });
+    }
+    if (typeof s.multipleOf === "number" && s.multipleOf > 0 && Math.abs(v / s.multipleOf - Math.round(v / s.multipleOf)) > 1e-9) {
+      out.push({ path: at, keyword: "multipleOf", message: `must be a multiple of ${s.multipleOf}` });
+    }
+  }
+
+  if (Array.isArray(v)) {
+    if (s.minItems != null && v.length < s.minItems) out.push({ path: at, keyword: "minItems", message: `needs at least ${s.minItems} items` });
+    if (s.maxItems != null && v.length > s.maxItems) out.push({ path: at, keyword: "maxItems", message: `allows at most ${s.maxItems} items` });
+    if (s.items && typeof s.items === "object" && !Array.isArray(s.items)) {
+      v.forEach((item, i) => walk(item, s.items, `${path}[${i}]`, out));
+    }
+  }
+
+  if (v && typeof v === "object" && !Array.isArray(v)) {
+    const obj = v as Record<string, unknown>;
+    const props: Record<string, Schema> = s.properties && typeof s.properties === "object" ? s.properties : {};
+
+    const required = new Set<string>(Array.isArray(s.required) ? s.required : []);
+
+    for (const key of required) {
+      // "" for a required field is how the model says "I don't know" -> treat as missing
+      if (obj[key] === undefined || obj[key] === null || obj[key] === "") {
+        out.push({ path: join(path, key), keyword: "required", message: "is required" });
+      }
+    }
+    for (const [key, val] of Object.entries(obj)) {
+      // null means "not given" (models send it for optional args); required ones were reported above
+      if (val === undefined || val === null) continue;
+      if (props[key]) {
+        if (val === "" && required.has(key)) continue;
+        walk(val, props[key], join(path, key), out);
+      } else if (s.additionalProperties === false) {
+        out.push({ path: join(path, key), keyword: "additionalProperties", message: "is not an accepted argument" });
+      } else if (s.additionalProperties && typeof s.additionalProperties === "object") {
+        walk(val, s.additionalProperties, join(path, key), out);
+      }
+    }
+  }
+}
+
+/** Validate `args` against a JSON Schema; a missing/empty schema accepts anything. */
+export function validateToolArgs(args: unknown, schema: unknown): ArgValidation {
+  if (!schema || typeof schema !== "object") return { ok: true };
+  const issues: ArgIssue[] = [];
+  walk(args ?? {}, schema as Schema, "", issues);
+  return issues.length ? { ok: false, issues } : { ok: true };
+}
+
+/** Human label for a field: its schema description, else the key with spaces. */
+function labelFor(schema: unknown, path: string) {
+  let s: any = schema;
+  for (const seg of path.replace(/\[\d+\]/g, "").split(".")) s = s?.properties?.[seg] ?? s?.items?.properties?.[seg];
+  const desc = typeof s?.description === "string" ? s.description.trim() : "";
+  const fmt = typeof s?.format === "string" && FORMAT_HINT[s.format] ? ` (${FORMAT_HINT[s.format]})` : "";
+  return (desc || path.split(".").pop()!.replace(/[_-]+/g, " ")) + fmt;
+}
+
+/**
+ * Tool output for rejected arguments, written for the model: what is missing, what is
+ * wrong, and a ready sentence of what to ask the guest before calling the tool again.
+ */
+export function invalidArgsOutput(toolName: string, schema: unknown, issues: ArgIssue[]) {
+  const missing = [...new Set(issues.filter((i) => i.keyword === "required").map((i) => i.path))];
+  const invalid = issues
+    .filter((i) => i.keyword !== "required")
+    .map((i) => ({ field: i.path, problem: i.message }));
+  // unknown arguments are the model's mistake, not something the guest can answer
+  const askFor = [...new Set([...missing, ...issues.filter((i) => i.keyword !== "required" && i.keyword !== "additionalProperties").map((i) => i.path)])]
+    .filter((p) => p !== "arguments")
+    .map((p) => labelFor(schema, p));
+
+  return {
+    ok: false,
+    error: "invalid_arguments",
+    message: `${toolName} was not called: its arguments are incomplete or invalid.`,
+    missing,
+    invalid,
+    ask_guest: askFor.length
+      ? `Ask the guest for: ${askFor.join("; ")}. Then call ${toolName} again.`
+      : `Fix the arguments and call ${toolName} again.`,
+  };
+}
@@ -0,0 +1,201 @@
+// lib/tools/workflow-runner.ts
+// Executes a workflow_tool: its steps call other tools of the tenant in order (or along
+// onOk/onFail jumps), each step's args templated from the workflow args and earlier
+// step responses. When the chain fails, completed steps with a `compensate` call are
+// undone in reverse order (e.g. release the hold if the payment intent can't be created).
+//
+// The runner only orchestrates; callStep does the actual call (see /api/tools/execute),
+// which keeps tenant, session and egress concerns in one place.
+
+import { applyTemplate, tpl } from "@/lib/utils";
+import {
+  WORKFLOW_CONTINUE,
+  WORKFLOW_END,
+  WORKFLOW_FAIL,
+  workflowGraphProblems,
+  type WorkflowStep,
+  type WorkflowToolDescriptor,
+} from "@/types/workflowTool.schema";
+
+export type StepOutcome = {
+  ok: boolean;         // the step tool's okField (or 2xx)
+  status: number;
+  response: unknown;
+};
+
+export type StepState = StepOutcome & { skipped?: boolean };
+
+export type WorkflowTraceEntry = {
+  id: string;
+  tool: string;
+  ok: boolean;
+  status?: number;
+  skipped?: boolean;
+  durationMs?: number;
+  compensation?: boolean;
+};
+
+export type WorkflowRun = {
+  ok: boolean;
+  status: number;      // HTTP status for the reply
+  body: Record<string, unknown>;
+  trace: WorkflowTraceEntry[];
+};
+
+/** `compensation`: the call undoes a completed step (the guest already agreed to the chain) */
+export type CallStep = (toolName: string, args: Record<string, any>, opts: { compensation: boolean }) => Promise<StepOutcome>;
+
+// Guards against onOk/onFail cycles in tenant-authored chains
+const MAX_STEP_RUNS = 25;
+
+/** `when` semantics: falsy-looking renders skip the step */
+function truthy(v: unknown) {
+  if (v == null) return false;
+  const s = String(v).trim().toLowerCase();
+  return !(s === "" || s === "false" || s === "0" || s === "null" || s === "undefined");
+}
+
+const stepLabel = (s: string) => s.replace(/[_.-]+/g, " ");
+
+async function runStep(
+  step: Pick<WorkflowStep, "tool">,
+  args: unknown,
+  callStep: CallStep,
+  compensation = false
+): Promise<StepOutcome> {
+  try {
+    const plain = args && typeof args === "object" && !Array.isArray(args) ? (args as Record<string, any>) : {};
+    return await callStep(step.tool, plain, { compensation });
+  } catch (e: any) {
+    return { ok: false, status: 500, response: { ok: false, error: e?.message || String(e) } };
+  }
+}
+
+export async function runWorkflow(
+  wf: WorkflowToolDescriptor,
+  args: Record<string, any>,
+  opts: { callStep: CallStep; traceId?: string }
+): Promise<WorkflowRun> {
+  const { callStep, traceId = "-" } = opts;
+  const trace: WorkflowTraceEntry[] = [];
+
+  const problems = workflowGraphProblems(wf);
+  if (problems.length) {
+    return {
+      ok: false,
+      status: 422,
+      trace,
+      body: { ok: false, error: `Workflow ${wf.name} is misconfigured: ${problems.map((p) => p.message).join("; ")}` },
+    };
+  }
+
+  const indexOf = new Map(wf.steps.map((s, i) => [s.id, i]));
+  const steps: Record<string, StepState> = {};
+  const completed: WorkflowStep[] = [];
+  const deadline = Date.now() + wf.timeoutMs;
+
+  let failure: { step: WorkflowStep; outcome: StepOutcome; reason?: string } | null = null;
+  let cursor: number | null = 0;
+  let runs = 0;
+
+  while (cursor != null && cursor < wf.steps.length) {
+    const step: WorkflowStep = wf.steps[cursor];
+    const inOrder: number | null = cursor + 1 < wf.steps.length ? cursor + 1 : null;
+
+    if (++runs > MAX_STEP_RUNS) {
+      failure = { step, outcome: { ok: false, status: 508, response: null }, reason: "too many steps (cycle?)" };
+      break;
+    }
+    if (Date.now() > deadline) {
+      failure = { step, outcome: { ok: false, status: 504, response: null }, reason: "workflow timed out" };
+      break;
+    }
+
+    const ctx = { args, steps };
+    if (step.when != null && !truthy(tpl(step.when, ctx))) {
+      steps[step.id] = { ok: true, status: 0, response: null, skipped: true };
+      trace.push({ id: step.id, tool: step.tool, ok: true, skipped: true });
+      cursor = inOrder;
+      continue;
+    }
+
+    const t0 = Date.now();
+    const outcome = await runStep(step, applyTemplate(step.args, ctx), callStep);
+    steps[step.id] = outcome;
+    trace.push({ id: step.id, tool: step.tool, ok: outcome.ok, status: outcome.status, durationMs: Date.now() - t0 });
+    console.log(`[WORKFLOW] ${traceId} ${wf.name}.${step.id} → ${outcome.ok ? "ok" : "failed"} (${outcome.status})`);
+
+    if (outcome.ok) {
+      completed.push(step);
+      cursor = step.onOk == null ? inOrder : step.onOk === WORKFLOW_END ? null : indexOf.get(step.onOk)!;
+      continue;
+    }
+
+    if (step.onFail === WORKFLOW_CONTINUE) {
+      cursor = inOrder;
+    } else if (step.onFail === WORKFLOW_FAIL) {
+      failure = { step, outcome };
+      break;
+    } else {
+      cursor = indexOf.get(step.onFail)!;
+    }
+  }
+
+  if (failure) {
+    const compensated = await compensate(wf, completed, args, steps, callStep, trace, traceId);
+    const { step, outcome, reason } = failure;
+    const upstream = outcome.response && typeof outcome.response === "object" ? (outcome.response as any) : null;
+    return {
+      ok: false,
+      status: outcome.status >= 400 ? outcome.status : 502,
+      trace,
+      body: {
+        ok: false,
+        error:
+          `${stepLabel(wf.name)} could not be completed: the ${stepLabel(step.id)} step failed` +
+          (reason ? ` (${reason})` : upstream?.error ? ` (${upstream.error})` : "") +
+          ".",
+        failedStep: step.id,
+        response: outcome.response,
+        compensated,
+      },
+    };
+  }
+
+  const ctx = { args, steps };
+  let result: unknown = wf.result != null
+    ? applyTemplate(wf.result, ctx)
+    : { steps: Object.fromEntries(Object.entries(steps).filter(([, s]) => !s.skipped).map(([id, s]) => [id, s.response])) };
+  if (!result || typeof result !== "object" || Array.isArray(result)) result = { result };
+
+  return { ok: true, status: 200, trace, body: { ok: true, ...(result as Record<string, unknown>) } };
+}
+
+/** Undo completed steps, newest first. Failures here are logged and reported, never thrown. */
+async function compensate(
+  wf: WorkflowToolDescriptor,
+  completed: WorkflowStep[],
+  args: Record<string, any>,
+  steps: Record<string, StepState>,
+  callStep: CallStep,
+  trace: WorkflowTraceEntry[],
+  traceId: string
+): Promise<{ id: string; ok: boolean }[]> {
+  const out: { id: string; ok: boolean }[] = [];
+  for (const step of [...completed].reverse()) {
+    if (!step.compensate) continue;
+    const t0 = Date.now();
+    const outcome = await runStep(
+      step.compensate,
+      applyTemplate(step.compensate.args, { args, steps, step: steps[step.id] }),
+      callStep,
+      true
+    );
+    out.push({ id: step.id, ok: outcome.ok });
+    trace.push({ id: step.id, tool: step.compensate.tool, ok: outcome.ok, status: outcome.status, durationMs: Date.now() - t0, compensation: true });
+    if (!outcome.ok) {
+      console.error(`[WORKFLOW] ${traceId} ${wf.name}.${step.id} compensation failed`, { status: outcome.status, response: outcome.response });
+    }
+  }
+  return out;
+}
@@ -11,8 +11,16 @@ import {
 } from "@/lib/utils";
 
 import { HttpToolDescriptorSchema } from "@/types/httpTool.schema";
+import { WorkflowToolDescriptorSchema, workflowGraphProblems } from "@/types/workflowTool.schema";
+import { GraphqlToolDescriptorSchema } from "@/types/graphqlTool.schema";
+import { MongoToolDescriptorSchema } from "@/types/mongoTool.schema";
+import { isIdempotentMethod } from "@/lib/net/retry";
+import { parseGraphqlDocument, selectOperation } from "@/lib/tools/graphql-document";
+import { blockedMongoKeys, findDisallowedKeys, sharedMongoCollections, DISALLOWED_KEYS } from "@/lib/tools/mongo-query";
+import { renderXmlTemplate } from "@/lib/tools/request-body";
+import { parseXml } from "@/lib/tools/response-formats";
 
-export const LINTER_VERSION = "http-linter@1.0.5"; // bumped
+export const LINTER_VERSION = "http-linter@1.0.13"; // bumped: body/response format checks
 
 type Severity = "error" | "warning";
 
@@ -34,6 +42,11 @@ export type LintResult = {
 
 const REQUEST_ALLOWED_ROOTS = new Set(["args", "secrets"]);
 const UI_ALLOWED_ROOTS = new Set(["args", "response", "status"]);
+const SUMMARY_ALLOWED_ROOTS = new Set(["args", "response", "data", "status"]);
+const WORKFLOW_STEP_ROOTS = new Set(["args", "steps"]);
+const WORKFLOW_COMPENSATE_ROOTS = new Set(["args", "steps", "step"]);
+const GRAPHQL_ERROR_ROOTS = new Set(["args", "error"]);
+const MONGO_ALLOWED_ROOTS = new Set(["args"]);
 
 // Recursive proxy for dummy values (handles nested paths)
 function createRecursiveProxy(prefix: string): any {
@@ -59,11 +72,29 @@ function walkJson(value: unknown, cb: (path: string, str: string) => void, path:
 
 export function lintHttpToolDescriptors(
   descriptors: any[],
-  options?: { dummyCtx?: Record<string, any> }
+  options?: {
+    dummyCtx?: Record<string, any>;
+    /** Tools the linted ones may reference (workflow steps) without being linted themselves */
+    registry?: any[];
+  }
 ): LintResult[] {
   const results: LintResult[] = [];
+  // linted descriptors win over registry rows of the same name
+  const lookup = options?.registry ? [...options.registry, ...descriptors] : descriptors;
 
   for (const d of descriptors) {
+    if (d?.kind === "workflow_tool") {
+      results.push(lintWorkflowDescriptor(d, lookup));
+      continue;
+    }
+    if (d?.kind === "graphql_tool") {
+      results.push(lintGraphqlDescriptor(d));
+      continue;
+    }
+    if (d?.kind === "mongo_tool") {
+      results.push(lintMongoDescriptor(d));
+      continue;
+    }
     const issues: LintIssue[] = [];
 
     // 1) Schema validation (Zod)
@@ -102,7 +133,12 @@ export function lintHttpToolDescriptors(
 
     // Request parts
     checkTokenRoots(
-      { urlTemplate: d.http?.urlTemplate, headers: d.http?.headers, jsonBodyTemplate: d.http?.jsonBodyTemplate },
+      {
+        urlTemplate: d.http?.urlTemplate,
+        headers: d.http?.headers,
+        jsonBodyTemplate: d.http?.jsonBodyTemplate,
+        xmlBodyTemplate: d.http?.xmlBodyTemplate,
+      },
       "http",
       REQUEST_ALLOWED_ROOTS
     );
@@ -120,6 +156,31 @@ export function lintHttpToolDescriptors(
       UI_ALLOWED_ROOTS
     );
 
+    // 3c) Caching only makes sense for reads
+    if (d.cache && d.http?.method && d.http.method !== "GET") {
+      issues.push({
+        severity: "warning",
+        code: "cache.non_get_method",
+        path: "cache",
+        message: `cache is enabled on a ${d.http.method} tool; repeated calls will not reach the upstream.`,
+        suggestion: "Only cache side-effect-free lookups, or switch the tool to GET.",
+      });
+    }
+
+    // Idempotency applies to writes only; its key is built from args alone
+    if (d.idempotency && ["GET", "HEAD", "OPTIONS"].includes(String(d.http?.method ?? "").toUpperCase())) {
+      issues.push({
+        severity: "warning",
+        code: "idempotency.read_method",
+        path: "idempotency",
+        message: `idempotency has no effect on a ${d.http.method} tool.`,
+      });
+    }
+    checkTokenRoots({ key: d.idempotency?.key }, "idempotency", new Set(["args"]));
+
+    // Response shaping summary
+    checkTokenRoots({ summary: d.response?.summary }, "response", SUMMARY_ALLOWED_ROOTS);
+
     // 3) okField sanity
     const ok = d.http?.okField;
     if (ok && !/^[A-Za-z0-9_.[\]]+$/.test(ok)) {
@@ -131,6 +192,171 @@ export function lintHttpToolDescriptors(
       });
     }
 
+    // 3b) Retry policy vs. method
+    const retry = d.http?.retry;
+    if (retry && d.http?.method && !isIdempotentMethod(d.http.method)) {
+      if (retry.idempotentOnly === false) {
+        issues.push({
+          severity: "warning",
+          code: "http.retry_non_idempotent",
+          path: "http.retry",
+          message: `Retrying ${d.http.method} can repeat side effects (e.g. a double booking).`,
+          suggestion: "Only allow this if the upstream deduplicates requests.",
+        });
+      } else {
+        issues.push({
+          severity: "warning",
+          code: "http.retry_ignored",
+          path: "http.retry",
+          message: `retry is ignored for ${d.http.method} while idempotentOnly is true.`,
+          suggestion: "Remove the retry block or set idempotentOnly: false if the upstream is safe to repeat.",
+        });
+      }
+    }
+
+    // 3d) Body format vs. templates
+    const bodyFormat = d.http?.bodyFormat ?? (d.http?.xmlBodyTemplate != null ? "xml" : "json");
+    const jsonBody = d.http?.jsonBodyTemplate;
+    if (bodyFormat === "xml") {
+      if (d.http?.xmlBodyTemplate == null) {
+        issues.push({
+          severity: "error",
+          code: "http.missing_xml_body",
+          path: "http.xmlBodyTemplate",
+          message: 'bodyFormat "xml" sends xmlBodyTemplate, which is missing.',
+        });
+      } else {
+        // well-formed once rendered (dummy values are plain text)
+        try {
+          parseXml(renderXmlTemplate(String(d.http.xmlBodyTemplate), { args: createRecursiveProxy("x"), secrets: createRecursiveProxy("x") }));
+        } catch (e: any) {
+          issues.push({
+            severity: "error",
+            code: "http.xml_body_invalid",
+            path: "http.xmlBodyTemplate",
+            message: `xmlBodyTemplate is not well-formed XML: ${e?.message}`,
+          });
+        }
+      }
+      if (jsonBody != null) {
+        issues.push({
+          severity: "warning",
+          code: "http.body_template_ignored",
+          path: "http.jsonBodyTemplate",
+          message: 'jsonBodyTemplate is ignored with bodyFormat "xml".',
+        });
+      }
+    } else {
+      if (d.http?.xmlBodyTemplate != null) {
+        issues.push({
+          severity: "warning",
+          code: "http.body_template_ignored",
+          path: "http.xmlBodyTemplate",
+          message: `xmlBodyTemplate is ignored with bodyFormat "${bodyFormat}".`,
+        });
+      }
+      if ((bodyFormat === "form" || bodyFormat === "multipart") && jsonBody != null &&
+          (typeof jsonBody !== "object" || Array.isArray(jsonBody))) {
+        issues.push({
+          severity: "error",
+          code: "http.body_not_fields",
+          path: "http.jsonBodyTemplate",
+          message: `bodyFormat "${bodyFormat}" needs jsonBodyTemplate to be an object of fields.`,
+        });
+      }
+    }
+    if (bodyFormat === "multipart" && Object.keys(d.http?.headers ?? {}).some((h) => h.toLowerCase() === "content-type")) {
+      issues.push({
+        severity: "warning",
+        code: "http.content_type_overridden",
+        path: "http.headers",
+        message: "multipart bodies set their own Content-Type (with the boundary); the header template is ignored.",
+      });
+    }
+
+    // 3e) Upstream auth
+    const auth = d.http?.auth;
+    const headerNames = Object.keys(d.http?.headers ?? {}).map((h) => h.toLowerCase());
+    if (auth?.type === "oauth2_client_credentials") {
+      if (headerNames.includes("authorization")) {
+        issues.push({
+          severity: "warning",
+          code: "auth.header_conflict",
+          path: "http.headers.authorization",
+          message: "http.auth sets the Authorization header; the templated one is overwritten.",
+          suggestion: "Remove the Authorization header template.",
+        });
+      }
+      if (typeof auth.tokenUrl === "string" && auth.tokenUrl.startsWith("http://")) {
+        issues.push({
+          severity: "error",
+          code: "auth.insecure_token_url",
+          path: "http.auth.tokenUrl",
+          message: "Client credentials would be sent over plain http.",
+          suggestion: "Use the https token endpoint.",
+        });
+      }
+    }
+    if (auth?.type === "hmac") {
+      const available = new Set([...headerNames, "host", String(auth.timestampHeader ?? "x-timestamp").toLowerCase()]);
+      if (d.http?.jsonBodyTemplate != null) available.add("content-type");
+      (Array.isArray(auth.signedHeaders) ? auth.signedHeaders : []).forEach((h: string, i: number) => {
+        if (!available.has(String(h).toLowerCase())) {
+          issues.push({
+            severity: "warning",
+            code: "auth.signed_header_missing",
+            path: `http.auth.signedHeaders.${i}`,
+            message: `Signed header "${h}" is not sent by this tool; it is signed as an empty value.`,
+          });
+        }
+      });
+      if (auth.algorithm === "sha1") {
+        issues.push({
+          severity: "warning",
+          code: "auth.weak_algorithm",
+          path: "http.auth.algorithm",
+          message: "HMAC-SHA1 is weak; use sha256 unless the upstream requires it.",
+        });
+      }
+    }
+    checkTokenRoots({ keyId: auth?.keyId }, "http.auth", new Set(["secrets"]));
+
+    // 3f) Sandbox mock: args only (no secrets in canned replies); case paths should be real params
+    if (d.mock) {
+      checkTokenRoots(
+        { body: d.mock.body, cases: (d.mock.cases ?? []).map((c: any) => c?.body) },
+        "mock",
+        new Set(["args"])
+      );
+      const declared = Object.keys(d.parameters?.properties ?? {});
+      (Array.isArray(d.mock.cases) ? d.mock.cases : []).forEach((c: any, i: number) => {
+        for (const path of Object.keys(c?.when ?? {})) {
+          const top = path.replace(/^args\./, "").split(/[.[]/)[0];
+          if (path.startsWith("args.") || (declared.length && !declared.includes(top))) {
+            issues.push({
+              severity: "warning",
+              code: "mock.unknown_arg",
+              path: `mock.cases.${i}.when.${path}`,
+              message: `"${path}" is not a declared parameter; this case never matches.`,
+              suggestion: "Key `when` by arg paths such as \"unit_id\" or \"guest.email\" (no args. prefix).",
+            });
+          }
+        }
+      });
+    }
+
+    // 3g) Confirmation prompt (args only); asking before a lookup is probably a mistake
+    issues.push(...confirmationIssues(d));
+    if (d.requiresConfirmation && ["GET", "HEAD", "OPTIONS"].includes(String(d.http?.method ?? "").toUpperCase())) {
+      issues.push({
+        severity: "warning",
+        code: "confirmation.read_method",
+        path: "requiresConfirmation",
+        message: `requiresConfirmation on a ${d.http.method} tool asks the guest before a lookup.`,
+        suggestion: "Reserve confirmation for calls with side effects (cancel, charge, submit).",
+      });
+    }
+
     // 4) Unresolved tokens in request objects
     const dummyCtx = {
       args: createRecursiveProxy("__ARG"),
@@ -161,6 +387,7 @@ export function lintHttpToolDescriptors(
     checkUnresolved(d.http?.urlTemplate, "http.urlTemplate");
     checkUnresolved(d.http?.headers, "http.headers");
     checkUnresolved(d.http?.jsonBodyTemplate, "http.jsonBodyTemplate");
+    checkUnresolved(d.http?.xmlBodyTemplate, "http.xmlBodyTemplate");
 
     results.push({
       name: d.name,
@@ -173,3 +400,447 @@ export function lintHttpToolDescriptors(
 
   return results;
 }
+
+/** Token roots used in a JSON-like value that are not in `allowed` */
+function badTokenRoots(value: unknown, allowed: Set<string>) {
+  const bad: { at: string; tok: string }[] = [];
+  walkJson(value, (at, str) => {
+    for (const raw of collectTokens(str)) {
+      const tok = stripFilters(raw);
+      if (!allowed.has(tok.split(".")[0] || "")) bad.push({ at, tok });
+    }
+  });
+  return bad;
+}
+
+/** requiresConfirmation (any kind): the prompt is rendered in the browser before the call, so args only */
+function confirmationIssues(d: any): LintIssue[] {
+  const confirm = d?.requiresConfirmation;
+  if (!confirm || typeof confirm !== "object") return [];
+  return badTokenRoots({ summary: confirm.summary, title: confirm.title }, new Set(["args"])).map(({ at, tok }) => ({
+    severity: "error",
+    code: "requiresConfirmation.invalid_token_root",
+    path: `requiresConfirmation.${at}`,
+    message: `Invalid token root in requiresConfirmation: ${tok}. Allowed: args.`,
+    suggestion: "Use a valid root or move to appropriate section.",
+  }));
+}
+
+/**
+ * workflow_tool: schema, step graph, referenced tools (must be http tools in the same
+ * registry) and template roots. `all` is the full registry being linted.
+ */
+function lintWorkflowDescriptor(d: any, all: any[]): LintResult {
+  const issues: LintIssue[] = [];
+
+  const parsed = WorkflowToolDescriptorSchema.safeParse(d);
+  if (!parsed.success) {
+    parsed.error.issues.forEach((zIssue) => {
+      issues.push({
+        severity: "error",
+        code: "schema_invalid",
+        path: zIssue.path.join("."),
+        message: zIssue.message,
+        suggestion: "Fix the schema violation in the tool descriptor.",
+      });
+    });
+  }
+
+  const steps: any[] = Array.isArray(d.steps) ? d.steps : [];
+  if (parsed.success) {
+    for (const p of workflowGraphProblems(parsed.data)) {
+      issues.push({ severity: "error", code: "workflow.bad_step_graph", path: p.path, message: p.message });
+    }
+  }
+
+  const kindOf = new Map<string, string>(all.map((x) => [x?.name, x?.kind ?? "http_tool"]));
+  const checkTool = (tool: unknown, path: string) => {
+    if (typeof tool !== "string") return;
+    const kind = kindOf.get(tool);
+    if (!kind) {
+      issues.push({
+        severity: "error",
+        code: "workflow.unknown_tool",
+        path,
+        message: `Step tool "${tool}" is not in this tenant's registry (or is disabled).`,
+      });
+    } else if (kind === "workflow_tool") {
+      issues.push({
+        severity: "error",
+        code: "workflow.step_not_http",
+        path,
+        message: `Step tool "${tool}" is a ${kind}; workflow steps must call http or graphql tools.`,
+      });
+    }
+  };
+
+  const seen = new Set<string>();
+  steps.forEach((st, i) => {
+    const at = `steps.${i}`;
+    checkTool(st?.tool, `${at}.tool`);
+    if (st?.compensate) checkTool(st.compensate.tool, `${at}.compensate.tool`);
+
+    for (const { at: where, tok } of badTokenRoots({ args: st?.args, when: st?.when }, WORKFLOW_STEP_ROOTS)) {
+      issues.push({
+        severity: "error",
+        code: "workflow.invalid_token_root",
+        path: `${at}.${where}`,
+        message: `Invalid token root: ${tok}. Allowed: args, steps.`,
+      });
+    }
+    for (const { at: where, tok } of badTokenRoots(st?.compensate?.args, WORKFLOW_COMPENSATE_ROOTS)) {
+      issues.push({
+        severity: "error",
+        code: "workflow.invalid_token_root",
+        path: `${at}.compensate.args.${where}`,
+        message: `Invalid token root: ${tok}. Allowed: args, steps, step.`,
+      });
+    }
+
+    // {{steps.x.*}} must name a step that can have run already
+    for (const raw of collectTokens({ args: st?.args, when: st?.when })) {
+      const [root, ref] = stripFilters(raw).split(".");
+      if (root === "steps" && ref && !seen.has(ref)) {
+        issues.push({
+          severity: "warning",
+          code: "workflow.forward_reference",
+          path: `${at}.args`,
+          message: `"${raw}" refers to step "${ref}", which is not an earlier step; it will render empty.`,
+        });
+      }
+    }
+    if (st?.id) seen.add(st.id);
+
+    // a write that later steps depend on should be undoable
+    const target = all.find((x) => x?.name === st?.tool);
+    // the server refuses a confirm-required step unless the workflow call itself was confirmed
+    if (target?.requiresConfirmation && !d.requiresConfirmation) {
+      issues.push({
+        severity: "error",
+        code: "workflow.unconfirmed_step",
+        path: `${at}.tool`,
+        message: `Step tool "${st?.tool}" requires confirmation, so ${d.name} must require it too; otherwise the step is always refused.`,
+        suggestion: "Set requiresConfirmation on the workflow (the guest is asked once for the whole chain).",
+      });
+    }
+    const method = target?.kind === "graphql_tool"
+      ? graphqlOperationType(target) === "mutation" ? "MUTATION" : ""
+      : String(target?.http?.method ?? "").toUpperCase();
+    if (method && !isIdempotentMethod(method) && i < steps.length - 1 && !st?.compensate) {
+      issues.push({
+        severity: "warning",
+        code: "workflow.no_compensation",
+        path: at,
+        message: `Step "${st?.id}" (${method} ${st?.tool}) has no compensate call; a later failure will leave it in place.`,
+        suggestion: "Add compensate: { tool, args } that undoes it (e.g. release the hold).",
+      });
+    }
+  });
+
+  for (const { at, tok } of badTokenRoots(d.result, WORKFLOW_STEP_ROOTS)) {
+    issues.push({
+      severity: "error",
+      code: "workflow.invalid_token_root",
+      path: `result.${at}`,
+      message: `Invalid token root: ${tok}. Allowed: args, steps.`,
+    });
+  }
+  for (const { at, tok } of badTokenRoots({ key: d.idempotency?.key }, new Set(["args"]))) {
+    issues.push({
+      severity: "error",
+      code: "idempotency.invalid_token_root",
+      path: `idempotency.${at}`,
+      message: `Invalid token root in idempotency: ${tok}. Allowed: args.`,
+    });
+  }
+  for (const { at, tok } of badTokenRoots(
+    { onSuccess: d.ui?.onSuccess, onError: d.ui?.onError, loadingMessage: d.ui?.loadingMessage },
+    UI_ALLOWED_ROOTS
+  )) {
+    issues.push({
+      severity: "error",
+      code: "ui.invalid_token_root",
+      path: `ui.${at}`,
+      message: `Invalid token root in ui: ${tok}. Allowed: ${[...UI_ALLOWED_ROOTS].join(", ")}.`,
+    });
+  }
+
+  issues.push(...confirmationIssues(d));
+
+  return { name: d.name, tenantId: d.tenantId, enabled: d.enabled, issues, linterVersion: LINTER_VERSION };
+}
+
+/** "query" | "mutation" | "subscription" of a graphql_tool's selected operation, or null if it doesn't parse */
+function graphqlOperationType(d: any) {
+  const op = selectOperation(parseGraphqlDocument(String(d?.graphql?.query ?? "")), d?.graphql?.operationName);
+  return typeof op === "string" ? null : op.type;
+}
+
+/**
+ * graphql_tool: schema, the query document (parses, operation selectable, no
+ * subscriptions), the variables template against the operation's $variables,
+ * and template roots.
+ */
+function lintGraphqlDescriptor(d: any): LintResult {
+  const issues: LintIssue[] = [];
+
+  const parsed = GraphqlToolDescriptorSchema.safeParse(d);
+  if (!parsed.success) {
+    parsed.error.issues.forEach((zIssue) => {
+      issues.push({
+        severity: "error",
+        code: "schema_invalid",
+        path: zIssue.path.join("."),
+        message: zIssue.message,
+        suggestion: "Fix the schema violation in the tool descriptor.",
+      });
+    });
+  }
+
+  const g = d.graphql ?? {};
+  const info = parseGraphqlDocument(String(g.query ?? ""));
+  const op = selectOperation(info, g.operationName);
+  if (typeof op === "string") {
+    issues.push({
+      severity: "error",
+      code: info.ok ? "graphql.operation_not_found" : "graphql.query_invalid",
+      path: info.ok ? "graphql.operationName" : "graphql.query",
+      message: op,
+    });
+  } else {
+    if (op.type === "subscription") {
+      issues.push({
+        severity: "error",
+        code: "graphql.subscription_unsupported",
+        path: "graphql.query",
+        message: "Subscriptions cannot run as a tool call; use a query or mutation.",
+      });
+    }
+
+    // variables template vs. the operation's declared $variables
+    const vars = g.variables && typeof g.variables === "object" && !Array.isArray(g.variables) ? g.variables : {};
+    const declared = new Map(op.variables.map((v) => [v.name, v]));
+    for (const key of Object.keys(vars)) {
+      if (!declared.has(key)) {
+        issues.push({
+          severity: "warning",
+          code: "graphql.unknown_variable",
+          path: `graphql.variables.${key}`,
+          message: `Variable "${key}" is not declared by the ${op.name ?? "anonymous"} ${op.type}; the server will reject or ignore it.`,
+        });
+      }
+    }
+    for (const v of op.variables) {
+      if (v.required && !(v.name in vars)) {
+        issues.push({
+          severity: "error",
+          code: "graphql.missing_variable",
+          path: "graphql.variables",
+          message: `Required variable $${v.name}: ${v.type} has no value in graphql.variables.`,
+          suggestion: `Add "${v.name}": "{{args.${v.name}}}" (or a constant).`,
+        });
+      }
+    }
+    for (const name of op.usedVariables) {
+      if (!declared.has(name)) {
+        issues.push({
+          severity: "error",
+          code: "graphql.undeclared_variable",
+          path: "graphql.query",
+          message: `$${name} is used but not declared in the operation's variable list.`,
+        });
+      }
+    }
+
+    if (op.type === "mutation" && d.cache) {
+      issues.push({
+        severity: "warning",
+        code: "cache.non_get_method",
+        path: "cache",
+        message: "cache is ignored for mutations; every call reaches the upstream.",
+        suggestion: "Remove the cache block.",
+      });
+    }
+    if (op.type !== "mutation" && d.idempotency) {
+      issues.push({
+        severity: "warning",
+        code: "idempotency.read_method",
+        path: "idempotency",
+        message: `idempotency has no effect on a ${op.type}; only mutations are deduplicated.`,
+      });
+    }
+    if (op.type === "mutation" && g.retry) {
+      issues.push({
+        severity: "warning",
+        code: "http.retry_ignored",
+        path: "graphql.retry",
+        message: "retry is ignored for mutations; a repeated mutation could apply twice.",
+        suggestion: "Remove the retry block.",
+      });
+    }
+  }
+
+  // Token roots and unresolved tokens in the request
+  const request = { endpoint: g.endpoint, headers: g.headers, variables: g.variables };
+  for (const { at, tok } of badTokenRoots(request, REQUEST_ALLOWED_ROOTS)) {
+    issues.push({
+      severity: "error",
+      code: "graphql.invalid_token_root",
+      path: `graphql.${at}`,
+      message: `Invalid token root in graphql: ${tok}. Allowed: ${[...REQUEST_ALLOWED_ROOTS].join(", ")}.`,
+    });
+  }
+  const reqCtx = { args: createRecursiveProxy("__ARG"), secrets: createRecursiveProxy("__SECRET") };
+  for (const [key, value] of Object.entries(request)) {
+    if (!hasUnresolvedTokens(applyTemplate(value, reqCtx))) continue;
+    const missing = collectTokens(value).filter((tok) => getByPath(reqCtx, tok) === undefined);
+    if (missing.length) {
+      issues.push({
+        severity: "error",
+        code: "request.unresolved_tokens",
+        path: `graphql.${key}`,
+        message: `Unresolved tokens in graphql.${key}: ${missing.join(", ")}.`,
+        suggestion: "Ensure valid roots and add missing required parameters.",
+      });
+    }
+  }
+
+  for (const { at, tok } of badTokenRoots({ key: d.idempotency?.key }, new Set(["args"]))) {
+    issues.push({
+      severity: "error",
+      code: "idempotency.invalid_token_root",
+      path: `idempotency.${at}`,
+      message: `Invalid token root in idempotency: ${tok}. Allowed: args.`,
+    });
+  }
+
+  (Array.isArray(g.errorMap) ? g.errorMap : []).forEach((m: any, i: number) => {
+    if (typeof m?.match === "string") {
+      try {
+        new RegExp(m.match);
+      } catch {
+        issues.push({ severity: "error", code: "graphql.bad_error_match", path: `graphql.errorMap.${i}.match`, message: `Invalid regex: ${m.match}` });
+      }
+    }
+    for (const { tok } of badTokenRoots(m?.error, GRAPHQL_ERROR_ROOTS)) {
+      issues.push({
+        severity: "error",
+        code: "graphql.invalid_token_root",
+        path: `graphql.errorMap.${i}.error`,
+        message: `Invalid token root: ${tok}. Allowed: args, error.`,
+      });
+    }
+  });
+
+  for (const { at, tok } of badTokenRoots(
+    { onSuccess: d.ui?.onSuccess, onError: d.ui?.onError, loadingMessage: d.ui?.loadingMessage },
+    UI_ALLOWED_ROOTS
+  )) {
+    issues.push({
+      severity: "error",
+      code: "ui.invalid_token_root",
+      path: `ui.${at}`,
+      message: `Invalid token root in ui: ${tok}. Allowed: ${[...UI_ALLOWED_ROOTS].join(", ")}.`,
+    });
+  }
+  for (const { at, tok } of badTokenRoots({ summary: d.response?.summary }, SUMMARY_ALLOWED_ROOTS)) {
+    issues.push({
+      severity: "error",
+      code: "response.invalid_token_root",
+      path: `response.${at}`,
+      message: `Invalid token root in response: ${tok}. Allowed: ${[...SUMMARY_ALLOWED_ROOTS].join(", ")}.`,
+    });
+  }
+
+  issues.push(...confirmationIssues(d));
+
+  return { name: d.name, tenantId: d.tenantId, enabled: d.enabled, issues, linterVersion: LINTER_VERSION };
+}
+
+/**
+ * mongo_tool: schema (platform collections rejected), template roots (args only, no secrets
+ * reach a query), unresolved tokens, operators the gateway denylist (DISALLOWED_KEYS) or the
+ * tool executor rejects, and unscoped reads outside MONGO_SHARED_COLLECTIONS.
+ */
+function lintMongoDescriptor(d: any): LintResult {
+  const issues: LintIssue[] = [];
+
+  const parsed = MongoToolDescriptorSchema.safeParse(d);
+  if (!parsed.success) {
+    parsed.error.issues.forEach((zIssue) => {
+      issues.push({
+        severity: "error",
+        code: "schema_invalid",
+        path: zIssue.path.join("."),
+        message: zIssue.message,
+        suggestion: "Fix the schema violation in the tool descriptor.",
+      });
+    });
+  }
+
+  const m = d.mongo ?? {};
+  const query = { filter: m.filter, pipeline: m.pipeline, projection: m.projection, sort: m.sort, limit: m.limit };
+
+  for (const { at, tok } of badTokenRoots(query, MONGO_ALLOWED_ROOTS)) {
+    issues.push({
+      severity: "error",
+      code: "mongo.invalid_token_root",
+      path: `mongo.${at}`,
+      message: `Invalid token root in mongo: ${tok}. Allowed: args.`,
+    });
+  }
+  const reqCtx = { args: createRecursiveProxy("__ARG") };
+  for (const [key, value] of Object.entries(query)) {
+    if (value == null || !hasUnresolvedTokens(applyTemplate(value, reqCtx))) continue;
+    const missing = collectTokens(value).filter((tok) => getByPath(reqCtx, tok) === undefined);
+    if (missing.length) {
+      issues.push({
+        severity: "error",
+        code: "request.unresolved_tokens",
+        path: `mongo.${key}`,
+        message: `Unresolved tokens in mongo.${key}: ${missing.join(", ")}.`,
+        suggestion: "Ensure valid roots and add missing required parameters.",
+      });
+    }
+  }
+
+  const tenantScoped = m.tenantField !== null;
+  for (const { key, path } of findDisallowedKeys(query, ["mongo"], blockedMongoKeys(tenantScoped))) {
+    issues.push({
+      severity: "error",
+      code: "mongo.disallowed_operator",
+      path,
+      message: DISALLOWED_KEYS.has(key)
+        ? `${key} is not allowed (server-side code execution / regex scans).`
+        : tenantScoped && !["$out", "$merge"].includes(key)
+          ? `${key} reads another collection and would bypass the ${m.tenantField ?? "tenantId"} filter.`
+          : `${key} writes to the database; mongo tools are read-only.`,
+    });
+  }
+
+  if (!tenantScoped && !sharedMongoCollections().has(m.collection)) {
+    issues.push({
+      severity: "error",
+      code: "mongo.not_tenant_scoped",
+      path: "mongo.tenantField",
+      message: `tenantField is null: ${d.name} would read every tenant's documents in ${m.collection}.`,
+      suggestion: "Set tenantField, or add the collection to MONGO_SHARED_COLLECTIONS if it is shared reference data.",
+    });
+  }
+
+  for (const { at, tok } of badTokenRoots(
+    { onSuccess: d.ui?.onSuccess, onError: d.ui?.onError, loadingMessage: d.ui?.loadingMessage },
+    UI_ALLOWED_ROOTS
+  )) {
+    issues.push({
+      severity: "error",
+      code: "ui.invalid_token_root",
+      path: `ui.${at}`,
+      message: `Invalid token root in ui: ${tok}. Allowed: ${[...UI_ALLOWED_ROOTS].join(", ")}.`,
+    });
+  }
+
+  issues.push(...confirmationIssues(d));
+
+  return { name: d.name, tenantId: d.tenantId, enabled: d.enabled, issues, linterVersion: LINTER_VERSION };
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+  JsonValue,
+  HttpUISchema,
+  HttpRetrySchema,
+  HttpCacheSchema,
+  HttpIdempotencySchema,
+  HttpResponseShapeSchema,
+  HttpAuthSchema,
+  RequiresConfirmationSchema,
+} from "./httpTool.schema";
+
+/* ---------------- GraphQL error mapping ---------------- */
+
+/**
+ * Turns an entry of the response `errors` array into something the agent can say.
+ * Matched against the first error; `code` is `extensions.code`, `match` a regex on `message`.
+ */
+export const GraphqlErrorMapSchema = z
+  .object({
+    code: z.string().min(1).optional(),
+    match: z.string().min(1).optional(),
+    /** Spoken message. Tokens: {{args.*}}, {{error.message}}, {{error.code}} */
+    error: z.string().min(1),
+    retryable: z.boolean().optional(),
+  })
+  .strict()
+  .refine((m) => m.code != null || m.match != null, { message: "set code and/or match" });
+
+/* ---------------- GraphQL config ---------------- */
+
+export const GraphqlConfigSchema = z.object({
+  /** Endpoint URL; templated like http.urlTemplate ({{args.*}}, {{secrets.*}}) */
+  endpoint: z.string().min(1, "endpoint required"),
+  /** Executable document: one operation, or several plus operationName */
+  query: z.string().min(1, "query required"),
+  operationName: z.string().optional(),
+  /** Variables object, templated with {{args.*}} / {{secrets.*}} (whole-token values keep their type) */
+  variables: JsonValue.default({}),
+  headers: z.record(z.string()).optional(),
+  /** Dot path inside `data` returned to the model, e.g. "availability" or "shop.products[0]" */
+  dataPath: z.string().optional(),
+  errorMap: z.array(GraphqlErrorMapSchema).optional(),
+  /** Treat a response with both data and errors as success (errors become warnings) */
+  allowPartialData: z.boolean().default(false),
+  pruneEmpty: z.boolean().optional(),
+  timeoutMs: z.number().int().positive().max(120_000).default(15_000),
+  /** Same as http.maxResponseBytes */
+  maxResponseBytes: z.number().int().positive().max(50 * 1024 * 1024).optional(),
+  /** Applies to queries only; mutations are never retried (same rule as non-idempotent HTTP) */
+  retry: HttpRetrySchema.optional(),
+  /** Same as http.auth (OAuth2 client credentials or HMAC signing) */
+  auth: HttpAuthSchema.optional(),
+});
+
+/* ---------------- Descriptor ---------------- */
+
+export const GraphqlToolDescriptorSchema = z.object({
+  kind: z.literal("graphql_tool"),
+  tenantId: z.string().optional(),
+  name: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[a-zA-Z0-9._-]+$/, "use a-z A-Z 0-9 . _ -"),
+  description: z.string().optional(),
+  parameters: JsonValue.default({
+    type: "object",
+    properties: {},
+    additionalProperties: true,
+  }),
+  graphql: GraphqlConfigSchema,
+  response: HttpResponseShapeSchema.optional(),
+  cache: HttpCacheSchema.optional(),
+  /** Mutations only: deduplicated like a non-GET http tool */
+  idempotency: HttpIdempotencySchema.optional(),
+  requiresConfirmation: RequiresConfirmationSchema.optional(),
+  ui: HttpUISchema.optional(),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().optional(),
+  version: z.number().int().optional(),
+});
+
+/** Browser view: endpoint, document and variables stay server-side. */
+export const PublicGraphqlConfigSchema = GraphqlConfigSchema.pick({
+  timeoutMs: true,
+  retry: true,
+});
+
+export const PublicGraphqlToolDescriptorSchema = GraphqlToolDescriptorSchema.omit({
+  response: true,
+  cache: true,
+  idempotency: true,
+}).extend({
+  graphql: PublicGraphqlConfigSchema,
+});
+
+export function toPublicGraphqlToolDescriptor(d: GraphqlToolDescriptor): PublicGraphqlToolDescriptor {
+  const { graphql, ...rest } = d;
+  delete rest.response;
+  delete rest.cache;
+  delete rest.idempotency;
+  return { ...rest, graphql: { timeoutMs: graphql.timeoutMs, retry: graphql.retry } };
+}
+
+export type GraphqlToolDescriptor = z.infer<typeof GraphqlToolDescriptorSchema>;
+export type PublicGraphqlToolDescriptor = z.infer<typeof PublicGraphqlToolDescriptorSchema>;
+export type GraphqlErrorMap = z.infer<typeof GraphqlErrorMapSchema>;
@@ -72,20 +72,233 @@ export const UIActionSchema = z
   })
   .strict();
 
-/* ---------------- HTTP config (unchanged) ---------------- */
+/* ---------------- HTTP config ---------------- */
 
 export const HttpMethodSchema = z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]);
 
+/**
+ * Retry policy for transient upstream failures (network errors, timeouts, retryOn statuses).
+ * Each attempt gets the full `timeoutMs`; `Retry-After` is honoured up to `maxBackoffMs`.
+ */
+export const HttpRetrySchema = z
+  .object({
+    /** Total attempts including the first one. */
+    maxAttempts: z.number().int().min(1).max(5).default(3),
+    backoff: z.enum(["fixed", "exponential"]).default("exponential"),
+    baseDelayMs: z.number().int().min(0).max(10_000).default(250),
+    maxBackoffMs: z.number().int().min(0).max(30_000).default(2_000),
+    retryOn: z.array(z.number().int().min(400).max(599)).default([429, 502, 503, 504]),
+    /** Only retry GET/PUT/DELETE; POST/PATCH may have side effects (double booking). */
+    idempotentOnly: z.boolean().default(true),
+  })
+  .strict();
+
+/* ---------------- Upstream auth (resolved server-side) ---------------- */
+
+/** Name of a tenant vault secret (same rule as the vault) */
+const SecretNameSchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]{0,63}$/, "secret name");
+
+/**
+ * OAuth2 client credentials (RFC 6749 §4.4). The token is cached per tenant + client
+ * + scopes and fetched again `refreshSkewSec` before it expires.
+ */
+export const OAuth2ClientCredentialsSchema = z
+  .object({
+    type: z.literal("oauth2_client_credentials"),
+    tokenUrl: z.string().url(),
+    clientIdSecret: SecretNameSchema.default("oauth_client_id"),
+    clientSecretSecret: SecretNameSchema.default("oauth_client_secret"),
+    scopes: z.array(z.string().min(1)).optional(),
+    audience: z.string().min(1).optional(),
+    /** "basic": HTTP Basic to the token endpoint (default); "body": client_id/client_secret form fields */
+    clientAuth: z.enum(["basic", "body"]).default("basic"),
+    refreshSkewSec: z.number().int().min(0).max(3_600).default(60),
+  })
+  .strict();
+
+/**
+ * HMAC request signing. String to sign, lines joined with "\n":
+ * METHOD, path?query, timestamp, "name:value" per signedHeaders (lower-cased), body ("" when none).
+ */
+export const HmacAuthSchema = z
+  .object({
+    type: z.literal("hmac"),
+    secret: SecretNameSchema,
+    algorithm: z.enum(["sha256", "sha512", "sha1"]).default("sha256"),
+    /** Request headers included in the signature, in this order */
+    signedHeaders: z.array(z.string().min(1)).default([]),
+    signatureHeader: z.string().min(1).default("x-signature"),
+    timestampHeader: z.string().min(1).default("x-timestamp"),
+    timestampFormat: z.enum(["unix", "unix_ms", "iso"]).default("unix"),
+    encoding: z.enum(["hex", "base64"]).default("hex"),
+    /** Prepended to the signature value, e.g. "sha256=" */
+    signaturePrefix: z.string().optional(),
+    /** Sent as x-key-id when set (templated with {{secrets.*}}) */
+    keyId: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const HttpAuthSchema = z.discriminatedUnion("type", [OAuth2ClientCredentialsSchema, HmacAuthSchema]);
+
+/* ---------------- Request / response formats ---------------- */
+
+/** json (default): jsonBodyTemplate as JSON. form / multipart: its top-level keys as fields. xml: xmlBodyTemplate. */
+export const HttpBodyFormatSchema = z.enum(["json", "form", "multipart", "xml"]);
+
+/** auto (default): by Content-Type, else JSON, else XML when the body has an <?xml prolog */
+export const HttpResponseFormatSchema = z.enum(["auto", "json", "xml", "csv", "text"]);
+
+export const HttpXmlOptionsSchema = z
+  .object({
+    /** "soap:Body" -> "Body"; xmlns attributes dropped */
+    stripNamespaces: z.boolean().default(true),
+    /** Return the content of Envelope/Body instead of the envelope */
+    unwrapSoap: z.boolean().default(true),
+    /** Element names that are always arrays, even with a single occurrence */
+    arrays: z.array(z.string().min(1)).default([]),
+    /** "true"/"false" and plain numbers become booleans/numbers */
+    typed: z.boolean().default(true),
+  })
+  .strict();
+
+export const HttpCsvOptionsSchema = z
+  .object({
+    delimiter: z.string().length(1).default(","),
+    /** First row names the columns (rows become objects); otherwise rows are arrays */
+    header: z.boolean().default(true),
+    typed: z.boolean().default(true),
+  })
+  .strict();
+
 export const HttpConfigSchema = z.object({
   method: HttpMethodSchema,
   urlTemplate: z.string().min(1, "urlTemplate required"),
   headers: z.record(z.string()).optional(),
   jsonBodyTemplate: JsonValue.optional(),
+  bodyFormat: HttpBodyFormatSchema.optional(),
+  /** XML / SOAP body; {{tokens}} are XML-escaped */
+  xmlBodyTemplate: z.string().min(1).optional(),
+  /** Non-JSON responses are converted to JSON ({ rows, count } for CSV) before okField / shaping */
+  responseFormat: HttpResponseFormatSchema.optional(),
+  xml: HttpXmlOptionsSchema.optional(),
+  csv: HttpCsvOptionsSchema.optional(),
   okField: z.string().optional(),
   timeoutMs: z.number().int().positive().max(120_000).default(15_000),
+  /** Body size cap in bytes (after decompression); default TOOL_MAX_RESPONSE_BYTES (5 MiB) */
+  maxResponseBytes: z.number().int().positive().max(50 * 1024 * 1024).optional(),
   pruneEmpty: z.boolean().optional(),
+  retry: HttpRetrySchema.optional(),
+  /** Credentials come from the tenant vault; never put tokens in headers by hand */
+  auth: HttpAuthSchema.optional(),
 });
 
+/* ---------------- Response cache (opt-in) ---------------- */
+
+/**
+ * Cache successful JSON responses in /api/tools/execute. Meant for idempotent lookups
+ * (availability, unit details); the linter warns when used with a non-GET method.
+ */
+export const HttpCacheSchema = z
+  .object({
+    ttlSec: z.number().int().min(1).max(86_400),
+    /** "session": per guest session (default). "tenant": shared by every session of the tenant. */
+    scope: z.enum(["session", "tenant"]).default("session"),
+    /** Cache key template over args, e.g. "{{args.check_in}}:{{args.check_out}}". Default: all args. */
+    key: z.string().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * Duplicate protection for non-GET calls in /api/tools/execute, for descriptors that
+ * declare it: a second call with the same key while the first is in flight or within
+ * ttlSec gets the stored reply instead of a second upstream write. Opt-in, because a
+ * guest may genuinely ask for the same thing twice. The key is sent upstream as `header`.
+ */
+export const HttpIdempotencySchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    /** Key template over args, e.g. "{{args.unit_id}}:{{args.check_in}}". Default: all args. Always per session. */
+    key: z.string().min(1).optional(),
+    ttlSec: z.number().int().min(10).max(86_400).default(600),
+    /** null: dedupe here but send nothing upstream (for APIs that reject unknown headers) */
+    header: z.string().min(1).nullable().default("Idempotency-Key"),
+  })
+  .strict();
+
+/* ---------------- Response shaping (what the model sees) ---------------- */
+
+/**
+ * Applied server-side to JSON responses. The full payload still drives okField and
+ * UI actions; only the shaped result goes back to the model.
+ * Paths are dot-paths with an optional "$." prefix, "[n]" indexes, "[*]" over arrays
+ * and a trailing "{a,b}" field pick, e.g. "units[*].{unit_id,name,rate}".
+ */
+export const HttpResponseShapeSchema = z
+  .object({
+    /** Paths to keep. Array: key = last path segment. Record: outputKey -> path (renames). */
+    pick: z.union([z.array(z.string().min(1)).min(1), z.record(z.string().min(1))]).optional(),
+    /** Rename keys anywhere in the (picked) result: { oldKey: newKey }. */
+    rename: z.record(z.string().min(1)).optional(),
+    /** Truncate every array to at most this many items. */
+    maxArrayItems: z.number().int().min(1).max(500).optional(),
+    /** Hard cap on the serialized result; arrays are trimmed further to fit. */
+    maxBytes: z.number().int().min(256).max(200_000).optional(),
+    /** Spoken-style summary. Tokens: {{response.*}} (full), {{data.*}} (shaped), {{args.*}}, {{status}}. */
+    summary: z.string().min(1).optional(),
+  })
+  .strict();
+
+/* ---------------- Sandbox mock ---------------- */
+
+/** One canned reply, chosen when every `when` arg path equals its value */
+export const HttpMockCaseSchema = z
+  .object({
+    when: z.record(JsonValue),
+    status: z.number().int().min(100).max(599).optional(),
+    body: JsonValue.optional(),
+    latencyMs: z.number().int().min(0).max(10_000).optional(),
+  })
+  .strict();
+
+/**
+ * What /api/tools/execute answers instead of calling out when the tenant or session is
+ * in sandbox mode (and what the dry-run console uses when no mock is pasted).
+ * `cases` are tried in order; the top-level reply is the fallback. Bodies are templated
+ * against {{args.*}}; string bodies are parsed per http.responseFormat / contentType.
+ */
+export const HttpMockSchema = z
+  .object({
+    status: z.number().int().min(100).max(599).default(200),
+    body: JsonValue.optional(),
+    contentType: z.string().max(200).optional(),
+    latencyMs: z.number().int().min(0).max(10_000).default(0),
+    cases: z.array(HttpMockCaseSchema).max(50).optional(),
+  })
+  .strict();
+
+/* ---------------- Confirmation gate ---------------- */
+
+/**
+ * Destructive tools (cancel, charge, submit): the browser holds the call until the guest
+ * confirms on the stage or says "yes". `summary` is templated against {{args.*}}, shown
+ * and read out. A "no", or no answer within timeoutSec, returns "user_declined" to the model.
+ */
+export const HttpConfirmationSchema = z
+  .object({
+    summary: z.string().min(1).max(500).optional(),
+    title: z.string().min(1).max(120).optional(),
+    confirmLabel: z.string().min(1).max(40).optional(),
+    declineLabel: z.string().min(1).max(40).optional(),
+    timeoutSec: z.number().int().min(5).max(300).optional(),
+  })
+  .strict();
+
+/**
+ * `requiresConfirmation` of every tool kind: true, or the prompt to show. Kept in the public
+ * descriptor (the browser asks); /api/tools/execute refuses the call without the gate's flag.
+ */
+export const RequiresConfirmationSchema = z.union([z.boolean(), HttpConfirmationSchema]);
+
 /* ---------------- Descriptor schema (extended UI) ---------------- */
 
 export const HttpUISchema = z.object({
@@ -109,6 +322,11 @@ export const HttpToolDescriptorSchema = z.object({
     additionalProperties: true,
   }),
   http: HttpConfigSchema,
+  response: HttpResponseShapeSchema.optional(),
+  cache: HttpCacheSchema.optional(),
+  idempotency: HttpIdempotencySchema.optional(),
+  mock: HttpMockSchema.optional(),
+  requiresConfirmation: RequiresConfirmationSchema.optional(),
   ui: HttpUISchema.optional(),
   enabled: z.boolean().default(true),
   priority: z.number().int().optional(),
@@ -116,5 +334,52 @@ export const HttpToolDescriptorSchema = z.object({
 });
 
 export const HttpToolDescriptorArraySchema = z.array(HttpToolDescriptorSchema);
+
+/**
+ * What the browser gets from /api/tools/fetch: enough to declare the tool to the model,
+ * judge success and drive UI. URL, headers, body templates, shaping, caching and mocks stay
+ * server-side; /api/tools/execute loads the full descriptor by tenant + name.
+ */
+export const PublicHttpConfigSchema = HttpConfigSchema.pick({
+  method: true,
+  okField: true,
+  timeoutMs: true,
+  retry: true,
+});
+
+export const PublicHttpToolDescriptorSchema = HttpToolDescriptorSchema.omit({
+  response: true,
+  cache: true,
+  idempotency: true,
+  mock: true,
+}).extend({
+  http: PublicHttpConfigSchema,
+});
+
+export function toPublicHttpToolDescriptor(d: HttpToolDescriptor): PublicHttpToolDescriptor {
+  const { http, ...rest } = d;
+  delete rest.response;
+  delete rest.cache;
+  delete rest.idempotency;
+  delete rest.mock;
+  return {
+    ...rest,
+    http: { method: http.method, okField: http.okField, timeoutMs: http.timeoutMs, retry: http.retry },
+  };
+}
 export type HttpToolDescriptor = z.infer<typeof HttpToolDescriptorSchema>;
+export type PublicHttpToolDescriptor = z.infer<typeof PublicHttpToolDescriptorSchema>;
 export type UIAction = z.infer<typeof UIActionSchema>;
+export type HttpRetryPolicy = z.infer<typeof HttpRetrySchema>;
+export type HttpResponseShape = z.infer<typeof HttpResponseShapeSchema>;
+export type HttpCachePolicy = z.infer<typeof HttpCacheSchema>;
+export type HttpIdempotencyPolicy = z.infer<typeof HttpIdempotencySchema>;
+export type HttpMock = z.infer<typeof HttpMockSchema>;
+export type HttpConfirmation = z.infer<typeof HttpConfirmationSchema>;
+export type HttpAuth = z.infer<typeof HttpAuthSchema>;
+export type OAuth2ClientCredentials = z.infer<typeof OAuth2ClientCredentialsSchema>;
+export type HmacAuth = z.infer<typeof HmacAuthSchema>;
+export type HttpBodyFormat = z.infer<typeof HttpBodyFormatSchema>;
+export type HttpResponseFormat = z.infer<typeof HttpResponseFormatSchema>;
+export type HttpXmlOptions = z.infer<typeof HttpXmlOptionsSchema>;
+export type HttpCsvOptions = z.infer<typeof HttpCsvOptionsSchema>;
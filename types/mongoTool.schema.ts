@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { JsonValue, HttpUISchema, HttpResponseShapeSchema, RequiresConfirmationSchema } from "./httpTool.schema";
+import { isPlatformCollection } from "@/lib/tools/mongo-query";
+
+/* ---------------- Mongo query ---------------- */
+
+/** Literal limit, or a {{args.*}} token (clamped to 1..500 at run time) */
+const MongoLimitSchema = z.union([z.number().int().min(1).max(500), z.string().min(1)]);
+
+const MongoQueryBaseSchema = z.object({
+  /** Collection in the tenant's default database (no templating); platform collections are off limits */
+  collection: z
+    .string()
+    .min(1)
+    .regex(/^[A-Za-z0-9_.-]+$/, "plain collection name")
+    .refine((c) => !isPlatformCollection(c), "platform collection (auth, tenant_secrets, system.*, ...)"),
+  limit: MongoLimitSchema.optional(),
+  /**
+   * Documents must carry this field equal to the caller's tenant; null only for
+   * collections listed in MONGO_SHARED_COLLECTIONS (e.g. public reference data).
+   */
+  tenantField: z.string().min(1).nullable().default("tenantId"),
+  timeoutMs: z.number().int().positive().max(60_000).default(10_000),
+});
+
+export const MongoFindSchema = MongoQueryBaseSchema.extend({
+  op: z.literal("find"),
+  /** Templated with {{args.*}}; empty-string leaves are dropped like in the gateway */
+  filter: JsonValue.default({}),
+  projection: JsonValue.optional(),
+  sort: JsonValue.optional(),
+});
+
+export const MongoAggregateSchema = MongoQueryBaseSchema.extend({
+  op: z.literal("aggregate"),
+  /** Templated with {{args.*}}; a $limit stage is appended when the pipeline has none */
+  pipeline: z.array(JsonValue).min(1),
+});
+
+export const MongoQuerySchema = z.discriminatedUnion("op", [MongoFindSchema, MongoAggregateSchema]);
+
+/* ---------------- Descriptor ---------------- */
+
+export const MongoToolDescriptorSchema = z.object({
+  kind: z.literal("mongo_tool"),
+  tenantId: z.string().optional(),
+  name: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[a-zA-Z0-9._-]+$/, "use a-z A-Z 0-9 . _ -"),
+  description: z.string().optional(),
+  parameters: JsonValue.default({
+    type: "object",
+    properties: {},
+    additionalProperties: true,
+  }),
+  mongo: MongoQuerySchema,
+  response: HttpResponseShapeSchema.optional(),
+  requiresConfirmation: RequiresConfirmationSchema.optional(),
+  ui: HttpUISchema.optional(),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().optional(),
+  version: z.number().int().optional(),
+});
+
+/** Browser view: collection and query templates stay server-side. */
+export const PublicMongoToolDescriptorSchema = MongoToolDescriptorSchema.omit({
+  response: true,
+}).extend({
+  mongo: z.object({ timeoutMs: z.number().int().positive() }),
+});
+
+export function toPublicMongoToolDescriptor(d: MongoToolDescriptor): PublicMongoToolDescriptor {
+  const { mongo, ...rest } = d;
+  delete rest.response;
+  return { ...rest, mongo: { timeoutMs: mongo.timeoutMs } };
+}
+
+export type MongoQuery = z.infer<typeof MongoQuerySchema>;
+export type MongoToolDescriptor = z.infer<typeof MongoToolDescriptorSchema>;
+export type PublicMongoToolDescriptor = z.infer<typeof PublicMongoToolDescriptorSchema>;
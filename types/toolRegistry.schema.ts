@@ -1,11 +1,58 @@
 import { z } from "zod";
-import { HttpToolDescriptorSchema } from "./httpTool.schema";
+import {
+  HttpToolDescriptorSchema,
+  PublicHttpToolDescriptorSchema,
+  toPublicHttpToolDescriptor,
+} from "./httpTool.schema";
+import {
+  WorkflowToolDescriptorSchema,
+  PublicWorkflowToolDescriptorSchema,
+  toPublicWorkflowToolDescriptor,
+} from "./workflowTool.schema";
+import {
+  GraphqlToolDescriptorSchema,
+  PublicGraphqlToolDescriptorSchema,
+  toPublicGraphqlToolDescriptor,
+} from "./graphqlTool.schema";
+import {
+  MongoToolDescriptorSchema,
+  PublicMongoToolDescriptorSchema,
+  toPublicMongoToolDescriptor,
+} from "./mongoTool.schema";
 
-// Extendable discriminated union 
+// Extendable discriminated union
 export const ToolRegistryItemSchema = z.discriminatedUnion("kind", [
-  HttpToolDescriptorSchema, 
+  HttpToolDescriptorSchema,
+  WorkflowToolDescriptorSchema,
+  GraphqlToolDescriptorSchema,
+  MongoToolDescriptorSchema,
 ]);
 
 export const ToolRegistryArraySchema = z.array(ToolRegistryItemSchema);
 
 export type ToolRegistryItem = z.infer<typeof ToolRegistryItemSchema>;
+
+// Browser-safe views of the same items (see PublicHttpToolDescriptorSchema)
+export const PublicToolRegistryItemSchema = z.discriminatedUnion("kind", [
+  PublicHttpToolDescriptorSchema,
+  PublicWorkflowToolDescriptorSchema,
+  PublicGraphqlToolDescriptorSchema,
+  PublicMongoToolDescriptorSchema,
+]);
+
+export const PublicToolRegistryArraySchema = z.array(PublicToolRegistryItemSchema);
+
+export type PublicToolRegistryItem = z.infer<typeof PublicToolRegistryItemSchema>;
+
+export function toPublicRegistryItem(item: ToolRegistryItem): PublicToolRegistryItem {
+  switch (item.kind) {
+    case "workflow_tool":
+      return toPublicWorkflowToolDescriptor(item);
+    case "graphql_tool":
+      return toPublicGraphqlToolDescriptor(item);
+    case "mongo_tool":
+      return toPublicMongoToolDescriptor(item);
+    default:
+      return toPublicHttpToolDescriptor(item);
+  }
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { JsonValue, HttpUISchema, HttpIdempotencySchema, RequiresConfirmationSchema } from "./httpTool.schema";
+
+/* ---------------- Workflow steps ---------------- */
+
+export const WORKFLOW_END = "$end";         // stop, workflow succeeded
+export const WORKFLOW_FAIL = "$fail";       // stop, compensate completed steps, workflow failed
+export const WORKFLOW_CONTINUE = "$continue"; // ignore the failure, go to the next step in order
+
+const StepIdSchema = z
+  .string()
+  .min(1)
+  .max(40)
+  .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "use a-z A-Z 0-9 _ (start with a letter)");
+
+/** Undo call for a completed step, run in reverse order when the workflow fails. */
+export const WorkflowCompensationSchema = z
+  .object({
+    tool: z.string().min(1),
+    /** Templated: {{args.*}}, {{steps.<id>.response.*}}, {{step.response.*}} (the step being undone) */
+    args: JsonValue.default({}),
+  })
+  .strict();
+
+export const WorkflowStepSchema = z
+  .object({
+    id: StepIdSchema,
+    /** Name of an http_tool of the same tenant */
+    tool: z.string().min(1),
+    /** Templated: {{args.*}} (workflow args), {{steps.<id>.response.*}}, {{steps.<id>.status}}, {{steps.<id>.ok}} */
+    args: JsonValue.default({}),
+    /** Template; the step is skipped when it renders "", "false", "0", "null" or nothing */
+    when: z.string().optional(),
+    /** Next step id after success (okField of the step's tool); default: the next step in order */
+    onOk: z.string().optional(),
+    /** Step id, "$continue" or "$fail" (default: compensate completed steps and stop) */
+    onFail: z.string().default(WORKFLOW_FAIL),
+    compensate: WorkflowCompensationSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Duplicate protection for the whole chain, when declared: a repeat call (same session,
+ * args or key) within ttlSec gets the completed run's reply instead of running it again.
+ */
+export const WorkflowIdempotencySchema = HttpIdempotencySchema.omit({ header: true });
+
+/* ---------------- Descriptor ---------------- */
+
+export const WorkflowToolDescriptorSchema = z.object({
+  kind: z.literal("workflow_tool"),
+  tenantId: z.string().optional(),
+  name: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[a-zA-Z0-9._-]+$/, "use a-z A-Z 0-9 . _ -"),
+  description: z.string().optional(),
+  parameters: JsonValue.default({
+    type: "object",
+    properties: {},
+    additionalProperties: true,
+  }),
+  steps: z.array(WorkflowStepSchema).min(1).max(10),
+  /**
+   * What the model (and ui.onSuccess as {{response.*}}) gets back. Templated against
+   * { args, steps }. Default: { ok, steps: { <id>: <response> } }.
+   */
+  result: JsonValue.optional(),
+  /** Wall-clock budget for the whole chain, compensation excluded */
+  timeoutMs: z.number().int().min(1000).max(120_000).default(45_000),
+  idempotency: WorkflowIdempotencySchema.optional(),
+  /** Asked once for the whole chain; confirm-required step tools run only inside a confirmed call */
+  requiresConfirmation: RequiresConfirmationSchema.optional(),
+  ui: HttpUISchema.optional(),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().optional(),
+  version: z.number().int().optional(),
+});
+
+/** Browser view: the chain itself stays server-side, like http request templates. */
+export const PublicWorkflowToolDescriptorSchema = WorkflowToolDescriptorSchema.omit({
+  steps: true,
+  result: true,
+  idempotency: true,
+});
+
+export function toPublicWorkflowToolDescriptor(d: WorkflowToolDescriptor): PublicWorkflowToolDescriptor {
+  const rest: Partial<WorkflowToolDescriptor> = { ...d };
+  delete rest.steps;
+  delete rest.result;
+  delete rest.idempotency;
+  return rest as PublicWorkflowToolDescriptor;
+}
+
+/**
+ * Graph problems zod can't express: duplicate ids and jumps to unknown steps.
+ * Returns human-readable messages (empty when the chain is well-formed).
+ */
+export function workflowGraphProblems(d: Pick<WorkflowToolDescriptor, "steps">): { path: string; message: string }[] {
+  const problems: { path: string; message: string }[] = [];
+  const ids = new Set<string>();
+  d.steps.forEach((s, i) => {
+    if (ids.has(s.id)) problems.push({ path: `steps.${i}.id`, message: `Duplicate step id "${s.id}"` });
+    ids.add(s.id);
+  });
+  d.steps.forEach((s, i) => {
+    if (s.onOk && s.onOk !== WORKFLOW_END && !ids.has(s.onOk)) {
+      problems.push({ path: `steps.${i}.onOk`, message: `Unknown step "${s.onOk}"` });
+    }
+    if (![WORKFLOW_FAIL, WORKFLOW_CONTINUE].includes(s.onFail) && !ids.has(s.onFail)) {
+      problems.push({ path: `steps.${i}.onFail`, message: `Unknown step "${s.onFail}"` });
+    }
+  });
+  return problems;
+}
+
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+export type WorkflowToolDescriptor = z.infer<typeof WorkflowToolDescriptorSchema>;
+export type PublicWorkflowToolDescriptor = z.infer<typeof PublicWorkflowToolDescriptorSchema>;
@@ -0,0 +1,81 @@
+// scripts/import-openapi.ts
+// Generate http_tool descriptors from an OpenAPI 3 JSON document.
+//   pnpm tools:import-openapi spec.json --tenant acme [--op getRoom --op "POST /bookings"]
+//     [--base-url https://api.acme.com] [--prefix acme_] [--secret apiKey=acme_key]
+//     [--list] [--out tools.json] [--save [--overwrite]]
+// Without --save the descriptors are printed (or written to --out) for review; --save
+// stores them as drafts to publish through /api/admin/tools.
+import 'dotenv/config';
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { importOpenApi, listOpenApiOperations } from '@/lib/tools/openapi-import';
+import { lintHttpToolDescriptors } from '@/lib/validator/lint-tools';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      tenant: { type: 'string' },
+      op: { type: 'string', multiple: true },
+      'base-url': { type: 'string' },
+      prefix: { type: 'string' },
+      secret: { type: 'string', multiple: true },
+      enabled: { type: 'boolean', default: false },
+      list: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      save: { type: 'boolean', default: false },
+      overwrite: { type: 'boolean', default: false },
+    },
+  });
+
+  const file = positionals[0];
+  if (!file) throw new Error('Usage: import-openapi <spec.json> --tenant <id> [options]');
+  const doc = JSON.parse(readFileSync(file, 'utf8'));
+
+  if (values.list) {
+    for (const op of listOpenApiOperations(doc, values.prefix)) {
+      console.log(`${op.supported ? ' ' : '-'} ${op.id.padEnd(32)} ${op.method.padEnd(6)} ${op.path}  -> ${op.toolName}`);
+    }
+    return;
+  }
+
+  if (!values.tenant) throw new Error('--tenant is required');
+  const secretNames = Object.fromEntries((values.secret ?? []).map((s) => s.split('=', 2)));
+  const { descriptors, skipped, warnings } = importOpenApi(doc, {
+    tenantId: values.tenant,
+    operations: values.op,
+    baseUrl: values['base-url'],
+    namePrefix: values.prefix,
+    secretNames,
+    enabled: values.enabled,
+  });
+
+  for (const s of skipped) console.error(`skipped ${s.id}: ${s.reason}`);
+  for (const w of warnings) console.error(`warning ${w.id}: ${w.message}`);
+
+  const report = lintHttpToolDescriptors(descriptors);
+  const failing = new Set<string>();
+  for (const r of report) {
+    for (const i of r.issues) {
+      console.error(`${i.severity} ${r.name} ${i.path}: ${i.message}`);
+      if (i.severity === 'error') failing.add(r.name);
+    }
+  }
+
+  if (values.out) writeFileSync(values.out, JSON.stringify(descriptors, null, 2));
+  else if (!values.save) console.log(JSON.stringify(descriptors, null, 2));
+
+  if (values.save) {
+    const { saveDrafts } = await import('@/lib/registry/toolVersions');
+    const saved = await saveDrafts(
+      values.tenant,
+      descriptors.filter((d) => !failing.has(d.name)),
+      { overwrite: values.overwrite, actor: 'cli:import-openapi', note: 'OpenAPI import' }
+    );
+    for (const s of saved) console.log(`${s.status.padEnd(8)} ${s.name}`);
+    for (const name of failing) console.log(`${'linted'.padEnd(8)} ${name} (not saved)`);
+    process.exit(0); // pooled Mongo connections would keep the process alive
+  }
+}
+
+main().catch(e => { console.error(e?.message ?? e); process.exit(1); });
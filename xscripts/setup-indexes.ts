@@ -26,6 +26,31 @@ async function main() {
     await db.collection("realtime_sessions")
         .createIndex({ emailHash: 1, active: 1 });
 
+    // tool descriptors: published set, one draft per tool, published history
+    await db.collection("action_drafts")
+        .createIndex({ tenantId: 1, name: 1 }, { unique: true });
+
+    await db.collection("action_versions")
+        .createIndex({ tenantId: 1, name: 1, version: -1 }, { unique: true });
+
+    // duplicate-call replies for /api/tools/execute, dropped once expired
+    await db.collection("tool_idempotency")
+        .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+    // tool execution log: TTL retention plus the admin query paths
+    await db.collection("tool_executions")
+        .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+    await db.collection("tool_executions")
+        .createIndex({ tenantId: 1, at: -1 });
+
+    await db.collection("tool_executions")
+        .createIndex({ tenantId: 1, tool: 1, at: -1 });
+
+    // last: fails on hand-edited duplicates, which need cleaning up first
+    await db.collection("actions")
+        .createIndex({ tenantId: 1, name: 1 }, { unique: true });
+
    } catch(e) {
      console.error('Error creating indexes:', e);
 
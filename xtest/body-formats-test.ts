@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+/**
+ * body-formats-test.ts
+ *
+ * Non-JSON request and response bodies (lib/tools/request-body, lib/tools/response-formats)
+ * through the http executor against a local upstream (xtest/fake-upstream), checking the
+ * bytes that go out and the JSON the model gets back.
+ *
+ * Usage:
+ *   pnpm test:formats
+ *
+ * Steps:
+ *   FORM       bodyFormat "form": url-encoded, bracket keys for objects, repeated keys for arrays
+ *   MULTIPART  text fields, base64 file parts and JSON parts, with our boundary in the content type
+ *   XMLBODY    xmlBodyTemplate tokens are XML-escaped; literal braces and whole-token types survive
+ *   XMLREPLY   SOAP replies are unwrapped: repeats -> arrays, @attributes, typed scalars, okField works;
+ *              entity declarations are refused and the body comes back as text
+ *   CSV        quoted fields, "" escapes, CRLF and a custom delimiter become { rows, count }
+ */
+
+import "./mock-mongo/install";
+import { createRunner, assert } from "./harness";
+import { fakeUpstream, type UpstreamReply } from "./fake-upstream";
+import { executeHttpTool, isExecutionOk, type ToolExecutionContext } from "@/lib/tools/http-executor";
+import { HttpToolDescriptorSchema } from "@/types/httpTool.schema";
+
+const ctx: ToolExecutionContext = { tenantId: "tenant-a", sessionId: "s1", traceId: "test", baseUrl: "" };
+
+const SOAP_REPLY = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:h="urn:pms">
+  <soap:Body>
+    <h:AvailabilityResponse>
+      <h:Success>true</h:Success>
+      <h:Room code="007" smoking="false"><h:Rate>120.50</h:Rate><h:Name>Sea &amp; Sun</h:Name></h:Room>
+      <h:Room code="012"><h:Rate>99</h:Rate><h:Name><![CDATA[Garden <quiet>]]></h:Name></h:Room>
+      <h:Extra code="x1">Late checkout</h:Extra>
+    </h:AvailabilityResponse>
+  </soap:Body>
+</soap:Envelope>`;
+
+const CSV_REPLY = 'unit,name,rate,notes\r\nu1,"Loft, top floor",120,"says ""hi"""\r\nu2,Garden,099,\r\n';
+
+async function main() {
+  const { step, finish } = createRunner();
+  let next: UpstreamReply = { body: { ok: true } };
+  const up = await fakeUpstream(() => next);
+  const last = () => up.requests[up.requests.length - 1];
+
+  const tool = (http: Record<string, unknown>) =>
+    HttpToolDescriptorSchema.parse({
+      kind: "http_tool",
+      name: "pms_call",
+      http: { method: "POST", urlTemplate: `${up.origin}/pms`, timeoutMs: 2000, ...http },
+    });
+
+  await step("FORM", async () => {
+    const d = tool({
+      bodyFormat: "form",
+      jsonBodyTemplate: { guest: { name: "{{args.name}}", email: "{{args.email}}" }, nights: "{{args.nights}}", extras: "{{args.extras}}", note: null },
+    });
+    await executeHttpTool(d, { name: "Ana & Rui", email: "a=b@example.com", nights: 2, extras: ["crib", "parking"] }, ctx);
+    const req = last();
+    assert(req.headers["content-type"] === "application/x-www-form-urlencoded", `content-type ${req.headers["content-type"]}`);
+    const form = new URLSearchParams(req.body);
+    assert(form.get("guest[name]") === "Ana & Rui" && form.get("guest[email]") === "a=b@example.com", `fields ${req.body}`);
+    assert(form.get("nights") === "2" && form.getAll("extras").join("|") === "crib|parking", `repeats ${req.body}`);
+    assert(!form.has("note"), "a null field was sent");
+  });
+
+  await step("MULTIPART", async () => {
+    const scan = Buffer.from("passport scan").toString("base64");
+    const d = tool({
+      bodyFormat: "multipart",
+      headers: { "content-type": "application/json" },
+      jsonBodyTemplate: {
+        reservation: "{{args.reservation}}",
+        document: { filename: "id\r\n.png", data: "{{args.scan}}", encoding: "base64", contentType: "image/png" },
+        meta: { source: "voice" },
+      },
+    });
+    await executeHttpTool(d, { reservation: "R-77", scan }, ctx);
+    const req = last();
+    const boundary = /^multipart\/form-data; boundary=(.+)$/.exec(String(req.headers["content-type"]))?.[1];
+    assert(boundary, `content-type ${req.headers["content-type"]}`);
+    const parts = req.body.split(`--${boundary}`).slice(1, -1);
+    assert(parts.length === 3 && req.body.endsWith(`--${boundary}--\r\n`), `${parts.length} parts`);
+    assert(parts[0].includes('name="reservation"\r\n\r\nR-77\r\n'), `text part ${JSON.stringify(parts[0])}`);
+    assert(parts[1].includes('filename="id  .png"\r\nContent-Type: image/png\r\n\r\npassport scan\r\n'), `file part ${JSON.stringify(parts[1])}`);
+    assert(parts[2].includes('Content-Type: application/json\r\n\r\n{"source":"voice"}'), `json part ${JSON.stringify(parts[2])}`);
+  });
+
+  await step("XMLBODY", async () => {
+    const d = tool({
+      xmlBodyTemplate:
+        '<Hold xmlns="urn:pms"><Guest>{{args.name}}</Guest><Nights>{{args.nights}}</Nights><Note>{literal} {{args.missing}}</Note></Hold>',
+    });
+    await executeHttpTool(d, { name: `<script>"O'Hara" & co</script>`, nights: 3 }, ctx);
+    const req = last();
+    assert(req.headers["content-type"] === "application/xml; charset=utf-8", `content-type ${req.headers["content-type"]}`);
+    const want =
+      '<Hold xmlns="urn:pms"><Guest>&lt;script&gt;&quot;O&apos;Hara&quot; &amp; co&lt;/script&gt;</Guest><Nights>3</Nights><Note>{literal} </Note></Hold>';
+    assert(req.body === want, `sent ${req.body}`);
+  });
+
+  await step("XMLREPLY", async () => {
+    next = { headers: { "content-type": "text/xml; charset=utf-8" }, body: SOAP_REPLY };
+    const d = tool({ okField: "AvailabilityResponse.Success", xml: { arrays: ["Extra"] } });
+    const exec = await executeHttpTool(d, {}, ctx);
+    const r = (exec.body as any).AvailabilityResponse;
+    assert(exec.json && r && isExecutionOk(exec, d.http.okField), `reply ${JSON.stringify(exec.body)}`);
+    assert(r.Success === true && Array.isArray(r.Room) && r.Room.length === 2, `rooms ${JSON.stringify(r)}`);
+    assert(r.Room[0]["@code"] === "007" && r.Room[0]["@smoking"] === false && r.Room[0].Rate === 120.5, `typed ${JSON.stringify(r.Room[0])}`);
+    assert(r.Room[0].Name === "Sea & Sun" && r.Room[1].Name === "Garden <quiet>", `text ${JSON.stringify(r.Room)}`);
+    assert(Array.isArray(r.Extra) && r.Extra[0]["#text"] === "Late checkout" && r.Extra[0]["@code"] === "x1", `arrays ${JSON.stringify(r.Extra)}`);
+
+    const raw = await executeHttpTool(tool({ responseFormat: "xml", xml: { unwrapSoap: false, stripNamespaces: false, typed: false } }), {}, ctx);
+    const env = (raw.body as any)["soap:Envelope"];
+    assert(env?.["soap:Body"]?.["h:AvailabilityResponse"]?.["h:Success"] === "true", `untyped envelope ${JSON.stringify(raw.body).slice(0, 120)}`);
+
+    next = {
+      headers: { "content-type": "application/xml" },
+      body: '<?xml version="1.0"?><!DOCTYPE r [<!ENTITY x SYSTEM "file:///etc/passwd">]><r>&x;</r>',
+    };
+    const xxe = await executeHttpTool(tool({}), {}, ctx);
+    assert(!xxe.json && typeof xxe.body === "string", `entity declaration parsed: ${JSON.stringify(xxe.body)}`);
+  });
+
+  await step("CSV", async () => {
+    next = { headers: { "content-type": "text/csv" }, body: CSV_REPLY };
+    const exec = await executeHttpTool(tool({}), {}, ctx);
+    const { rows, count } = exec.body as any;
+    assert(exec.json && count === 2, `reply ${JSON.stringify(exec.body)}`);
+    assert(JSON.stringify(rows[0]) === JSON.stringify({ unit: "u1", name: "Loft, top floor", rate: 120, notes: 'says "hi"' }), `row ${JSON.stringify(rows[0])}`);
+    assert(rows[1].rate === "099" && rows[1].notes === "", `leading zero or empty cell changed: ${JSON.stringify(rows[1])}`);
+
+    next = { headers: { "content-type": "text/plain" }, body: "u1;120\nu2;99\n" };
+    const semi = await executeHttpTool(tool({ responseFormat: "csv", csv: { delimiter: ";", header: false } }), {}, ctx);
+    assert(JSON.stringify((semi.body as any).rows) === JSON.stringify([["u1", 120], ["u2", 99]]), `rows ${JSON.stringify(semi.body)}`);
+  });
+
+  await up.close();
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+/**
+ * egress-guard-test.ts
+ *
+ * Outbound guard (lib/net/egress-guard) for tenant-authored URLs. DNS answers are
+ * scripted by replacing dns.promises.lookup, so no network is needed.
+ *
+ * Usage:
+ *   pnpm test:egress
+ *
+ * Steps:
+ *   RANGES    private, loopback, link-local/metadata, CGNAT, ULA and IPv4-mapped literals are blocked
+ *   LITERALS  URL forms of internal hosts (decimal, hex, [::ffff:...], localhost) are rejected
+ *   URLS      non-http schemes and credentials in the URL are rejected
+ *   DNS       a name with ANY private answer is rejected (round-robin slip)
+ *   REBIND    the connection is pinned to the vetted public answer; a re-resolution to a
+ *             private address is rejected when checked again (e.g. a redirect hop)
+ *   ALLOW     tenant allowlists: exact hosts and "*.suffix" only
+ *   SIZE      bodies over maxResponseBytes (declared, or counted after gunzip) abort the read;
+ *             the executor answers UPSTREAM_RESPONSE_TOO_LARGE without retrying
+ */
+
+import "./mock-mongo/install";
+import zlib from "node:zlib";
+import dnsPromises from "node:dns/promises";
+import { createRunner, assert, rejects } from "./harness";
+import { fakeUpstream, type UpstreamReply } from "./fake-upstream";
+import {
+  checkEgressTarget,
+  isBlockedAddress,
+  guardedFetch,
+  EgressBlockedError,
+  ResponseTooLargeError,
+} from "@/lib/net/egress-guard";
+import { executeHttpTool } from "@/lib/tools/http-executor";
+import type { HttpToolDescriptor } from "@/types/httpTool.schema";
+
+// name -> addresses; each lookup shifts the next answer off when a list of lists is given
+const answers = new Map<string, { address: string; family: number }[][]>();
+const realLookup = dnsPromises.lookup;
+(dnsPromises as any).lookup = async (host: string, opts: any) => {
+  const queue = answers.get(host);
+  if (!queue) return realLookup(host, opts);
+  return queue.length > 1 ? queue.shift()! : queue[0];
+};
+const v4 = (...ips: string[]) => ips.map((address) => ({ address, family: 4 }));
+
+async function blocked(url: string, policy = {}) {
+  const err = await rejects(checkEgressTarget(url, policy), `a call to ${url}`);
+  assert(err instanceof EgressBlockedError, `${url}: expected EgressBlockedError, got ${err}`);
+  return err as EgressBlockedError;
+}
+
+async function main() {
+  const { step, finish } = createRunner();
+
+  await step("RANGES", async () => {
+    const internal = [
+      "10.0.0.1", "172.16.5.4", "192.168.1.1", "127.0.0.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+      "::1", "fd00::1", "fe80::1", "::ffff:10.0.0.1", "::ffff:a9fe:a9fe", "not-an-ip",
+    ];
+    for (const ip of internal) assert(isBlockedAddress(ip), `${ip} should be blocked`);
+    for (const ip of ["93.184.216.34", "1.1.1.1", "2606:4700:4700::1111"]) assert(!isBlockedAddress(ip), `${ip} should be allowed`);
+  });
+
+  await step("LITERALS", async () => {
+    for (const url of [
+      "http://127.0.0.1/admin",
+      "http://2130706433/",
+      "http://0x7f.1/",
+      "http://[::ffff:169.254.169.254]/latest/meta-data",
+      "http://[::1]:8080/",
+      "http://localhost:4000/api/tools/execute",
+    ]) {
+      await blocked(url);
+    }
+  });
+
+  await step("URLS", async () => {
+    assert(/protocol/.test((await blocked("file:///etc/passwd")).message), "file: not rejected for its scheme");
+    assert(/Credentials/.test((await blocked("https://user:pw@api.example.com/")).message), "credentials not rejected");
+    await blocked("not a url");
+  });
+
+  await step("DNS", async () => {
+    answers.set("internal.example.test", [v4("10.1.2.3")]);
+    answers.set("mixed.example.test", [v4("93.184.216.34", "192.168.0.10")]);
+    assert(/10\.1\.2\.3/.test((await blocked("https://internal.example.test/")).message), "private answer not named");
+    await blocked("https://mixed.example.test/");
+  });
+
+  await step("REBIND", async () => {
+    answers.set("rebind.example.test", [v4("93.184.216.34"), v4("127.0.0.1")]);
+    const first = await checkEgressTarget("https://rebind.example.test/hook");
+    assert(first.address === "93.184.216.34", `pinned to ${first.address}`);
+    await blocked("https://rebind.example.test/hook");
+
+    // guardedFetch re-checks before connecting: a name that now points inside never gets a socket
+    const err = await rejects(guardedFetch("https://rebind.example.test/hook"), "a fetch after the rebind");
+    assert(err instanceof EgressBlockedError, `expected EgressBlockedError, got ${err}`);
+  });
+
+  await step("ALLOW", async () => {
+    answers.set("api.pms.example.com", [v4("93.184.216.34")]);
+    answers.set("evil-pms.example.com", [v4("93.184.216.34")]);
+    const policy = { allowedHosts: ["*.pms.example.com", "status.example.org"] };
+    await checkEgressTarget("https://api.pms.example.com/v1", policy);
+    assert(/allowlist/.test((await blocked("https://evil-pms.example.com/", policy)).message), "suffix match too loose");
+    await blocked("https://pms.example.com.attacker.test/", policy);
+  });
+
+  await step("SIZE", async () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(256 * 1024));
+    const up = await fakeUpstream((req): UpstreamReply =>
+      req.path === "/gzip"
+        ? { headers: { "content-encoding": "gzip", "content-type": "text/plain" }, body: bomb }
+        : { headers: { "content-type": "text/plain" }, body: "x".repeat(4096) }
+    );
+    try {
+      const ok = await guardedFetch(`${up.origin}/plain`, {}, { maxResponseBytes: 8192 });
+      assert((await ok.text()).length === 4096, "body under the cap was cut");
+
+      const declared = await rejects(guardedFetch(`${up.origin}/plain`, {}, { maxResponseBytes: 1024 }), "a body over the cap");
+      assert(declared instanceof ResponseTooLargeError && declared.limit === 1024, `expected ResponseTooLargeError, got ${declared}`);
+      assert(bomb.length < 1024, "test body should be small on the wire");
+      const inflated = await rejects(guardedFetch(`${up.origin}/gzip`, {}, { maxResponseBytes: 64 * 1024 }), "a gzip body inflating past the cap");
+      assert(inflated instanceof ResponseTooLargeError, `expected ResponseTooLargeError, got ${inflated}`);
+
+      const tool = {
+        kind: "http_tool",
+        name: "unit_photos",
+        parameters: {},
+        http: { method: "GET", urlTemplate: `${up.origin}/plain`, timeoutMs: 2000, maxResponseBytes: 1024, retry: { maxAttempts: 3 } },
+      } as HttpToolDescriptor;
+      const before = up.requests.length;
+      const exec = await executeHttpTool(tool, {}, { tenantId: "tenant-a", traceId: "test", baseUrl: "" });
+      assert(exec.failure === "UPSTREAM_RESPONSE_TOO_LARGE" && exec.status === 502, `unexpected execution ${JSON.stringify(exec)}`);
+      assert((exec.body as any).retryable === false && up.requests.length - before === 1, "an oversized reply was retried");
+    } finally {
+      await up.close();
+    }
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
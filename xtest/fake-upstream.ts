@@ -0,0 +1,70 @@
+/**
+ * xtest/fake-upstream
+ *
+ * A tenant's upstream API for the executor tests, reached through the real egress guard:
+ * UPSTREAM_HOST resolves (scripted dns.promises.lookup) to a public address, so the guard
+ * passes it, and the connection pinned to that address is sent to a loopback server
+ * instead. Every request is recorded; `reply` decides the answer.
+ */
+
+import http from "node:http";
+import dnsPromises from "node:dns/promises";
+import type { AddressInfo } from "node:net";
+
+export const UPSTREAM_HOST = "upstream.example.test";
+
+export type UpstreamRequest = { method: string; path: string; headers: http.IncomingHttpHeaders; body: string };
+export type UpstreamReply = { status?: number; headers?: Record<string, string>; body?: unknown };
+
+let installed = false;
+
+/** Route UPSTREAM_HOST to the loopback server; the rest of the world is untouched */
+function install() {
+  if (installed) return;
+  installed = true;
+
+  const realLookup = dnsPromises.lookup;
+  (dnsPromises as any).lookup = async (host: string, opts: any) =>
+    host === UPSTREAM_HOST ? [{ address: "93.184.216.34", family: 4 }] : realLookup(host, opts);
+
+  const loopback = (_host: string, opts: any, cb: any) =>
+    opts?.all ? cb(null, [{ address: "127.0.0.1", family: 4 }]) : cb(null, "127.0.0.1", 4);
+  const realRequest = http.request;
+  (http as any).request = (url: any, opts: any, cb: any) =>
+    url instanceof URL && url.hostname === UPSTREAM_HOST
+      ? realRequest(url, { ...opts, lookup: loopback }, cb)
+      : realRequest(url, opts, cb);
+}
+
+/**
+ * Start an upstream. `reply` gets each request; object bodies are sent as JSON, strings
+ * and Buffers as they are. `origin` is the base URL to put in descriptors.
+ */
+export async function fakeUpstream(reply: (req: UpstreamRequest) => UpstreamReply | Promise<UpstreamReply> = () => ({})) {
+  install();
+  const requests: UpstreamRequest[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const c of req) chunks.push(c as Buffer);
+    const recorded = { method: req.method ?? "GET", path: req.url ?? "/", headers: req.headers, body: Buffer.concat(chunks).toString("utf8") };
+    requests.push(recorded);
+
+    const out = await reply(recorded);
+    const raw = typeof out.body === "string" || Buffer.isBuffer(out.body);
+    const headers = { ...(raw || out.body === undefined ? {} : { "content-type": "application/json" }), ...out.headers };
+    res.writeHead(out.status ?? 200, headers);
+    res.end(out.body === undefined ? undefined : raw ? (out.body as string | Buffer) : JSON.stringify(out.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://${UPSTREAM_HOST}:${port}`,
+    requests,
+    /** The last request's body parsed as JSON */
+    lastJson: () => JSON.parse(requests[requests.length - 1]?.body || "null"),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env tsx
+/**
+ * graphql-tool-test.ts
+ *
+ * graphql_tool execution (lib/tools/graphql-executor) through the http executor against a
+ * local upstream (xtest/fake-upstream), checking the request that goes out and the reply.
+ *
+ * Usage:
+ *   pnpm test:graphql
+ *
+ * Steps:
+ *   DOCUMENT  the query goes out byte for byte (selection sets intact) with operationName
+ *   TEMPLATE  endpoint, headers and variables are templated; whole tokens keep their type
+ *   DATA      `data` (or dataPath inside it) becomes { ok: true, ... }
+ *   ERRORS    `errors` become { ok: false } with the errorMap message; partial data is a warning when allowed
+ *   DRYRUN    the dry-run render shows the same document and variables
+ */
+
+import "./mock-mongo/install";
+import { createRunner, assert } from "./harness";
+import { fakeUpstream } from "./fake-upstream";
+import { executeGraphqlTool } from "@/lib/tools/graphql-executor";
+import { dryRunTool } from "@/lib/tools/dry-run";
+import { GraphqlToolDescriptorSchema, type GraphqlToolDescriptor } from "@/types/graphqlTool.schema";
+import type { ToolExecutionContext } from "@/lib/tools/http-executor";
+
+const DOCUMENT = `query Avail($from: String!, $guests: Int) {
+  availability(from: $from, guests: $guests) { id name rate { amount currency } }
+}
+query Ping { ping }`;
+
+const ctx: ToolExecutionContext = { tenantId: "tenant-a", sessionId: "s1", traceId: "test", baseUrl: "" };
+
+const availTool = (origin: string, over: Partial<GraphqlToolDescriptor["graphql"]> = {}) =>
+  GraphqlToolDescriptorSchema.parse({
+    kind: "graphql_tool",
+    name: "check_availability",
+    graphql: {
+      endpoint: `${origin}/{{args.property}}/graphql`,
+      query: DOCUMENT,
+      operationName: "Avail",
+      variables: { from: "{{args.from}}", guests: "{{args.guests}}" },
+      headers: { "x-property": "{{args.property}}" },
+      dataPath: "availability",
+      ...over,
+    },
+  });
+
+async function main() {
+  const { step, finish } = createRunner();
+  const availability = [{ id: "u1", name: "Sea view", rate: { amount: 120, currency: "EUR" } }];
+  let next: { status?: number; body?: unknown } = { body: { data: { availability } } };
+  const up = await fakeUpstream(() => next);
+  const args = { property: "harbour", from: "2026-11-01", guests: 2 };
+
+  await step("DOCUMENT", async () => {
+    await executeGraphqlTool(availTool(up.origin), args, ctx);
+    const sent = up.lastJson();
+    assert(sent.query === DOCUMENT, `document changed on the way out:\n${sent.query}`);
+    assert(sent.operationName === "Avail", `operationName ${sent.operationName}`);
+    assert(up.requests[0].method === "POST", `method ${up.requests[0].method}`);
+    assert(/application\/json/.test(String(up.requests[0].headers["content-type"])), "not sent as JSON");
+  });
+
+  await step("TEMPLATE", async () => {
+    const req = up.requests[up.requests.length - 1];
+    assert(req.path === "/harbour/graphql", `endpoint ${req.path}`);
+    assert(req.headers["x-property"] === "harbour", `header ${req.headers["x-property"]}`);
+    const { variables } = up.lastJson();
+    assert(variables.from === "2026-11-01" && variables.guests === 2, `variables ${JSON.stringify(variables)}`);
+
+    // an arg that looks like a template is data, not a template
+    await executeGraphqlTool(availTool(up.origin), { ...args, from: "{args.property}" }, ctx);
+    assert(up.lastJson().variables.from === "{args.property}", "arg value was templated again");
+  });
+
+  await step("DATA", async () => {
+    const exec = await executeGraphqlTool(availTool(up.origin), args, ctx);
+    const body = exec.body as any;
+    assert(exec.status === 200 && body.ok === true, `reply ${JSON.stringify(body)}`);
+    assert(JSON.stringify(body.data) === JSON.stringify(availability), `dataPath not applied: ${JSON.stringify(body)}`);
+  });
+
+  await step("ERRORS", async () => {
+    next = { body: { data: null, errors: [{ message: "Property harbour is closed", extensions: { code: "CLOSED" } }] } };
+    const mapped = availTool(up.origin, { errorMap: [{ code: "CLOSED", error: "{{args.property}} is closed that week", retryable: false }] });
+    const failed = (await executeGraphqlTool(mapped, args, ctx)).body as any;
+    assert(failed.ok === false && failed.code === "CLOSED", `reply ${JSON.stringify(failed)}`);
+    assert(failed.error === "harbour is closed that week", `errorMap message ${failed.error}`);
+
+    next = { body: { data: { availability }, errors: [{ message: "rates stale", path: ["availability", 0, "rate"] }] } };
+    const strict = (await executeGraphqlTool(availTool(up.origin), args, ctx)).body as any;
+    assert(strict.ok === false, "partial data accepted without allowPartialData");
+    const partial = (await executeGraphqlTool(availTool(up.origin, { allowPartialData: true }), args, ctx)).body as any;
+    assert(partial.ok === true && partial.warnings?.[0]?.message === "rates stale", `reply ${JSON.stringify(partial)}`);
+  });
+
+  await step("DRYRUN", async () => {
+    const { graphql } = availTool(up.origin);
+    const result = await dryRunTool({ kind: "graphql_tool", name: "check_availability", graphql }, args, { mode: "render", exec: ctx });
+    const body = result.request?.body as any;
+    assert(body?.query === DOCUMENT, `dry run shows ${JSON.stringify(result.request)}`);
+    assert(body.variables.from === "2026-11-01", `dry run variables ${JSON.stringify(body.variables)}`);
+  });
+
+  await up.close();
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+/**
+ * Tiny step runner shared by the behaviour tests in xtest/ (same output as realtime-e2e):
+ * PASS/FAIL per step, a summary, exit code 1 on any failure.
+ */
+
+export type StepResult = [name: string, ok: boolean, error?: string];
+
+export function createRunner() {
+  const results: StepResult[] = [];
+
+  const step = async (name: string, fn: () => Promise<void> | void) => {
+    try {
+      await fn();
+      results.push([name, true]);
+      console.log(`PASS ${name}`);
+    } catch (e: any) {
+      results.push([name, false, e?.message || String(e)]);
+      console.error(`FAIL ${name}: ${e?.message || e}`);
+    }
+  };
+
+  const finish = () => {
+    const failed = results.filter(([, ok]) => !ok);
+    console.log(`------ SUMMARY ------\n${results.length - failed.length}/${results.length} passed`);
+    process.exit(failed.length ? 1 : 0);
+  };
+
+  return { step, finish };
+}
+
+export function assert(cond: unknown, message: string): asserts cond {
+  if (!cond) throw new Error(message);
+}
+
+/** Resolves to the error the promise rejects with; throws if it resolves */
+export async function rejects(p: Promise<unknown>, what: string): Promise<any> {
+  try {
+    await p;
+  } catch (e) {
+    return e;
+  }
+  throw new Error(`expected ${what} to fail`);
+}
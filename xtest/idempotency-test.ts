@@ -0,0 +1,187 @@
+#!/usr/bin/env tsx
+/**
+ * idempotency-test.ts
+ *
+ * Duplicate-call protection (lib/tools/idempotency) against the in-memory Mongo
+ * stand-in (xtest/mock-mongo). `run` stands in for the upstream call.
+ *
+ * Usage:
+ *   pnpm test:idempotency
+ *
+ * Steps:
+ *   OPTIN      a write tool without an idempotency block is never deduplicated
+ *   REPLAY     a repeat call gets the stored reply; the upstream runs once
+ *   INFLIGHT   a duplicate of a running call waits for it and gets its reply
+ *   RELEASED   when the first call fails (5xx, not stored) a waiting duplicate claims the key and runs
+ *   SCOPE      other sessions, other args and GET tools are not deduplicated; key templates pick args
+ *   GRAPHQL    a graphql mutation is deduplicated and sends its key upstream; a query never is
+ *   WORKFLOW   a completed workflow run is replayed, a failed (compensated) one runs again
+ */
+
+import "./mock-mongo/install";
+import { createRunner, assert } from "./harness";
+import { fakeUpstream } from "./fake-upstream";
+import { withIdempotency, withWorkflowIdempotency } from "@/lib/tools/idempotency";
+import { executeGraphqlTool, graphqlAsHttpDescriptor } from "@/lib/tools/graphql-executor";
+import type { ToolExecution, ToolExecutionContext } from "@/lib/tools/http-executor";
+import { HttpIdempotencySchema, type HttpToolDescriptor } from "@/types/httpTool.schema";
+import { GraphqlToolDescriptorSchema } from "@/types/graphqlTool.schema";
+import { WorkflowIdempotencySchema, type WorkflowToolDescriptor } from "@/types/workflowTool.schema";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** A write tool that opts in (`idempotency: {}` unless given); null leaves the block out */
+const holdTool = (over: Partial<HttpToolDescriptor["http"]> = {}, idempotency: object | null = {}) =>
+  ({
+    kind: "http_tool",
+    name: "hold_unit",
+    parameters: {},
+    http: { method: "POST", urlTemplate: "https://pms.example.com/holds", timeoutMs: 2000, ...over },
+    ...(idempotency ? { idempotency: HttpIdempotencySchema.parse(idempotency) } : {}),
+  }) as HttpToolDescriptor;
+
+const ctx = (sessionId = "session-1"): ToolExecutionContext => ({ tenantId: "tenant-a", sessionId, traceId: "test", baseUrl: "" });
+
+/** Upstream stand-in: counts calls, answers `status` after `delayMs` */
+function upstream(status = 201, delayMs = 0) {
+  const seen: (string | null)[] = [];
+  const run = async (key: string | null): Promise<ToolExecution> => {
+    seen.push(key);
+    if (delayMs) await sleep(delayMs);
+    return status >= 500
+      ? { status, body: { ok: false, error: "PMS down" }, json: true, attempts: 1, failure: "UPSTREAM_UNAVAILABLE" }
+      : { status, body: { ok: true, holdId: `h${seen.length}` }, json: true, attempts: 1 };
+  };
+  return { run, seen };
+}
+
+async function main() {
+  const { step, finish } = createRunner();
+
+  await step("OPTIN", async () => {
+    const up = upstream();
+    const a = await withIdempotency(holdTool({}, null), { unit: "A" }, ctx(), up.run);
+    const b = await withIdempotency(holdTool({}, null), { unit: "A" }, ctx(), up.run);
+    assert(up.seen.length === 2 && up.seen.every((k) => k === null), `deduplicated without a block: ${JSON.stringify(up.seen)}`);
+    assert(!a.replayed && !b.replayed, "a call was marked as replayed");
+
+    const paused = upstream();
+    await withIdempotency(holdTool({}, { enabled: false }), { unit: "A" }, ctx(), paused.run);
+    await withIdempotency(holdTool({}, { enabled: false }), { unit: "A" }, ctx(), paused.run);
+    assert(paused.seen.length === 2, "enabled: false still deduplicated");
+  });
+
+  await step("REPLAY", async () => {
+    const up = upstream();
+    const first = await withIdempotency(holdTool(), { unit: "A" }, ctx(), up.run);
+    const second = await withIdempotency(holdTool(), { unit: "A" }, ctx(), up.run);
+    assert(up.seen.length === 1, `upstream ran ${up.seen.length} times`);
+    assert(typeof up.seen[0] === "string" && up.seen[0].length === 64, "no key passed upstream");
+    assert(!first.replayed && second.replayed, "second call not marked as replayed");
+    assert(JSON.stringify(second.exec.body) === JSON.stringify(first.exec.body) && second.exec.status === 201, "replay differs");
+  });
+
+  await step("INFLIGHT", async () => {
+    const up = upstream(201, 400);
+    const a = withIdempotency(holdTool(), { unit: "B" }, ctx(), up.run);
+    await sleep(50);
+    const b = withIdempotency(holdTool(), { unit: "B" }, ctx(), up.run);
+    const [ra, rb] = await Promise.all([a, b]);
+    assert(up.seen.length === 1, `upstream ran ${up.seen.length} times`);
+    assert(rb.replayed && (rb.exec.body as any).holdId === (ra.exec.body as any).holdId, "duplicate did not get the first reply");
+  });
+
+  await step("RELEASED", async () => {
+    const failing = upstream(502, 400);
+    const healthy = upstream(201);
+    const a = withIdempotency(holdTool(), { unit: "C" }, ctx(), failing.run);
+    await sleep(50);
+    const b = withIdempotency(holdTool(), { unit: "C" }, ctx(), healthy.run);
+    const [ra, rb] = await Promise.all([a, b]);
+    assert(ra.exec.status === 502 && rb.exec.status === 201, `statuses ${ra.exec.status}/${rb.exec.status}`);
+    assert(!rb.replayed && healthy.seen.length === 1, "duplicate did not run after the key was released");
+    assert(healthy.seen[0] === failing.seen[0], "the retry should send the same key upstream");
+  });
+
+  await step("SCOPE", async () => {
+    const up = upstream();
+    await withIdempotency(holdTool(), { unit: "D" }, ctx("session-1"), up.run);
+    await withIdempotency(holdTool(), { unit: "D" }, ctx("session-2"), up.run);
+    await withIdempotency(holdTool(), { unit: "E" }, ctx("session-1"), up.run);
+    assert(up.seen.length === 3, `expected 3 upstream calls across sessions/args, saw ${up.seen.length}`);
+
+    const get = upstream(200);
+    await withIdempotency(holdTool({ method: "GET" }), { unit: "F" }, ctx(), get.run);
+    await withIdempotency(holdTool({ method: "GET" }), { unit: "F" }, ctx(), get.run);
+    assert(get.seen.length === 2 && get.seen[0] === null, "GET tools must not be deduplicated");
+
+    const keyed = upstream();
+    const tool = holdTool({}, { key: "{{args.unit}}" });
+    await withIdempotency(tool, { unit: "G", note: "first" }, ctx(), keyed.run);
+    const again = await withIdempotency(tool, { unit: "G", note: "second" }, ctx(), keyed.run);
+    assert(keyed.seen.length === 1 && again.replayed, "key template should ignore args outside the key");
+  });
+
+  await step("GRAPHQL", async () => {
+    const up = await fakeUpstream(() => ({ body: { data: { hold: { id: `h${up.requests.length}` } } } }));
+    const gql = (query: string) =>
+      GraphqlToolDescriptorSchema.parse({
+        kind: "graphql_tool",
+        name: "hold_unit",
+        graphql: { endpoint: `${up.origin}/graphql`, query, variables: { unit: "{{args.unit}}" } },
+        idempotency: {},
+      });
+    const call = (d: ReturnType<typeof gql>) => {
+      const http = graphqlAsHttpDescriptor(d);
+      assert(typeof http !== "string", `invalid document: ${http}`);
+      return withIdempotency(http as HttpToolDescriptor, { unit: "J" }, ctx(), (idempotencyKey) =>
+        executeGraphqlTool(d, { unit: "J" }, { ...ctx(), idempotencyKey })
+      );
+    };
+
+    const sent = () => up.requests.length;
+    try {
+      const mutation = gql("mutation Hold($unit: ID!) { hold(unit: $unit) { id } }");
+      const first = await call(mutation);
+      const second = await call(mutation);
+      assert(sent() === 1 && second.replayed, `mutation reached the upstream ${sent()} times`);
+      assert(JSON.stringify(second.exec.body) === JSON.stringify(first.exec.body), "replay differs");
+      assert(String(up.requests[0].headers["idempotency-key"] ?? "").length === 64, "no Idempotency-Key sent upstream");
+
+      const query = gql("query Hold($unit: ID!) { hold(unit: $unit) { id } }");
+      await call(query);
+      const again = await call(query);
+      assert(sent() === 3 && !again.replayed, "a query was deduplicated");
+    } finally {
+      await up.close();
+    }
+  });
+
+  await step("WORKFLOW", async () => {
+    const wf = {
+      kind: "workflow_tool",
+      name: "book_stay",
+      steps: [],
+      timeoutMs: 5000,
+      idempotency: WorkflowIdempotencySchema.parse({}),
+    } as unknown as WorkflowToolDescriptor;
+    const calls: number[] = [];
+    const runs = () => calls.length;
+    const ok = async (): Promise<ToolExecution> => ({ status: 200, body: { ok: true, run: calls.push(1) }, json: true, attempts: 0 });
+    await withWorkflowIdempotency(wf, { unit: "H" }, ctx(), ok);
+    const replay = await withWorkflowIdempotency(wf, { unit: "H" }, ctx(), ok);
+    assert(runs() === 1 && replay.replayed, "completed workflow not replayed");
+
+    const failed = async (): Promise<ToolExecution> => ({ status: 409, body: { ok: false, run: calls.push(1) }, json: true, attempts: 0 });
+    await withWorkflowIdempotency(wf, { unit: "I" }, ctx(), failed);
+    const retry = await withWorkflowIdempotency(wf, { unit: "I" }, ctx(), failed);
+    assert(runs() === 3 && !retry.replayed, "a failed workflow run should not be replayed");
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,346 @@
+/**
+ * xtest/mock-mongo
+ *
+ * In-memory stand-in for the slice of the MongoDB driver the server modules use (vault,
+ * idempotency, tool versions, ...), so their behaviour tests run offline without a mongod.
+ * installMockMongo() points "@/db/connections" at it; import it before the module under test.
+ *
+ * Supported: insertOne/Many, find (projection, sort, skip, limit), findOne, updateOne/Many,
+ * replaceOne, deleteOne/Many, findOneAndUpdate/Replace, countDocuments, createIndex (unique),
+ * aggregate ($match $sort $skip $limit $project stages).
+ * Filters: equality on dot paths, $eq $ne $gt $gte $lt $lte $in $nin $exists $or $and.
+ * Updates: $set $unset $inc $setOnInsert $push, or a replacement document.
+ */
+
+import Module from "module";
+import { ObjectId } from "mongodb";
+
+type Doc = Record<string, any>;
+
+export class DuplicateKeyError extends Error {
+  code = 11000;
+  constructor(coll: string, key: Doc) {
+    super(`E11000 duplicate key error collection: ${coll} dup key: ${JSON.stringify(key)}`);
+  }
+}
+
+const clone = <T>(v: T): T => structuredClone(v);
+
+function getPath(doc: any, path: string): any {
+  return path.split(".").reduce((acc, k) => (acc == null ? undefined : acc[k]), doc);
+}
+
+function setPath(doc: any, path: string, value: any) {
+  const keys = path.split(".");
+  let cur = doc;
+  for (const k of keys.slice(0, -1)) cur = cur[k] ??= {};
+  cur[keys[keys.length - 1]] = value;
+}
+
+function unsetPath(doc: any, path: string) {
+  const keys = path.split(".");
+  const parent = keys.length > 1 ? getPath(doc, keys.slice(0, -1).join(".")) : doc;
+  if (parent && typeof parent === "object") delete parent[keys[keys.length - 1]];
+}
+
+function cmp(a: any, b: any): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  if (x === y) return 0;
+  if (x == null) return -1;
+  if (y == null) return 1;
+  return x < y ? -1 : 1;
+}
+
+function same(a: any, b: any): boolean {
+  if (a instanceof ObjectId || b instanceof ObjectId) return String(a) === String(b);
+  if (a instanceof Date || b instanceof Date) return cmp(a, b) === 0;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const isOperatorObject = (v: any) =>
+  v && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date) && !(v instanceof ObjectId) &&
+  Object.keys(v).length > 0 && Object.keys(v).every((k) => k.startsWith("$"));
+
+function matchValue(actual: any, cond: any): boolean {
+  if (isOperatorObject(cond)) {
+    return Object.entries(cond).every(([op, v]: [string, any]) => {
+      switch (op) {
+        case "$eq": return matchValue(actual, v);
+        case "$ne": return !matchValue(actual, v);
+        case "$gt": return actual != null && cmp(actual, v) > 0;
+        case "$gte": return actual != null && cmp(actual, v) >= 0;
+        case "$lt": return actual != null && cmp(actual, v) < 0;
+        case "$lte": return actual != null && cmp(actual, v) <= 0;
+        case "$in": return (v as any[]).some((x) => matchValue(actual, x));
+        case "$nin": return !(v as any[]).some((x) => matchValue(actual, x));
+        case "$exists": return (actual !== undefined) === Boolean(v);
+        default: throw new Error(`mock-mongo: unsupported operator ${op}`);
+      }
+    });
+  }
+  if (Array.isArray(actual) && !Array.isArray(cond)) return actual.some((x) => same(x, cond));
+  if (actual === undefined && cond === null) return true;
+  return same(actual, cond);
+}
+
+export function matches(doc: Doc, filter: Doc = {}): boolean {
+  return Object.entries(filter).every(([k, cond]) => {
+    if (k === "$or") return (cond as Doc[]).some((f) => matches(doc, f));
+    if (k === "$and") return (cond as Doc[]).every((f) => matches(doc, f));
+    return matchValue(getPath(doc, k), cond);
+  });
+}
+
+function project(doc: Doc, projection?: Doc): Doc {
+  if (!projection || !Object.keys(projection).length) return clone(doc);
+  const entries = Object.entries(projection);
+  const including = entries.some(([k, v]) => k !== "_id" && v);
+  if (!including) {
+    const out = clone(doc);
+    for (const [k, v] of entries) if (!v) unsetPath(out, k);
+    return out;
+  }
+  const out: Doc = {};
+  if (projection._id !== 0 && projection._id !== false && doc._id !== undefined) out._id = clone(doc._id);
+  for (const [k, v] of entries) {
+    if (k === "_id" || !v) continue;
+    const val = getPath(doc, k);
+    if (val !== undefined) setPath(out, k, clone(val));
+  }
+  return out;
+}
+
+function applyUpdate(doc: Doc, update: Doc, inserting: boolean): Doc {
+  const ops = Object.keys(update);
+  if (!ops.some((k) => k.startsWith("$"))) return { _id: doc._id, ...clone(update) };
+  const out = clone(doc);
+  for (const [op, fields] of Object.entries(update) as [string, Doc][]) {
+    for (const [path, value] of Object.entries(fields)) {
+      switch (op) {
+        case "$set": setPath(out, path, clone(value)); break;
+        case "$setOnInsert": if (inserting) setPath(out, path, clone(value)); break;
+        case "$unset": unsetPath(out, path); break;
+        case "$inc": setPath(out, path, (getPath(out, path) ?? 0) + value); break;
+        case "$push": setPath(out, path, [...(getPath(out, path) ?? []), clone(value)]); break;
+        default: throw new Error(`mock-mongo: unsupported update ${op}`);
+      }
+    }
+  }
+  return out;
+}
+
+/** Equality fields of a filter: what an upsert inserts before applying the update */
+function seedFromFilter(filter: Doc): Doc {
+  const out: Doc = {};
+  for (const [k, v] of Object.entries(filter)) {
+    if (k.startsWith("$")) continue;
+    if (isOperatorObject(v)) {
+      if ("$eq" in v) setPath(out, k, clone(v.$eq));
+    } else setPath(out, k, clone(v));
+  }
+  return out;
+}
+
+class MockCursor<T extends Doc> {
+  private _sort: [string, 1 | -1][] = [];
+  private _skip = 0;
+  private _limit = 0;
+
+  constructor(private docs: () => Doc[], private projection?: Doc) {}
+
+  sort(spec: Record<string, 1 | -1>) { this._sort = Object.entries(spec); return this; }
+  skip(n: number) { this._skip = n; return this; }
+  limit(n: number) { this._limit = n; return this; }
+  project(p: Doc) { this.projection = p; return this; }
+
+  async toArray(): Promise<T[]> {
+    let rows = this.docs();
+    if (this._sort.length) {
+      rows = [...rows].sort((a, b) => {
+        for (const [k, dir] of this._sort) {
+          const c = cmp(getPath(a, k), getPath(b, k));
+          if (c) return c * dir;
+        }
+        return 0;
+      });
+    }
+    rows = rows.slice(this._skip, this._limit ? this._skip + this._limit : undefined);
+    return rows.map((d) => project(d, this.projection) as T);
+  }
+}
+
+export class MockCollection<T extends Doc = Doc> {
+  docs: Doc[] = [];
+  private unique: string[][] = [];
+
+  constructor(public collectionName: string) {}
+
+  private checkUnique(candidate: Doc, except?: Doc) {
+    for (const keys of [["_id"], ...this.unique]) {
+      const clash = this.docs.find((d) => d !== except && keys.every((k) => same(getPath(d, k), getPath(candidate, k))));
+      if (clash) throw new DuplicateKeyError(this.collectionName, Object.fromEntries(keys.map((k) => [k, getPath(candidate, k)])));
+    }
+  }
+
+  async createIndex(keys: Record<string, any>, opts: { unique?: boolean } = {}) {
+    if (opts.unique) this.unique.push(Object.keys(keys));
+    return Object.keys(keys).join("_");
+  }
+
+  async insertOne(doc: T) {
+    const row = { _id: new ObjectId(), ...clone(doc) };
+    this.checkUnique(row);
+    this.docs.push(row);
+    (doc as Doc)._id ??= row._id;
+    return { acknowledged: true, insertedId: row._id };
+  }
+
+  async insertMany(docs: T[]) {
+    const ids = [];
+    for (const d of docs) ids.push((await this.insertOne(d)).insertedId);
+    return { acknowledged: true, insertedCount: ids.length, insertedIds: ids };
+  }
+
+  find(filter: Doc = {}, opts: { projection?: Doc } = {}) {
+    return new MockCursor<T>(() => this.docs.filter((d) => matches(d, filter)), opts.projection);
+  }
+
+  async findOne(filter: Doc = {}, opts: { projection?: Doc } = {}): Promise<T | null> {
+    const d = this.docs.find((x) => matches(x, filter));
+    return d ? (project(d, opts.projection) as T) : null;
+  }
+
+  aggregate(pipeline: Doc[] = [], _opts: Doc = {}) {
+    const run = async () => {
+      let rows = this.docs.map((d) => clone(d));
+      for (const stage of pipeline) {
+        const [op, arg] = Object.entries(stage)[0];
+        switch (op) {
+          case "$match": rows = rows.filter((d) => matches(d, arg)); break;
+          case "$sort": rows = await new MockCursor(() => rows).sort(arg).toArray(); break;
+          case "$skip": rows = rows.slice(arg); break;
+          case "$limit": rows = rows.slice(0, arg); break;
+          case "$project": rows = rows.map((d) => project(d, arg)); break;
+          default: throw new Error(`mock-mongo: unsupported stage ${op}`);
+        }
+      }
+      return rows as T[];
+    };
+    return { toArray: run };
+  }
+
+  async countDocuments(filter: Doc = {}) {
+    return this.docs.filter((d) => matches(d, filter)).length;
+  }
+
+  private upsertOrUpdate(filter: Doc, update: Doc, upsert: boolean, many: boolean) {
+    const hits = this.docs.filter((d) => matches(d, filter));
+    const targets = many ? hits : hits.slice(0, 1);
+    for (const d of targets) {
+      const next = applyUpdate(d, update, false);
+      this.checkUnique(next, d);
+      this.docs[this.docs.indexOf(d)] = next;
+    }
+    if (!targets.length && upsert) {
+      const row = applyUpdate({ _id: new ObjectId(), ...seedFromFilter(filter) }, update, true);
+      row._id ??= new ObjectId();
+      this.checkUnique(row);
+      this.docs.push(row);
+      return { before: null, after: row, matchedCount: 0, modifiedCount: 0, upsertedId: row._id };
+    }
+    return {
+      before: hits[0] ?? null,
+      after: targets[0] ? this.docs.find((d) => same(d._id, targets[0]._id)) ?? null : null,
+      matchedCount: targets.length,
+      modifiedCount: targets.length,
+      upsertedId: null,
+    };
+  }
+
+  async updateOne(filter: Doc, update: Doc, opts: { upsert?: boolean } = {}) {
+    const { matchedCount, modifiedCount, upsertedId } = this.upsertOrUpdate(filter, update, !!opts.upsert, false);
+    return { acknowledged: true, matchedCount, modifiedCount, upsertedId, upsertedCount: upsertedId ? 1 : 0 };
+  }
+
+  async updateMany(filter: Doc, update: Doc, opts: { upsert?: boolean } = {}) {
+    const { matchedCount, modifiedCount, upsertedId } = this.upsertOrUpdate(filter, update, !!opts.upsert, true);
+    return { acknowledged: true, matchedCount, modifiedCount, upsertedId, upsertedCount: upsertedId ? 1 : 0 };
+  }
+
+  async replaceOne(filter: Doc, replacement: T, opts: { upsert?: boolean } = {}) {
+    return this.updateOne(filter, replacement, opts);
+  }
+
+  async findOneAndUpdate(
+    filter: Doc,
+    update: Doc,
+    opts: { upsert?: boolean; returnDocument?: "before" | "after"; projection?: Doc } = {}
+  ): Promise<T | null> {
+    const r = this.upsertOrUpdate(filter, update, !!opts.upsert, false);
+    const d = opts.returnDocument === "after" ? r.after : r.before;
+    return d ? (project(d, opts.projection) as T) : null;
+  }
+
+  async findOneAndReplace(filter: Doc, replacement: T, opts: { upsert?: boolean; returnDocument?: "before" | "after" } = {}) {
+    return this.findOneAndUpdate(filter, replacement, opts);
+  }
+
+  async deleteOne(filter: Doc = {}) {
+    const i = this.docs.findIndex((d) => matches(d, filter));
+    if (i >= 0) this.docs.splice(i, 1);
+    return { acknowledged: true, deletedCount: i >= 0 ? 1 : 0 };
+  }
+
+  async deleteMany(filter: Doc = {}) {
+    const before = this.docs.length;
+    this.docs = this.docs.filter((d) => !matches(d, filter));
+    return { acknowledged: true, deletedCount: before - this.docs.length };
+  }
+}
+
+export class MockDb {
+  private collections = new Map<string, MockCollection>();
+
+  constructor(public databaseName: string) {}
+
+  collection<T extends Doc = Doc>(name: string): MockCollection<T> {
+    let c = this.collections.get(name);
+    if (!c) this.collections.set(name, (c = new MockCollection(name)));
+    return c as unknown as MockCollection<T>;
+  }
+
+  /** Forget every collection (between test steps) */
+  reset() {
+    this.collections.clear();
+  }
+}
+
+const databases = new Map<string, MockDb>();
+
+export function mockDb(name = process.env.MAINDBNAME || "test"): MockDb {
+  let db = databases.get(name);
+  if (!db) databases.set(name, (db = new MockDb(name)));
+  return db;
+}
+
+/** Stand-in for the default export of "@/db/connections" */
+export default async function getMockMongoConnection(_url: string, dbName: string) {
+  return { client: { close: async () => {} }, db: mockDb(dbName) as any };
+}
+
+let installed = false;
+
+/** Route "@/db/connections" to this module for everything required after the call */
+export function installMockMongo() {
+  if (installed) return;
+  installed = true;
+  process.env.DB ??= "mongodb://mock-mongo";
+  process.env.MAINDBNAME ??= "test";
+  const M = Module as any;
+  const resolve = M._resolveFilename;
+  M._resolveFilename = function (request: string, ...rest: any[]) {
+    if (request === "@/db/connections") return __filename;
+    return resolve.call(this, request, ...rest);
+  };
+}
@@ -0,0 +1,4 @@
+// Side-effect import for behaviour tests: must come before any import that reaches "@/db/connections"
+import { installMockMongo } from "./index";
+
+installMockMongo();
@@ -0,0 +1,308 @@
+#!/usr/bin/env tsx
+/**
+ * mock-realtime/server.ts
+ *
+ * Scripted stand-in for the OpenAI Realtime API so lib/realtime, the realtime
+ * context and tenant HTTP tools can be exercised offline (no network, no API key).
+ *
+ * Usage:
+ *   PORT=4010 FIXTURE=booking pnpm mock:realtime
+ *   NEXT_PUBLIC_REALTIME_API_BASE=http://localhost:4010/v1/realtime \
+ *   OPENAI_REALTIME_SESSIONS_URL=http://localhost:4010/v1/realtime/sessions pnpm dev
+ *
+ * Endpoints:
+ *   POST /v1/realtime/sessions   -> ephemeral session ({ id, client_secret.value })
+ *   POST /v1/realtime  (sdp)     -> canned SDP answer (handshake only; no media/ICE in Node,
+ *                                   so scripted events flow over the WebSocket transport)
+ *   WS   /v1/realtime            -> scripted server events (see fixtures/*.json)
+ *   POST /api/tools/execute      -> fixture tool responses by toolName (stands in for the
+ *                                   Next.js proxy when the client runs headless; pass the
+ *                                   server-side descriptors via `descriptors` for shaping and
+ *                                   the requiresConfirmation check)
+ *
+ * Fixtures are "recorded" event scripts with {{tokens}} filled at replay time:
+ *   {{response_id}} {{item_id}} {{call_id}} {{match.N}} (regex groups of the rule that fired)
+ */
+
+import http from "node:http";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { WebSocketServer, type WebSocket } from "ws";
+import { shapeResponse } from "@/lib/tools/shape-response";
+
+type ScriptStep = Record<string, any> & { delayMs?: number };
+
+type Rule = {
+  on: "user_text" | "forced_tool" | "instructions" | "function_call_output" | "audio_commit";
+  match?: string;          // regex (user_text / forced_tool prime text / response.instructions)
+  play: string;            // script name
+};
+
+export type MockFixture = {
+  name: string;
+  greeting?: string;       // script for the first bare response.create
+  fallback?: string;       // script when no rule matches
+  scripts: Record<string, ScriptStep[]>;
+  rules: Rule[];
+  sdpAnswer?: string;
+  toolResponses?: Record<string, { status?: number; body: any }>;
+};
+
+export type ReceivedEvent = { connection: number; event: any };
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures");
+
+export function loadFixture(name: string): MockFixture {
+  const file = name.endsWith(".json") ? name : path.join(FIXTURE_DIR, `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+const id = (prefix: string) => `${prefix}_${crypto.randomBytes(8).toString("hex")}`;
+
+/** Fill {{tokens}} in every string of a step (deep). */
+function fill(v: any, vars: Record<string, string>): any {
+  if (typeof v === "string") {
+    return v.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key) => vars[key] ?? "");
+  }
+  if (Array.isArray(v)) return v.map(x => fill(x, vars));
+  if (v && typeof v === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, x] of Object.entries(v)) out[k] = fill(x, vars);
+    return out;
+  }
+  return v;
+}
+
+function userTextOf(item: any): string | null {
+  if (item?.type !== "message" || item?.role !== "user") return null;
+  const c = Array.isArray(item.content) ? item.content : [];
+  const t = c.find((p: any) => p?.type === "input_text")?.text;
+  return typeof t === "string" ? t : null;
+}
+
+/** One scripted Realtime session per socket. */
+class MockSession {
+  private greeted = false;
+  private pendingText: string | null = null;
+  private pendingToolOutput = false;
+  private pendingCommit = false;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ws: WebSocket,
+    private readonly fixture: MockFixture,
+    private readonly onReceive: (ev: any) => void
+  ) {
+    this.emit({ type: "session.created", session: { id: id("sess"), object: "realtime.session" } });
+    ws.on("message", (raw) => {
+      let ev: any;
+      try { ev = JSON.parse(String(raw)); } catch { return; }
+      this.onReceive(ev);
+      this.handle(ev);
+    });
+  }
+
+  private emit(ev: any) {
+    if (this.ws.readyState === this.ws.OPEN) {
+      this.ws.send(JSON.stringify({ event_id: id("event"), ...ev }));
+    }
+  }
+
+  private handle(ev: any) {
+    switch (ev.type) {
+      case "session.update":
+        this.emit({ type: "session.updated", session: ev.session ?? {} });
+        break;
+      case "conversation.item.create": {
+        const text = userTextOf(ev.item);
+        if (text != null) this.pendingText = text;
+        if (ev.item?.type === "function_call_output") this.pendingToolOutput = true;
+        this.emit({ type: "conversation.item.created", item: { id: id("item"), ...ev.item } });
+        break;
+      }
+      case "input_audio_buffer.commit":
+        this.pendingCommit = true;
+        break;
+      case "response.create":
+        this.respond(ev.response ?? {});
+        break;
+      case "response.cancel":
+        this.emit({ type: "response.cancelled" });
+        break;
+      default:
+        break;
+    }
+  }
+
+  /** Pick a script the way the real model would react to what it has been sent. */
+  private respond(response: any) {
+    const forced = response?.tool_choice?.name as string | undefined;
+    let hit: { rule?: Rule; groups: string[] } | null = null;
+    // pinned wording (WebRTCClient.say) doesn't consume pending turns
+    const pinned = !forced && response?.instructions ? this.findRule("instructions", response.instructions) : null;
+
+    if (forced) {
+      hit = this.findRule("forced_tool", `${forced} ${this.pendingText ?? ""}`);
+    } else if (pinned) {
+      hit = pinned;
+    } else if (this.pendingToolOutput) {
+      hit = this.findRule("function_call_output", "");
+    } else if (this.pendingCommit) {
+      hit = this.findRule("audio_commit", "");
+    } else if (this.pendingText != null) {
+      hit = this.findRule("user_text", this.pendingText);
+    }
+    if (!pinned) {
+      this.pendingText = null;
+      this.pendingToolOutput = false;
+      this.pendingCommit = false;
+    }
+
+    let script = hit?.rule?.play;
+    if (!script && !this.greeted) script = this.fixture.greeting;
+    if (!script) script = this.fixture.fallback;
+    this.greeted = true;
+    if (!script) return;
+
+    const vars: Record<string, string> = {
+      response_id: id("resp"),
+      item_id: id("item"),
+      call_id: id("call"),
+    };
+    (hit?.groups ?? []).forEach((g, i) => { vars[`match.${i}`] = g ?? ""; });
+    this.play(script, vars);
+  }
+
+  private findRule(on: Rule["on"], subject: string) {
+    for (const rule of this.fixture.rules) {
+      if (rule.on !== on) continue;
+      if (!rule.match) return { rule, groups: [subject] };
+      const m = new RegExp(rule.match, "is").exec(subject);
+      if (m) return { rule, groups: Array.from(m) };
+    }
+    return null;
+  }
+
+  private play(name: string, vars: Record<string, string>) {
+    const steps = this.fixture.scripts[name];
+    if (!steps) {
+      console.warn(`[mock-realtime] unknown script "${name}"`);
+      return;
+    }
+    // Serialize scripts so overlapping response.create calls replay in order
+    this.queue = this.queue.then(async () => {
+      for (const step of steps) {
+        const { delayMs, ...ev } = step;
+        if (delayMs) await new Promise(r => setTimeout(r, delayMs));
+        this.emit(fill(ev, vars));
+      }
+    });
+  }
+}
+
+export type MockRealtimeServer = {
+  url: string;                     // http://127.0.0.1:<port>
+  apiBase: string;                 // <url>/v1/realtime
+  received: ReceivedEvent[];       // every client event, for assertions
+  dropConnections: () => void;     // simulate flaky Wi-Fi (abrupt socket loss)
+  close: () => Promise<void>;
+};
+
+export async function startMockRealtimeServer(opts: {
+  port?: number;
+  fixture: MockFixture | string;
+  /** Server-side descriptors by name, as the real proxy would load them from the registry */
+  descriptors?: Record<string, { response?: any; requiresConfirmation?: unknown }>;
+}): Promise<MockRealtimeServer> {
+  const fixture = typeof opts.fixture === "string" ? loadFixture(opts.fixture) : opts.fixture;
+  const received: ReceivedEvent[] = [];
+  let connections = 0;
+
+  const readBody = (req: http.IncomingMessage) =>
+    new Promise<string>((resolve) => {
+      let data = "";
+      req.on("data", (c) => (data += c));
+      req.on("end", () => resolve(data));
+    });
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const body = await readBody(req);
+    const json = (status: number, obj: any) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(obj));
+    };
+
+    if (req.method === "POST" && url.pathname === "/v1/realtime/sessions") {
+      return json(200, {
+        id: id("sess"),
+        object: "realtime.session",
+        client_secret: { value: id("ek_mock"), expires_at: Math.floor(Date.now() / 1000) + 60 },
+      });
+    }
+
+    if (req.method === "POST" && url.pathname === "/v1/realtime") {
+      res.writeHead(201, { "content-type": "application/sdp" });
+      return res.end(fixture.sdpAnswer ?? "v=0\r\no=- 0 0 IN IP4 127.0.0.1\r\ns=mock\r\nt=0 0\r\n");
+    }
+
+    if (req.method === "POST" && url.pathname === "/api/tools/execute") {
+      let parsed: any = {};
+      try { parsed = JSON.parse(body); } catch {}
+      const name = parsed?.toolName;
+      const hit = name ? fixture.toolResponses?.[name] : undefined;
+      if (!hit) return json(404, { ok: false, error: `No mock response for tool ${name}` });
+      // Same confirmation check as the real proxy: only calls that passed the browser's gate
+      if (opts.descriptors?.[name]?.requiresConfirmation && parsed.confirmed !== true) {
+        return json(428, { ok: false, code: "CONFIRMATION_REQUIRED", error: `${name} needs the guest's confirmation` });
+      }
+      // Same response shaping contract as the real proxy
+      const shape = name ? opts.descriptors?.[name]?.response : undefined;
+      if (shape && hit.body && typeof hit.body === "object") {
+        const model = shapeResponse(hit.body, shape, { args: parsed.args, status: hit.status ?? 200 });
+        res.writeHead(hit.status ?? 200, { "content-type": "application/json", "x-tool-shaped": "1" });
+        return res.end(JSON.stringify({ full: hit.body, model }));
+      }
+      return json(hit.status ?? 200, hit.body);
+    }
+
+    json(404, { error: "Not found" });
+  });
+
+  const wss = new WebSocketServer({ noServer: true, handleProtocols: () => "realtime" });
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== "/v1/realtime") return socket.destroy();
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const connection = ++connections;
+      new MockSession(ws, fixture, (event) => received.push({ connection, event }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(opts.port ?? 0, "127.0.0.1", resolve));
+  const port = (server.address() as { port: number }).port;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    apiBase: `${url}/v1/realtime`,
+    received,
+    dropConnections: () => wss.clients.forEach(c => c.terminate()),
+    close: () =>
+      new Promise<void>((resolve) => {
+        wss.clients.forEach(c => c.terminate());
+        wss.close();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// CLI
+if (require.main === module) {
+  const port = Number(process.env.PORT || 4010);
+  const fixture = process.env.FIXTURE || "booking";
+  startMockRealtimeServer({ port, fixture }).then((s) => {
+    console.log(`[mock-realtime] fixture=${fixture} listening on ${s.url} (apiBase ${s.apiBase})`);
+  });
+}
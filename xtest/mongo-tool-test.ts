@@ -0,0 +1,145 @@
+#!/usr/bin/env tsx
+/**
+ * mongo-tool-test.ts
+ *
+ * mongo_tool execution (lib/tools/mongo-executor, lib/tools/mongo-query) and the
+ * /api/mongo/gateway route against the in-memory Mongo stand-in (xtest/mock-mongo).
+ *
+ * Usage:
+ *   pnpm test:mongo
+ *
+ * Steps:
+ *   FENCE     platform collections are refused by the schema, the executor and the gateway
+ *   PINNED    find and aggregate only see the caller's tenant, whatever the args say
+ *   SHARED    tenantField: null only reads collections listed in MONGO_SHARED_COLLECTIONS
+ *   LIMIT     limit and every $limit stage are clamped to 1..500
+ *   GATEWAY   a tenant with tenants.mongo is held to its database; one without keeps the old target
+ */
+
+import "./mock-mongo/install";
+import { NextRequest } from "next/server";
+import { createRunner, assert } from "./harness";
+import { mockDb } from "./mock-mongo";
+import { executeMongoTool } from "@/lib/tools/mongo-executor";
+import { clampPipelineLimit, coerceLimit, isPlatformCollection } from "@/lib/tools/mongo-query";
+import { MongoToolDescriptorSchema, type MongoToolDescriptor } from "@/types/mongoTool.schema";
+import type { ToolExecutionContext } from "@/lib/tools/http-executor";
+import { POST as gateway } from "@/app/api/mongo/gateway/route";
+
+const ctx = (tenantId = "tenant-a"): ToolExecutionContext => ({ tenantId, sessionId: "s1", traceId: "test", baseUrl: "" });
+
+const roomsTool = (mongo: Record<string, unknown>) =>
+  MongoToolDescriptorSchema.parse({ kind: "mongo_tool", name: "find_rooms", mongo: { collection: "rooms", op: "find", ...mongo } });
+
+const body = (exec: { body: unknown }) => exec.body as any;
+
+function callGateway(payload: unknown) {
+  return gateway(
+    new NextRequest("http://localhost/api/mongo/gateway", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+    })
+  );
+}
+
+async function main() {
+  const { step, finish } = createRunner();
+
+  // tenant-a has its own database; tenant-old predates tenants.mongo
+  await mockDb().collection("tenants").insertMany([{ tenantId: "tenant-a", mongo: { dbName: "hotel_a" } }, { tenantId: "tenant-old" }]);
+  const hotel = mockDb("hotel_a");
+  await hotel.collection("rooms").insertMany([
+    { tenantId: "tenant-a", name: "Sea view", city: "Porto" },
+    { tenantId: "tenant-a", name: "Garden", city: "Lisbon" },
+    { tenantId: "tenant-b", name: "Loft", city: "Porto" },
+  ]);
+  await hotel.collection("amenities").insertMany([{ name: "Pool" }, { name: "Spa" }]);
+  await hotel.collection("tool_executions").insertOne({ tenantId: "tenant-a", tool: "secret" });
+
+  await step("FENCE", async () => {
+    for (const c of ["auth", "tenant_secrets", "tool_executions", "user_transcripts", "system.users"]) {
+      assert(isPlatformCollection(c), `${c} is not fenced`);
+    }
+    assert(!isPlatformCollection("rooms"), "rooms should be readable");
+
+    const parsed = MongoToolDescriptorSchema.safeParse({ kind: "mongo_tool", name: "peek", mongo: { collection: "tool_executions", op: "find" } });
+    assert(!parsed.success, "schema accepted a platform collection");
+
+    // a row stored before the schema refused it
+    const stored = { ...roomsTool({}), mongo: { ...roomsTool({}).mongo, collection: "tool_executions" } } as MongoToolDescriptor;
+    const exec = await executeMongoTool(stored, {}, ctx());
+    assert(exec.status === 400 && body(exec).ok === false && exec.attempts === 0, `executor read it: ${JSON.stringify(exec.body)}`);
+
+    const res = await callGateway({ op: "find", tenantId: "tenant-a", db: { collection: "tenants" } });
+    assert(res.status === 403, `gateway answered ${res.status}`);
+  });
+
+  await step("PINNED", async () => {
+    const porto = body(await executeMongoTool(roomsTool({ filter: { city: "{{args.city}}" } }), { city: "Porto" }, ctx()));
+    assert(porto.ok && porto.count === 1 && porto.items[0].name === "Sea view", `find ${JSON.stringify(porto)}`);
+
+    const spoofed = body(await executeMongoTool(roomsTool({ filter: { tenantId: "{{args.owner}}" } }), { owner: "tenant-b" }, ctx()));
+    assert(spoofed.ok && spoofed.count === 0, `filter escaped the tenant: ${JSON.stringify(spoofed)}`);
+
+    const agg = roomsTool({ op: "aggregate", pipeline: [{ $match: { tenantId: "{{args.owner}}" } }] });
+    const aggSpoofed = body(await executeMongoTool(agg, { owner: "tenant-b" }, ctx()));
+    assert(aggSpoofed.ok && aggSpoofed.count === 0, `pipeline escaped the tenant: ${JSON.stringify(aggSpoofed)}`);
+    const aggOwn = body(await executeMongoTool(agg, { owner: "tenant-a" }, ctx()));
+    assert(aggOwn.count === 2, `aggregate saw ${aggOwn.count} of the tenant's rooms`);
+
+    const join = roomsTool({ op: "aggregate", pipeline: [{ $lookup: { from: "tool_executions", as: "x", pipeline: [] } }] });
+    const joined = await executeMongoTool(join, {}, ctx());
+    assert(joined.status === 400, `a tenant-scoped $lookup ran (${joined.status})`);
+  });
+
+  await step("SHARED", async () => {
+    const unscoped = { ...roomsTool({}), mongo: { ...roomsTool({}).mongo, collection: "amenities", tenantField: null } } as MongoToolDescriptor;
+    delete process.env.MONGO_SHARED_COLLECTIONS;
+    const refused = await executeMongoTool(unscoped, {}, ctx());
+    assert(refused.status === 400, `unscoped read of an unlisted collection answered ${refused.status}`);
+
+    process.env.MONGO_SHARED_COLLECTIONS = "amenities, currencies";
+    const shared = body(await executeMongoTool(unscoped, {}, ctx()));
+    assert(shared.ok && shared.count === 2, `shared read ${JSON.stringify(shared)}`);
+    delete process.env.MONGO_SHARED_COLLECTIONS;
+  });
+
+  await step("LIMIT", async () => {
+    assert(coerceLimit(undefined) === 100 && coerceLimit(0) === 1 && coerceLimit(10_000) === 500, "coerceLimit bounds");
+    const clamped = clampPipelineLimit([{ $match: {} }, { $limit: 10_000 }, { $limit: -3 }]);
+    assert(clamped[1].$limit === 500 && clamped[2].$limit === 1, `clamped ${JSON.stringify(clamped)}`);
+    const appended = clampPipelineLimit([{ $match: {} }], 25);
+    assert(appended.length === 2 && appended[1].$limit === 25, `appended ${JSON.stringify(appended)}`);
+
+    const one = body(await executeMongoTool(roomsTool({ limit: "{{args.n}}" }), { n: 1 }, ctx()));
+    assert(one.count === 1, `limit arg ignored: ${one.count}`);
+  });
+
+  await step("GATEWAY", async () => {
+    const own = await callGateway({ op: "find", tenantId: "tenant-a", db: { collection: "rooms" }, filter: { city: "Lisbon" } });
+    const ownDocs = await own.json();
+    assert(own.status === 200 && ownDocs.length === 1, `own database ${own.status} ${JSON.stringify(ownDocs)}`);
+    const other = await callGateway({ op: "find", tenantId: "tenant-a", db: { dbName: "test", collection: "rooms" } });
+    assert(other.status === 403, `another database answered ${other.status}`);
+
+    // not migrated: the request's dbName (or MAINDBNAME) on the platform cluster, as before
+    await mockDb("legacy_pms").collection("rooms").insertOne({ name: "Annex" });
+    const legacy = await callGateway({ op: "find", tenantId: "tenant-old", db: { dbName: "legacy_pms", collection: "rooms" } });
+    const legacyDocs = await legacy.json();
+    assert(legacy.status === 200 && legacyDocs[0]?.name === "Annex", `legacy caller ${legacy.status} ${JSON.stringify(legacyDocs)}`);
+    const legacyFence = await callGateway({ op: "find", tenantId: "tenant-old", db: { collection: "tenant_secrets" } });
+    assert(legacyFence.status === 403, `legacy caller reached a platform collection (${legacyFence.status})`);
+
+    // mongo_tool is new: it needs tenants.mongo and gets no fallback
+    const exec = await executeMongoTool(roomsTool({}), {}, ctx("tenant-old"));
+    assert(exec.status === 502 && body(exec).ok === false, `mongo_tool ran without tenants.mongo: ${exec.status}`);
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
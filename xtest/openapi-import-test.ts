@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+/**
+ * openapi-import-test.ts
+ *
+ * importOpenApi (lib/tools/openapi-import) on a sample PMS spec (fixtures/booking-openapi.json).
+ * Pure: no database, no network.
+ *
+ * Usage:
+ *   pnpm test:openapi
+ *
+ * Steps:
+ *   LIST      listOpenApiOperations names every operation; HEAD is marked unsupported
+ *   GET       path/query params -> args, server variables filled in, optional query pruned,
+ *             apiKey scheme -> {{secrets.*}} header
+ *   POST      $ref'd JSON body -> top-level args (readOnly dropped), path param from the path item
+ *   SECURITY  `security: []` on an operation sends no key
+ *   PICK      `operations` limits the import; unknown ids are reported as skipped
+ *   LINT      every imported descriptor passes the linter
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { createRunner, assert } from "./harness";
+import { importOpenApi, listOpenApiOperations } from "@/lib/tools/openapi-import";
+import { lintHttpToolDescriptors } from "@/lib/validator/lint-tools";
+
+const spec = JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", "booking-openapi.json"), "utf8"));
+
+async function main() {
+  const { step, finish } = createRunner();
+  const result = importOpenApi(spec, { tenantId: "tenant-a", namePrefix: "pms_" });
+  const byName = (name: string) => {
+    const d = result.descriptors.find((x) => x.name === name);
+    if (!d) throw new Error(`${name} not imported (got ${result.descriptors.map((x) => x.name).join(", ")})`);
+    return d;
+  };
+
+  await step("LIST", async () => {
+    const ops = listOpenApiOperations(spec, "pms_");
+    const ids = ops.map((o) => o.id).sort().join(",");
+    assert(ids === "createHold,getStatus,listUnits,pingUnits", `unexpected operations ${ids}`);
+    assert(ops.find((o) => o.id === "pingUnits")?.supported === false, "HEAD should be unsupported");
+    assert(result.skipped.some((s) => s.id === "pingUnits"), "HEAD operation not reported as skipped");
+  });
+
+  await step("GET", async () => {
+    const d = byName("pms_list_units");
+    assert(d.tenantId === "tenant-a" && d.enabled === false, "imported tools start disabled for the tenant");
+    assert(d.http.method === "GET", `method ${d.http.method}`);
+    assert(
+      d.http.urlTemplate === "https://eu.pms.example.com/v1/units?from={{args.from}}&guests={{args.guests}}",
+      `urlTemplate ${d.http.urlTemplate}`
+    );
+    assert(d.http.pruneEmpty === true, "optional query param should set pruneEmpty");
+    assert(d.http.headers?.["X-Api-Key"] === "{{secrets.pms_key}}", `headers ${JSON.stringify(d.http.headers)}`);
+    const params = d.parameters as any;
+    assert(JSON.stringify(params.required) === '["from"]', `required ${JSON.stringify(params.required)}`);
+    assert(params.properties.guests.type === "integer", "query param schema lost");
+  });
+
+  await step("POST", async () => {
+    const d = byName("pms_create_hold");
+    assert(d.http.urlTemplate === "https://eu.pms.example.com/v1/units/{{args.unit_id}}/holds", `urlTemplate ${d.http.urlTemplate}`);
+    assert(
+      JSON.stringify(d.http.jsonBodyTemplate) ===
+        JSON.stringify({ checkIn: "{{args.check_in}}", nights: "{{args.nights}}", guest: "{{args.guest}}" }),
+      `body ${JSON.stringify(d.http.jsonBodyTemplate)}`
+    );
+    const params = d.parameters as any;
+    assert(params.required.sort().join(",") === "check_in,nights,unit_id", `required ${params.required}`);
+    assert(!("hold_id" in params.properties), "readOnly property became an arg");
+    assert(params.properties.guest.properties.name.type === "string", "$ref in the body schema not inlined");
+    assert(!("example" in params.properties.guest.properties.email), "doc-only keywords not dropped");
+  });
+
+  await step("SECURITY", async () => {
+    const d = byName("pms_get_status");
+    assert(!d.http.headers, `unauthenticated operation got headers ${JSON.stringify(d.http.headers)}`);
+  });
+
+  await step("PICK", async () => {
+    const picked = importOpenApi(spec, { tenantId: "tenant-a", operations: ["createHold", "deleteHold"] });
+    assert(picked.descriptors.map((d) => d.name).join(",") === "create_hold", "operations filter ignored");
+    assert(picked.skipped.some((s) => s.id === "deleteHold" && /No such operation/.test(s.reason)), "unknown id not reported");
+  });
+
+  await step("LINT", async () => {
+    const errors = lintHttpToolDescriptors(result.descriptors).flatMap((r) =>
+      r.issues.filter((i) => i.severity === "error").map((i) => `${r.name}: ${i.code} ${i.message}`)
+    );
+    assert(!errors.length, errors.join("; "));
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
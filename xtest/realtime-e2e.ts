@@ -0,0 +1,362 @@
+#!/usr/bin/env tsx
+/**
+ * realtime-e2e.ts
+ *
+ * Offline end-to-end check of the realtime client against the scripted mock server
+ * (xtest/mock-realtime). No network, no API key, no browser: the client runs headless
+ * over the WebSocket transport.
+ *
+ * Usage:
+ *   pnpm test:realtime                 # uses fixtures/booking.json
+ *   FIXTURE=path/to/other.json pnpm test:realtime
+ *
+ * Steps mirror components/self-test.tsx:
+ *   CONNECT   greeting + "Reply exactly: Connection OK"
+ *   USAGE     extractUsage() on every response.done
+ *   TOOL      forceToolCall("show_component") -> local function -> function_call_output + "tool" item
+ *   HTTP      registerHttpToolsForTenant -> /api/tools/execute (mock, by toolName) -> shaped output + emit_show_component + emit_say
+ *   ARGS      arguments failing the tool's JSON Schema -> invalid_arguments output, function not called
+ *   BATCH     two calls in one response run together -> both outputs, ONE response.create
+ *   TIMEOUT   a hung tool times out with an error output; the batch still completes
+ *   BARGE     cancelAssistantSpeech aborts in-flight calls; no response.create follows
+ *   CONFIRM   a `confirm` tool waits for the guest: declined -> user_declined, hedges ("Okay, what's
+ *             the fee?") stay pending, typed "yes" -> runs; a requiresConfirmation workflow tool
+ *             asks too, and its call carries the gate's flag (the proxy refuses it otherwise)
+ *   AUDIO     push-to-talk commit -> transcription lands in the conversation
+ *   RECONNECT socket dropped mid-call -> RECONNECTING -> resumed with a conversation summary
+ */
+
+import WebSocket from "ws";
+import { startMockRealtimeServer } from "./mock-realtime/server";
+import { WebRTCClient, WebSocketTransport } from "@/lib/realtime";
+import type { ConversationItem, SessionStatus } from "@/lib/realtime";
+import { extractUsage, type RealtimeUsage } from "@/lib/realtime/usage";
+import { registerHttpToolsForTenant } from "@/lib/agent/registerTenantHttpTools";
+import { toPublicHttpToolDescriptor, type HttpToolDescriptor } from "@/types/httpTool.schema";
+import { toPublicWorkflowToolDescriptor, type WorkflowToolDescriptor } from "@/types/workflowTool.schema";
+
+const FIXTURE = process.env.FIXTURE || "booking";
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+async function pollUntil(pred: () => boolean, what: string, timeoutMs = 5000, every = 25) {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    if (pred()) return;
+    await sleep(every);
+  }
+  throw new Error(`Timed out waiting for: ${what}`);
+}
+
+const AVAILABILITY_TOOL: HttpToolDescriptor = {
+  kind: "http_tool",
+  name: "check_availability",
+  description: "Check unit availability for a date range",
+  parameters: {
+    type: "object",
+    properties: {
+      tenant_id: { type: "string" },
+      check_in: { type: "string", format: "date" },
+      check_out: { type: "string", format: "date" },
+    },
+    required: ["tenant_id", "check_in", "check_out"],
+  },
+  http: {
+    method: "GET",
+    urlTemplate: "https://booking.example.com/{{args.tenant_id}}/availability?check_in={{args.check_in}}&check_out={{args.check_out}}",
+    okField: "ok",
+    timeoutMs: 5000,
+  },
+  response: {
+    pick: ["units[*].{unit_id,name,rate}"],
+    summary: "{{data.units.length}} villas free from {{args.check_in}}",
+  },
+  ui: {
+    onSuccess: {
+      emit_show_component: {
+        component_name: "room",
+        props: { items: "{{response.units}}", check_in: "{{response.check_in}}" },
+      },
+      emit_say: "I found {{response.units.length}} villas from {{args.check_in}}.",
+    },
+  },
+  enabled: true,
+};
+
+const BOOK_STAY_TOOL: WorkflowToolDescriptor = {
+  kind: "workflow_tool",
+  name: "book_stay",
+  description: "Hold a unit and confirm the booking",
+  parameters: {
+    type: "object",
+    properties: { unit: { type: "string" } },
+    required: ["unit"],
+  },
+  steps: [{ id: "hold", tool: "hold_unit", args: { unit: "{{args.unit}}" }, onFail: "$fail" }],
+  timeoutMs: 5000,
+  requiresConfirmation: { summary: "Book {{args.unit}}" },
+  enabled: true,
+};
+
+async function main() {
+  const server = await startMockRealtimeServer({
+    fixture: FIXTURE,
+    descriptors: { [AVAILABILITY_TOOL.name]: AVAILABILITY_TOOL, [BOOK_STAY_TOOL.name]: BOOK_STAY_TOOL },
+  });
+
+  // The HTTP executor posts to the app-relative /api/tools/execute; route it to the mock
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = ((input: any, init?: any) =>
+    realFetch(typeof input === "string" && input.startsWith("/") ? `${server.url}${input}` : input, init)
+  ) as typeof fetch;
+
+  let status: SessionStatus = "DISCONNECTED";
+  const statuses: SessionStatus[] = [];
+  let conv: ConversationItem[] = [];
+  const usage: RealtimeUsage[] = [];
+
+  const client = new WebRTCClient({
+    model: "gpt-realtime",
+    voice: "alloy",
+    apiBase: server.apiBase,
+    tokenProvider: async () => "ek_mock_token",
+    transport: () => new WebSocketTransport({ WebSocketImpl: WebSocket as any }),
+    reconnect: { enabled: true, baseDelayMs: 50, maxDelayMs: 200, replayTurns: 40 },
+    onStatus: (s) => { status = s; statuses.push(s); },
+    onConversation: (items) => { conv = items; },
+    onServerEvent: (ev) => {
+      const u = extractUsage(ev);
+      if (u) usage.push(u);
+    },
+  });
+
+  const assistantSaid = (re: RegExp) => conv.some(m => m.role === "assistant" && re.test(m.text || ""));
+  const outputsFor = (needle: string) =>
+    server.received.filter(r =>
+      r.event.type === "conversation.item.create" &&
+      r.event.item?.type === "function_call_output" &&
+      String(r.event.item.output).includes(needle));
+
+  const results: Array<[string, boolean, string?]> = [];
+  const step = async (name: string, fn: () => Promise<void>) => {
+    try {
+      await fn();
+      results.push([name, true]);
+      console.log(`PASS ${name}`);
+    } catch (e: any) {
+      results.push([name, false, e?.message || String(e)]);
+      console.error(`FAIL ${name}: ${e?.message || e}`);
+    }
+  };
+
+  await step("CONNECT", async () => {
+    await client.connect({ requestMic: false });
+    await pollUntil(() => status === "CONNECTED", "status CONNECTED");
+    await pollUntil(() => assistantSaid(/welcome to cypress resorts/i), "greeting");
+    client.sendText("Reply exactly: Connection OK");
+    await pollUntil(() => assistantSaid(/(^|\s)connection\s+ok(\W|$)/i), "Connection OK");
+  });
+
+  await step("USAGE", async () => {
+    await pollUntil(() => usage.length >= 2, "two usage reports");
+    const first = usage[0];
+    if (first.text_in !== 120 || first.text_out !== 60) {
+      throw new Error(`greeting usage mismatch: ${JSON.stringify(first)}`);
+    }
+  });
+
+  await step("TOOL", async () => {
+    let shown: any = null;
+    client.registerFunction("show_component", async (args: any) => {
+      shown = args;
+      return { ok: true, shown: args?.component_name };
+    });
+    const args = { component_name: "reservation_checkout", props: { mock: true } };
+    client.forceToolCall("show_component", args, "Tool call complete");
+    await pollUntil(() => shown?.component_name === "reservation_checkout", "show_component invoked");
+    await pollUntil(() => outputsFor("reservation_checkout").length > 0, "function_call_output sent");
+    await pollUntil(() => assistantSaid(/tool\s+call\s+complete/i), "Tool call complete");
+    const item = conv.find(m => m.role === "tool" && m.tool?.name === "show_component");
+    if (!item?.isFinal || item.tool?.ok !== true || item.tool.durationMs == null || item.tool.arguments?.component_name !== "reservation_checkout") {
+      throw new Error(`tool call item mismatch: ${JSON.stringify(item)}`);
+    }
+  });
+
+  await step("HTTP", async () => {
+    let staged: any = null;
+    const defs = await registerHttpToolsForTenant({
+      tenantId: "cypress-resorts",
+      fetchDescriptors: async () => [toPublicHttpToolDescriptor(AVAILABILITY_TOOL)],
+      registerFunction: (name, fn) => client.registerFunction(name, fn),
+      showOnStage: (payload) => { staged = payload; },
+      say: (text, o) => client.say(text, o),
+    });
+    if (defs[0]?.name !== "http_check_availability") throw new Error(`unexpected tool defs ${JSON.stringify(defs)}`);
+    client.updateSession({ tools: defs.map(d => ({ ...d, description: d.description ?? d.name })) });
+
+    client.sendText("Do you have availability from 2025-11-05 to 2025-11-08?");
+    await pollUntil(() => outputsFor("Ridge Villa").length > 0, "http tool output sent to model");
+    const sent = String(outputsFor("Ridge Villa")[0].event.item.output);
+    if (!sent.includes("2 villas free from 2025-11-05") || sent.includes("currency")) {
+      throw new Error(`response shaping not applied: ${sent}`);
+    }
+    if (!assistantSaid(/^I found 2 villas from 2025-11-05\.$/)) {
+      throw new Error("emit_say line was not spoken");
+    }
+    if (!sent.includes('"spoken_to_guest"')) throw new Error(`model not told about the spoken line: ${sent}`);
+    if (staged?.component_name !== "room" || !Array.isArray(staged?.props?.items) || staged.props.items.length !== 2) {
+      throw new Error(`emit_show_component payload mismatch: ${JSON.stringify(staged)}`);
+    }
+  });
+
+  await step("ARGS", async () => {
+    let called = false;
+    client.registerFunction("hold_unit", async () => { called = true; return { ok: true }; });
+    client.updateSession({
+      tools: [{
+        name: "hold_unit",
+        description: "Hold a unit for the guest",
+        parameters: {
+          type: "object",
+          properties: {
+            check_in: { type: "string", format: "date", description: "Check-in date" },
+            guests: { type: "integer", minimum: 1 },
+          },
+          required: ["check_in", "guests"],
+        },
+      }],
+    });
+    client.forceToolCall("hold_unit", { check_in: "next friday", guests: 0 }, "Tool call complete");
+    await pollUntil(() => outputsFor("invalid_arguments").length > 0, "invalid_arguments output");
+    const out = JSON.parse(String(outputsFor("invalid_arguments")[0].event.item.output));
+    if (called) throw new Error("function ran with invalid arguments");
+    const fields = (out.invalid ?? []).map((i: any) => i.field).sort().join(",");
+    if (fields !== "check_in,guests" || !/Check-in date/.test(out.ask_guest)) {
+      throw new Error(`invalid_arguments output mismatch: ${JSON.stringify(out)}`);
+    }
+  });
+
+  const responseCreatesSince = (mark: number) =>
+    server.received.slice(mark).filter(r => r.event.type === "response.create").length;
+
+  await step("BATCH", async () => {
+    client.registerFunction("lookup_availability", async () => { await sleep(150); return { ok: true, units: 2 }; });
+    client.registerFunction("lookup_quote", async () => ({ ok: true, total: 2055 }));
+    const mark = server.received.length;
+    client.sendText("Check lookup_availability and lookup_quote together");
+    await pollUntil(() => outputsFor('"units":2').length > 0 && outputsFor('"total":2055').length > 0, "both outputs");
+    await sleep(100);
+    // one from sendText, exactly one more for the whole batch
+    const creates = responseCreatesSince(mark);
+    if (creates !== 2) throw new Error(`expected 2 response.create, saw ${creates}`);
+  });
+
+  await step("TIMEOUT", async () => {
+    client.registerFunction("lookup_quote", () => new Promise(() => {}), { timeoutMs: 100 });
+    const mark = server.received.length;
+    client.sendText("Check lookup_availability and lookup_quote together");
+    await pollUntil(() => outputsFor("lookup_quote timed out").length > 0, "timeout output");
+    await sleep(100);
+    const creates = responseCreatesSince(mark);
+    if (creates !== 2) throw new Error(`expected 2 response.create, saw ${creates}`);
+    const timedOut = conv.filter(m => m.role === "tool" && m.tool?.name === "lookup_quote").pop();
+    if (timedOut?.tool?.ok !== false || !/timed out/.test(timedOut.tool.error ?? "")) {
+      throw new Error(`timed-out tool item mismatch: ${JSON.stringify(timedOut)}`);
+    }
+  });
+
+  await step("BARGE", async () => {
+    const hang = () => new Promise(() => {});
+    client.registerFunction("lookup_availability", hang);
+    client.registerFunction("lookup_quote", hang);
+    const mark = server.received.length;
+    client.sendText("Check lookup_availability and lookup_quote together");
+    await sleep(150);
+    client.cancelAssistantSpeech();
+    await pollUntil(() => outputsFor("was cancelled").length >= 2, "cancelled outputs");
+    await sleep(100);
+    const creates = responseCreatesSince(mark);
+    if (creates !== 1) throw new Error(`expected only the user's response.create, saw ${creates}`);
+  });
+
+  await step("CONFIRM", async () => {
+    let ran = 0;
+    const asked: string[] = [];
+    client.setCallbacks({ onConfirmationRequest: (req) => asked.push(req.summary) });
+    client.registerFunction(
+      "cancel_hold",
+      async () => { ran++; return { ok: true, cancelled: "Villa 3" }; },
+      { confirm: { summary: "Cancel the hold on {{args.unit}}" } }
+    );
+
+    client.forceToolCall("cancel_hold", { unit: "Villa 3" });
+    await pollUntil(() => asked.length === 1, "confirmation request");
+    if (asked[0] !== "Cancel the hold on Villa 3") throw new Error(`summary mismatch: ${asked[0]}`);
+    client.resolveConfirmation(client.getPendingConfirmations()[0].id, false);
+    await pollUntil(() => outputsFor("user_declined").length > 0, "user_declined output");
+    if (ran) throw new Error("declined tool ran");
+
+    client.forceToolCall("cancel_hold", { unit: "Villa 3" });
+    await pollUntil(() => asked.length === 2, "second confirmation request");
+    // only a whole-utterance yes confirms; questions and hedges leave it pending
+    for (const hedge of ["Okay, what's the fee?", "Right, but is it refundable?", "Sure… actually wait"]) {
+      client.sendText(hedge);
+      await sleep(150);
+      if (ran || !client.getPendingConfirmations().length) throw new Error(`"${hedge}" answered the confirmation`);
+    }
+    client.sendText("Yes, go ahead");
+    await pollUntil(() => outputsFor('"cancelled":"Villa 3"').length > 0, "output after confirming");
+    if (ran !== 1) throw new Error(`expected one run, saw ${ran}`);
+    if (client.getPendingConfirmations().length) throw new Error("confirmation still pending");
+
+    // workflow tools confirm too; the proxy would answer 428 without the gate's flag
+    await registerHttpToolsForTenant({
+      tenantId: "cypress-resorts",
+      fetchDescriptors: async () => [toPublicWorkflowToolDescriptor(BOOK_STAY_TOOL)],
+      registerFunction: (name, fn, o) => client.registerFunction(name, fn, o),
+    });
+    client.forceToolCall("http_book_stay", { unit: "Ridge Villa" });
+    await pollUntil(() => asked.length === 3, "workflow confirmation request");
+    if (asked[2] !== "Book Ridge Villa") throw new Error(`summary mismatch: ${asked[2]}`);
+    client.sendText("Yes please");
+    await pollUntil(() => outputsFor("BK-1042").length > 0 || outputsFor("CONFIRMATION_REQUIRED").length > 0, "workflow output");
+    if (!outputsFor("BK-1042").length) throw new Error("confirmed workflow call was refused by the proxy");
+  });
+
+  await step("AUDIO", async () => {
+    client.pttUp();
+    await pollUntil(
+      () => conv.some(m => m.role === "user" && m.isFinal && /availability from 2025-11-05/.test(m.text)),
+      "transcribed user turn"
+    );
+  });
+
+  await step("RECONNECT", async () => {
+    const before = conv.length;
+    server.dropConnections();
+    await pollUntil(() => statuses.includes("RECONNECTING"), "status RECONNECTING");
+    await pollUntil(() => status === "CONNECTED", "status CONNECTED after resume");
+    // the client sends the summary right after it reports CONNECTED; the mock may not have it yet
+    const summarySent = () => server.received.some(r =>
+      r.connection > 1 &&
+      r.event.type === "conversation.item.create" &&
+      r.event.item?.role === "system" &&
+      /Guest: Reply exactly: Connection OK/.test(r.event.item?.content?.[0]?.text ?? ""));
+    await pollUntil(summarySent, "conversation summary replayed after reconnect", 2000).catch(() => {
+      throw new Error("no conversation summary replayed after reconnect");
+    });
+    if (conv.length < before) throw new Error("conversation was wiped by the reconnect");
+  });
+
+  client.disconnect();
+  globalThis.fetch = realFetch;
+  await server.close();
+
+  const failed = results.filter(([, ok]) => !ok);
+  console.log(`------ SUMMARY ------\n${results.length - failed.length}/${results.length} passed`);
+  process.exit(failed.length ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+/**
+ * response-cache-test.ts
+ *
+ * Response cache (lib/tools/response-cache, in-process LRU backend) as the http executor
+ * uses it, against a local upstream (xtest/fake-upstream) that counts the calls it gets.
+ *
+ * Usage:
+ *   pnpm test:cache
+ *
+ * Steps:
+ *   HIT       a repeat call within ttlSec is answered from the cache; the upstream runs once
+ *   SCOPE     session entries are per session (none without one), tenant entries are shared
+ *   KEY       a key template ignores args outside it; editing the descriptor starts a new entry
+ *   ERRORS    non-2xx replies are not stored
+ *   TTL       an entry older than ttlSec is fetched again
+ *   GRAPHQL   queries use the cache, mutations never do
+ */
+
+import "./mock-mongo/install";
+import { createRunner, assert } from "./harness";
+import { fakeUpstream } from "./fake-upstream";
+import { toolCacheKey } from "@/lib/tools/response-cache";
+import { executeHttpTool, type ToolExecutionContext } from "@/lib/tools/http-executor";
+import { graphqlAsHttpDescriptor } from "@/lib/tools/graphql-executor";
+import { HttpToolDescriptorSchema, type HttpCachePolicy } from "@/types/httpTool.schema";
+import { GraphqlToolDescriptorSchema } from "@/types/graphqlTool.schema";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const ctx = (sessionId: string | null = "session-1", tenantId = "tenant-a"): ToolExecutionContext => ({
+  tenantId,
+  sessionId,
+  traceId: "test",
+  baseUrl: "",
+});
+
+async function main() {
+  const { step, finish } = createRunner();
+  let status = 200;
+  const up = await fakeUpstream((req) => ({ status, body: { ok: status < 400, call: up.requests.length, path: req.path } }));
+  const calls = () => up.requests.length;
+
+  let n = 0;
+  /** A fresh tool name per case, so entries from earlier steps never answer */
+  const lookup = (cache: Partial<HttpCachePolicy> | null, http: Record<string, unknown> = {}) =>
+    HttpToolDescriptorSchema.parse({
+      kind: "http_tool",
+      name: `unit_details_${++n}`,
+      http: { method: "GET", urlTemplate: `${up.origin}/units/{{args.unit}}`, timeoutMs: 2000, ...http },
+      ...(cache ? { cache: { ttlSec: 60, ...cache } } : {}),
+    });
+
+  await step("HIT", async () => {
+    const tool = lookup({});
+    const first = await executeHttpTool(tool, { unit: "u1" }, ctx());
+    const second = await executeHttpTool(tool, { unit: "u1" }, ctx());
+    assert(calls() === 1, `upstream ran ${calls()} times`);
+    assert(first.cache === "miss" && second.cache === "hit" && second.attempts === 0, `cache ${first.cache}/${second.cache}`);
+    assert(JSON.stringify(second.body) === JSON.stringify(first.body) && second.status === 200, "hit differs from the stored reply");
+
+    const other = await executeHttpTool(tool, { unit: "u2" }, ctx());
+    assert(calls() === 2 && other.cache === "miss", "other args were served from the cache");
+
+    const uncached = lookup(null);
+    await executeHttpTool(uncached, { unit: "u1" }, ctx());
+    const again = await executeHttpTool(uncached, { unit: "u1" }, ctx());
+    assert(calls() === 4 && again.cache === undefined, "a tool without a cache block was cached");
+  });
+
+  await step("SCOPE", async () => {
+    const session = lookup({});
+    const before = calls();
+    await executeHttpTool(session, { unit: "u1" }, ctx("session-1"));
+    await executeHttpTool(session, { unit: "u1" }, ctx("session-2"));
+    assert(calls() - before === 2, "a session entry answered another session");
+    assert(toolCacheKey({ policy: session.cache!, descriptor: session, args: {}, tenantId: "tenant-a", sessionId: null }) === null, "session scope keyed without a session");
+
+    const tenant = lookup({ scope: "tenant" });
+    const mid = calls();
+    await executeHttpTool(tenant, { unit: "u1" }, ctx("session-1"));
+    const shared = await executeHttpTool(tenant, { unit: "u1" }, ctx("session-2"));
+    assert(calls() - mid === 1 && shared.cache === "hit", "tenant scope not shared between sessions");
+    const otherTenant = await executeHttpTool(tenant, { unit: "u1" }, ctx("session-3", "tenant-b"));
+    assert(calls() - mid === 2 && otherTenant.cache === "miss", "an entry crossed tenants");
+  });
+
+  await step("KEY", async () => {
+    const keyed = lookup({ key: "{{args.unit}}" });
+    const before = calls();
+    await executeHttpTool(keyed, { unit: "u1", note: "first" }, ctx());
+    const hit = await executeHttpTool(keyed, { unit: "u1", note: "second" }, ctx());
+    assert(calls() - before === 1 && hit.cache === "hit", "args outside the key template changed the key");
+
+    const edited = { ...keyed, http: { ...keyed.http, urlTemplate: `${up.origin}/v2/units/{{args.unit}}` } };
+    const fresh = await executeHttpTool(edited, { unit: "u1" }, ctx());
+    assert(calls() - before === 2 && (fresh.body as any).path === "/v2/units/u1", "an edited descriptor got the old entry");
+  });
+
+  await step("ERRORS", async () => {
+    const tool = lookup({});
+    const before = calls();
+    status = 404;
+    const missing = await executeHttpTool(tool, { unit: "u9" }, ctx());
+    status = 200;
+    const found = await executeHttpTool(tool, { unit: "u9" }, ctx());
+    assert(missing.status === 404 && found.status === 200, `statuses ${missing.status}/${found.status}`);
+    assert(calls() - before === 2 && found.cache === "miss", "a 404 was stored");
+  });
+
+  await step("TTL", async () => {
+    const tool = lookup({ ttlSec: 1 });
+    const before = calls();
+    await executeHttpTool(tool, { unit: "u1" }, ctx());
+    await sleep(1100);
+    const later = await executeHttpTool(tool, { unit: "u1" }, ctx());
+    assert(calls() - before === 2 && later.cache === "miss", "an expired entry was served");
+  });
+
+  await step("GRAPHQL", async () => {
+    const gql = (query: string) =>
+      GraphqlToolDescriptorSchema.parse({
+        kind: "graphql_tool",
+        name: "rooms",
+        graphql: { endpoint: `${up.origin}/graphql`, query },
+        cache: { ttlSec: 60 },
+      });
+    const query = graphqlAsHttpDescriptor(gql("query Rooms { rooms { id } }"));
+    const mutation = graphqlAsHttpDescriptor(gql("mutation Hold { hold { id } }"));
+    assert(typeof query !== "string" && query.cache?.ttlSec === 60, "a query lost its cache block");
+    assert(typeof mutation !== "string" && mutation.cache === undefined, "a mutation kept its cache block");
+  });
+
+  await up.close();
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
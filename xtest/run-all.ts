@@ -0,0 +1,39 @@
+#!/usr/bin/env tsx
+/**
+ * run-all.ts
+ *
+ * Runs every offline test in xtest/ one after another, each in its own process (the
+ * Mongo stand-in and scripted DNS are per process). Exit code 1 if any failed.
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { spawnSync } from "node:child_process";
+import path from "node:path";
+
+const TESTS = [
+  "vault-test.ts",
+  "egress-guard-test.ts",
+  "idempotency-test.ts",
+  "tool-versions-test.ts",
+  "openapi-import-test.ts",
+  "graphql-tool-test.ts",
+  "mongo-tool-test.ts",
+  "shape-response-test.ts",
+  "response-cache-test.ts",
+  "workflow-runner-test.ts",
+  "body-formats-test.ts",
+  "realtime-e2e.ts",
+];
+
+const failed: string[] = [];
+for (const file of TESTS) {
+  console.log(`\n===== ${file} =====`);
+  const r = spawnSync(process.execPath, ["--import", "tsx", path.join(__dirname, file)], { stdio: "inherit" });
+  if (r.status !== 0) failed.push(file);
+}
+
+console.log(`\n===== ${TESTS.length - failed.length}/${TESTS.length} test files passed =====`);
+if (failed.length) console.log(`failed: ${failed.join(", ")}`);
+process.exit(failed.length ? 1 : 0);
@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+/**
+ * shape-response-test.ts
+ *
+ * Response shaping (lib/tools/shape-response): what the model gets back from a
+ * descriptor's `response` block, on a unit-search payload like a PMS returns.
+ *
+ * Usage:
+ *   pnpm test:shape
+ *
+ * Steps:
+ *   PICK      list picks key by the last segment, record picks rename; $., [n], [*] and {a,b}
+ *   RENAME    rename applies at every depth of the picked result
+ *   ARRAYS    maxArrayItems trims nested arrays and flags truncated; short arrays are untouched
+ *   BYTES     maxBytes halves arrays until the result fits, then falls back to a preview
+ *   SUMMARY   summary sees the full response, the shaped data, args and status
+ */
+
+import { createRunner, assert } from "./harness";
+import { shapeResponse } from "@/lib/tools/shape-response";
+import { HttpResponseShapeSchema } from "@/types/httpTool.schema";
+
+const shape = (s: unknown) => HttpResponseShapeSchema.parse(s);
+const json = (v: unknown) => JSON.stringify(v);
+
+const units = Array.from({ length: 40 }, (_, i) => ({
+  unit_id: `u${i + 1}`,
+  name: `Unit ${i + 1}`,
+  rate: { amount: 100 + i, currency: "EUR" },
+  photos: Array.from({ length: 12 }, (_, p) => `https://cdn.example.com/u${i + 1}/${p}.jpg`),
+  description: "Sea-facing apartment with a balcony, two bedrooms and a kitchen. ".repeat(4),
+}));
+const payload = { property: { id: "harbour", name: "Harbour House" }, units, meta: { total: units.length, page: 1 } };
+
+async function main() {
+  const { step, finish } = createRunner();
+
+  await step("PICK", async () => {
+    const listed = shapeResponse(payload, shape({ pick: ["$.property.name", "units[*].{unit_id,rate}", "units[0].name"] }));
+    const d = listed.data as any;
+    assert(d.name === "Unit 1", `"units[0].name" should win the "name" key: ${json(d.name)}`);
+    assert(Array.isArray(d.units) && d.units.length === 40, `units ${json(d.units)?.slice(0, 80)}`);
+    assert(json(d.units[0]) === json({ unit_id: "u1", rate: { amount: 100, currency: "EUR" } }), `fields ${json(d.units[0])}`);
+
+    const renamed = shapeResponse(payload, shape({ pick: { hotel: "property.name", count: "meta.total", first: "units[0].unit_id", none: "nope.x" } }));
+    assert(json(renamed.data) === json({ hotel: "Harbour House", count: 40, first: "u1" }), `record pick ${json(renamed.data)}`);
+    assert(!listed.truncated && listed.summary === undefined, "nothing asked for truncation or a summary");
+
+    const whole = shapeResponse(payload, shape({}));
+    assert(whole.data === payload, "an empty shape should pass the payload through");
+  });
+
+  await step("RENAME", async () => {
+    const out = shapeResponse(payload, shape({ pick: { rooms: "units[*].{unit_id,rate}" }, rename: { unit_id: "id", amount: "price" } }));
+    const first = (out.data as any).rooms[0];
+    assert(json(first) === json({ id: "u1", rate: { price: 100, currency: "EUR" } }), `renamed ${json(first)}`);
+  });
+
+  await step("ARRAYS", async () => {
+    const out = shapeResponse(payload, shape({ pick: { units: "units[*].{unit_id,photos}" }, maxArrayItems: 3 }));
+    const rows = (out.data as any).units;
+    assert(rows.length === 3 && rows.every((u: any) => u.photos.length === 3), `trimmed ${json(rows)}`);
+    assert(out.truncated === true, "truncation not flagged");
+
+    const short = shapeResponse(payload, shape({ pick: { units: "units[*].unit_id" }, maxArrayItems: 50 }));
+    assert((short.data as any).units.length === 40 && !short.truncated, "an array under the limit was flagged");
+  });
+
+  await step("BYTES", async () => {
+    const out = shapeResponse(payload, shape({ maxBytes: 4000 }));
+    const size = Buffer.byteLength(json(out.data));
+    assert(size <= 4000 && out.truncated === true, `${size} bytes, truncated=${out.truncated}`);
+    const kept = (out.data as any).units;
+    assert(Array.isArray(kept) && kept.length >= 1 && kept.length < 40 && kept[0].unit_id === "u1", `kept ${kept?.length} units`);
+    assert((out.data as any).property.name === "Harbour House", "fields outside arrays were dropped");
+
+    const blob = { notes: "x".repeat(2000) };
+    const preview = shapeResponse(blob, shape({ maxBytes: 256 }));
+    const p = (preview.data as any).preview;
+    assert(typeof p === "string" && p.length === 256 && preview.truncated === true, `preview ${json(preview).slice(0, 80)}`);
+  });
+
+  await step("SUMMARY", async () => {
+    const out = shapeResponse(
+      payload,
+      shape({
+        pick: { rooms: "units[*].unit_id" },
+        maxArrayItems: 2,
+        summary: "{{response.meta.total}} units at {{response.property.name}} from {{args.from}}, showing {{data.rooms.length}} (HTTP {{status}})",
+      }),
+      { args: { from: "2026-11-01" }, status: 200 }
+    );
+    assert(out.summary === "40 units at Harbour House from 2026-11-01, showing 2 (HTTP 200)", `summary "${out.summary}"`);
+
+    const missing = shapeResponse({}, shape({ summary: "{{response.nothing}}" }));
+    assert(missing.summary === "", `a missing whole-token summary should be empty: ${json(missing.summary)}`);
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
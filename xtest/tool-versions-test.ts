@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+/**
+ * tool-versions-test.ts
+ *
+ * Behaviour of the descriptor draft / publish store (lib/registry/toolVersions) against
+ * the in-memory Mongo stand-in (xtest/mock-mongo). No database needed.
+ *
+ * Usage:
+ *   pnpm test:tool-versions
+ *
+ * Steps:
+ *   DRAFT     saveDraft stores a draft; the live `actions` row is untouched
+ *   LINT      a draft with lint errors is rejected with 422 and the report
+ *   PUBLISH   publishDraft makes v1 live and clears the draft; a second edit becomes v2
+ *   DIFF      diffVersions(1, 2) lists the changed field only
+ *   ROLLBACK  rollbackTool(1) republishes v1's descriptor as v3 (rollbackOf: 1)
+ *   WORKFLOW  a workflow whose steps are published saves and publishes; one naming an
+ *             unpublished step tool is rejected with workflow.unknown_tool
+ *   REMOVE    removeTool unpublishes but keeps the history
+ */
+
+import "./mock-mongo/install";
+import { createRunner, assert, rejects } from "./harness";
+import {
+  saveDraft,
+  publishDraft,
+  rollbackTool,
+  removeTool,
+  diffVersions,
+  getTool,
+  listVersions,
+  ToolVersionError,
+} from "@/lib/registry/toolVersions";
+import { mockDb } from "./mock-mongo";
+
+const TENANT = "tenant-a";
+
+const holdTool = (description: string) => ({
+  kind: "http_tool",
+  name: "hold_unit",
+  description,
+  parameters: {
+    type: "object",
+    properties: { unit_id: { type: "string" }, check_in: { type: "string" } },
+    required: ["unit_id", "check_in"],
+  },
+  http: {
+    method: "POST",
+    urlTemplate: "https://booking.example.com/holds",
+    jsonBodyTemplate: { unit: "{{args.unit_id}}", from: "{{args.check_in}}" },
+    okField: "ok",
+  },
+});
+
+const bookWorkflow = (stepTool: string) => ({
+  kind: "workflow_tool",
+  name: "book_stay",
+  description: "Hold a unit, then confirm it",
+  parameters: {
+    type: "object",
+    properties: { unit_id: { type: "string" }, check_in: { type: "string" } },
+    required: ["unit_id", "check_in"],
+  },
+  steps: [{ id: "hold", tool: stepTool, args: { unit_id: "{{args.unit_id}}", check_in: "{{args.check_in}}" } }],
+});
+
+async function main() {
+  const { step, finish } = createRunner();
+  const db = mockDb();
+  await db.collection("action_versions").createIndex({ tenantId: 1, name: 1, version: 1 }, { unique: true });
+  const live = () => db.collection("actions").findOne({ tenantId: TENANT, name: "hold_unit" });
+
+  await step("DRAFT", async () => {
+    const { draft } = await saveDraft(TENANT, holdTool("Hold a unit"), { actor: "alice" });
+    assert(draft.tenantId === TENANT && draft.descriptor.tenantId === TENANT, "draft not pinned to the tenant");
+    assert(!(await live()), "saving a draft published it");
+    const tool = await getTool(TENANT, "hold_unit");
+    assert(tool.published === null && tool.draft?.updatedBy === "alice", `unexpected tool view ${JSON.stringify(tool)}`);
+  });
+
+  await step("LINT", async () => {
+    const bad = { ...holdTool("Broken"), http: { ...holdTool("").http, urlTemplate: "https://x.example.com/{{response.id}}" } };
+    const err = await rejects(saveDraft(TENANT, bad), "a draft with lint errors");
+    assert(err instanceof ToolVersionError && err.status === 422, `expected a 422, got ${err}`);
+    assert(err.report?.[0]?.issues.some((i: any) => i.code === "http.invalid_token_root"), "report lacks the lint issue");
+  });
+
+  await step("PUBLISH", async () => {
+    const first = await publishDraft(TENANT, "hold_unit", { actor: "alice" });
+    assert(first.version.version === 1, `expected v1, got v${first.version.version}`);
+    const row = await live();
+    assert(row?.version === 1 && row.description === "Hold a unit", "v1 is not live");
+    assert((await getTool(TENANT, "hold_unit")).draft === null, "draft not cleared after publish");
+
+    await saveDraft(TENANT, holdTool("Hold a unit for 15 minutes"));
+    const second = await publishDraft(TENANT, "hold_unit");
+    assert(second.version.version === 2, `expected v2, got v${second.version.version}`);
+    assert((await live())?.description === "Hold a unit for 15 minutes", "v2 is not live");
+  });
+
+  await step("DIFF", async () => {
+    const changes = await diffVersions(TENANT, "hold_unit", 1, 2);
+    assert(changes.length === 1 && changes[0].path === "description", `unexpected diff ${JSON.stringify(changes)}`);
+  });
+
+  await step("ROLLBACK", async () => {
+    const { version } = await rollbackTool(TENANT, "hold_unit", 1, { actor: "bob" });
+    assert(version.version === 3 && version.rollbackOf === 1, `unexpected rollback ${JSON.stringify(version)}`);
+    const row = await live();
+    assert(row?.version === 3 && row.description === "Hold a unit" && row.publishedBy === "bob", "v1 not republished as v3");
+    const versions = await listVersions(TENANT, "hold_unit");
+    assert(versions.map((v) => v.version).join(",") === "3,2,1", "history is not 3,2,1");
+    const missing = await rejects(rollbackTool(TENANT, "hold_unit", 9), "a rollback to a missing version");
+    assert(missing instanceof ToolVersionError && missing.status === 404, `expected a 404, got ${missing}`);
+  });
+
+  await step("WORKFLOW", async () => {
+    await saveDraft(TENANT, bookWorkflow("hold_unit"));
+    const { version } = await publishDraft(TENANT, "book_stay");
+    assert(version.version === 1, `workflow not published: ${JSON.stringify(version)}`);
+
+    const err = await rejects(saveDraft(TENANT, bookWorkflow("confirm_unit")), "a workflow with an unpublished step");
+    assert(err instanceof ToolVersionError && err.status === 422, `expected a 422, got ${err}`);
+    assert(/workflow\.unknown_tool/.test(err.message), `unexpected rejection: ${err.message}`);
+
+    // another tenant's tools don't count
+    const other = await rejects(saveDraft("tenant-b", bookWorkflow("hold_unit")), "a workflow on another tenant's step");
+    assert(/workflow\.unknown_tool/.test(other.message), `unexpected rejection: ${other.message}`);
+  });
+
+  await step("REMOVE", async () => {
+    assert(await removeTool(TENANT, "hold_unit"), "removeTool reported nothing removed");
+    assert(!(await live()), "tool still live");
+    assert((await listVersions(TENANT, "hold_unit")).length === 3, "history lost on remove");
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+/**
+ * vault-test.ts
+ *
+ * Tenant secret vault (lib/secrets/vault) against the in-memory Mongo stand-in
+ * (xtest/mock-mongo). Master keys are generated per run.
+ *
+ * Usage:
+ *   pnpm test:vault
+ *
+ * Steps:
+ *   SEAL      setTenantSecret stores ciphertext only; readTenantSecrets decrypts it
+ *   BOUND     a sealed row copied to another tenant or name does not decrypt
+ *   ROTATE    setting a secret again bumps its version and replaces the value
+ *   MASTER    after a master key change, old rows read through SECRETS_MASTER_KEY_PREVIOUS,
+ *             rewrapTenantSecrets moves them to the new key, then the old key can go
+ *   AUDIT     reads (found or not), sets, rotations and rewraps are audited; listings hide values
+ *   LOGS      a secret the upstream echoes back is redacted in the executor's request and response logs
+ */
+
+import "./mock-mongo/install";
+import crypto from "node:crypto";
+import { createRunner, assert, rejects } from "./harness";
+import {
+  readTenantSecrets,
+  setTenantSecret,
+  rewrapTenantSecrets,
+  listTenantSecrets,
+  listSecretAudit,
+} from "@/lib/secrets/vault";
+import { mockDb } from "./mock-mongo";
+import { fakeUpstream } from "./fake-upstream";
+import { executeHttpTool } from "@/lib/tools/http-executor";
+import { HttpToolDescriptorSchema } from "@/types/httpTool.schema";
+
+const TENANT = "tenant-a";
+const newKey = () => crypto.randomBytes(32).toString("base64");
+const read = (names: string[], tenantId = TENANT) => readTenantSecrets(tenantId, names, { actor: "test" });
+
+async function main() {
+  const { step, finish } = createRunner();
+  const rows = mockDb().collection("tenant_secrets");
+  const oldKey = newKey();
+  process.env.SECRETS_MASTER_KEY = oldKey;
+  delete process.env.SECRETS_MASTER_KEY_PREVIOUS;
+
+  await step("SEAL", async () => {
+    const info = await setTenantSecret(TENANT, "pms_key", "s3cret-value");
+    assert(info.version === 1 && !("value" in info), `unexpected info ${JSON.stringify(info)}`);
+    const raw = await rows.findOne({ tenantId: TENANT, name: "pms_key" });
+    assert(raw && !JSON.stringify(raw).includes("s3cret-value"), "plaintext reached the database");
+    const out = await read(["pms_key", "missing"]);
+    assert(out.pms_key === "s3cret-value" && !("missing" in out), `unexpected read ${JSON.stringify(out)}`);
+  });
+
+  await step("BOUND", async () => {
+    const raw = await rows.findOne({ tenantId: TENANT, name: "pms_key" });
+    const copy: Record<string, any> = { ...raw! };
+    delete copy._id;
+    await rows.insertOne({ ...copy, tenantId: "tenant-b" });
+    await rejects(read(["pms_key"], "tenant-b"), "reading a row copied to another tenant");
+    await rows.insertOne({ ...copy, name: "other_key" });
+    await rejects(read(["other_key"]), "reading a row copied to another name");
+    await rows.deleteMany({ $or: [{ tenantId: "tenant-b" }, { name: "other_key" }] });
+  });
+
+  await step("ROTATE", async () => {
+    const info = await setTenantSecret(TENANT, "pms_key", "rotated-value");
+    assert(info.version === 2 && info.rotatedAt, `unexpected info ${JSON.stringify(info)}`);
+    assert((await read(["pms_key"])).pms_key === "rotated-value", "rotated value not returned");
+  });
+
+  await step("MASTER", async () => {
+    await setTenantSecret(TENANT, "webhook_secret", "whsec");
+    process.env.SECRETS_MASTER_KEY = newKey();
+    await rejects(read(["pms_key"]), "reading with the old master key gone");
+
+    process.env.SECRETS_MASTER_KEY_PREVIOUS = oldKey;
+    const before = await read(["pms_key", "webhook_secret"]);
+    assert(before.pms_key === "rotated-value" && before.webhook_secret === "whsec", "previous key not used");
+
+    const moved = await rewrapTenantSecrets(TENANT);
+    assert(moved === 2, `expected 2 rewrapped, got ${moved}`);
+    assert((await rewrapTenantSecrets(TENANT)) === 0, "second rewrap found stale rows");
+
+    delete process.env.SECRETS_MASTER_KEY_PREVIOUS;
+    const after = await read(["pms_key", "webhook_secret"]);
+    assert(after.pms_key === "rotated-value" && after.webhook_secret === "whsec", "values changed by the rewrap");
+  });
+
+  await step("AUDIT", async () => {
+    const listed = await listTenantSecrets(TENANT);
+    assert(listed.map((s) => s.name).join(",") === "pms_key,webhook_secret", `listed ${listed.map((s) => s.name)}`);
+    assert(listed.every((s) => !("value" in s) && !("dataKey" in s)), "listing exposed sealed values");
+
+    const trail = await listSecretAudit(TENANT, { name: "pms_key", limit: 500 });
+    const actions = new Set(trail.map((e) => e.action));
+    for (const a of ["set", "rotate", "read", "rewrap"]) assert(actions.has(a as any), `no ${a} in the audit trail`);
+    const missing = await listSecretAudit(TENANT, { name: "missing" });
+    assert(missing.length === 1 && missing[0].found === false, "a read of a missing secret was not audited");
+  });
+
+  await step("LOGS", async () => {
+    const up = await fakeUpstream((req) => ({ body: { ok: true, echo: req.headers["x-api-key"] } }));
+    const tool = HttpToolDescriptorSchema.parse({
+      kind: "http_tool",
+      name: "room_rates",
+      http: { method: "GET", urlTemplate: `${up.origin}/rates`, headers: { "x-api-key": "{{secrets.pms_key}}" }, timeoutMs: 2000 },
+    });
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...a: unknown[]) => void lines.push(a.map((x) => (typeof x === "string" ? x : JSON.stringify(x))).join(" "));
+    try {
+      const exec = await executeHttpTool(tool, {}, { tenantId: TENANT, traceId: "test", baseUrl: "" });
+      assert((exec.body as any).echo === "rotated-value", `upstream did not get the secret: ${JSON.stringify(exec.body)}`);
+    } finally {
+      console.log = log;
+      await up.close();
+    }
+    const inbound = lines.find((l) => l.includes("←"));
+    assert(inbound?.includes("[REDACTED]"), `no redacted response log in ${JSON.stringify(lines)}`);
+    assert(!lines.some((l) => l.includes("rotated-value")), "a log line carries the secret");
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
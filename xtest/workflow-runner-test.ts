@@ -0,0 +1,177 @@
+#!/usr/bin/env tsx
+/**
+ * workflow-runner-test.ts
+ *
+ * workflow_tool orchestration (lib/tools/workflow-runner) with a scripted `callStep`
+ * standing in for /api/tools/execute: a hold, payment and confirmation chain.
+ *
+ * Usage:
+ *   pnpm test:workflow
+ *
+ * Steps:
+ *   CHAIN       steps run in order; args template workflow args and earlier responses; result template
+ *   BRANCH      `when` skips, onOk jumps and $end, onFail to a step and $continue
+ *   COMPENSATE  a failed chain undoes completed steps newest first, flagged as compensation;
+ *               a failing or throwing undo is reported, never thrown
+ *   BUDGET      an onOk/onFail cycle stops after 25 step runs (508); timeoutMs stops the chain (504)
+ *   INVALID     unknown step ids answer 422 before any call
+ */
+
+import { createRunner, assert } from "./harness";
+import { runWorkflow, type CallStep, type StepOutcome } from "@/lib/tools/workflow-runner";
+import { WorkflowToolDescriptorSchema } from "@/types/workflowTool.schema";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+type Call = { tool: string; args: Record<string, any>; compensation: boolean };
+
+/** callStep stand-in: `script[tool]` answers (default ok), every call is recorded */
+function steps(script: Record<string, (args: Record<string, any>) => StepOutcome | Promise<StepOutcome>> = {}) {
+  const calls: Call[] = [];
+  const callStep: CallStep = async (tool, args, opts) => {
+    calls.push({ tool, args, compensation: opts.compensation });
+    const answer = script[tool];
+    return answer ? answer(args) : { ok: true, status: 200, response: { ok: true, tool } };
+  };
+  return { callStep, calls, tools: () => calls.map((c) => (c.compensation ? `undo:${c.tool}` : c.tool)).join(",") };
+}
+
+const ok = (response: Record<string, unknown>): StepOutcome => ({ ok: true, status: 200, response: { ok: true, ...response } });
+const fail = (status: number, error: string): StepOutcome => ({ ok: false, status, response: { ok: false, error } });
+
+const bookStay = (over: Record<string, unknown> = {}) =>
+  WorkflowToolDescriptorSchema.parse({
+    kind: "workflow_tool",
+    name: "book_stay",
+    steps: [
+      {
+        id: "hold",
+        tool: "hold_unit",
+        args: { unit: "{{args.unit}}", nights: "{{args.nights}}" },
+        compensate: { tool: "release_hold", args: { holdId: "{{step.response.holdId}}" } },
+      },
+      {
+        id: "pay",
+        tool: "create_payment",
+        args: { holdId: "{{steps.hold.response.holdId}}", amount: "{{steps.hold.response.total}}" },
+        compensate: { tool: "void_payment", args: { paymentId: "{{step.response.paymentId}}" } },
+      },
+      { id: "confirm", tool: "confirm_booking", args: { holdId: "{{steps.hold.response.holdId}}" } },
+    ],
+    result: { reservation: "{{steps.confirm.response.reservationId}}", charged: "{{steps.hold.response.total}}" },
+    ...over,
+  });
+
+const stayArgs = { unit: "u7", nights: 3 };
+
+async function main() {
+  const { step, finish } = createRunner();
+
+  await step("CHAIN", async () => {
+    const s = steps({
+      hold_unit: () => ok({ holdId: "h1", total: 360 }),
+      create_payment: () => ok({ paymentId: "p1" }),
+      confirm_booking: () => ok({ reservationId: "r1" }),
+    });
+    const run = await runWorkflow(bookStay(), stayArgs, { callStep: s.callStep });
+    assert(run.ok && run.status === 200, `run ${JSON.stringify(run.body)}`);
+    assert(s.tools() === "hold_unit,create_payment,confirm_booking", `order ${s.tools()}`);
+    assert(s.calls[0].args.nights === 3 && s.calls[1].args.amount === 360, `whole tokens lost their type: ${JSON.stringify(s.calls[1].args)}`);
+    assert(s.calls[2].args.holdId === "h1", "a step did not see an earlier response");
+    assert(JSON.stringify(run.body) === JSON.stringify({ ok: true, reservation: "r1", charged: 360 }), `result ${JSON.stringify(run.body)}`);
+    assert(run.trace.length === 3 && run.trace.every((t) => !t.compensation), "trace");
+
+    const plain = await runWorkflow(bookStay({ result: undefined }), stayArgs, { callStep: steps().callStep });
+    assert(Object.keys((plain.body as any).steps).join(",") === "hold,pay,confirm", `default result ${JSON.stringify(plain.body)}`);
+  });
+
+  await step("BRANCH", async () => {
+    const wf = WorkflowToolDescriptorSchema.parse({
+      kind: "workflow_tool",
+      name: "checkin",
+      steps: [
+        { id: "lookup", tool: "find_booking", onFail: "create" },
+        { id: "upgrade", tool: "offer_upgrade", when: "{{args.vip}}", onFail: "$continue" },
+        { id: "done", tool: "send_key", onOk: "$end" },
+        { id: "create", tool: "create_booking", onOk: "done" },
+      ],
+    });
+
+    const found = steps();
+    await runWorkflow(wf, { vip: false }, { callStep: found.callStep });
+    assert(found.tools() === "find_booking,send_key", `skipped path ${found.tools()}`);
+
+    const vip = steps({ offer_upgrade: () => fail(409, "no suite free") });
+    const vipRun = await runWorkflow(wf, { vip: true }, { callStep: vip.callStep });
+    assert(vipRun.ok && vip.tools() === "find_booking,offer_upgrade,send_key", `$continue path ${vip.tools()}`);
+
+    const walkIn = steps({ find_booking: () => fail(404, "no booking") });
+    const walkInRun = await runWorkflow(wf, { vip: "" }, { callStep: walkIn.callStep });
+    assert(walkInRun.ok && walkIn.tools() === "find_booking,create_booking,send_key", `onFail path ${walkIn.tools()}`);
+  });
+
+  await step("COMPENSATE", async () => {
+    const s = steps({
+      hold_unit: () => ok({ holdId: "h2", total: 200 }),
+      create_payment: () => ok({ paymentId: "p2" }),
+      confirm_booking: () => fail(409, "unit no longer available"),
+    });
+    const run = await runWorkflow(bookStay(), stayArgs, { callStep: s.callStep });
+    const body = run.body as any;
+    assert(!run.ok && run.status === 409 && body.failedStep === "confirm", `run ${JSON.stringify(body)}`);
+    assert(/unit no longer available/.test(body.error), `error ${body.error}`);
+    assert(s.tools() === "hold_unit,create_payment,confirm_booking,undo:void_payment,undo:release_hold", `order ${s.tools()}`);
+    assert(s.calls[3].args.paymentId === "p2" && s.calls[4].args.holdId === "h2", "undo args not from the undone step");
+    assert(JSON.stringify(body.compensated) === JSON.stringify([{ id: "pay", ok: true }, { id: "hold", ok: true }]), `compensated ${JSON.stringify(body.compensated)}`);
+
+    const broken = steps({
+      hold_unit: () => ok({ holdId: "h3", total: 100 }),
+      create_payment: () => {
+        throw new Error("socket hang up");
+      },
+      release_hold: () => fail(500, "PMS down"),
+    });
+    const brokenRun = await runWorkflow(bookStay(), stayArgs, { callStep: broken.callStep });
+    const b = brokenRun.body as any;
+    assert(brokenRun.status === 500 && b.failedStep === "pay" && /socket hang up/.test(b.error), `thrown step ${JSON.stringify(b)}`);
+    assert(JSON.stringify(b.compensated) === JSON.stringify([{ id: "hold", ok: false }]), `failed undo ${JSON.stringify(b.compensated)}`);
+    assert(brokenRun.trace.some((t) => t.compensation && t.tool === "release_hold" && !t.ok), "failed undo missing from the trace");
+  });
+
+  await step("BUDGET", async () => {
+    const loop = WorkflowToolDescriptorSchema.parse({
+      kind: "workflow_tool",
+      name: "poll_payment",
+      steps: [
+        { id: "hold", tool: "hold_unit", compensate: { tool: "release_hold" } },
+        { id: "check", tool: "payment_status", onOk: "check" },
+      ],
+    });
+    const s = steps();
+    const run = await runWorkflow(loop, {}, { callStep: s.callStep });
+    assert(!run.ok && run.status === 508 && /too many steps/.test((run.body as any).error), `cycle ${JSON.stringify(run.body)}`);
+    assert(s.calls.filter((c) => c.tool === "payment_status").length === 24, `cycle ran ${s.calls.length} calls`);
+    assert(s.calls[s.calls.length - 1].tool === "release_hold", "the hold was not released after the cycle");
+
+    const slow = steps({ create_payment: async () => (await sleep(1100), ok({ paymentId: "p4" })) });
+    const timed = await runWorkflow(bookStay({ timeoutMs: 1000 }), stayArgs, { callStep: slow.callStep });
+    const t = timed.body as any;
+    assert(!timed.ok && timed.status === 504 && t.failedStep === "confirm" && /timed out/.test(t.error), `timeout ${JSON.stringify(t)}`);
+    assert(slow.tools() === "hold_unit,create_payment,undo:void_payment,undo:release_hold", `after the deadline ${slow.tools()}`);
+  });
+
+  await step("INVALID", async () => {
+    const wf = bookStay();
+    const broken = { ...wf, steps: [{ ...wf.steps[0], onOk: "nowhere" }, ...wf.steps.slice(1)] };
+    const s = steps();
+    const run = await runWorkflow(broken, stayArgs, { callStep: s.callStep });
+    assert(run.status === 422 && s.calls.length === 0, `misconfigured chain ran ${s.calls.length} calls (${run.status})`);
+  });
+
+  finish();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});